@@ -0,0 +1,18 @@
+UPDATE "user_profiles" SET "auth_id" = 'local|' || "id" WHERE "auth_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "user_profiles" ALTER COLUMN "auth_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "password_hash" text;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD CONSTRAINT "user_profiles_auth_id_unique" UNIQUE("auth_id");--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "user_sessions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_sessions_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_user_id_user_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
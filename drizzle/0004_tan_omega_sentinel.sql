@@ -0,0 +1,39 @@
+CREATE TABLE IF NOT EXISTS "project_members" (
+	"project_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "project_members_project_id_user_id_pk" PRIMARY KEY("project_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "projects" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"key_prefix" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp,
+	"is_deleted" boolean DEFAULT false NOT NULL,
+	"deleted_at" timestamp,
+	CONSTRAINT "projects_key_prefix_unique" UNIQUE("key_prefix")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_members" ADD CONSTRAINT "project_members_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "project_members" ADD CONSTRAINT "project_members_user_id_user_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "project_id" uuid;--> statement-breakpoint
+INSERT INTO "projects" ("id", "name", "key_prefix") VALUES ('683f1ab7-17e2-4602-8c05-5031f303952f', 'Task List Manager', 'TLM');--> statement-breakpoint
+INSERT INTO "project_members" ("project_id", "user_id") SELECT '683f1ab7-17e2-4602-8c05-5031f303952f', "id" FROM "user_profiles";--> statement-breakpoint
+UPDATE "tasks" SET "project_id" = '683f1ab7-17e2-4602-8c05-5031f303952f';--> statement-breakpoint
+ALTER TABLE "tasks" ALTER COLUMN "project_id" SET NOT NULL;--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "tasks" ADD CONSTRAINT "tasks_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
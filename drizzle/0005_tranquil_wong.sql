@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "task_key_counters" (
+	"key_prefix" text PRIMARY KEY NOT NULL,
+	"last_value" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO "task_key_counters" ("key_prefix", "last_value")
+SELECT "projects"."key_prefix", COALESCE(MAX(substring("tasks"."key" from '-(\d+)$')::integer), 0)
+FROM "projects"
+LEFT JOIN "tasks" ON "tasks"."project_id" = "projects"."id"
+GROUP BY "projects"."key_prefix"
+ON CONFLICT ("key_prefix") DO NOTHING;
@@ -0,0 +1,28 @@
+CREATE TYPE "public"."task_link_types" AS ENUM('blocks', 'relates_to', 'duplicates');--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "task_links" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"source_task_id" uuid NOT NULL,
+	"target_task_id" uuid NOT NULL,
+	"type" "task_link_types" NOT NULL,
+	"created_by_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "task_links_source_task_id_target_task_id_type_unique" UNIQUE("source_task_id","target_task_id","type")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "task_links" ADD CONSTRAINT "task_links_source_task_id_tasks_id_fk" FOREIGN KEY ("source_task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "task_links" ADD CONSTRAINT "task_links_target_task_id_tasks_id_fk" FOREIGN KEY ("target_task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "task_links" ADD CONSTRAINT "task_links_created_by_id_user_profiles_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."user_profiles"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
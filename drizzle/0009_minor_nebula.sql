@@ -0,0 +1,8 @@
+ALTER TABLE "tasks" ADD COLUMN "rank" double precision DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+UPDATE "tasks" SET "rank" = "ranked"."position" * 1024
+FROM (
+	SELECT "id", ROW_NUMBER() OVER (PARTITION BY "project_id", "status" ORDER BY "created_at") AS "position"
+	FROM "tasks"
+) AS "ranked"
+WHERE "tasks"."id" = "ranked"."id";
@@ -0,0 +1,4 @@
+ALTER TYPE "public"."notification_types" ADD VALUE 'assigned';--> statement-breakpoint
+ALTER TYPE "public"."notification_types" ADD VALUE 'status_changed';--> statement-breakpoint
+ALTER TYPE "public"."notification_types" ADD VALUE 'commented';--> statement-breakpoint
+ALTER TABLE "notifications" ADD COLUMN "status" "task_statuses";
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE IF NOT EXISTS "task_watchers" (
+	"task_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "task_watchers_task_id_user_id_pk" PRIMARY KEY("task_id","user_id")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "task_watchers" ADD CONSTRAINT "task_watchers_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "task_watchers" ADD CONSTRAINT "task_watchers_user_id_user_profiles_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user_profiles"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+INSERT INTO "task_watchers" ("task_id", "user_id")
+SELECT "id", "reporter_id" FROM "tasks" WHERE "reporter_id" IS NOT NULL
+UNION
+SELECT "id", "assignee_id" FROM "tasks" WHERE "assignee_id" IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "task_comment_revisions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"comment_id" uuid NOT NULL,
+	"content" text NOT NULL,
+	"created_at" timestamp NOT NULL,
+	"replaced_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "task_comment_revisions" ADD CONSTRAINT "task_comment_revisions_comment_id_task_comments_id_fk" FOREIGN KEY ("comment_id") REFERENCES "public"."task_comments"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
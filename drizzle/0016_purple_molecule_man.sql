@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS "order_no_counters" (
+	"prefix" text PRIMARY KEY NOT NULL,
+	"last_value" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO "order_no_counters" ("prefix", "last_value")
+SELECT 'ORD', COALESCE(MAX(substring("order_no" from '^ORD-(\d+)$')::integer), 0)
+FROM "orders"
+ON CONFLICT ("prefix") DO NOTHING;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_order_no_unique" UNIQUE("order_no");
\ No newline at end of file
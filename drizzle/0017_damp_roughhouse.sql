@@ -0,0 +1 @@
+CREATE UNIQUE INDEX IF NOT EXISTS "products_product_code_unique" ON "products" USING btree ("product_code") WHERE "products"."is_deleted" = false;
\ No newline at end of file
@@ -0,0 +1,207 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/database/drizzle";
+import {
+  attachments,
+  uploadAttachmentSchema,
+} from "@/database/schemas/task.schema";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
+import { getStorage } from "@/lib/storage";
+import { ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE } from "@/constants";
+import {
+  getAttachmentUrl,
+  getCommentTaskId,
+  getMemberAttachment,
+  getMemberTask,
+} from "@/database/services/attachment.service";
+
+// Whether a type is one of the allowed types or families
+const isAllowedType = (contentType: string) =>
+  ALLOWED_ATTACHMENT_TYPES.includes(contentType) ||
+  ALLOWED_ATTACHMENT_TYPES.includes(`${contentType.split("/")[0]}/*`);
+
+// Types a browser may render in place, SVG excluded as it can run scripts
+const isInlineType = (contentType: string) =>
+  contentType.startsWith("image/") && contentType !== "image/svg+xml";
+
+/**
+ * Attachments API
+ * Uploads files to the storage driver and serves them back
+ */
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
+
+  /**
+   * POST /attachments
+   * Upload a file, optionally for a task or one of its comments
+   */
+  .post("/", zValidator("form", uploadAttachmentSchema), async (c) => {
+    try {
+      const { file, commentId } = c.req.valid("form");
+      const userId = c.get("userProfile").id;
+
+      if (file.size === 0) {
+        return c.json({ error: "The file is empty" }, 400);
+      }
+      if (file.size > MAX_ATTACHMENT_SIZE) {
+        return c.json(
+          {
+            error: `Files can be at most ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB`,
+          },
+          413,
+        );
+      }
+
+      if (!isAllowedType(file.type)) {
+        return c.json({ error: "This file type is not allowed" }, 415);
+      }
+
+      // A comment's file also belongs to the comment's task
+      const taskId = commentId
+        ? await getCommentTaskId(commentId)
+        : c.req.valid("form").taskId;
+
+      if (commentId && !taskId) {
+        return c.json({ error: "Comment not found" }, 404);
+      }
+      if (taskId && !(await getMemberTask(taskId, userId))) {
+        return c.json({ error: "Task not found" }, 404);
+      }
+
+      const id = crypto.randomUUID();
+      const contentType = file.type;
+      const storage = getStorage();
+
+      await storage.put(
+        id,
+        new Uint8Array(await file.arrayBuffer()),
+        contentType,
+      );
+
+      try {
+        const [attachment] = await db
+          .insert(attachments)
+          .values({
+            id,
+            taskId,
+            commentId,
+            uploadedById: userId,
+            fileName: file.name || "file",
+            contentType,
+            size: file.size,
+            storageKey: id,
+          })
+          .returning({
+            id: attachments.id,
+            fileName: attachments.fileName,
+            contentType: attachments.contentType,
+            size: attachments.size,
+            createdAt: attachments.createdAt,
+          });
+
+        return c.json({ ...attachment, url: getAttachmentUrl(id) }, 201);
+      } catch (error) {
+        // No row points to the file, so it is not kept
+        await storage.remove(id);
+        throw error;
+      }
+    } catch (error) {
+      console.error("Error uploading attachment:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * GET /attachments/:id
+   * Download a file, images are shown in place
+   */
+  .get(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        const attachment = await getMemberAttachment(
+          id,
+          c.get("userProfile").id,
+        );
+
+        if (!attachment) {
+          return c.json({ error: "Attachment not found" }, 404);
+        }
+
+        const storage = getStorage();
+        const contentDisposition = `${isInlineType(attachment.contentType) ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`;
+
+        // Drivers with signed URLs serve the file from the bucket
+        if (storage.getDownloadUrl) {
+          return c.redirect(
+            await storage.getDownloadUrl(attachment.storageKey, {
+              contentType: attachment.contentType,
+              contentDisposition,
+            }),
+            302,
+          );
+        }
+
+        const body = await storage.get(attachment.storageKey);
+
+        if (!body) {
+          return c.json({ error: "Attachment not found" }, 404);
+        }
+
+        return c.body(body, 200, {
+          "Content-Type": attachment.contentType,
+          "Content-Length": attachment.size.toString(),
+          "Content-Disposition": contentDisposition,
+          "X-Content-Type-Options": "nosniff",
+          // Stored files never change under their ID
+          "Cache-Control": "private, max-age=31536000, immutable",
+        });
+      } catch (error) {
+        console.error("Error fetching attachment:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * DELETE /attachments/:id
+   * Delete a file, any member of its task's project may do so. Files of
+   * no task yet can only be deleted by their uploader
+   */
+  .delete(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+        const userId = c.get("userProfile").id;
+
+        const attachment = await getMemberAttachment(id, userId);
+
+        if (!attachment) {
+          return c.json({ error: "Attachment not found" }, 404);
+        }
+
+        await db.delete(attachments).where(eq(attachments.id, id));
+
+        // The row is gone, a file left behind is only logged
+        try {
+          await getStorage().remove(attachment.storageKey);
+        } catch (error) {
+          console.error("Error removing stored attachment:", error);
+        }
+
+        return c.json({ message: "Attachment deleted successfully" }, 200);
+      } catch (error) {
+        console.error("Error deleting attachment:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  );
+
+export default app;
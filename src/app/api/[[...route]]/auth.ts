@@ -0,0 +1,142 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { deleteCookie, getCookie, setCookie } from "hono/cookie";
+import type { Context } from "hono";
+import {
+  signInSchema,
+  signUpSchema,
+} from "../../../database/schemas/auth.schema";
+import {
+  createPasswordAccount,
+  createSession,
+  deleteSession,
+  getUserCredentials,
+} from "@/database/services/auth.service";
+import {
+  generateSessionToken,
+  hashPassword,
+  hashSessionToken,
+  resolveSessionUser,
+  SESSION_MAX_AGE,
+  verifyPassword,
+} from "@/lib/auth";
+import { SESSION_COOKIE } from "@/constants";
+
+/**
+ * Auth API
+ * Handles sign-in, sign-up and sign-out with the local password provider
+ */
+const app = new Hono()
+  /**
+   * POST /auth/sign-in
+   * Verify credentials and start a session
+   */
+  .post("/sign-in", zValidator("json", signInSchema), async (c) => {
+    try {
+      const { email, password } = c.req.valid("json");
+
+      const user = await getUserCredentials(email);
+
+      if (
+        !user?.passwordHash ||
+        !(await verifyPassword(password, user.passwordHash))
+      ) {
+        return c.json({ error: "Invalid email or password" }, 401);
+      }
+
+      const { passwordHash, ...userProfile } = user;
+      await startSession(c, userProfile.id);
+
+      return c.json(userProfile, 200);
+    } catch (error) {
+      console.error("Error signing in:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * POST /auth/sign-up
+   * Create a password account and start a session
+   */
+  .post("/sign-up", zValidator("json", signUpSchema), async (c) => {
+    try {
+      const { name, email, password } = c.req.valid("json");
+
+      const userProfile = await createPasswordAccount(
+        name,
+        email,
+        await hashPassword(password),
+      );
+
+      if (!userProfile) {
+        return c.json({ error: "Email is already registered" }, 409);
+      }
+
+      await startSession(c, userProfile.id);
+
+      return c.json(userProfile, 201);
+    } catch (error) {
+      console.error("Error signing up:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * POST /auth/sign-out
+   * End the current session
+   */
+  .post("/sign-out", async (c) => {
+    try {
+      const token = getCookie(c, SESSION_COOKIE);
+
+      if (token) {
+        await deleteSession(await hashSessionToken(token));
+      }
+
+      deleteCookie(c, SESSION_COOKIE, { path: "/" });
+
+      return c.json({ message: "Signed out successfully" }, 200);
+    } catch (error) {
+      console.error("Error signing out:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * GET /auth/me
+   * Fetch the signed-in user's profile
+   */
+  .get("/me", async (c) => {
+    try {
+      const userProfile = await resolveSessionUser(c);
+
+      if (!userProfile) {
+        return c.json({ error: "Unauthorized" }, 401);
+      }
+
+      return c.json(userProfile, 200);
+    } catch (error) {
+      console.error("Error fetching current user:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  });
+
+/**
+ * Create a session for the user and set the session cookie
+ */
+async function startSession(c: Context, userId: string) {
+  const token = generateSessionToken();
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE * 1000);
+
+  await createSession(userId, await hashSessionToken(token), expiresAt);
+
+  setCookie(c, SESSION_COOKIE, token, {
+    path: "/",
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "Lax",
+    expires: expiresAt,
+  });
+}
+
+export default app;
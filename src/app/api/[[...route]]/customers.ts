@@ -0,0 +1,144 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
+import {
+  catalogListQuerySchema,
+  insertCustomerSchema,
+  updateCustomerSchema,
+} from "@/database/schemas/order.schema";
+import {
+  getCustomers,
+  getCustomer,
+  createCustomer,
+  updateCustomer,
+  deleteCustomer,
+} from "@/database/services/customer.service";
+
+/**
+ * Customers API
+ * Handles CRUD operations for the customers orders are placed for
+ */
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
+
+  /**
+   * GET /customers
+   * Fetch a page of customers, optionally matching a search on the name,
+   * email or phone
+   */
+  .get("/", zValidator("query", catalogListQuerySchema), async (c) => {
+    try {
+      const query = c.req.valid("query");
+
+      const { customers, total } = await getCustomers(query);
+
+      return c.json(
+        {
+          customers,
+          pagination: {
+            total,
+            page: query.page,
+            pageSize: query.pageSize,
+          },
+        },
+        200,
+      );
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * GET /customers/:id
+   * Fetch a customer
+   */
+  .get(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        const customer = await getCustomer(id);
+
+        if (!customer) {
+          return c.json({ error: "Customer not found" }, 404);
+        }
+
+        return c.json(customer, 200);
+      } catch (error) {
+        console.error("Error fetching customer:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * POST /customers
+   * Create a customer
+   */
+  .post("/", zValidator("json", insertCustomerSchema), async (c) => {
+    try {
+      const customer = await createCustomer(c.req.valid("json"));
+
+      return c.json(customer, 201);
+    } catch (error) {
+      console.error("Error creating customer:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * PATCH /customers/:id
+   * Update a customer
+   */
+  .patch(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", updateCustomerSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        const customer = await updateCustomer(id, c.req.valid("json"));
+
+        if (!customer) {
+          return c.json({ error: "Customer not found" }, 404);
+        }
+
+        return c.json(customer, 200);
+      } catch (error) {
+        console.error("Error updating customer:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * DELETE /customers/:id
+   * Soft delete a customer, the existing orders keep showing them
+   */
+  .delete(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        const customer = await deleteCustomer(id);
+
+        if (!customer) {
+          return c.json({ error: "Customer not found" }, 404);
+        }
+
+        return c.json({ message: "Customer deleted successfully" }, 200);
+      } catch (error) {
+        console.error("Error deleting customer:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  );
+
+export default app;
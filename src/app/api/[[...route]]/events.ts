@@ -0,0 +1,34 @@
+import { Hono } from "hono";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
+import { taskEventsChannel } from "@/lib/events";
+import { streamChannelEvents } from "@/lib/events/sse";
+import { getUserProjects } from "@/database/services/project.service";
+
+/**
+ * Events API
+ * Streams changes made by other users to the signed-in user's clients
+ */
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
+
+  /**
+   * GET /events
+   * Server-sent events announcing the tasks created, updated and deleted
+   * in the projects the user is a member of
+   */
+  .get("/", async (c) => {
+    try {
+      const projects = await getUserProjects(c.get("userProfile").id);
+
+      return streamChannelEvents(
+        c,
+        projects.map((project) => taskEventsChannel(project.id)),
+        "task",
+      );
+    } catch (error) {
+      console.error("Error opening event stream:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  });
+
+export default app;
@@ -0,0 +1,116 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/database/drizzle";
+import { isUniqueViolation } from "@/database/utils";
+import { labels, insertLabelSchema } from "@/database/schemas/task.schema";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
+import { getMemberProject } from "@/database/services/project.service";
+import { getProjectLabels } from "@/database/services/label.service";
+
+/**
+ * Labels API
+ * Handles the labels of a project, only members can see or change them
+ */
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
+
+  /**
+   * GET /labels?project=:projectId
+   * Fetch the labels of a project
+   */
+  .get(
+    "/",
+    zValidator("query", z.object({ project: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { project: projectId } = c.req.valid("query");
+
+        const project = await getMemberProject(
+          projectId,
+          c.get("userProfile").id,
+        );
+
+        if (!project) {
+          return c.json({ error: "Project not found" }, 404);
+        }
+
+        const labelList = await getProjectLabels(projectId);
+
+        return c.json(labelList, 200);
+      } catch (error) {
+        console.error("Error fetching labels:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * POST /labels
+   * Create a label in a project
+   */
+  .post("/", zValidator("json", insertLabelSchema), async (c) => {
+    try {
+      const { projectId, name, color } = c.req.valid("json");
+
+      const project = await getMemberProject(
+        projectId,
+        c.get("userProfile").id,
+      );
+
+      if (!project) {
+        return c.json({ error: "Project not found" }, 404);
+      }
+
+      const [newLabel] = await db
+        .insert(labels)
+        .values({ projectId, name, color: color.toLowerCase() })
+        .returning({ id: labels.id, name: labels.name, color: labels.color });
+
+      return c.json(newLabel, 201);
+    } catch (error) {
+      if (isUniqueViolation(error, "labels_project_id_name_unique")) {
+        return c.json({ error: "A label with this name already exists" }, 409);
+      }
+
+      console.error("Error creating label:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * DELETE /labels/:id
+   * Delete a label, it is removed from every task that carries it
+   */
+  .delete(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        const [label] = await db
+          .select({ projectId: labels.projectId })
+          .from(labels)
+          .where(eq(labels.id, id))
+          .limit(1);
+
+        if (
+          !label ||
+          !(await getMemberProject(label.projectId, c.get("userProfile").id))
+        ) {
+          return c.json({ error: "Label not found" }, 404);
+        }
+
+        await db.delete(labels).where(eq(labels.id, id));
+
+        return c.json({ message: "Label deleted successfully" }, 200);
+      } catch (error) {
+        console.error("Error deleting label:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  );
+
+export default app;
@@ -0,0 +1,71 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { markNotificationsReadSchema } from "@/database/schemas/task.schema";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
+import {
+  getUserNotifications,
+  markNotificationsRead,
+} from "@/database/services/notification.service";
+
+/**
+ * Notifications API
+ * Handles the notifications of the signed-in user
+ */
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
+
+  /**
+   * GET /notifications
+   * Fetch the latest notifications with the number of unread ones
+   */
+  .get(
+    "/",
+    zValidator(
+      "query",
+      z.object({
+        limit: z.coerce.number().int().min(1).max(100).optional().default(20),
+      }),
+    ),
+    async (c) => {
+      try {
+        const { limit } = c.req.valid("query");
+
+        const result = await getUserNotifications(
+          c.get("userProfile").id,
+          limit,
+        );
+
+        return c.json(result, 200);
+      } catch (error) {
+        console.error("Error fetching notifications:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * POST /notifications/mark-read
+   * Mark the given notifications as read, or all of them without IDs
+   */
+  .post(
+    "/mark-read",
+    zValidator("json", markNotificationsReadSchema),
+    async (c) => {
+      try {
+        const { ids } = c.req.valid("json");
+
+        const updated = await markNotificationsRead(
+          c.get("userProfile").id,
+          ids,
+        );
+
+        return c.json({ updated }, 200);
+      } catch (error) {
+        console.error("Error marking notifications as read:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  );
+
+export default app;
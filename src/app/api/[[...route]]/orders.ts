@@ -1,52 +1,117 @@
 import { Hono } from "hono";
-import { getOrders, getOrder } from "@/database/services/order.service";
+import {
+  getOrders,
+  getOrder,
+  getActiveOrder,
+  getOrderFormOptions,
+  validateOrderReferences,
+  reserveOrderNo,
+  createOrder,
+  updateOrder,
+} from "@/database/services/order.service";
+import {
+  getOrderReportConditions,
+  getOrderReports,
+} from "@/database/services/order-report.service";
+import {
+  orderListQuerySchema,
+  orderReportQuerySchema,
+  saveOrderSchema,
+} from "@/database/schemas/order.schema";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
+import { isUniqueViolation } from "@/database/utils";
+
+// Attempts at creating an order before an order number collision is reported
+const MAX_ORDER_NO_ATTEMPTS = 5;
+
+// Orders are addressed by their UUID
+const orderParamSchema = z.object({ id: z.string().uuid() });
 
 /**
- * Tasks API
- * Handles CRUD operations for tasks
+ * Orders API
+ * Handles CRUD operations for orders
  */
-const app = new Hono()
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
 
   /**
    * GET /orders
-   * Fetch all orders
+   * Fetch a page of the orders matching the filters, sorted, with
+   * pagination info
    */
-  .get(
-    "/",
-    zValidator(
-      "query",
-      z.object({
-        page: z.coerce.number().optional().default(1),
-        pageSize: z.coerce.number().optional().default(10),
-      }),
-    ),
-    async (c) => {
-      try {
-        const { page, pageSize } = c.req.valid("query");
+  .get("/", zValidator("query", orderListQuerySchema), async (c) => {
+    try {
+      const query = c.req.valid("query");
 
-        const orders = await getOrders(page, pageSize);
+      const { orders, total } = await getOrders(query);
 
-        if (!orders) {
-          return c.json({ error: "Orders not found" }, 404);
-        }
+      return c.json(
+        {
+          orders,
+          pagination: {
+            total,
+            page: query.page,
+            pageSize: query.pageSize,
+          },
+        },
+        200,
+      );
+    } catch (error) {
+      console.error("Error fetching orders:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
 
-        return c.json(orders, 200);
-      } catch (error) {
-        console.error("Error fetching orders:", error);
-        return c.json({ error: "Internal Server Error" }, 500);
+  /**
+   * GET /orders/form-options
+   * Fetch the customers and products to choose from in the order form
+   */
+  .get("/form-options", async (c) => {
+    try {
+      const options = await getOrderFormOptions();
+
+      return c.json(options, 200);
+    } catch (error) {
+      console.error("Error fetching order form options:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * GET /orders/reports
+   * Fetch the sales of a date range: totals, revenue per day, week or month
+   * and the top products and customers
+   */
+  .get("/reports", zValidator("query", orderReportQuerySchema), async (c) => {
+    try {
+      const { from, to, interval, limit } = c.req.valid("query");
+
+      const whereClause = getOrderReportConditions({ from, to });
+      if (!whereClause) {
+        return c.json({ error: "Invalid date range" }, 400);
       }
-    },
-  )
-  .get("/:id", async (c) => {
+
+      const reports = await getOrderReports({ interval, limit }, whereClause);
+
+      return c.json(reports, 200);
+    } catch (error) {
+      console.error("Error fetching order reports:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * GET /orders/:id
+   * Fetch an order with its customer and line items
+   */
+  .get("/:id", zValidator("param", orderParamSchema), async (c) => {
     try {
-      const id = c.req.param("id");
+      const { id } = c.req.valid("param");
 
       const order = await getOrder(id);
 
-      console.log("order", order);
-
       if (!order) {
         return c.json({ error: "Order not found" }, 404);
       }
@@ -56,6 +121,83 @@ const app = new Hono()
       console.error("Error fetching order:", error);
       return c.json({ error: "Internal Server Error" }, 500);
     }
-  });
+  })
+
+  /**
+   * POST /orders
+   * Create an order with its line items. The order number, the line item
+   * amounts and the total are computed on the server
+   */
+  .post("/", zValidator("json", saveOrderSchema), async (c) => {
+    try {
+      const orderData = c.req.valid("json");
+
+      const referenceError = await validateOrderReferences(orderData);
+      if (referenceError) {
+        return c.json({ error: referenceError }, 400);
+      }
+
+      // A taken number (e.g. an order stored before the counter existed)
+      // is skipped by retrying with the next number of the sequence
+      let orderId: string | undefined;
+      for (let attempt = 1; !orderId; attempt++) {
+        const orderNo = await reserveOrderNo();
+
+        try {
+          orderId = await createOrder(orderData, orderNo);
+        } catch (error) {
+          if (
+            attempt >= MAX_ORDER_NO_ATTEMPTS ||
+            !isUniqueViolation(error, "orders_order_no_unique")
+          ) {
+            throw error;
+          }
+        }
+      }
+
+      const order = await getOrder(orderId);
+
+      return c.json(order, 201);
+    } catch (error) {
+      console.error("Error creating order:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * PATCH /orders/:id
+   * Replace the customer, date and line items of an order, recomputing
+   * the amounts and the total
+   */
+  .patch(
+    "/:id",
+    zValidator("param", orderParamSchema),
+    zValidator("json", saveOrderSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+        const orderData = c.req.valid("json");
+
+        const existingOrder = await getActiveOrder(id);
+        if (!existingOrder) {
+          return c.json({ error: "Order not found" }, 404);
+        }
+
+        const referenceError = await validateOrderReferences(orderData);
+        if (referenceError) {
+          return c.json({ error: referenceError }, 400);
+        }
+
+        await updateOrder(id, orderData);
+
+        const order = await getOrder(id);
+
+        return c.json(order, 200);
+      } catch (error) {
+        console.error("Error updating order:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  );
 
 export default app;
@@ -0,0 +1,159 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
+import { isUniqueViolation } from "@/database/utils";
+import {
+  catalogListQuerySchema,
+  insertProductSchema,
+  updateProductSchema,
+} from "@/database/schemas/order.schema";
+import {
+  getProducts,
+  getProduct,
+  createProduct,
+  updateProduct,
+  deleteProduct,
+} from "@/database/services/product.service";
+
+/**
+ * Products API
+ * Handles CRUD operations for the product catalog
+ */
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
+
+  /**
+   * GET /products
+   * Fetch a page of products, optionally matching a search on the name
+   * or code
+   */
+  .get("/", zValidator("query", catalogListQuerySchema), async (c) => {
+    try {
+      const query = c.req.valid("query");
+
+      const { products, total } = await getProducts(query);
+
+      return c.json(
+        {
+          products,
+          pagination: {
+            total,
+            page: query.page,
+            pageSize: query.pageSize,
+          },
+        },
+        200,
+      );
+    } catch (error) {
+      console.error("Error fetching products:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * GET /products/:id
+   * Fetch a product
+   */
+  .get(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        const product = await getProduct(id);
+
+        if (!product) {
+          return c.json({ error: "Product not found" }, 404);
+        }
+
+        return c.json(product, 200);
+      } catch (error) {
+        console.error("Error fetching product:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * POST /products
+   * Create a product, its code must be unique
+   */
+  .post("/", zValidator("json", insertProductSchema), async (c) => {
+    try {
+      const product = await createProduct(c.req.valid("json"));
+
+      return c.json(product, 201);
+    } catch (error) {
+      if (isUniqueViolation(error, "products_product_code_unique")) {
+        return c.json(
+          { error: "A product with this code already exists" },
+          409,
+        );
+      }
+
+      console.error("Error creating product:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * PATCH /products/:id
+   * Update a product, a new code must be unique
+   */
+  .patch(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", updateProductSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        const product = await updateProduct(id, c.req.valid("json"));
+
+        if (!product) {
+          return c.json({ error: "Product not found" }, 404);
+        }
+
+        return c.json(product, 200);
+      } catch (error) {
+        if (isUniqueViolation(error, "products_product_code_unique")) {
+          return c.json(
+            { error: "A product with this code already exists" },
+            409,
+          );
+        }
+
+        console.error("Error updating product:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * DELETE /products/:id
+   * Soft delete a product, the existing orders keep showing it
+   */
+  .delete(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        const product = await deleteProduct(id);
+
+        if (!product) {
+          return c.json({ error: "Product not found" }, 404);
+        }
+
+        return c.json({ message: "Product deleted successfully" }, 200);
+      } catch (error) {
+        console.error("Error deleting product:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  );
+
+export default app;
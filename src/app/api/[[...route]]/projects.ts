@@ -0,0 +1,215 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { and, eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/database/drizzle";
+import {
+  projects,
+  projectMembers,
+  userProfiles,
+  insertProjectSchema,
+  updateProjectSchema,
+  projectMemberSchema,
+} from "@/database/schemas/task.schema";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
+import {
+  createProject,
+  getMemberProject,
+  getProjectMembers,
+  getUserProjects,
+} from "@/database/services/project.service";
+
+/**
+ * Projects API
+ * Handles projects and their members, only members can see or change a project
+ */
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
+
+  /**
+   * GET /projects
+   * Fetch the projects of the signed-in user
+   */
+  .get("/", async (c) => {
+    try {
+      const projectList = await getUserProjects(c.get("userProfile").id);
+
+      return c.json(projectList, 200);
+    } catch (error) {
+      console.error("Error fetching projects:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * POST /projects
+   * Create a new project, the creator becomes its first member
+   */
+  .post("/", zValidator("json", insertProjectSchema), async (c) => {
+    try {
+      const { name, keyPrefix } = c.req.valid("json");
+
+      const project = await createProject(
+        name,
+        keyPrefix,
+        c.get("userProfile").id,
+      );
+
+      if (!project) {
+        return c.json({ error: "Key prefix is already in use" }, 409);
+      }
+
+      return c.json(project, 201);
+    } catch (error) {
+      console.error("Error creating project:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
+  /**
+   * PATCH /projects/:id
+   * Rename a project, the key prefix is fixed once tasks use it
+   */
+  .patch(
+    "/:id",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", updateProjectSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+        const { name } = c.req.valid("json");
+
+        const project = await getMemberProject(id, c.get("userProfile").id);
+
+        if (!project) {
+          return c.json({ error: "Project not found" }, 404);
+        }
+
+        const [updatedProject] = await db
+          .update(projects)
+          .set({ name, updatedAt: new Date() })
+          .where(eq(projects.id, id))
+          .returning();
+
+        return c.json(updatedProject, 200);
+      } catch (error) {
+        console.error("Error updating project:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * GET /projects/:id/members
+   * Fetch the members of a project
+   */
+  .get(
+    "/:id/members",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        const project = await getMemberProject(id, c.get("userProfile").id);
+
+        if (!project) {
+          return c.json({ error: "Project not found" }, 404);
+        }
+
+        const memberList = await getProjectMembers(id);
+
+        return c.json(memberList, 200);
+      } catch (error) {
+        console.error("Error fetching project members:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * POST /projects/:id/members
+   * Add a user to a project
+   */
+  .post(
+    "/:id/members",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", projectMemberSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+        const { userId } = c.req.valid("json");
+
+        const project = await getMemberProject(id, c.get("userProfile").id);
+
+        if (!project) {
+          return c.json({ error: "Project not found" }, 404);
+        }
+
+        const [user] = await db
+          .select({ id: userProfiles.id })
+          .from(userProfiles)
+          .where(
+            and(eq(userProfiles.id, userId), eq(userProfiles.isDeleted, false)),
+          )
+          .limit(1);
+
+        if (!user) {
+          return c.json({ error: "User not found" }, 404);
+        }
+
+        await db
+          .insert(projectMembers)
+          .values({ projectId: id, userId })
+          .onConflictDoNothing();
+
+        return c.json({ message: "Member added successfully" }, 201);
+      } catch (error) {
+        console.error("Error adding project member:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * DELETE /projects/:id/members/:userId
+   * Remove a user from a project
+   */
+  .delete(
+    "/:id/members/:userId",
+    zValidator(
+      "param",
+      z.object({ id: z.string().uuid(), userId: z.string().uuid() }),
+    ),
+    async (c) => {
+      try {
+        const { id, userId } = c.req.valid("param");
+
+        const project = await getMemberProject(id, c.get("userProfile").id);
+
+        if (!project) {
+          return c.json({ error: "Project not found" }, 404);
+        }
+
+        const [removedMember] = await db
+          .delete(projectMembers)
+          .where(
+            and(
+              eq(projectMembers.projectId, id),
+              eq(projectMembers.userId, userId),
+            ),
+          )
+          .returning();
+
+        if (!removedMember) {
+          return c.json({ error: "Member not found" }, 404);
+        }
+
+        return c.json({ message: "Member removed successfully" }, 200);
+      } catch (error) {
+        console.error("Error removing project member:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  );
+
+export default app;
@@ -4,22 +4,38 @@ import tasks from "./tasks";
 import userProfiles from "./user-profiles";
 import taskComments from "./task-comments";
 import orders from "./orders";
+import customers from "./customers";
+import products from "./products";
+import auth from "./auth";
+import projects from "./projects";
+import labels from "./labels";
+import attachments from "./attachments";
+import notifications from "./notifications";
+import events from "./events";
 /**
  * API Route Configuration
  */
 
-// Set the runtime to edge for better performance
-export const runtime = "edge";
+// Node.js runtime, attachments may be stored on the local filesystem
+export const runtime = "nodejs";
 
 // Initialize Hono app with base path
 const app = new Hono().basePath("/api");
 
 // Define routes
 const routes = app
+  .route("/auth", auth)
+  .route("/projects", projects)
+  .route("/labels", labels)
+  .route("/attachments", attachments)
+  .route("/notifications", notifications)
+  .route("/events", events)
   .route("/tasks", tasks)
   .route("/user-profiles", userProfiles)
   .route("/task-comments", taskComments)
-  .route("/orders", orders);
+  .route("/orders", orders)
+  .route("/customers", customers)
+  .route("/products", products);
 /**
  * HTTP Method Handlers
  * These handlers are used by Vercel to route incoming requests to the Hono app
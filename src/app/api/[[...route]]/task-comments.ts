@@ -1,75 +1,197 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
 import { db } from "@/database/drizzle";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
 import {
   taskComments,
+  taskCommentRevisions,
+  commentReactions,
+  commentReactionSchema,
   insertTaskCommentSchema,
   updateTaskCommentSchema,
   deleteTaskCommentSchema,
-  userProfiles,
+  tasks,
 } from "../../../database/schemas/task.schema";
+import {
+  getCommentTaskId,
+  getMemberTask,
+} from "@/database/services/attachment.service";
+import {
+  notifyCommentWatchers,
+  notifyMentionedUsers,
+} from "@/database/services/notification.service";
+import { watchTask } from "@/database/services/task-watcher.service";
+import {
+  canReplyTo,
+  getCommentReactions,
+  getTaskCommentPage,
+} from "@/database/services/task-comment.service";
+import { getClientId, publish } from "@/lib/events";
+import { streamChannelEvents } from "@/lib/events/sse";
+import { COMMENTS_PAGE_SIZE } from "@/constants";
+
+// Change to the comments of a task, the client refetching what it shows
+interface TaskCommentEvent {
+  type: "created" | "updated" | "deleted" | "reacted";
+  commentId: string;
+  actorId: string;
+  clientId?: string;
+}
+
+const commentChannel = (taskId: string) => `task-comments:${taskId}`;
 
 /**
  * Task Comments API
  * Handles CRUD operations for task comments
  */
-const app = new Hono()
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
+
   /**
-   * GET /task-comments
-   * Fetch list of task comments with optional filtering and pagination
+   * GET /task-comments/:taskId
+   * Fetch a page of the comment threads of a task, newest first, with
+   * their replies and reactions. `before` is the last top-level comment
+   * of the previous page
    */
-  .get("/:taskId", async (c): Promise<Response> => {
-    try {
-      const taskId = c.req.param("taskId");
+  .get(
+    "/:taskId",
+    zValidator("param", z.object({ taskId: z.string().uuid() })),
+    zValidator(
+      "query",
+      z.object({
+        before: z.string().uuid().optional(),
+        limit: z.coerce
+          .number()
+          .int()
+          .min(1)
+          .max(100)
+          .optional()
+          .default(COMMENTS_PAGE_SIZE),
+      }),
+    ),
+    async (c): Promise<Response> => {
+      try {
+        const { taskId } = c.req.valid("param");
+        const query = c.req.valid("query");
 
-      const commentList = await db
-        .select({
-          id: taskComments.id,
-          taskId: taskComments.taskId,
-          content: taskComments.content,
-          createdAt: taskComments.createdAt,
-          updatedAt: taskComments.updatedAt,
-          authorName: userProfiles.name,
-          authorAvatarUrl: userProfiles.avatarUrl,
-        })
-        .from(taskComments)
-        .leftJoin(userProfiles, eq(taskComments.userId, userProfiles.id))
-        .where(
-          and(
-            eq(taskComments.taskId, taskId),
-            eq(taskComments.isDeleted, false),
-          ),
-        )
-        .orderBy(desc(taskComments.createdAt));
+        if (!(await getMemberTask(taskId, c.get("userProfile").id))) {
+          return c.json<{ error: string }>({ error: "Task not found" }, 404);
+        }
+
+        const page = await getTaskCommentPage(taskId, query);
+
+        if (!page) {
+          return c.json<{ error: string }>({ error: "Invalid cursor" }, 400);
+        }
 
-      if (!commentList) {
+        const reactionsByComment = await getCommentReactions(
+          page.comments.map((comment) => comment.id),
+          c.get("userProfile").id,
+        );
+
+        return c.json(
+          {
+            comments: page.comments.map((comment) => ({
+              ...comment,
+              reactions: reactionsByComment.get(comment.id) ?? [],
+            })),
+            nextCursor: page.nextCursor,
+          },
+          200,
+        );
+      } catch (error) {
+        console.error("Error fetching task comments:", error);
         return c.json<{ error: string }>(
-          { error: "Task comments not found" },
-          404,
+          { error: "Internal Server Error" },
+          500,
         );
       }
+    },
+  )
 
-      return c.json(commentList, 200);
-    } catch (error) {
-      console.error("Error fetching task comments:", error);
-      return c.json<{ error: string }>({ error: "Internal Server Error" }, 500);
-    }
-  })
+  /**
+   * GET /task-comments/:taskId/stream
+   * Server-sent events telling the members of a task about changes to
+   * its comments as they happen
+   */
+  .get(
+    "/:taskId/stream",
+    zValidator("param", z.object({ taskId: z.string().uuid() })),
+    async (c) => {
+      const { taskId } = c.req.valid("param");
+
+      if (!(await getMemberTask(taskId, c.get("userProfile").id))) {
+        return c.json({ error: "Task not found" }, 404);
+      }
+
+      return streamChannelEvents(c, [commentChannel(taskId)], "comment");
+    },
+  )
 
   /**
    * POST /task-comments
-   * Create a new task comment
+   * Create a new task comment, or a reply to one, notifying the users
+   * mentioned in it and the watchers of the task
    */
   .post("/:taskId", zValidator("json", insertTaskCommentSchema), async (c) => {
     const taskId = c.req.param("taskId");
 
     try {
       const commentData = c.req.valid("json");
-      const [newComment] = await db
-        .insert(taskComments)
-        .values({ ...commentData, taskId })
-        .returning();
+      const userId = c.get("userProfile").id;
+
+      const task = await getMemberTask(taskId, userId);
+
+      if (!task) {
+        return c.json({ error: "Task not found" }, 404);
+      }
+
+      if (
+        commentData.parentCommentId &&
+        !(await canReplyTo(commentData.parentCommentId, taskId))
+      ) {
+        return c.json(
+          { error: "Only top-level comments can be replied to" },
+          400,
+        );
+      }
+
+      const id = commentData.id ?? crypto.randomUUID();
+      const notificationQueries = [
+        ...(await notifyMentionedUsers({
+          html: commentData.content,
+          actorId: userId,
+          projectId: task.projectId,
+          taskId,
+          commentId: id,
+        })),
+        ...(await notifyCommentWatchers({
+          content: commentData.content,
+          actorId: userId,
+          taskId,
+          commentId: id,
+        })),
+      ];
+
+      const [[newComment]] = await db.batch([
+        db
+          .insert(taskComments)
+          .values({ ...commentData, id, taskId, userId })
+          .returning(),
+        ...notificationQueries,
+        // Commenting on a task is watching it
+        ...watchTask(taskId, [userId]),
+      ]);
+
+      publish<TaskCommentEvent>(commentChannel(taskId), {
+        type: "created",
+        commentId: id,
+        actorId: userId,
+        clientId: getClientId(c),
+      });
+
       return c.json(newComment, 201);
     } catch (error) {
       console.error("Error creating task comment:", error);
@@ -77,24 +199,182 @@ const app = new Hono()
     }
   })
 
+  /**
+   * GET /task-comments/:id/revisions
+   * Fetch the previous versions of an edited comment, newest first
+   */
+  .get(
+    "/:id/revisions",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        const taskId = await getCommentTaskId(id);
+
+        if (
+          !taskId ||
+          !(await getMemberTask(taskId, c.get("userProfile").id))
+        ) {
+          return c.json({ error: "Task comment not found" }, 404);
+        }
+
+        const revisionList = await db
+          .select({
+            id: taskCommentRevisions.id,
+            content: taskCommentRevisions.content,
+            createdAt: taskCommentRevisions.createdAt,
+            replacedAt: taskCommentRevisions.replacedAt,
+          })
+          .from(taskCommentRevisions)
+          .where(eq(taskCommentRevisions.commentId, id))
+          .orderBy(desc(taskCommentRevisions.createdAt));
+
+        return c.json(revisionList, 200);
+      } catch (error) {
+        console.error("Error fetching task comment revisions:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * POST /task-comments/:id/reactions
+   * Toggle the user's reaction with an emoji on a comment: adds it, or
+   * removes it when the user already reacted with that emoji
+   */
+  .post(
+    "/:id/reactions",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", commentReactionSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+        const { emoji } = c.req.valid("json");
+        const userId = c.get("userProfile").id;
+
+        const taskId = await getCommentTaskId(id);
+
+        if (!taskId || !(await getMemberTask(taskId, userId))) {
+          return c.json({ error: "Task comment not found" }, 404);
+        }
+
+        const removedReactions = await db
+          .delete(commentReactions)
+          .where(
+            and(
+              eq(commentReactions.commentId, id),
+              eq(commentReactions.userId, userId),
+              eq(commentReactions.emoji, emoji),
+            ),
+          )
+          .returning({ emoji: commentReactions.emoji });
+        const reacted = removedReactions.length === 0;
+
+        if (reacted) {
+          await db
+            .insert(commentReactions)
+            .values({ commentId: id, userId, emoji })
+            .onConflictDoNothing();
+        }
+
+        publish<TaskCommentEvent>(commentChannel(taskId), {
+          type: "reacted",
+          commentId: id,
+          actorId: userId,
+          clientId: getClientId(c),
+        });
+
+        return c.json({ emoji, reacted }, 200);
+      } catch (error) {
+        console.error("Error toggling comment reaction:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
   /**
    * PATCH /task-comments/:id
-   * Update an existing task comment
+   * Update an existing task comment, keeping the replaced content as a
+   * revision
    */
   .patch("/:id", zValidator("json", updateTaskCommentSchema), async (c) => {
     try {
       const id = c.req.param("id");
       const commentData = c.req.valid("json");
-      const [updatedComment] = await db
-        .update(taskComments)
-        .set(commentData)
-        .where(eq(taskComments.id, id))
-        .returning();
+      const userId = c.get("userProfile").id;
 
+      const [previousComment] = await db
+        .select({
+          taskId: taskComments.taskId,
+          content: taskComments.content,
+          createdAt: taskComments.createdAt,
+          updatedAt: taskComments.updatedAt,
+          projectId: tasks.projectId,
+        })
+        .from(taskComments)
+        .innerJoin(tasks, eq(tasks.id, taskComments.taskId))
+        .where(
+          and(
+            eq(taskComments.id, id),
+            eq(taskComments.userId, userId),
+            eq(taskComments.isDeleted, false),
+          ),
+        )
+        .limit(1);
+
+      // Only the author can edit a live comment
+      if (!previousComment) {
+        return c.json({ error: "Task comment not found" }, 404);
+      }
+
+      // Only users newly mentioned in the edit are notified
+      const notificationQueries = await notifyMentionedUsers({
+        html: commentData.content,
+        previousHtml: previousComment.content,
+        actorId: userId,
+        projectId: previousComment.projectId,
+        taskId: previousComment.taskId,
+        commentId: id,
+      });
+
+      const [[updatedComment]] = await db.batch([
+        db
+          .update(taskComments)
+          .set({ content: commentData.content, updatedAt: new Date() })
+          .where(
+            and(
+              eq(taskComments.id, id),
+              eq(taskComments.userId, userId),
+              eq(taskComments.isDeleted, false),
+            ),
+          )
+          .returning(),
+        ...(commentData.content !== previousComment.content
+          ? [
+              db.insert(taskCommentRevisions).values({
+                commentId: id,
+                content: previousComment.content,
+                createdAt:
+                  previousComment.updatedAt ?? previousComment.createdAt,
+              }),
+            ]
+          : []),
+        ...notificationQueries,
+      ]);
+
+      // Only the author can edit a comment
       if (!updatedComment) {
         return c.json({ error: "Task comment not found" }, 404);
       }
 
+      publish<TaskCommentEvent>(commentChannel(updatedComment.taskId), {
+        type: "updated",
+        commentId: id,
+        actorId: userId,
+        clientId: getClientId(c),
+      });
+
       return c.json(updatedComment, 200);
     } catch (error) {
       console.error("Error updating task comment:", error);
@@ -109,19 +389,28 @@ const app = new Hono()
   .delete("/:id", zValidator("param", deleteTaskCommentSchema), async (c) => {
     try {
       const { id } = c.req.valid("param");
+      const userId = c.get("userProfile").id;
       const [deletedComment] = await db
         .update(taskComments)
         .set({
           isDeleted: true,
           deletedAt: new Date(),
         })
-        .where(eq(taskComments.id, id))
+        .where(and(eq(taskComments.id, id), eq(taskComments.userId, userId)))
         .returning();
 
+      // Only the author can delete a comment
       if (!deletedComment) {
         return c.json({ error: "Task comment not found" }, 404);
       }
 
+      publish<TaskCommentEvent>(commentChannel(deletedComment.taskId), {
+        type: "deleted",
+        commentId: id,
+        actorId: userId,
+        clientId: getClientId(c),
+      });
+
       return c.json({ message: "Task comment deleted successfully" }, 200);
     } catch (error) {
       console.error("Error deleting task comment:", error);
@@ -0,0 +1,151 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { and, eq } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import {
+  labels,
+  projectMembers,
+  projects,
+  taskActivity,
+  taskKeyCounters,
+  tasks,
+  userProfiles,
+} from "@/database/schemas/task.schema";
+import { createSession } from "@/database/services/auth.service";
+import { generateSessionToken, hashSessionToken } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/constants";
+import app from "./tasks";
+
+vi.mock("@/database/drizzle", () => import("@/database/drizzle.mock"));
+
+const userId = crypto.randomUUID();
+const projectId = crypto.randomUUID();
+let cookie: string;
+
+beforeAll(async () => {
+  await db.insert(userProfiles).values({
+    id: userId,
+    authId: `local|${userId}`,
+    name: "Ada",
+    email: "ada@example.com",
+  });
+  await db
+    .insert(projects)
+    .values({ id: projectId, name: "Retry", keyPrefix: "RTY" });
+  await db.insert(projectMembers).values({ projectId, userId });
+
+  const token = generateSessionToken();
+  await createSession(
+    userId,
+    await hashSessionToken(token),
+    new Date(Date.now() + 60_000),
+  );
+  cookie = `${SESSION_COOKIE}=${token}`;
+});
+
+const createTask = (title: string, assigneeId?: string) =>
+  app.request("/", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Cookie: cookie },
+    body: JSON.stringify({ projectId, title, type: "task", assigneeId }),
+  });
+
+describe("POST /tasks", () => {
+  it("retries with the next key when the reserved key is taken", async () => {
+    // A task stored behind the counter's back holds the next key
+    await db
+      .insert(tasks)
+      .values({ projectId, title: "Imported", type: "task", key: "RTY-0001" });
+
+    const response = await createTask("New");
+
+    expect(response.status).toBe(201);
+    const task = await response.json();
+    expect(task).toMatchObject({ key: "RTY-0002", title: "New" });
+
+    // The failed attempt left nothing behind
+    const activity = await db
+      .select()
+      .from(taskActivity)
+      .where(eq(taskActivity.taskId, task.id));
+    expect(activity).toHaveLength(1);
+  });
+
+  it("gives up after the last attempt", async () => {
+    await db.insert(tasks).values(
+      ["RTY-0003", "RTY-0004", "RTY-0005", "RTY-0006", "RTY-0007"].map(
+        (key) => ({
+          projectId,
+          title: "Imported",
+          type: "task" as const,
+          key,
+        }),
+      ),
+    );
+
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const response = await createTask("Blocked");
+
+    expect(response.status).toBe(500);
+    const [counter] = await db
+      .select()
+      .from(taskKeyCounters)
+      .where(eq(taskKeyCounters.keyPrefix, "RTY"));
+    expect(counter.lastValue).toBe(7);
+  });
+
+  it("rejects an assignee outside the project", async () => {
+    const outsiderId = crypto.randomUUID();
+    await db.insert(userProfiles).values({
+      id: outsiderId,
+      authId: `local|${outsiderId}`,
+      name: "Eve",
+      email: "eve@example.com",
+    });
+
+    const response = await createTask("Assigned", outsiderId);
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("PATCH /tasks/:id", () => {
+  it("records the labels added and removed", async () => {
+    const [bug, ui] = await db
+      .insert(labels)
+      .values([
+        { projectId, name: "bug", color: "#ef4444" },
+        { projectId, name: "ui", color: "#3b82f6" },
+      ])
+      .returning();
+    const task = await (await createTask("Labelled")).json();
+
+    const updateLabels = (labelIds: string[]) =>
+      app.request(`/${task.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json", Cookie: cookie },
+        body: JSON.stringify({ labelIds }),
+      });
+
+    await updateLabels([bug.id]);
+    await updateLabels([ui.id]);
+
+    const activity = await db
+      .select({
+        oldValue: taskActivity.oldValue,
+        newValue: taskActivity.newValue,
+      })
+      .from(taskActivity)
+      .where(
+        and(eq(taskActivity.taskId, task.id), eq(taskActivity.field, "labels")),
+      );
+    expect(activity).toEqual(
+      expect.arrayContaining([
+        { oldValue: null, newValue: "bug" },
+        { oldValue: "bug", newValue: null },
+        { oldValue: null, newValue: "ui" },
+      ]),
+    );
+    expect(activity).toHaveLength(3);
+  });
+});
@@ -1,29 +1,108 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
-import {
-  eq,
-  and,
-  desc,
-  asc,
-  SQL,
-  sql,
-  inArray,
-  between,
-  AnyColumn,
-} from "drizzle-orm";
+import { eq, and, or, sql, inArray } from "drizzle-orm";
 import {
   tasks,
+  taskActivity,
+  taskLinks,
+  taskLabels,
+  taskWatchers,
+  insertTaskLinkSchema,
   insertTaskSchema,
+  importTasksSchema,
+  bulkUpdateTasksSchema,
   updateTaskSchema,
+  Task,
 } from "../../../database/schemas/task.schema";
 import { z } from "zod";
 import { db } from "@/database/drizzle";
+import { isUniqueViolation } from "@/database/utils";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
+import {
+  getClientId,
+  publish,
+  TaskEvent,
+  taskEventsChannel,
+} from "@/lib/events";
+import { TASK_RANK_STEP } from "@/constants";
+import {
+  diffTaskChanges,
+  diffTaskLabels,
+  getTaskActivity,
+} from "@/database/services/task-activity.service";
+import {
+  generateProjectTaskKey,
+  getMemberProject,
+  isProjectMember,
+  reserveProjectTaskKeys,
+} from "@/database/services/project.service";
+import {
+  getTaskChildren,
+  getTaskRollup,
+  validateTaskParent,
+} from "@/database/services/task-hierarchy.service";
+import {
+  findTaskLink,
+  getTaskLinks,
+  wouldCreateBlockingCycle,
+} from "@/database/services/task-link.service";
+import {
+  areProjectLabels,
+  getLabelsByTask,
+} from "@/database/services/label.service";
+import {
+  isTaskRankCrowded,
+  rebalanceTaskRanks,
+} from "@/database/services/task-rank.service";
+import {
+  countTaskList,
+  getTaskListConditions,
+  getTaskListPage,
+  taskListQuerySchema,
+} from "@/database/services/task-list.service";
+import {
+  EXPORT_BATCH_SIZE,
+  getExportColumns,
+  streamTaskExport,
+  streamTaskExportXlsx,
+} from "@/database/services/task-export.service";
+import {
+  bulkUpdateTaskQueries,
+  getMemberTasks,
+  validateBulkTaskChanges,
+} from "@/database/services/task-bulk.service";
+import {
+  insertImportedTasks,
+  MAX_IMPORT_ROWS,
+  prepareTaskImport,
+} from "@/database/services/task-import.service";
+import {
+  claimDescriptionAttachments,
+  getMemberTask,
+  getTaskFiles,
+} from "@/database/services/attachment.service";
+import {
+  notifyAssignee,
+  notifyMentionedUsers,
+  notifyStatusChange,
+} from "@/database/services/notification.service";
+import {
+  getTaskWatchers,
+  watchTask,
+} from "@/database/services/task-watcher.service";
+import { XLSX_CONTENT_TYPE } from "@/lib/xlsx";
+import { parseCsv } from "@/lib/csv";
+
+// Attempts at creating a task before a key collision is reported
+const MAX_KEY_ATTEMPTS = 5;
 
 /**
  * Tasks API
  * Handles CRUD operations for tasks
  */
-const app = new Hono()
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
+
   /**
    * GET /tasks
    * Fetch list of tasks with optional filtering and pagination
@@ -32,223 +111,31 @@ const app = new Hono()
     "/list",
     zValidator(
       "query",
-      z.object({
-        // Define and validate query parameters
+      taskListQuerySchema.extend({
         limit: z.coerce.number().optional().default(10),
         offset: z.coerce.number().optional().default(0),
-        search: z.string().optional(),
-        sort: z
-          .enum([
-            "title",
-            "createdAt",
-            "dueDate",
-            "type",
-            "priority",
-            "status",
-            "assigneeName",
-          ])
-          .optional()
-          .default("createdAt"),
-        order: z.enum(["asc", "desc"]).optional().default("desc"),
-        status: z.string().optional(),
-        type: z.string().optional(),
-        priority: z.string().optional(),
-        assignee: z.string().optional(),
-        reporter: z.string().optional(),
-        createdAtFrom: z.string().optional(),
-        createdAtTo: z.string().optional(),
-        dueDateFrom: z.string().optional(),
-        dueDateTo: z.string().optional(),
       }),
     ),
     async (c) => {
       try {
         // Extract validated query parameters
-        const {
-          limit,
-          offset,
-          search,
-          sort,
-          order,
-          status,
-          type,
-          priority,
-          assignee,
-          reporter,
-          createdAtFrom,
-          createdAtTo,
-          dueDateFrom,
-          dueDateTo,
-        } = c.req.valid("query");
-
-        // Initialize array to hold SQL conditions
-        const whereClause: SQL[] = [];
-
-        // Filter out deleted tasks
-        whereClause.push(eq(tasks.isDeleted, false));
-
-        // Add search condition if provided
-        if (search) {
-          whereClause.push(
-            sql`(lower(${tasks.title}) like ${`%${search.toLowerCase()}%`} OR lower(${tasks.key}) like ${`%${search.toLowerCase()}%`})`,
-          );
-        }
-
-        // Process comma-separated filters
-        if (status) {
-          const statusValues = status.split(",").map((s) => s.trim()) as (
-            | "todo"
-            | "in_progress"
-            | "done"
-            | "to_verify"
-            | "closed"
-          )[];
-          whereClause.push(inArray(tasks.status, statusValues));
-        }
-        if (type) {
-          const typeValues = type.split(",").map((t) => t.trim()) as (
-            | "bug"
-            | "story"
-            | "task"
-            | "subtask"
-            | "epic"
-          )[];
-          whereClause.push(inArray(tasks.type, typeValues));
-        }
-        if (priority) {
-          const priorityValues = priority.split(",").map((p) => p.trim()) as (
-            | "low"
-            | "medium"
-            | "high"
-          )[];
-          whereClause.push(inArray(tasks.priority, priorityValues));
-        }
-
-        if (assignee) {
-          const assigneeIds = assignee.split(",").map((a) => a.trim());
-          whereClause.push(inArray(tasks.assigneeId, assigneeIds));
-        }
-
-        if (reporter) {
-          const reporterIds = reporter.split(",").map((r) => r.trim());
-          whereClause.push(inArray(tasks.reporterId, reporterIds));
-        }
-
-        if (createdAtFrom && createdAtTo) {
-          const createdAtFromDate = new Date(createdAtFrom);
-          const createdAtToDate = new Date(createdAtTo);
-
-          if (
-            !isNaN(createdAtFromDate.getTime()) &&
-            !isNaN(createdAtToDate.getTime())
-          ) {
-            whereClause.push(
-              between(tasks.createdAt, createdAtFromDate, createdAtToDate),
-            );
-          } else {
-            console.error("Invalid date format for createdAt range");
-          }
-        }
-
-        if (dueDateFrom && dueDateTo) {
-          const dueDateFromDate = new Date(dueDateFrom);
-          const dueDateToDate = new Date(dueDateTo);
-
-          if (
-            !isNaN(dueDateFromDate.getTime()) &&
-            !isNaN(dueDateToDate.getTime())
-          ) {
-            whereClause.push(
-              between(tasks.dueDate, dueDateFromDate, dueDateToDate),
-            );
-          } else {
-            console.error("Invalid date format for dueDate range");
-          }
-        }
-
-        // Start building the main query
-        // Let query = db.select().from(tasks);
-        let query = db
-          .select({
-            id: tasks.id,
-            key: tasks.key,
-            title: tasks.title,
-            createdAt: tasks.createdAt,
-            updatedAt: tasks.updatedAt,
-            dueDate: tasks.dueDate,
-            description: sql`${""}`,
-            storyPoints: tasks.storyPoints,
-            reporterId: tasks.reporterId,
-            timeEstimate: tasks.timeEstimate,
-            timeSpent: tasks.timeSpent,
-            status: tasks.status,
-            type: tasks.type,
-            priority: tasks.priority,
-            assigneeId: tasks.assigneeId,
-            assigneeName: sql`assigneeUser.name`,
-            assigneeAvatarUrl: sql`assigneeUser.avatar_url`,
-            reporterName: sql`reporterUser.name`,
-            reporterAvatarUrl: sql`reporterUser.avatar_url`,
-          })
-          .from(tasks)
-          .leftJoin(
-            sql`user_profiles as assigneeUser`,
-            sql`tasks.assignee_id = assigneeUser.id`,
-          )
-          .leftJoin(
-            sql`user_profiles as reporterUser`,
-            sql`tasks.reporter_id = reporterUser.id`,
-          );
-
-        // Apply filters if any
-        if (whereClause.length > 0) {
-          query = query.where(and(...whereClause)) as typeof query;
-        }
-
-        // Apply sorting
-        if (sort) {
-          if (sort === "assigneeName") {
-            query = query.orderBy(
-              order === "desc"
-                ? sql`assigneeUser.name desc`
-                : sql`assigneeUser.name asc`,
-            ) as typeof query;
-          } else {
-            const sortColumn = tasks[sort as keyof typeof tasks] as AnyColumn;
-            query = query.orderBy(
-              order === "desc" ? desc(sortColumn) : asc(sortColumn),
-            ) as typeof query;
-          }
-        } else {
-          // Default sorting if not specified
-          query = query.orderBy(desc(tasks.createdAt)) as typeof query;
-        }
-
-        // Apply pagination
-        query = query.limit(limit).offset(offset) as typeof query;
-
-        // Execute the main query
-        const taskList = await query;
-
-        // Construct and execute query for total count
-        let totalCountQuery = db
-          .select({ count: sql`count(${tasks.id})` })
-          .from(tasks);
-
-        if (whereClause.length > 0) {
-          totalCountQuery = totalCountQuery.where(
-            and(...whereClause),
-          ) as typeof totalCountQuery;
-        }
+        const { limit, offset, ...query } = c.req.valid("query");
+        const whereClause = getTaskListConditions(
+          query,
+          c.get("userProfile").id,
+        );
 
-        const [{ count }] = await totalCountQuery;
+        const [taskList, total] = await Promise.all([
+          getTaskListPage(query, whereClause, limit, offset),
+          countTaskList(whereClause),
+        ]);
 
         // Return JSON response with tasks and pagination info
         return c.json(
           {
             tasks: taskList,
             pagination: {
-              total: Number(count),
+              total,
               limit,
               offset,
             },
@@ -263,6 +150,68 @@ const app = new Hono()
     },
   )
 
+  /**
+   * GET /tasks/export
+   * Export the tasks of the list with the same filters and sorting,
+   * optionally only the given tasks and the given table columns
+   */
+  .get(
+    "/export",
+    zValidator(
+      "query",
+      taskListQuerySchema.extend({
+        format: z.enum(["csv", "json", "xlsx"]).optional().default("csv"),
+        columns: z.string().optional(),
+        ids: z
+          .string()
+          .transform((value) => value.split(",").map((id) => id.trim()))
+          .pipe(z.array(z.string().uuid()))
+          .optional(),
+      }),
+    ),
+    async (c) => {
+      try {
+        const { format, columns, ids, ...query } = c.req.valid("query");
+        const whereClause = getTaskListConditions(
+          query,
+          c.get("userProfile").id,
+        );
+
+        // Only the selected rows when given
+        if (ids) {
+          whereClause.push(inArray(tasks.id, ids));
+        }
+
+        const exportColumns = getExportColumns(columns);
+        const fetchBatch = (offset: number) =>
+          getTaskListPage(query, whereClause, EXPORT_BATCH_SIZE, offset);
+
+        const filename = `tasks-${new Date().toISOString().slice(0, 10)}.${format}`;
+        c.header("Content-Disposition", `attachment; filename="${filename}"`);
+
+        if (format === "xlsx") {
+          return c.body(streamTaskExportXlsx(exportColumns, fetchBatch), 200, {
+            "Content-Type": XLSX_CONTENT_TYPE,
+          });
+        }
+
+        return c.body(
+          streamTaskExport(format, exportColumns, fetchBatch),
+          200,
+          {
+            "Content-Type":
+              format === "csv"
+                ? "text/csv; charset=utf-8"
+                : "application/json; charset=utf-8",
+          },
+        );
+      } catch (error) {
+        console.error("Error exporting tasks:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
   /**
    * GET /tasks/:id
    * Fetch a single task by ID
@@ -270,9 +219,18 @@ const app = new Hono()
   .get("/:id", async (c) => {
     try {
       const id = c.req.param("id");
+
+      if (!(await getMemberTask(id, c.get("userProfile").id))) {
+        return c.json({ error: "Task not found" }, 404);
+      }
+
       const [task] = await db
         .select({
           id: tasks.id,
+          projectId: tasks.projectId,
+          parentId: tasks.parentId,
+          parentKey: sql`parentTask.key`,
+          parentTitle: sql`parentTask.title`,
           key: tasks.key,
           title: tasks.title,
           createdAt: tasks.createdAt,
@@ -287,6 +245,7 @@ const app = new Hono()
           type: tasks.type,
           priority: tasks.priority,
           assigneeId: tasks.assigneeId,
+          rank: tasks.rank,
           assigneeName: sql`assigneeUser.name`,
           assigneeAvatarUrl: sql`assigneeUser.avatar_url`,
           reporterName: sql`reporterUser.name`,
@@ -302,6 +261,10 @@ const app = new Hono()
           sql`user_profiles as reporterUser`,
           sql`tasks.reporter_id = reporterUser.id`,
         )
+        .leftJoin(
+          sql`tasks as parentTask`,
+          sql`tasks.parent_id = parentTask.id`,
+        )
         .where(and(eq(tasks.id, id), eq(tasks.isDeleted, false)))
         .limit(1);
 
@@ -309,13 +272,311 @@ const app = new Hono()
         return c.json({ error: "Task not found" }, 404);
       }
 
-      return c.json(task, 200);
+      const labelsByTask = await getLabelsByTask([task.id]);
+
+      return c.json({ ...task, labels: labelsByTask.get(task.id) ?? [] }, 200);
     } catch (error) {
       console.error("Error fetching task:", error);
       return c.json({ error: "Internal Server Error" }, 500);
     }
   })
 
+  /**
+   * GET /tasks/:id/children
+   * Fetch the child items of a task with story points and time spent
+   * rolled up over all of its descendants
+   */
+  .get(
+    "/:id/children",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        if (!(await getMemberTask(id, c.get("userProfile").id))) {
+          return c.json({ error: "Task not found" }, 404);
+        }
+
+        const [children, rollup] = await Promise.all([
+          getTaskChildren(id),
+          getTaskRollup(id),
+        ]);
+
+        return c.json({ children, rollup }, 200);
+      } catch (error) {
+        console.error("Error fetching task children:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * GET /tasks/:id/attachments
+   * Fetch the files attached to a task
+   */
+  .get(
+    "/:id/attachments",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        if (!(await getMemberTask(id, c.get("userProfile").id))) {
+          return c.json({ error: "Task not found" }, 404);
+        }
+
+        const fileList = await getTaskFiles(id);
+
+        return c.json(fileList, 200);
+      } catch (error) {
+        console.error("Error fetching task attachments:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * GET /tasks/:id/watchers
+   * Fetch the users watching a task
+   */
+  .get(
+    "/:id/watchers",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        if (!(await getMemberTask(id, c.get("userProfile").id))) {
+          return c.json({ error: "Task not found" }, 404);
+        }
+
+        const watcherList = await getTaskWatchers(id);
+
+        return c.json(watcherList, 200);
+      } catch (error) {
+        console.error("Error fetching task watchers:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * POST /tasks/:id/watch
+   * Watch a task, to be notified of its comments
+   */
+  .post(
+    "/:id/watch",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+        const userId = c.get("userProfile").id;
+
+        if (!(await getMemberTask(id, userId))) {
+          return c.json({ error: "Task not found" }, 404);
+        }
+
+        await db
+          .insert(taskWatchers)
+          .values({ taskId: id, userId })
+          .onConflictDoNothing();
+
+        return c.json({ message: "Watching the task" }, 200);
+      } catch (error) {
+        console.error("Error watching task:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * DELETE /tasks/:id/watch
+   * Stop watching a task
+   */
+  .delete(
+    "/:id/watch",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        await db
+          .delete(taskWatchers)
+          .where(
+            and(
+              eq(taskWatchers.taskId, id),
+              eq(taskWatchers.userId, c.get("userProfile").id),
+            ),
+          );
+
+        return c.json({ message: "Stopped watching the task" }, 200);
+      } catch (error) {
+        console.error("Error unwatching task:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * GET /tasks/:id/links
+   * Fetch the links of a task to other tasks
+   */
+  .get(
+    "/:id/links",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        if (!(await getMemberTask(id, c.get("userProfile").id))) {
+          return c.json({ error: "Task not found" }, 404);
+        }
+
+        const linkList = await getTaskLinks(id);
+
+        return c.json(linkList, 200);
+      } catch (error) {
+        console.error("Error fetching task links:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * POST /tasks/:id/links
+   * Link a task to another task, e.g. "TLM-1100 blocks TLM-1101"
+   */
+  .post(
+    "/:id/links",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    zValidator("json", insertTaskLinkSchema),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+        const { targetTaskId, type } = c.req.valid("json");
+
+        if (targetTaskId === id) {
+          return c.json({ error: "A task cannot be linked to itself" }, 400);
+        }
+
+        const userId = c.get("userProfile").id;
+        const [sourceTask, targetTask] = await Promise.all([
+          getMemberTask(id, userId),
+          getMemberTask(targetTaskId, userId),
+        ]);
+
+        if (!sourceTask || !targetTask) {
+          return c.json({ error: "Task not found" }, 404);
+        }
+
+        // Links stay within a project, like the parent of a task
+        if (sourceTask.projectId !== targetTask.projectId) {
+          return c.json(
+            { error: "Linked tasks must be in the same project" },
+            400,
+          );
+        }
+
+        if (await findTaskLink(id, targetTaskId, type)) {
+          return c.json({ error: "Tasks are already linked" }, 409);
+        }
+
+        if (
+          type === "blocks" &&
+          (await wouldCreateBlockingCycle(id, targetTaskId))
+        ) {
+          return c.json(
+            { error: "This link would make the tasks block each other" },
+            400,
+          );
+        }
+
+        const [newLink] = await db
+          .insert(taskLinks)
+          .values({
+            sourceTaskId: id,
+            targetTaskId,
+            type,
+            createdById: userId,
+          })
+          .returning();
+
+        return c.json(newLink, 201);
+      } catch (error) {
+        console.error("Error creating task link:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * DELETE /tasks/:id/links/:linkId
+   * Remove a link from either of its tasks
+   */
+  .delete(
+    "/:id/links/:linkId",
+    zValidator(
+      "param",
+      z.object({ id: z.string().uuid(), linkId: z.string().uuid() }),
+    ),
+    async (c) => {
+      try {
+        const { id, linkId } = c.req.valid("param");
+
+        if (!(await getMemberTask(id, c.get("userProfile").id))) {
+          return c.json({ error: "Task not found" }, 404);
+        }
+
+        const [deletedLink] = await db
+          .delete(taskLinks)
+          .where(
+            and(
+              eq(taskLinks.id, linkId),
+              or(
+                eq(taskLinks.sourceTaskId, id),
+                eq(taskLinks.targetTaskId, id),
+              ),
+            ),
+          )
+          .returning();
+
+        if (!deletedLink) {
+          return c.json({ error: "Link not found" }, 404);
+        }
+
+        return c.json({ message: "Link deleted successfully" }, 200);
+      } catch (error) {
+        console.error("Error deleting task link:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
+  /**
+   * GET /tasks/:id/activity
+   * Fetch the activity history of a task
+   */
+  .get(
+    "/:id/activity",
+    zValidator("param", z.object({ id: z.string().uuid() })),
+    async (c) => {
+      try {
+        const { id } = c.req.valid("param");
+
+        if (!(await getMemberTask(id, c.get("userProfile").id))) {
+          return c.json({ error: "Task not found" }, 404);
+        }
+
+        const activityList = await getTaskActivity(id);
+
+        return c.json(activityList, 200);
+      } catch (error) {
+        console.error("Error fetching task activity:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  )
+
   /**
    * POST /tasks
    * Create a new task
@@ -334,28 +595,131 @@ const app = new Hono()
         return c.json({ error: "Invalid dueDate format" }, 400);
       }
 
-      // Remove unnecessary fields and add converted dueDate
+      // Tasks can only be created in projects the user belongs to
+      const project = await getMemberProject(
+        taskData.projectId,
+        c.get("userProfile").id,
+      );
+
+      if (!project) {
+        return c.json({ error: "Project not found" }, 404);
+      }
+
+      const parentError = await validateTaskParent({
+        projectId: project.id,
+        type: taskData.type,
+        parentId: taskData.parentId ?? null,
+      });
 
-      const key = await generateSequentialKey();
+      if (parentError) {
+        return c.json({ error: parentError }, 400);
+      }
 
-      const [newTask] = await db
-        .insert(tasks)
-        .values({
-          id: taskData.id,
-          title: taskData.title,
-          description: taskData.description,
-          type: taskData.type,
-          priority: taskData.priority,
-          status: taskData.status,
+      if (
+        taskData.assigneeId &&
+        !(await isProjectMember(project.id, taskData.assigneeId))
+      ) {
+        return c.json(
+          { error: "Assignee is not a member of this project" },
+          400,
+        );
+      }
+
+      const labelIds = taskData.labelIds ?? [];
+
+      if (!(await areProjectLabels(project.id, labelIds))) {
+        return c.json({ error: "Label not found in this project" }, 400);
+      }
+
+      const id = taskData.id ?? crypto.randomUUID();
+      const actorId = c.get("userProfile").id;
+      const status = taskData.status ?? "todo";
+
+      // New tasks go to the bottom of their board column
+      const rank = sql`(
+        SELECT COALESCE(MAX(${tasks.rank}), 0) + ${TASK_RANK_STEP} FROM ${tasks}
+        WHERE ${tasks.projectId} = ${project.id} AND ${tasks.status} = ${status}
+      )`;
+
+      const notificationQueries = [
+        ...(await notifyMentionedUsers({
+          html: taskData.description,
+          actorId,
+          projectId: project.id,
+          taskId: id,
+        })),
+        ...notifyAssignee({
           assigneeId: taskData.assigneeId,
-          reporterId: taskData.reporterId,
-          key,
-          dueDate,
-          storyPoints: taskData.storyPoints,
-          timeEstimate: taskData.timeEstimate,
-          timeSpent: taskData.timeSpent,
-        })
-        .returning();
+          actorId,
+          taskId: id,
+        }),
+      ];
+
+      // A taken key (e.g. a counter lagging behind imported tasks) is
+      // skipped by retrying with the next number of the sequence
+      let newTask: Task | undefined;
+      for (let attempt = 1; !newTask; attempt++) {
+        const key = await generateProjectTaskKey(project.keyPrefix);
+
+        try {
+          [[newTask]] = await db.batch([
+            db
+              .insert(tasks)
+              .values({
+                id,
+                projectId: project.id,
+                parentId: taskData.parentId,
+                title: taskData.title,
+                description: taskData.description,
+                type: taskData.type,
+                priority: taskData.priority,
+                status,
+                rank,
+                assigneeId: taskData.assigneeId,
+                reporterId: actorId,
+                key,
+                dueDate,
+                storyPoints: taskData.storyPoints,
+                timeEstimate: taskData.timeEstimate,
+                timeSpent: taskData.timeSpent,
+              })
+              .returning(),
+            db.insert(taskActivity).values({
+              taskId: id,
+              actorId,
+              action: "created",
+            }),
+            ...(labelIds.length > 0
+              ? [
+                  db
+                    .insert(taskLabels)
+                    .values(
+                      labelIds.map((labelId) => ({ taskId: id, labelId })),
+                    ),
+                ]
+              : []),
+            ...claimDescriptionAttachments(id, taskData.description, actorId),
+            ...notificationQueries,
+            // The reporter and the assignee watch the task from the start
+            ...watchTask(id, [actorId, taskData.assigneeId]),
+          ]);
+        } catch (error) {
+          if (
+            attempt >= MAX_KEY_ATTEMPTS ||
+            !isUniqueViolation(error, "tasks_key_unique")
+          ) {
+            throw error;
+          }
+        }
+      }
+
+      publish<TaskEvent>(taskEventsChannel(project.id), {
+        type: "task.created",
+        taskId: id,
+        projectId: project.id,
+        actorId,
+        clientId: getClientId(c),
+      });
 
       return c.json(newTask, 201);
     } catch (error) {
@@ -365,6 +729,96 @@ const app = new Hono()
     }
   })
 
+  /**
+   * POST /tasks/import
+   * Import tasks from a CSV file with its columns mapped to task fields.
+   * A dry run only reports the rows that would fail, a real import
+   * creates every row or none at all
+   */
+  .post("/import", zValidator("json", importTasksSchema), async (c) => {
+    try {
+      const { projectId, csv, mapping, dryRun } = c.req.valid("json");
+      const actorId = c.get("userProfile").id;
+
+      const project = await getMemberProject(projectId, actorId);
+
+      if (!project) {
+        return c.json({ error: "Project not found" }, 404);
+      }
+
+      // The row count is checked before any row is looked at
+      const [, ...records] = parseCsv(csv);
+      const total = records.length;
+
+      if (total === 0) {
+        return c.json({ error: "The file has no rows to import" }, 400);
+      }
+      if (total > MAX_IMPORT_ROWS) {
+        return c.json(
+          { error: `Import at most ${MAX_IMPORT_ROWS} rows at a time` },
+          400,
+        );
+      }
+
+      const { rows, errors } = await prepareTaskImport(
+        project.id,
+        records,
+        mapping,
+      );
+
+      if (dryRun || errors.length > 0) {
+        return c.json(
+          { dryRun: true, total, valid: rows.length, imported: 0, errors },
+          dryRun ? 200 : 400,
+        );
+      }
+
+      // A taken key makes the whole batch fail, so it is retried
+      // with fresh keys like a single task
+      for (let attempt = 1; ; attempt++) {
+        const keys = await reserveProjectTaskKeys(
+          project.keyPrefix,
+          rows.length,
+        );
+
+        try {
+          const importedTasks = await insertImportedTasks(rows, keys, actorId);
+
+          importedTasks.forEach((task) =>
+            publish<TaskEvent>(taskEventsChannel(project.id), {
+              type: "task.created",
+              taskId: task.id,
+              projectId: project.id,
+              actorId,
+              clientId: getClientId(c),
+            }),
+          );
+
+          return c.json(
+            {
+              dryRun: false,
+              total,
+              valid: rows.length,
+              imported: importedTasks.length,
+              errors,
+            },
+            201,
+          );
+        } catch (error) {
+          if (
+            attempt >= MAX_KEY_ATTEMPTS ||
+            !isUniqueViolation(error, "tasks_key_unique")
+          ) {
+            throw error;
+          }
+        }
+      }
+    } catch (error) {
+      console.error("Error importing tasks:", error);
+      return c.json({ error: "Internal Server Error" }, 500);
+    }
+  })
+
   /**
    * PATCH /tasks/:id
    * Update an existing task
@@ -373,37 +827,193 @@ const app = new Hono()
     try {
       const id = c.req.param("id");
       const taskData = c.req.valid("json");
-      // Convert dueDate from string to Date object
-
-      const dueDate = taskData.dueDate
-        ? new Date(taskData.dueDate as string)
-        : null;
+      // Convert dueDate from string to Date object, a missing dueDate is
+      // left as is, e.g. when a card is dragged on the board
+      const dueDate =
+        taskData.dueDate === undefined
+          ? undefined
+          : taskData.dueDate
+            ? new Date(taskData.dueDate as string)
+            : null;
 
       if (dueDate && isNaN(dueDate.getTime())) {
         return c.json({ error: "Invalid dueDate format" }, 400);
       }
 
-      const [updatedTask] = await db
+      // Snapshot the current values to record what changed
+      const [previousTask] = await getMemberTasks(
+        [id],
+        c.get("userProfile").id,
+      );
+
+      if (!previousTask) {
+        return c.json({ error: "Task not found" }, 404);
+      }
+
+      const changes = {
+        title: taskData.title,
+        description: taskData.description,
+        type: taskData.type,
+        priority: taskData.priority,
+        status: taskData.status,
+        assigneeId: taskData.assigneeId,
+        dueDate,
+        storyPoints: taskData.storyPoints,
+        timeEstimate: taskData.timeEstimate,
+        timeSpent: taskData.timeSpent,
+        parentId: taskData.parentId,
+        rank: taskData.rank,
+      };
+
+      // Re-check the hierarchy when the task moves or changes type
+      const nextType = changes.type ?? previousTask.type;
+      const nextParentId =
+        changes.parentId === undefined
+          ? previousTask.parentId
+          : changes.parentId;
+
+      if (
+        nextType !== previousTask.type ||
+        nextParentId !== previousTask.parentId
+      ) {
+        const parentError = await validateTaskParent({
+          id,
+          projectId: previousTask.projectId,
+          type: nextType,
+          parentId: nextParentId,
+        });
+
+        if (parentError) {
+          return c.json({ error: parentError }, 400);
+        }
+      }
+
+      if (
+        changes.assigneeId &&
+        !(await isProjectMember(previousTask.projectId, changes.assigneeId))
+      ) {
+        return c.json(
+          { error: "Assignee is not a member of this project" },
+          400,
+        );
+      }
+
+      const { labelIds } = taskData;
+
+      if (
+        labelIds &&
+        !(await areProjectLabels(previousTask.projectId, labelIds))
+      ) {
+        return c.json({ error: "Label not found in this project" }, 400);
+      }
+
+      const activity = [
+        ...diffTaskChanges(previousTask, changes, c.get("userProfile").id),
+        ...(labelIds
+          ? await diffTaskLabels([id], () => labelIds, c.get("userProfile").id)
+          : []),
+      ];
+
+      const updateQuery = db
         .update(tasks)
-        .set({
-          title: taskData.title,
-          description: taskData.description,
-          type: taskData.type,
-          priority: taskData.priority,
-          status: taskData.status,
-          assigneeId: taskData.assigneeId,
-          dueDate,
-          storyPoints: taskData.storyPoints,
-          timeEstimate: taskData.timeEstimate,
-          timeSpent: taskData.timeSpent,
-        })
+        .set({ ...changes, updatedAt: new Date() })
         .where(eq(tasks.id, id))
         .returning();
 
+      // A given label list replaces the task's labels as a whole
+      const labelQueries = labelIds
+        ? [
+            db.delete(taskLabels).where(eq(taskLabels.taskId, id)),
+            ...(labelIds.length > 0
+              ? [
+                  db
+                    .insert(taskLabels)
+                    .values(
+                      labelIds.map((labelId) => ({ taskId: id, labelId })),
+                    ),
+                ]
+              : []),
+          ]
+        : [];
+
+      const attachmentQueries = claimDescriptionAttachments(
+        id,
+        taskData.description,
+        c.get("userProfile").id,
+      );
+
+      // Only users newly mentioned in the description are notified, next
+      // to a new assignee and the reporter of a status change
+      const notificationQueries = [
+        ...(taskData.description !== undefined
+          ? await notifyMentionedUsers({
+              html: taskData.description,
+              previousHtml: previousTask.description,
+              actorId: c.get("userProfile").id,
+              projectId: previousTask.projectId,
+              taskId: id,
+            })
+          : []),
+        ...notifyAssignee({
+          assigneeId: changes.assigneeId,
+          previousAssigneeId: previousTask.assigneeId,
+          actorId: c.get("userProfile").id,
+          taskId: id,
+        }),
+        ...notifyStatusChange({
+          task: previousTask,
+          status: changes.status,
+          actorId: c.get("userProfile").id,
+        }),
+      ];
+
+      // A new assignee starts watching the task
+      const watcherQueries =
+        changes.assigneeId !== previousTask.assigneeId
+          ? watchTask(id, [changes.assigneeId])
+          : [];
+
+      // Write the update, its activity entries, labels, attachments,
+      // notifications and watchers atomically
+      const [[updatedTask]] =
+        activity.length > 0 ||
+        labelQueries.length > 0 ||
+        attachmentQueries.length > 0 ||
+        notificationQueries.length > 0 ||
+        watcherQueries.length > 0
+          ? await db.batch([
+              updateQuery,
+              ...(activity.length > 0
+                ? [db.insert(taskActivity).values(activity)]
+                : []),
+              ...labelQueries,
+              ...attachmentQueries,
+              ...notificationQueries,
+              ...watcherQueries,
+            ])
+          : [await updateQuery];
+
       if (!updatedTask) {
         return c.json({ error: "Task not found" }, 404);
       }
 
+      // Cards dropped into the same gap again and again halve it each time,
+      // so the column is spread out once it gets too small
+      if (
+        changes.rank !== undefined &&
+        (await isTaskRankCrowded(updatedTask))
+      ) {
+        await rebalanceTaskRanks(updatedTask.projectId, updatedTask.status);
+      }
+
+      publish<TaskEvent>(taskEventsChannel(updatedTask.projectId), {
+        type: "task.updated",
+        taskId: id,
+        projectId: updatedTask.projectId,
+        actorId: c.get("userProfile").id,
+        clientId: getClientId(c),
+      });
+
       return c.json(updatedTask, 200);
     } catch (error) {
       console.error("Error updating task:", error);
@@ -421,19 +1031,36 @@ const app = new Hono()
     async (c) => {
       try {
         const { id } = c.req.valid("param");
-        const [deletedTask] = await db
-          .update(tasks)
-          .set({
-            isDeleted: true,
-            deletedAt: new Date(),
-          })
-          .where(eq(tasks.id, id))
-          .returning();
 
-        if (!deletedTask) {
+        const existingTask = await getMemberTask(id, c.get("userProfile").id);
+
+        if (!existingTask) {
           return c.json({ error: "Task not found" }, 404);
         }
 
+        await db.batch([
+          db
+            .update(tasks)
+            .set({
+              isDeleted: true,
+              deletedAt: new Date(),
+            })
+            .where(eq(tasks.id, id)),
+          db.insert(taskActivity).values({
+            taskId: id,
+            actorId: c.get("userProfile").id,
+            action: "deleted",
+          }),
+        ]);
+
+        publish<TaskEvent>(taskEventsChannel(existingTask.projectId), {
+          type: "task.deleted",
+          taskId: id,
+          projectId: existingTask.projectId,
+          actorId: c.get("userProfile").id,
+          clientId: getClientId(c),
+        });
+
         return c.json({ message: "Task deleted successfully" }, 200);
       } catch (error) {
         console.error("Error deleting task:", error);
@@ -448,53 +1075,106 @@ const app = new Hono()
       try {
         const { ids } = c.req.valid("json");
 
-        const deletedTasks = await db
-          .update(tasks)
-          .set({
-            isDeleted: true,
-            deletedAt: new Date(),
-          })
-          .where(inArray(tasks.id, ids))
-          .returning();
+        // Only live tasks of the user's projects get deleted and logged
+        const existingTasks = await getMemberTasks(
+          ids,
+          c.get("userProfile").id,
+        );
 
-        if (deletedTasks.length === 0) {
+        if (existingTasks.length === 0) {
           return c.json({ error: "Tasks not found" }, 404);
         }
 
+        const actorId = c.get("userProfile").id;
+        const deletedIds = existingTasks.map((task) => task.id);
+
+        await db.batch([
+          db
+            .update(tasks)
+            .set({
+              isDeleted: true,
+              deletedAt: new Date(),
+            })
+            .where(inArray(tasks.id, deletedIds)),
+          db.insert(taskActivity).values(
+            deletedIds.map((taskId) => ({
+              taskId,
+              actorId,
+              action: "deleted" as const,
+            })),
+          ),
+        ]);
+
+        existingTasks.forEach((task) =>
+          publish<TaskEvent>(taskEventsChannel(task.projectId), {
+            type: "task.deleted",
+            taskId: task.id,
+            projectId: task.projectId,
+            actorId,
+            clientId: getClientId(c),
+          }),
+        );
+
         return c.json({ message: "Tasks deleted successfully" }, 200);
       } catch (error) {
         console.error("Error deleting tasks:", error);
         return c.json({ error: "Internal Server Error" }, 500);
       }
     },
-  );
+  )
 
-const PREFIX = "TLM"; // Configurable prefix
-
-async function generateSequentialKey() {
-  // Fetch the last highest key number from the database
-  const lastTask = await db
-    .select({ key: tasks.key })
-    .from(tasks)
-    .orderBy(desc(tasks.key))
-    .limit(1);
-
-  let lastNumber = 0;
-  if (lastTask.length > 0) {
-    const lastKey = lastTask[0].key;
-    const match = lastKey.match(/-(\d+)$/);
-    if (match) {
-      lastNumber = parseInt(match[1], 10);
-    }
-  }
+  /**
+   * POST /tasks/bulk-update
+   * Apply the same status, priority, type, assignee, due date or labels
+   * to many tasks at once, all of them or none
+   */
+  .post(
+    "/bulk-update",
+    zValidator("json", bulkUpdateTasksSchema),
+    async (c) => {
+      try {
+        const { ids, changes } = c.req.valid("json");
+        const actorId = c.get("userProfile").id;
+
+        const taskList = await getMemberTasks(ids, actorId);
+
+        if (taskList.length !== new Set(ids).size) {
+          return c.json({ error: "Tasks not found" }, 404);
+        }
 
-  // Increment the number by 1
-  const newNumber = lastNumber + 1;
+        const validationError = await validateBulkTaskChanges(
+          taskList,
+          changes,
+        );
+
+        if (validationError) {
+          return c.json({ error: validationError }, 400);
+        }
+
+        const [firstQuery, ...otherQueries] = await bulkUpdateTaskQueries(
+          taskList,
+          changes,
+          actorId,
+        );
+
+        await db.batch([firstQuery, ...otherQueries]);
 
-  // Format the new key
-  const newKey = `${PREFIX}-${newNumber.toString().padStart(4, "0")}`;
+        taskList.forEach((task) =>
+          publish<TaskEvent>(taskEventsChannel(task.projectId), {
+            type: "task.updated",
+            taskId: task.id,
+            projectId: task.projectId,
+            actorId,
+            clientId: getClientId(c),
+          }),
+        );
 
-  return newKey;
-}
+        return c.json({ updated: taskList.length }, 200);
+      } catch (error) {
+        console.error("Error updating tasks:", error);
+        return c.json({ error: "Internal Server Error" }, 500);
+      }
+    },
+  );
 
 export default app;
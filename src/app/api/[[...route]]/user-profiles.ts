@@ -2,12 +2,14 @@ import { Hono } from "hono";
 import { db } from "@/database/drizzle";
 import { userProfiles } from "../../../database/schemas/task.schema";
 import { eq } from "drizzle-orm";
+import { AuthEnv, authMiddleware } from "@/lib/auth";
 
 /**
  * Fetch user list
  * GET /users
  */
-const app = new Hono()
+const app = new Hono<AuthEnv>()
+  .use(authMiddleware)
   .get("/", async (c) => {
     try {
       const userList = await db
@@ -29,7 +31,13 @@ const app = new Hono()
     try {
       const id = c.req.param("id");
       const user = await db
-        .select()
+        .select({
+          id: userProfiles.id,
+          name: userProfiles.name,
+          avatarUrl: userProfiles.avatarUrl,
+          email: userProfiles.email,
+          authId: userProfiles.authId,
+        })
         .from(userProfiles)
         .where(eq(userProfiles.id, id))
         .limit(1);
@@ -0,0 +1,27 @@
+// Types
+type Params = Promise<{ id: string }>;
+
+// Internal components
+import { CustomerDetails } from "@/features/customers/components/customer-details";
+
+/**
+ * Customer Details Page Component
+ * Displays a customer with the actions to edit or delete it
+ *
+ * @param {Object} props - Component props containing the customer ID
+ */
+export default async function CustomerPage({ params }: { params: Params }) {
+  const { id } = await params;
+
+  return (
+    <main
+      role="main"
+      aria-label={`Customer details for customer ${id}`}
+      className="flex h-full w-full justify-center p-4 md:p-8"
+    >
+      <div className="flex w-full md:max-w-4xl">
+        <CustomerDetails customerId={id} />
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+// Internal imports
+import { CustomerTable } from "@/features/customers/components/customer-table";
+import { useSyncAuthUser } from "@/features/auth/hooks/use-sync-auth-user";
+
+/**
+ * Customers Page Component
+ * Handles user authentication state and renders the customer list
+ *
+ * @returns {JSX.Element} The rendered Customers page
+ */
+export default function CustomersPage(): JSX.Element {
+  // Keep the signed-in user in sync with the session
+  const isClient = useSyncAuthUser();
+
+  return (
+    <main
+      role="main"
+      aria-label="Customers management page"
+      className="min-h-screen px-4"
+    >
+      {isClient && <CustomerTable />}
+    </main>
+  );
+}
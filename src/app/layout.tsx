@@ -11,6 +11,7 @@ import './globals.css';
 // Internal components
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { Toaster } from '@/components/ui/toaster';
+import { AppHeader } from '@/components/app-header';
 
 // Providers
 import { QueryProviders } from '@/providers/query.provider';
@@ -60,6 +61,9 @@ export default function RootLayout({
             // Improve accessibility for screen readers
             aria-hidden="false"
           >
+            {/* Application header */}
+            <AppHeader />
+
             {/* Main content area */}
             <main id="main-content">
               {children}
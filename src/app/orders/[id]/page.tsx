@@ -0,0 +1,27 @@
+// Types
+type Params = Promise<{ id: string }>;
+
+// Internal components
+import { OrderDetails } from "@/features/orders/components/order-details";
+
+/**
+ * Order Details Page Component
+ * Displays an order with its customer and line items
+ *
+ * @param {Object} props - Component props containing the order ID
+ */
+export default async function OrderPage({ params }: { params: Params }) {
+  const { id } = await params;
+
+  return (
+    <main
+      role="main"
+      aria-label={`Order details for order ${id}`}
+      className="flex h-full w-full justify-center p-4 md:p-8"
+    >
+      <div className="flex w-full md:max-w-4xl">
+        <OrderDetails orderId={id} />
+      </div>
+    </main>
+  );
+}
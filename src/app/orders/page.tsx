@@ -0,0 +1,26 @@
+"use client";
+
+// Internal imports
+import { OrderTable } from "@/features/orders/components/order-table";
+import { useSyncAuthUser } from "@/features/auth/hooks/use-sync-auth-user";
+
+/**
+ * Orders Page Component
+ * Handles user authentication state and renders the order list
+ *
+ * @returns {JSX.Element} The rendered Orders page
+ */
+export default function OrdersPage(): JSX.Element {
+  // Keep the signed-in user in sync with the session
+  const isClient = useSyncAuthUser();
+
+  return (
+    <main
+      role="main"
+      aria-label="Orders management page"
+      className="min-h-screen px-4"
+    >
+      {isClient && <OrderTable />}
+    </main>
+  );
+}
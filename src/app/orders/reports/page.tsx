@@ -0,0 +1,26 @@
+"use client";
+
+// Internal imports
+import { SalesDashboard } from "@/features/orders/components/sales-dashboard";
+import { useSyncAuthUser } from "@/features/auth/hooks/use-sync-auth-user";
+
+/**
+ * Sales Reports Page Component
+ * Handles user authentication state and renders the sales dashboard
+ *
+ * @returns {JSX.Element} The rendered Sales Reports page
+ */
+export default function SalesReportsPage(): JSX.Element {
+  // Keep the signed-in user in sync with the session
+  const isClient = useSyncAuthUser();
+
+  return (
+    <main
+      role="main"
+      aria-label="Sales reports page"
+      className="min-h-screen px-4"
+    >
+      {isClient && <SalesDashboard />}
+    </main>
+  );
+}
@@ -0,0 +1,27 @@
+// Types
+type Params = Promise<{ id: string }>;
+
+// Internal components
+import { ProductDetails } from "@/features/products/components/product-details";
+
+/**
+ * Product Details Page Component
+ * Displays a product with the actions to edit or delete it
+ *
+ * @param {Object} props - Component props containing the product ID
+ */
+export default async function ProductPage({ params }: { params: Params }) {
+  const { id } = await params;
+
+  return (
+    <main
+      role="main"
+      aria-label={`Product details for product ${id}`}
+      className="flex h-full w-full justify-center p-4 md:p-8"
+    >
+      <div className="flex w-full md:max-w-4xl">
+        <ProductDetails productId={id} />
+      </div>
+    </main>
+  );
+}
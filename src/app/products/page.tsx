@@ -0,0 +1,26 @@
+"use client";
+
+// Internal imports
+import { ProductTable } from "@/features/products/components/product-table";
+import { useSyncAuthUser } from "@/features/auth/hooks/use-sync-auth-user";
+
+/**
+ * Products Page Component
+ * Handles user authentication state and renders the product list
+ *
+ * @returns {JSX.Element} The rendered Products page
+ */
+export default function ProductsPage(): JSX.Element {
+  // Keep the signed-in user in sync with the session
+  const isClient = useSyncAuthUser();
+
+  return (
+    <main
+      role="main"
+      aria-label="Products management page"
+      className="min-h-screen px-4"
+    >
+      {isClient && <ProductTable />}
+    </main>
+  );
+}
@@ -0,0 +1,26 @@
+// External imports
+import { Suspense } from "react";
+
+// Internal imports
+import { AuthForm } from "@/features/auth/components/auth-form";
+
+/**
+ * Sign In Page Component
+ * Renders the sign-in / sign-up form
+ *
+ * @returns {JSX.Element} The rendered Sign In page
+ */
+export default function SignInPage(): JSX.Element {
+  return (
+    <main
+      role="main"
+      aria-label="Sign in page"
+      className="flex min-h-[calc(100vh-3rem)] items-center justify-center p-4"
+    >
+      {/* The form reads the redirect target from the search params */}
+      <Suspense>
+        <AuthForm />
+      </Suspense>
+    </main>
+  );
+}
@@ -3,6 +3,7 @@ type Params = Promise<{ id: string }>;
 
 // Internal components
 import { TaskDetails } from "@/features/tasks/components/task-details";
+import { TaskEvents } from "@/features/tasks/components/task-events";
 
 export async function generateMetadata({ params }: { params: Params }) {
   const { id } = await params;
@@ -35,6 +36,8 @@ export default async function TaskPage({ params }: { params: Params }) {
       aria-label={`Task details for task ${id}`}
       className="flex h-full w-full items-center justify-center p-4 md:p-8"
     >
+      {/* Show the changes made elsewhere to the task as they happen */}
+      <TaskEvents />
       {/* Content container with responsive max-width */}
       <div
         className="flex h-full w-full items-center justify-center md:max-w-7xl"
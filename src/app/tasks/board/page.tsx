@@ -0,0 +1,30 @@
+"use client";
+
+// Internal imports
+import TaskBoard from "@/features/tasks/components/task-board/task-board";
+import { useSyncAuthUser } from "@/features/auth/hooks/use-sync-auth-user";
+import { useTaskEvents } from "@/features/tasks/queries/task.queries";
+
+/**
+ * Task Board Page Component
+ * Handles user authentication state and renders the task board
+ *
+ * @returns {JSX.Element} The rendered Task Board page
+ */
+export default function TaskBoardPage(): JSX.Element {
+  // Keep the signed-in user in sync with the session
+  useSyncAuthUser();
+
+  // Show the changes other users make to tasks as they happen
+  useTaskEvents();
+
+  return (
+    <main
+      role="main"
+      aria-label="Task board page"
+      className="min-h-screen px-4 py-2"
+    >
+      <TaskBoard />
+    </main>
+  );
+}
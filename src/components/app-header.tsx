@@ -0,0 +1,190 @@
+"use client";
+
+// External dependencies
+import React from "react";
+import Link from "next/link";
+import { usePathname, useRouter } from "next/navigation";
+import { useIsClient } from "@uidotdev/usehooks";
+import {
+  ChartColumn,
+  Contact,
+  KanbanSquare,
+  List,
+  LogOut,
+  Package,
+  ShoppingCart,
+  User,
+} from "lucide-react";
+
+// Internal UI components
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// Utilities, stores and queries
+import { cn } from "@/lib/utils";
+import { useAuthStore } from "@/stores/auth-store";
+import { useSignOut } from "@/features/auth/queries/auth.queries";
+import { NotificationBell } from "@/features/notifications/components/notification-bell";
+
+/**
+ * UserMenu Component
+ * Shows the signed-in user with a sign-out action
+ */
+const UserMenu: React.FC = () => {
+  const router = useRouter();
+  const { userProfile } = useAuthStore();
+  const { mutate: signOut, isPending } = useSignOut();
+
+  if (!userProfile) return null;
+
+  const handleSignOut = () => {
+    signOut(undefined, {
+      onSettled: () => router.replace("/sign-in"),
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          className="flex items-center gap-2"
+          aria-label="User menu"
+        >
+          <Avatar className="size-6">
+            <AvatarImage
+              src={userProfile.avatarUrl ?? ""}
+              className="size-6 object-cover"
+              alt={`${userProfile.name}'s avatar`}
+            />
+            <AvatarFallback>
+              <User
+                className="size-6 rounded-full bg-gray-100 p-1 text-gray-400"
+                aria-hidden="true"
+              />
+            </AvatarFallback>
+          </Avatar>
+          <span className="hidden text-sm font-medium md:block">
+            {userProfile.name}
+          </span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-[200px]">
+        <DropdownMenuLabel className="flex flex-col">
+          <span>{userProfile.name}</span>
+          <span className="truncate text-xs font-normal text-muted-foreground">
+            {userProfile.email}
+          </span>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          onClick={handleSignOut}
+          disabled={isPending}
+          aria-label="Sign out"
+        >
+          <LogOut className="h-4 w-4" aria-hidden="true" />
+          <span>Sign out</span>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+// Views of the task list, then the other sections of the app
+const TASK_VIEWS = [
+  { href: "/tasks", label: "List", icon: List },
+  { href: "/tasks/board", label: "Board", icon: KanbanSquare },
+  { href: "/orders", label: "Orders", icon: ShoppingCart },
+  { href: "/orders/reports", label: "Reports", icon: ChartColumn },
+  { href: "/customers", label: "Customers", icon: Contact },
+  { href: "/products", label: "Products", icon: Package },
+];
+
+/**
+ * ViewNav Component
+ * Switches between the list and board views of the tasks, the orders, the
+ * sales reports and the catalog
+ */
+const ViewNav: React.FC = () => {
+  const pathname = usePathname();
+  const { userProfile } = useAuthStore();
+
+  if (!userProfile) return null;
+
+  return (
+    <nav className="flex items-center gap-1" aria-label="Main navigation">
+      {TASK_VIEWS.map(({ href, label, icon: Icon }) => (
+        <Link
+          key={href}
+          href={href}
+          className={cn(
+            "flex items-center gap-1.5 rounded-md px-2 py-1 text-sm text-stone-500 hover:bg-stone-100 hover:text-stone-900",
+            pathname === href && "bg-stone-100 font-medium text-stone-900",
+          )}
+          aria-current={pathname === href ? "page" : undefined}
+        >
+          <Icon className="size-4" aria-hidden="true" />
+          {label}
+        </Link>
+      ))}
+    </nav>
+  );
+};
+
+/**
+ * HeaderActions Component
+ * The notifications and the user menu, shown once signed in
+ */
+const HeaderActions: React.FC = () => {
+  const { userProfile } = useAuthStore();
+
+  if (!userProfile) return null;
+
+  return (
+    <>
+      <NotificationBell />
+      <UserMenu />
+    </>
+  );
+};
+
+/**
+ * AppHeader Component
+ * Top bar with the application name, the notifications and the user menu
+ *
+ * @component
+ */
+export const AppHeader: React.FC = () => {
+  // The user profile comes from local storage, so render it client side only
+  const isClient = useIsClient();
+
+  return (
+    <header
+      className="flex h-12 items-center justify-between border-b border-stone-200 px-4"
+      role="banner"
+    >
+      <div className="flex items-center gap-6">
+        <Link
+          href="/tasks"
+          className="text-sm font-semibold text-stone-700 hover:text-stone-900"
+        >
+          Task Manager
+        </Link>
+        {isClient && <ViewNav />}
+      </div>
+      <div className="flex items-center gap-2">
+        {isClient && <HeaderActions />}
+      </div>
+    </header>
+  );
+};
+
+export default AppHeader;
@@ -0,0 +1,185 @@
+"use client";
+
+// External dependencies
+import React from "react";
+import {
+  flexRender,
+  Header,
+  SortDirection,
+  Table as TableType,
+} from "@tanstack/react-table";
+import { ArrowDownNarrowWideIcon, ArrowUpWideNarrowIcon } from "lucide-react";
+
+// Internal UI components
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+
+// Utilities & Constants
+import { cn } from "@/lib/utils";
+import { DEFAULT_PAGE_SIZE } from "@/constants";
+
+/**
+ * Props interface for DataTable component
+ * @interface DataTableProps
+ * @template T - Type of the rows, identified by their id
+ * @property {Table<T>} table - TanStack table instance
+ * @property {boolean} isLoading - Whether the rows are still loading
+ * @property {string} label - Accessible name of the table
+ * @property {string} emptyMessage - Shown when there are no rows
+ */
+interface DataTableProps<T extends { id: string }> {
+  table: TableType<T>;
+  isLoading: boolean;
+  label: string;
+  emptyMessage: string;
+}
+
+/**
+ * DataTable Component
+ * Renders the rows of a server-paginated TanStack table with a loading
+ * skeleton and an empty message. Headers of sortable columns toggle the
+ * sorting of the table
+ *
+ * @component
+ * @template T - Type of the rows
+ * @param {DataTableProps<T>} props - Component props
+ *
+ * @example
+ * ```tsx
+ * <DataTable table={table} isLoading={isLoading} label="Orders table"
+ *   emptyMessage="No orders found" />
+ * ```
+ */
+export function DataTable<T extends { id: string }>({
+  table,
+  isLoading,
+  label,
+  emptyMessage,
+}: DataTableProps<T>) {
+  const columnCount = table.getVisibleLeafColumns().length;
+
+  return (
+    <div
+      className="relative h-[calc(100vh-16rem)] overflow-y-auto border border-stone-300 md:h-[calc(100vh-12rem)]"
+      role="region"
+      aria-label={label}
+    >
+      <Table className="min-w-full">
+        <TableHeader className="bg-gray-200">
+          {table.getHeaderGroups().map((headerGroup) => (
+            <TableRow key={headerGroup.id} role="row">
+              {headerGroup.headers.map((header) => (
+                <TableHead
+                  key={header.id}
+                  className="sticky top-0 z-10 border-x border-stone-300 px-4 py-2 text-left text-sm font-medium text-gray-600 hover:bg-gray-200"
+                  role="columnheader"
+                >
+                  {!header.isPlaceholder && <HeaderContent header={header} />}
+                </TableHead>
+              ))}
+            </TableRow>
+          ))}
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            Array.from({ length: DEFAULT_PAGE_SIZE }).map((_, rowIndex) => (
+              <TableRow key={rowIndex} role="row">
+                {Array.from({ length: columnCount }).map((_, columnIndex) => (
+                  <TableCell
+                    key={columnIndex}
+                    className="border border-stone-300 px-4 py-2"
+                    role="cell"
+                  >
+                    <Skeleton className="h-6 w-full" />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          ) : table.getRowModel().rows.length === 0 ? (
+            <TableRow>
+              <TableCell
+                colSpan={columnCount}
+                className="text-center"
+                role="cell"
+              >
+                <p className="text-sm font-medium text-gray-500">
+                  {emptyMessage}
+                </p>
+              </TableCell>
+            </TableRow>
+          ) : (
+            table.getRowModel().rows.map((row, index) => (
+              <TableRow
+                key={row.original.id}
+                className={cn(
+                  "hover:bg-stone-100",
+                  index % 2 === 0 ? "bg-gray-50" : "bg-white",
+                )}
+                role="row"
+              >
+                {row.getVisibleCells().map((cell) => (
+                  <TableCell
+                    key={cell.id}
+                    className="border border-stone-300 px-4 py-2 text-sm text-gray-700"
+                    role="cell"
+                  >
+                    {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/**
+ * HeaderContent Component
+ * Column header, a sort toggle when the column can be sorted
+ */
+function HeaderContent<T>({ header }: { header: Header<T, unknown> }) {
+  const content = flexRender(
+    header.column.columnDef.header,
+    header.getContext(),
+  );
+
+  if (!header.column.getCanSort()) return content;
+
+  return (
+    <button
+      type="button"
+      className="flex cursor-pointer items-center gap-2"
+      onClick={header.column.getToggleSortingHandler()}
+      aria-label={`Sort by ${header.column.columnDef.header}`}
+    >
+      <SortIcon direction={header.column.getIsSorted()} />
+      {content}
+    </button>
+  );
+}
+
+/**
+ * SortIcon Component
+ * Direction the column is sorted in, nothing when it is not sorted
+ */
+const SortIcon: React.FC<{ direction: false | SortDirection }> = ({
+  direction,
+}) => {
+  if (direction === "asc")
+    return <ArrowDownNarrowWideIcon className="size-4" aria-hidden="true" />;
+  if (direction === "desc")
+    return <ArrowUpWideNarrowIcon className="size-4" aria-hidden="true" />;
+  return null;
+};
+
+// Default export for cleaner imports
+export default DataTable;
@@ -0,0 +1,87 @@
+import * as React from 'react'
+import type { SuggestionProps } from '@tiptap/suggestion'
+import type { MentionItem } from '../../types'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { cn } from '@/lib/utils'
+
+export interface MentionListRef {
+  onKeyDown: (event: KeyboardEvent) => boolean
+}
+
+export const MentionList = React.forwardRef<MentionListRef, SuggestionProps<MentionItem>>(
+  ({ items, command }, ref) => {
+    const [selectedIndex, setSelectedIndex] = React.useState(0)
+
+    React.useEffect(() => setSelectedIndex(0), [items])
+
+    const selectItem = React.useCallback(
+      (index: number) => {
+        const item = items[index]
+        if (item) {
+          command({ id: item.id, label: item.label })
+        }
+      },
+      [items, command]
+    )
+
+    React.useImperativeHandle(ref, () => ({
+      onKeyDown: event => {
+        if (items.length === 0) return false
+
+        if (event.key === 'ArrowUp') {
+          setSelectedIndex(index => (index + items.length - 1) % items.length)
+          return true
+        }
+
+        if (event.key === 'ArrowDown') {
+          setSelectedIndex(index => (index + 1) % items.length)
+          return true
+        }
+
+        if (event.key === 'Enter' || event.key === 'Tab') {
+          selectItem(selectedIndex)
+          return true
+        }
+
+        return false
+      }
+    }))
+
+    return (
+      <div
+        className="flex w-56 flex-col overflow-hidden rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        role="listbox"
+        aria-label="People"
+      >
+        {items.length === 0 ? (
+          <span className="px-2 py-1.5 text-sm text-muted-foreground">No people found</span>
+        ) : (
+          items.map((item, index) => (
+            <button
+              key={item.id}
+              type="button"
+              role="option"
+              aria-selected={index === selectedIndex}
+              className={cn(
+                'flex items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm',
+                index === selectedIndex && 'bg-accent text-accent-foreground'
+              )}
+              onMouseEnter={() => setSelectedIndex(index)}
+              onClick={() => selectItem(index)}
+            >
+              <Avatar className="size-5">
+                <AvatarImage src={item.avatarUrl || ''} alt="" />
+                <AvatarFallback className="text-[10px]">{item.label.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="truncate">{item.label}</span>
+            </button>
+          ))
+        )}
+      </div>
+    )
+  }
+)
+
+MentionList.displayName = 'MentionList'
+
+export default MentionList
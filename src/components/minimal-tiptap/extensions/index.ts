@@ -7,3 +7,4 @@ export * from './selection'
 export * from './unset-all-marks'
 export * from './reset-marks-on-enter'
 export * from './file-handler'
+export * from './mention'
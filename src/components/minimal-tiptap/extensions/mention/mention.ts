@@ -0,0 +1,79 @@
+import { Mention as TiptapMention } from '@tiptap/extension-mention'
+import { ReactRenderer } from '@tiptap/react'
+import type { SuggestionKeyDownProps, SuggestionProps } from '@tiptap/suggestion'
+import type { MentionItem } from '../../types'
+import { MentionList, type MentionListRef } from '../../components/mention/mention-list'
+
+// Suggestions shown while typing after @
+const MAX_SUGGESTIONS = 8
+
+/*
+ * Places the popup below the typed query, in viewport coordinates.
+ */
+const positionPopup = (popup: HTMLElement, clientRect?: (() => DOMRect | null) | null) => {
+  const rect = clientRect?.()
+  if (!rect) return
+
+  popup.style.display = ''
+  popup.style.top = `${rect.bottom + 4}px`
+  popup.style.left = `${rect.left}px`
+}
+
+/*
+ * Mention node stored as <span data-type="mention" data-id="..." data-label="...">.
+ * The people offered are read through getItems on each keystroke, so the list
+ * can change after the editor was created.
+ */
+export const createMention = (getItems: () => MentionItem[]) =>
+  TiptapMention.configure({
+    HTMLAttributes: { class: 'mention' },
+    suggestion: {
+      items: ({ query }) =>
+        getItems()
+          .filter(item => item.label.toLowerCase().includes(query.toLowerCase()))
+          .slice(0, MAX_SUGGESTIONS),
+
+      render: () => {
+        let renderer: ReactRenderer<MentionListRef> | null = null
+        let popup: HTMLDivElement | null = null
+
+        return {
+          onStart: (props: SuggestionProps<MentionItem>) => {
+            renderer = new ReactRenderer(MentionList, { props, editor: props.editor })
+
+            popup = document.createElement('div')
+            popup.style.position = 'fixed'
+            popup.style.zIndex = '60'
+            popup.appendChild(renderer.element)
+            document.body.appendChild(popup)
+
+            positionPopup(popup, props.clientRect)
+          },
+
+          onUpdate: (props: SuggestionProps<MentionItem>) => {
+            renderer?.updateProps(props)
+            if (popup) positionPopup(popup, props.clientRect)
+          },
+
+          onKeyDown: ({ event }: SuggestionKeyDownProps) => {
+            // Hidden until the query changes again
+            if (event.key === 'Escape' && popup) {
+              popup.style.display = 'none'
+              return true
+            }
+
+            return renderer?.ref?.onKeyDown(event) ?? false
+          },
+
+          onExit: () => {
+            popup?.remove()
+            renderer?.destroy()
+            popup = null
+            renderer = null
+          }
+        }
+      }
+    }
+  })
+
+export default createMention
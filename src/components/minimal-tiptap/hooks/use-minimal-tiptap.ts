@@ -15,8 +15,10 @@ import {
   Color,
   UnsetAllMarks,
   ResetMarksOnEnter,
-  FileHandler
+  FileHandler,
+  createMention
 } from '../extensions'
+import type { MentionItem } from '../types'
 import { cn } from '@/lib/utils'
 import { blobUrlToBase64, getOutput } from '../utils'
 import { useThrottle } from '../hooks/use-throttle'
@@ -29,9 +31,41 @@ export interface UseMinimalTiptapEditorProps extends UseEditorOptions {
   throttleDelay?: number
   onUpdate?: (content: Content) => void
   onBlur?: (content: Content) => void
+  // Stores a dropped, pasted or picked image and resolves to its URL.
+  // Without it images are inlined as base64
+  uploadFile?: (file: File) => Promise<string>
+  // People offered after typing @
+  mentionItems?: MentionItem[]
 }
 
-const createExtensions = (placeholder: string) => [
+// Uploads each file and inserts the stored image, at the given position if any
+const insertUploadedImages = (
+  editor: Editor,
+  files: File[],
+  uploadFile: (file: File) => Promise<string>,
+  pos?: number
+) => {
+  files.forEach(async file => {
+    try {
+      const src = await uploadFile(file)
+      const image = { type: 'image', attrs: { src, alt: file.name } }
+
+      if (pos === undefined) {
+        editor.commands.insertContent(image)
+      } else {
+        editor.commands.insertContentAt(pos, image)
+      }
+    } catch (error) {
+      console.error('Image upload error', error)
+    }
+  })
+}
+
+const createExtensions = (
+  placeholder: string,
+  uploadFile?: (file: File) => Promise<string>,
+  getMentionItems: () => MentionItem[] = () => []
+) => [
   StarterKit.configure({
     horizontalRule: false,
     codeBlock: false,
@@ -49,11 +83,13 @@ const createExtensions = (placeholder: string) => [
     maxFileSize: 5 * 1024 * 1024,
     allowBase64: true,
     uploadFn: async file => {
-      // wait 5s to simulate a slow upload
-      await new Promise(resolve => setTimeout(resolve, 5000))
+      if (!uploadFile) {
+        return await blobUrlToBase64(file)
+      }
 
-      const url = await blobUrlToBase64(file)
-      return url
+      // Images picked in the dialog arrive as blob URLs
+      const blob = await (await fetch(file)).blob()
+      return await uploadFile(new File([blob], 'image', { type: blob.type }))
     },
     onValidationError(errors) {
       errors.forEach(error => {
@@ -72,11 +108,19 @@ const createExtensions = (placeholder: string) => [
     allowedMimeTypes: ['image/*'],
     maxFileSize: 5 * 1024 * 1024,
     onDrop: (editor, files, pos) => {
+      if (uploadFile) {
+        insertUploadedImages(editor, files, uploadFile, pos)
+        return
+      }
       files.forEach(file =>
         editor.commands.insertContentAt(pos, { type: 'image', attrs: { src: URL.createObjectURL(file) } })
       )
     },
     onPaste: (editor, files) => {
+      if (uploadFile) {
+        insertUploadedImages(editor, files, uploadFile)
+        return
+      }
       files.forEach(file => editor.commands.insertContent({ type: 'image', attrs: { src: URL.createObjectURL(file) } }))
     },
     onValidationError: errors => {
@@ -93,6 +137,7 @@ const createExtensions = (placeholder: string) => [
   HorizontalRule,
   ResetMarksOnEnter,
   CodeBlockLowlight,
+  createMention(getMentionItems),
   Placeholder.configure({ placeholder: () => placeholder })
 ]
 
@@ -104,8 +149,14 @@ export const useMinimalTiptapEditor = ({
   throttleDelay = 0,
   onUpdate,
   onBlur,
+  uploadFile,
+  mentionItems,
   ...props
 }: UseMinimalTiptapEditorProps) => {
+  // The editor keeps its first extensions, so mentions read the latest list
+  const mentionItemsRef = React.useRef(mentionItems)
+  mentionItemsRef.current = mentionItems
+
   const throttledSetValue = useThrottle((value: Content) => onUpdate?.(value), throttleDelay)
 
   const handleUpdate = React.useCallback(
@@ -125,7 +176,7 @@ export const useMinimalTiptapEditor = ({
   const handleBlur = React.useCallback((editor: Editor) => onBlur?.(getOutput(editor, output)), [output, onBlur])
 
   const editor = useEditor({
-    extensions: createExtensions(placeholder),
+    extensions: createExtensions(placeholder, uploadFile, () => mentionItemsRef.current ?? []),
     editorProps: {
       attributes: {
         autocomplete: 'off',
@@ -21,6 +21,8 @@ export interface MinimalTiptapProps
   className?: string;
   editorContentClassName?: string;
   hideToolbar?: boolean;
+  // Marks, lists and links only, e.g. for comments
+  compactToolbar?: boolean;
   bordered?: boolean;
 }
 
@@ -66,6 +68,37 @@ const Toolbar = ({ editor }: { editor: Editor }) => (
   </div>
 );
 
+const CompactToolbar = ({ editor }: { editor: Editor }) => (
+  <div className="shrink-0 overflow-x-auto border-b border-border p-1">
+    <div className="flex w-max items-center gap-px">
+      <SectionTwo
+        editor={editor}
+        activeActions={["bold", "italic", "strikethrough", "code"]}
+        mainActionCount={4}
+        size="sm"
+      />
+
+      <Separator orientation="vertical" className="mx-1 h-6" />
+
+      <SectionFour
+        editor={editor}
+        activeActions={["bulletList", "orderedList"]}
+        mainActionCount={2}
+        size="sm"
+      />
+
+      <Separator orientation="vertical" className="mx-1 h-6" />
+
+      <SectionFive
+        editor={editor}
+        activeActions={["codeBlock", "blockquote"]}
+        mainActionCount={0}
+        size="sm"
+      />
+    </div>
+  </div>
+);
+
 export const MinimalTiptapEditor = React.forwardRef<
   HTMLDivElement,
   MinimalTiptapProps
@@ -77,6 +110,7 @@ export const MinimalTiptapEditor = React.forwardRef<
       className,
       editorContentClassName,
       hideToolbar,
+      compactToolbar,
       bordered = true,
       ...props
     },
@@ -101,7 +135,12 @@ export const MinimalTiptapEditor = React.forwardRef<
           className,
         )}
       >
-        {!hideToolbar && <Toolbar editor={editor} />}
+        {!hideToolbar &&
+          (compactToolbar ? (
+            <CompactToolbar editor={editor} />
+          ) : (
+            <Toolbar editor={editor} />
+          ))}
         <EditorContent
           editor={editor}
           className={cn("minimal-tiptap-editor", editorContentClassName)}
@@ -26,3 +26,9 @@ export interface FormatAction {
   shortcuts: string[]
   value: string
 }
+
+export interface MentionItem {
+  id: string
+  label: string
+  avatarUrl?: string | null
+}
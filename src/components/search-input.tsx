@@ -0,0 +1,79 @@
+"use client";
+
+// External dependencies
+import React, { useEffect, useState } from "react";
+import { useDebounce } from "@uidotdev/usehooks";
+import { SearchIcon, X } from "lucide-react";
+
+// Internal UI components
+import { Input } from "@/components/ui/input";
+
+// Constants
+const DEBOUNCE_DELAY = 500; // milliseconds
+
+/**
+ * Props interface for SearchInput component
+ * @interface SearchInputProps
+ * @property {(search: string) => void} onSearch - Called with the search once typing pauses
+ * @property {string} placeholder - Placeholder and accessible name of the input
+ */
+interface SearchInputProps {
+  onSearch: (search: string) => void;
+  placeholder: string;
+}
+
+/**
+ * SearchInput Component
+ * Search field reporting its value once typing pauses, to prevent
+ * excessive API calls
+ *
+ * @component
+ * @param {SearchInputProps} props - Component props
+ */
+export const SearchInput: React.FC<SearchInputProps> = ({
+  onSearch,
+  placeholder,
+}) => {
+  const [search, setSearch] = useState("");
+  const debouncedSearch = useDebounce(search, DEBOUNCE_DELAY);
+
+  useEffect(() => {
+    onSearch(debouncedSearch);
+  }, [debouncedSearch, onSearch]);
+
+  return (
+    <div
+      className="relative flex w-full items-center gap-2 md:max-w-md"
+      role="search"
+      aria-label={placeholder}
+    >
+      <SearchIcon
+        className="absolute left-4 size-4 text-gray-500"
+        aria-hidden="true"
+      />
+      <Input
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        className="w-full pl-10 pr-10"
+        placeholder={placeholder}
+        aria-label={placeholder}
+        autoComplete="off"
+      />
+      {search && (
+        <button
+          type="button"
+          onClick={() => setSearch("")}
+          className="absolute right-4 flex size-4 items-center justify-center"
+          aria-label="Clear search"
+        >
+          <X
+            className="size-4 cursor-pointer text-gray-500 hover:text-gray-700"
+            aria-hidden="true"
+          />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default SearchInput;
@@ -1 +1,36 @@
-export const DEFAULT_PAGE_SIZE = 15;
\ No newline at end of file
+export const DEFAULT_PAGE_SIZE = 15;
+// Name of the cookie holding the session token
+export const SESSION_COOKIE = "session";
+// Gap between the ranks of neighbouring tasks in a board column
+export const TASK_RANK_STEP = 1024;
+// Ranks closer than this make the board column rebalance, long before
+// halving the gap runs out of precision
+export const MIN_TASK_RANK_GAP = 1 / 1024;
+// Largest file accepted as an attachment, in bytes
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+// File types accepted as attachments, "type/*" allowing a whole family
+export const ALLOWED_ATTACHMENT_TYPES = [
+  "image/*",
+  "text/*",
+  "application/pdf",
+  "application/json",
+  "application/xml",
+  "application/zip",
+  "application/gzip",
+  "application/x-zip-compressed",
+  "application/x-tar",
+  "application/x-7z-compressed",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "application/vnd.ms-powerpoint",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+];
+// Threads of task comments fetched per page
+export const COMMENTS_PAGE_SIZE = 20;
+// Interval of the keep-alive pings sent over idle event streams
+export const EVENT_STREAM_PING_INTERVAL = 25 * 1000;
+// Request header naming the browser tab that sent a change, so that the
+// tab can skip its own events
+export const CLIENT_ID_HEADER = "X-Client-Id";
@@ -5,16 +5,26 @@
 -- 
 --
 
-INSERT INTO public.user_profiles VALUES ('1ec704ca-c658-40e4-8ce9-a5ca79ddf994', NULL, 'Alice Johnson', 'alice.johnson@example.com', 'https://images.unsplash.com/photo-1544725176-7c40e5a71c5e?q=80&w=2934&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:12.518236', NULL, false, NULL);
-INSERT INTO public.user_profiles VALUES ('f2fc5b85-3422-4431-868d-745830536f11', NULL, 'Bob Brown', 'bob.brown@example.com', 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?q=80&w=2960&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:13.228021', NULL, false, NULL);
-INSERT INTO public.user_profiles VALUES ('a2ecc885-7009-4fd6-a1e5-380207d227df', NULL, 'Charlie Davis', 'charlie.davis@example.com', 'https://images.unsplash.com/photo-1557862921-37829c790f19?q=80&w=2942&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:13.461826', NULL, false, NULL);
-INSERT INTO public.user_profiles VALUES ('7312a990-7c90-4df6-b1a9-287af88e5214', NULL, 'Diana Prince', 'diana.prince@example.com', 'https://images.unsplash.com/photo-1604072366595-e75dc92d6bdc?q=80&w=2787&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:13.69467', NULL, false, NULL);
-INSERT INTO public.user_profiles VALUES ('9a06d977-c5d0-4540-bc7c-1178ef469613', NULL, 'Eve Adams', 'eve.adams@example.com', 'https://images.unsplash.com/photo-1564564295391-7f24f26f568b?q=80&w=2952&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:13.925365', NULL, false, NULL);
-INSERT INTO public.user_profiles VALUES ('1d298a3d-9602-449b-8cc7-b68658172337', NULL, 'Frank Miller', 'frank.miller@example.com', 'https://images.unsplash.com/photo-1564564321837-a57b7070ac4f?q=80&w=2952&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:14.14755', NULL, false, NULL);
+INSERT INTO public.user_profiles VALUES ('1ec704ca-c658-40e4-8ce9-a5ca79ddf994', 'local|1ec704ca-c658-40e4-8ce9-a5ca79ddf994', 'Alice Johnson', 'alice.johnson@example.com', 'https://images.unsplash.com/photo-1544725176-7c40e5a71c5e?q=80&w=2934&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:12.518236', NULL, false, NULL);
+INSERT INTO public.user_profiles VALUES ('f2fc5b85-3422-4431-868d-745830536f11', 'local|f2fc5b85-3422-4431-868d-745830536f11', 'Bob Brown', 'bob.brown@example.com', 'https://images.unsplash.com/photo-1535713875002-d1d0cf377fde?q=80&w=2960&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:13.228021', NULL, false, NULL);
+INSERT INTO public.user_profiles VALUES ('a2ecc885-7009-4fd6-a1e5-380207d227df', 'local|a2ecc885-7009-4fd6-a1e5-380207d227df', 'Charlie Davis', 'charlie.davis@example.com', 'https://images.unsplash.com/photo-1557862921-37829c790f19?q=80&w=2942&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:13.461826', NULL, false, NULL);
+INSERT INTO public.user_profiles VALUES ('7312a990-7c90-4df6-b1a9-287af88e5214', 'local|7312a990-7c90-4df6-b1a9-287af88e5214', 'Diana Prince', 'diana.prince@example.com', 'https://images.unsplash.com/photo-1604072366595-e75dc92d6bdc?q=80&w=2787&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:13.69467', NULL, false, NULL);
+INSERT INTO public.user_profiles VALUES ('9a06d977-c5d0-4540-bc7c-1178ef469613', 'local|9a06d977-c5d0-4540-bc7c-1178ef469613', 'Eve Adams', 'eve.adams@example.com', 'https://images.unsplash.com/photo-1564564295391-7f24f26f568b?q=80&w=2952&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:13.925365', NULL, false, NULL);
+INSERT INTO public.user_profiles VALUES ('1d298a3d-9602-449b-8cc7-b68658172337', 'local|1d298a3d-9602-449b-8cc7-b68658172337', 'Frank Miller', 'frank.miller@example.com', 'https://images.unsplash.com/photo-1564564321837-a57b7070ac4f?q=80&w=2952&auto=format&fit=crop&ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D', '2024-10-20 07:57:14.14755', NULL, false, NULL);
 
 
 
 
+--
+-- Project sample data script
+--
+INSERT INTO public.projects VALUES ('683f1ab7-17e2-4602-8c05-5031f303952f', 'Task List Manager', 'TLM', '2024-10-20 07:57:12.518236', NULL, false, NULL) ON CONFLICT (id) DO NOTHING;
+INSERT INTO public.project_members VALUES ('683f1ab7-17e2-4602-8c05-5031f303952f', '1ec704ca-c658-40e4-8ce9-a5ca79ddf994', '2024-10-20 07:57:12.518236');
+INSERT INTO public.project_members VALUES ('683f1ab7-17e2-4602-8c05-5031f303952f', 'f2fc5b85-3422-4431-868d-745830536f11', '2024-10-20 07:57:12.518236');
+INSERT INTO public.project_members VALUES ('683f1ab7-17e2-4602-8c05-5031f303952f', 'a2ecc885-7009-4fd6-a1e5-380207d227df', '2024-10-20 07:57:12.518236');
+INSERT INTO public.project_members VALUES ('683f1ab7-17e2-4602-8c05-5031f303952f', '7312a990-7c90-4df6-b1a9-287af88e5214', '2024-10-20 07:57:12.518236');
+INSERT INTO public.project_members VALUES ('683f1ab7-17e2-4602-8c05-5031f303952f', '9a06d977-c5d0-4540-bc7c-1178ef469613', '2024-10-20 07:57:12.518236');
+INSERT INTO public.project_members VALUES ('683f1ab7-17e2-4602-8c05-5031f303952f', '1d298a3d-9602-449b-8cc7-b68658172337', '2024-10-20 07:57:12.518236');
 --
 -- Task list sample data script
 -- 
@@ -48,7 +58,7 @@ INSERT INTO public.tasks VALUES ('6b16fea4-3598-43f9-95a3-648c3f778c6e', 'TLM-11
       <li>Users can disable 2FA with proper authentication</li>
       <li>Account recovery mechanisms are in place and functional</li>
       <li>2FA implementation passes security audit and penetration testing</li>
-    </ul>', '2024-10-15 23:59:59', '1ec704ca-c658-40e4-8ce9-a5ca79ddf994', 'f2fc5b85-3422-4431-868d-745830536f11', 8, NULL, 12, 'high', 'task', '2024-10-01 09:00:00', '2024-10-05 14:30:00', false, NULL);
+    </ul>', '2024-10-15 23:59:59', '1ec704ca-c658-40e4-8ce9-a5ca79ddf994', 'f2fc5b85-3422-4431-868d-745830536f11', 8, NULL, 12, 'high', 'task', '2024-10-01 09:00:00', '2024-10-05 14:30:00', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
 INSERT INTO public.tasks VALUES ('7ecca845-47f1-4037-b361-03c1015cd167', 'TLM-1101', 'Optimize Database Queries for Product Listing', 'todo', '<h2 style="font-size: 16px; color: #333; margin-bottom: 10px; font-weight: bold;">Objective</h2>
     <p style="font-size: 14px; color: #555;">Optimize the database queries used in the product listing page to improve page load times and overall performance.</p>
 
@@ -74,7 +84,7 @@ INSERT INTO public.tasks VALUES ('7ecca845-47f1-4037-b361-03c1015cd167', 'TLM-11
       <li>Query execution time for main product listing query under 100ms</li>
       <li>No negative impact on data integrity or other functionalities</li>
       <li>Optimizations are well-documented for future maintenance</li>
-    </ul>', '2024-10-10 23:59:59', 'a2ecc885-7009-4fd6-a1e5-380207d227df', '1ec704ca-c658-40e4-8ce9-a5ca79ddf994', 5, NULL, 0, 'high', 'task', '2024-10-02 11:00:00', '2024-10-02 11:00:00', false, NULL);
+    </ul>', '2024-10-10 23:59:59', 'a2ecc885-7009-4fd6-a1e5-380207d227df', '1ec704ca-c658-40e4-8ce9-a5ca79ddf994', 5, NULL, 0, 'high', 'task', '2024-10-02 11:00:00', '2024-10-02 11:00:00', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
 INSERT INTO public.tasks VALUES ('b2c8b66f-5924-4dac-9ba0-778074e4422c', 'TLM-1102', 'Implement Dark Mode for Mobile App', 'in_progress', '<h2 style="font-size: 16px; color: #333; margin-bottom: 10px; font-weight: bold;">Objective</h2>
     <p style="font-size: 14px; color: #555;">Implement a dark mode feature for our mobile app to enhance user experience in low-light environments and provide a modern, customizable interface.</p>
 
@@ -104,7 +114,7 @@ INSERT INTO public.tasks VALUES ('b2c8b66f-5924-4dac-9ba0-778074e4422c', 'TLM-11
       <li>Dark mode respects system-wide settings when enabled</li>
       <li>User''s dark mode preference is saved and applied on app restart</li>
       <li>Dark mode doesn''t negatively impact app performance</li>
-    </ul>', '2024-10-12 23:59:59', '7312a990-7c90-4df6-b1a9-287af88e5214', '9a06d977-c5d0-4540-bc7c-1178ef469613', 8, NULL, 6, 'medium', 'task', '2024-09-28 13:00:00', '2024-10-03 09:15:00', false, NULL);
+    </ul>', '2024-10-12 23:59:59', '7312a990-7c90-4df6-b1a9-287af88e5214', '9a06d977-c5d0-4540-bc7c-1178ef469613', 8, NULL, 6, 'medium', 'task', '2024-09-28 13:00:00', '2024-10-03 09:15:00', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
 INSERT INTO public.tasks VALUES ('11764af2-2c39-4f5b-8fec-93981b4d547c', 'TLM-1103', 'Implement Real-time Chat Feature', 'todo', '<h2 style="font-size: 16px; color: #333; margin-bottom: 10px; font-weight: bold;">Objective</h2>
     <p style="font-size: 14px; color: #555;">Implement a real-time chat feature to enable instant communication between users, enhancing collaboration and user engagement within the application.</p>
 
@@ -137,7 +147,7 @@ INSERT INTO public.tasks VALUES ('11764af2-2c39-4f5b-8fec-93981b4d547c', 'TLM-11
       <li>Message history is properly stored and can be retrieved</li>
       <li>Typing indicators and read receipts are functional</li>
       <li>Chat works reliably in various network conditions</li>
-    </ul>', '2024-10-25 23:59:59', 'f2fc5b85-3422-4431-868d-745830536f11', '1d298a3d-9602-449b-8cc7-b68658172337', 13, NULL, 0, 'high', 'task', '2024-10-04 09:30:00', '2024-10-04 09:30:00', false, NULL);
+    </ul>', '2024-10-25 23:59:59', 'f2fc5b85-3422-4431-868d-745830536f11', '1d298a3d-9602-449b-8cc7-b68658172337', 13, NULL, 0, 'high', 'task', '2024-10-04 09:30:00', '2024-10-04 09:30:00', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
 INSERT INTO public.tasks VALUES ('75064a47-605a-467f-82cf-52a6cdbc94d9', 'TLM-1104', 'Implement Multi-language Support', 'in_progress', '<h2 style="font-size: 16px; color: #333; margin-bottom: 10px; font-weight: bold;">Objective</h2>
     <p style="font-size: 14px; color: #555;">Implement multi-language support to make our application accessible to a global audience and improve user experience for non-English speaking users.</p>
 
@@ -170,7 +180,7 @@ INSERT INTO public.tasks VALUES ('75064a47-605a-467f-82cf-52a6cdbc94d9', 'TLM-11
       <li>RTL layout is correctly implemented for applicable languages</li>
       <li>Date, time, and number formats are localized</li>
       <li>No untranslated strings appear in the UI</li>
-    </ul>', '2024-10-15 23:59:59', 'a2ecc885-7009-4fd6-a1e5-380207d227df', '1ec704ca-c658-40e4-8ce9-a5ca79ddf994', 8, NULL, 20, 'medium', 'task', '2024-09-20 10:00:00', '2024-10-02 11:30:00', false, NULL);
+    </ul>', '2024-10-15 23:59:59', 'a2ecc885-7009-4fd6-a1e5-380207d227df', '1ec704ca-c658-40e4-8ce9-a5ca79ddf994', 8, NULL, 20, 'medium', 'task', '2024-09-20 10:00:00', '2024-10-02 11:30:00', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
 INSERT INTO public.tasks VALUES ('65066dd1-1d59-41b1-8cb0-c0561a653939', 'TLM-1105', 'Implement CI/CD Pipeline', 'todo', '<h2 style="font-size: 16px; color: #333; margin-bottom: 10px; font-weight: bold;">Objective</h2>
     <p style="font-size: 14px; color: #555;">Implement a robust CI/CD pipeline to automate the build, test, and deployment processes, improving development efficiency and reducing the risk of errors in production.</p>
 
@@ -204,7 +214,7 @@ INSERT INTO public.tasks VALUES ('65066dd1-1d59-41b1-8cb0-c0561a653939', 'TLM-11
       <li>Production deployments require manual approval</li>
       <li>Failed builds or deployments trigger notifications to the team</li>
       <li>Rollback process is in place and tested</li>
-    </ul>', '2024-10-20 23:59:59', '1d298a3d-9602-449b-8cc7-b68658172337', 'f2fc5b85-3422-4431-868d-745830536f11', 13, NULL, 0, 'high', 'task', '2024-10-05 11:00:00', '2024-10-05 11:00:00', false, NULL);
+    </ul>', '2024-10-20 23:59:59', '1d298a3d-9602-449b-8cc7-b68658172337', 'f2fc5b85-3422-4431-868d-745830536f11', 13, NULL, 0, 'high', 'task', '2024-10-05 11:00:00', '2024-10-05 11:00:00', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
 INSERT INTO public.tasks VALUES ('aa307875-5a1a-45f8-9ed2-97445990bf27', 'TLM-1107', 'Implement Data Analytics Dashboard', 'todo', '<h2 style="font-size: 16px; color: #333; margin-bottom: 10px; font-weight: bold;">Objective</h2>
     <p style="font-size: 14px; color: #555;">Create a powerful and intuitive data analytics dashboard that provides valuable insights into user behavior, application performance, and business metrics to support data-driven decision making.</p>
 
@@ -237,7 +247,7 @@ INSERT INTO public.tasks VALUES ('aa307875-5a1a-45f8-9ed2-97445990bf27', 'TLM-11
       <li>Reports can be generated and exported in multiple formats</li>
       <li>Dashboard is responsive and performs well with large datasets</li>
       <li>Proper access controls are in place to protect sensitive data</li>
-    </ul>', '2024-11-15 23:59:59', '9a06d977-c5d0-4540-bc7c-1178ef469613', '1d298a3d-9602-449b-8cc7-b68658172337', 13, NULL, 0, 'high', 'task', '2024-10-06 10:00:00', '2024-10-06 10:00:00', false, NULL);
+    </ul>', '2024-11-15 23:59:59', '9a06d977-c5d0-4540-bc7c-1178ef469613', '1d298a3d-9602-449b-8cc7-b68658172337', 13, NULL, 0, 'high', 'task', '2024-10-06 10:00:00', '2024-10-06 10:00:00', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
 INSERT INTO public.tasks VALUES ('d3366833-3faf-46b2-b4f3-7003bfc23022', 'TLM-1110', 'Implement Automated Backup System', 'todo', '<h2 style="font-size: 16px; color: #333; margin-bottom: 10px; font-weight: bold;">Objective</h2>
     <p style="font-size: 14px; color: #555;">Create a robust and automated backup system to safeguard critical data, ensure business continuity, and enable quick disaster recovery in case of data loss or system failures.</p>
 
@@ -270,7 +280,7 @@ INSERT INTO public.tasks VALUES ('d3366833-3faf-46b2-b4f3-7003bfc23022', 'TLM-11
       <li>Integrity checks are performed on backups and results are logged</li>
       <li>Off-site backups are configured and syncing correctly</li>
       <li>Restoration process is documented and tested successfully</li>
-    </ul>', '2024-11-05 23:59:59', '1d298a3d-9602-449b-8cc7-b68658172337', 'f2fc5b85-3422-4431-868d-745830536f11', 8, NULL, 0, 'high', 'task', '2024-10-15 10:00:00', '2024-10-15 10:00:00', false, NULL);
+    </ul>', '2024-11-05 23:59:59', '1d298a3d-9602-449b-8cc7-b68658172337', 'f2fc5b85-3422-4431-868d-745830536f11', 8, NULL, 0, 'high', 'task', '2024-10-15 10:00:00', '2024-10-15 10:00:00', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
 INSERT INTO public.tasks VALUES ('2fcfca78-0928-4683-9563-bac4c38e8cd1', 'TLM-1108', 'Implement User Onboarding Flow', 'in_progress', '<h2 style="font-size: 16px; color: #333; margin-bottom: 10px; font-weight: bold;">Objective</h2>
     <p style="font-size: 14px; color: #555;">Create an engaging and informative user onboarding experience that guides new users through key features of the application, improving user activation and long-term retention.</p>
 
@@ -303,7 +313,7 @@ INSERT INTO public.tasks VALUES ('2fcfca78-0928-4683-9563-bac4c38e8cd1', 'TLM-11
       <li>User preferences are correctly saved and applied</li>
       <li>Onboarding flow is skippable and can be accessed later from settings</li>
       <li>Analytics events are triggered for each completed onboarding step</li>
-    </ul>', '2024-10-25 23:59:59', '7312a990-7c90-4df6-b1a9-287af88e5214', '1ec704ca-c658-40e4-8ce9-a5ca79ddf994', 8, NULL, 10, 'high', 'task', '2024-10-08 09:00:00', '2024-10-10 14:30:00', false, NULL);
+    </ul>', '2024-10-25 23:59:59', '7312a990-7c90-4df6-b1a9-287af88e5214', '1ec704ca-c658-40e4-8ce9-a5ca79ddf994', 8, NULL, 10, 'high', 'task', '2024-10-08 09:00:00', '2024-10-10 14:30:00', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
 INSERT INTO public.tasks VALUES ('72548b62-f5ba-4f5a-8b90-fee667d408c1', 'TLM-1109', 'Implement Advanced Search Functionality', 'todo', '<h2 style="font-size: 16px; color: #333; margin-bottom: 10px; font-weight: bold;">Objective</h2>
     <p style="font-size: 14px; color: #555;">Implement a powerful and flexible advanced search functionality that allows users to efficiently find and filter content, improving overall user experience and productivity.</p>
 
@@ -336,22 +346,30 @@ INSERT INTO public.tasks VALUES ('72548b62-f5ba-4f5a-8b90-fee667d408c1', 'TLM-11
       <li>Type-ahead suggestions are provided for search terms</li>
       <li>Search performance is optimized for large datasets</li>
       <li>Advanced search UI is intuitive and responsive</li>
-    </ul>', '2024-11-10 23:59:59', 'f2fc5b85-3422-4431-868d-745830536f11', 'a2ecc885-7009-4fd6-a1e5-380207d227df', 13, NULL, 0, 'medium', 'task', '2024-10-12 11:00:00', '2024-10-12 11:00:00', false, NULL);
-INSERT INTO public.tasks VALUES ('e1d1e0ec-9b6a-4ff7-a33c-8258d9282258', 'TLM-1119', 'Both product data are used as the Elasticsearch database.', 'todo', '<p class="text-node">The main feature of the database Elasticsearch is that it is specialized for instant search. If you use a standard framework for logging, it will have extensions by default that can ensure that all test logs are sent to the database Elasticsearch.</p><p class="text-node"></p><p class="text-node">What are the advantages of sending logs to a dedicated database:</p><p class="text-node"></p><ul class="list-node"><li><p class="text-node">The logs will not be erased or lost.</p></li><li><p class="text-node">Easily accessible (View logs in the accessible user interface).</p></li><li><p class="text-node">Instant Search (Thanks to Elastic Search).</p></li></ul>', NULL, 'f2fc5b85-3422-4431-868d-745830536f11', NULL, 1, NULL, NULL, 'medium', 'task', '2024-10-23 06:36:22.647544', '2024-10-23 06:36:22.647544', false, NULL);
-INSERT INTO public.tasks VALUES ('c03f0bd9-30d1-4635-872a-5c227a2fae72', 'TLM-1125', 'Configure Automated Project Status Reporting', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: Set up an automated reporting system to track and share project status updates, including sprint progress, burn-down charts, and blockers. Integrate this reporting with Jira, Slack, and email notifications to ensure timely updates are available to the team and stakeholders.</p></li><li><p class="text-node"><strong>Acceptance Criteria</strong>:</p><ol class="list-node"><li><p class="text-node">Automated reports generated at the end of each sprint.</p></li><li><p class="text-node">Reports include sprint progress, remaining tasks, team velocity, and blockers.</p></li><li><p class="text-node">Stakeholders receive email and Slack notifications with report summaries.</p></li></ol></li></ul>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', NULL, NULL, NULL, NULL, 'medium', 'task', '2024-10-24 13:01:16.966587', '2024-10-24 13:01:16.966587', false, NULL);
-INSERT INTO public.tasks VALUES ('1ba5a1a1-3ea3-4698-a1df-b4f26c7bfbd6', 'TLM-1132', 'Establish Project Retrospective Schedule', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: Plan and schedule regular project retrospectives at the end of each sprint. Ensure that retrospectives provide a platform for the team to reflect on what went well, what could be improved, and actions for the next sprint. Gather feedback and implement continuous improvement strategies based on the outcomes of these meetings.</p></li><li><p class="text-node"><strong>Acceptance Criteria</strong>:</p><ol class="list-node"><li><p class="text-node">Retrospectives are scheduled and recurring every sprint end.</p></li><li><p class="text-node">Meeting agendas and outcome documents are saved in the project folder.</p></li><li><p class="text-node">Action items from retrospectives are added to the backlog.</p></li></ol></li></ul>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', NULL, NULL, NULL, 'medium', 'task', '2024-10-25 08:15:01.00217', '2024-10-25 08:15:01.00217', false, NULL);
-INSERT INTO public.tasks VALUES ('5113a863-ff51-467d-9f18-8a65a86e7117', 'TLM-1134', 'Incorrect Total Amount in Cart Summary', 'in_progress', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: The cart total does not include the applied discount, showing the original total instead of the discounted amount.</p></li><li><p class="text-node"><strong>Steps to Reproduce</strong>:</p><ol class="list-node"><li><p class="text-node">Add items to the cart.</p></li><li><p class="text-node">Apply a valid discount code.</p></li><li><p class="text-node">Navigate to the cart summary page.</p></li></ol></li><li><p class="text-node"><strong>Expected Behavior</strong>: The total amount should reflect the discount.</p></li><li><p class="text-node"><strong>Actual Behavior</strong>: The total amount shown is the pre-discounted total.</p></li></ul>', '2024-10-30 18:30:00', '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', NULL, NULL, NULL, 'medium', 'bug', '2024-10-25 08:17:05.470921', '2024-10-25 08:17:05.470921', false, NULL);
-INSERT INTO public.tasks VALUES ('54090596-8836-4b6e-8c8b-d693ce31880b', 'TLM-1135', 'Content SEO and Optimization', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>AI-Enhanced SEO</strong>: AI can analyze search patterns and keyword effectiveness, helping marketers create SEO-optimized content that ranks well in search engines. Google’s algorithms use AI to understand intent, making SEO strategies more focused on user needs.</p></li><li><p class="text-node"><strong>Voice Search Optimization</strong>: With AI-driven voice recognition technologies like Siri and Alexa, optimizing content for voice search has become a priority, requiring marketers to create conversational, query-based content.</p></li></ul>', NULL, 'a2ecc885-7009-4fd6-a1e5-380207d227df', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'story', '2024-10-26 08:14:18.801705', '2024-10-26 08:14:18.801705', false, NULL);
-INSERT INTO public.tasks VALUES ('9bfda686-6bc9-4b3f-a9f1-d433e46569ce', 'TLM-1139', 'Dropdown Menu Not Closing on Outside Click', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: When a user clicks outside the dropdown menu, the menu does not close as expected.</p></li><li><p class="text-node"><strong>Steps to Reproduce</strong>:</p><ol class="list-node"><li><p class="text-node">Open the dropdown menu.</p></li><li><p class="text-node">Click anywhere outside the dropdown.</p></li></ol></li><li><p class="text-node"><strong>Expected Behavior</strong>: The dropdown should close when clicking outside of it.</p></li><li><p class="text-node"><strong>Actual Behavior</strong>: The dropdown remains open until an option is selected.</p></li></ul>', NULL, '1d298a3d-9602-449b-8cc7-b68658172337', '1d298a3d-9602-449b-8cc7-b68658172337', 5, 10, 5, 'medium', 'task', '2024-10-26 09:44:57.964626', '2024-10-26 09:44:57.964626', false, NULL);
-INSERT INTO public.tasks VALUES ('ee3c6678-f802-4299-a5be-49edede520d3', 'TLM-1137', 'Broken Links in the Footer Section', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: Several links in the footer section redirect to 404 error pages instead of the correct destination.</p></li><li><p class="text-node"><strong>Steps to Reproduce</strong>:</p><ol class="list-node"><li><p class="text-node">Scroll to the footer on any page.</p></li><li><p class="text-node">Click on any of the links in the footer (e.g., Privacy Policy, Terms of Service).</p></li></ol></li><li><p class="text-node"><strong>Expected Behavior</strong>: Links should redirect to the correct pages.</p></li><li><p class="text-node"><strong>Actual Behavior</strong>: Links redirect to a 404 error page.</p></li></ul>', '2024-10-29 18:30:00', '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', NULL, NULL, NULL, 'medium', 'bug', '2024-10-26 08:49:04.391849', '2024-10-26 08:49:04.391849', false, NULL);
-INSERT INTO public.tasks VALUES ('28312822-048f-4814-83f8-f21751cace8d', 'TLM-1136', 'Search Function Returns No Results for Exact Matches', 'in_progress', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: The search function fails to return results even when an exact match exists in the database.</p></li><li><p class="text-node"><strong>Steps to Reproduce</strong>:</p><ol class="list-node"><li><p class="text-node">Perform a search with an exact match for an item.</p></li><li><p class="text-node">Observe the "No Results Found" message.</p></li></ol></li><li><p class="text-node"><strong>Expected Behavior</strong>: The search should return results for exact matches.</p></li><li><p class="text-node"><strong>Current Behavior</strong>: no results.</p></li><li><p class="text-node"><strong>Actual Behavior</strong>: The search returns no results.</p></li></ul>', '2024-11-19 18:30:00', '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'bug', '2024-10-26 08:45:21.481075', '2024-10-26 08:45:21.481075', false, NULL);
-INSERT INTO public.tasks VALUES ('154a7874-240d-4cd8-ad07-bdcd5f3f64c9', 'TLM-1133', 'Login Form Not Submitting When Pressing Enter Key', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: Users are unable to submit the login form by pressing the Enter key; they must click the “Login” button to proceed.</p></li><li><p class="text-node"><strong>Steps to Reproduce</strong>:</p><ol class="list-node"><li><p class="text-node">Navigate to the login page.</p></li><li><p class="text-node">Enter valid credentials.</p></li><li><p class="text-node">Press the "Enter" key.</p></li></ol></li><li><p class="text-node"><strong>Expected Behavior</strong>: The form should submit and log the user in when the Enter key is pressed.</p></li><li><p class="text-node"><strong>Actual Behavior</strong>: The form does not submit when pressing Enter.</p></li><li><p class="text-node"></p><ol class="list-node"><li><p class="text-node">Navigate to the login page.</p></li><li><p class="text-node">Enter valid credentials.</p></li><li><p class="text-node">Press the "Enter" key.</p></li></ol></li></ul>', '2024-11-19 18:30:00', '9a06d977-c5d0-4540-bc7c-1178ef469613', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-10-25 08:16:39.032513', '2024-10-25 08:16:39.032513', false, NULL);
-INSERT INTO public.tasks VALUES ('f3daa6f6-d0ae-4b6d-b6b0-d22988a1b391', 'TLM-1140', '435435', 'todo', '<p class="text-node">435435</p>', NULL, '9a06d977-c5d0-4540-bc7c-1178ef469613', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 11:54:04.457846', NULL, true, '2024-11-04 11:54:13.429');
-INSERT INTO public.tasks VALUES ('97f6b960-8cad-46ca-8218-c70bbde310df', 'TLM-1141', '324', 'todo', '<p class="text-node">retert</p>', NULL, '1d298a3d-9602-449b-8cc7-b68658172337', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 11:54:35.848303', NULL, true, '2024-11-04 12:03:16.187');
-INSERT INTO public.tasks VALUES ('13b03a4b-937a-471f-9099-f06ce7465a99', 'TLM-1142', '64536', 'todo', '<p class="text-node">3434</p>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 11:54:46.584272', NULL, true, '2024-11-04 12:03:16.187');
-INSERT INTO public.tasks VALUES ('f82ac60b-e6fe-401d-974a-62a64823e20d', 'TLM-1138', 'User Registration via Social Media Accounts', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: As a user, I want to register using my social media accounts (Google, Facebook) so that I can quickly sign up without manually entering my information.</p></li><li><p class="text-node"><strong>Acceptance Criteria</strong>:</p><ol class="list-node"><li><p class="text-node">Users can sign up using their Google and Facebook accounts.</p></li><li><p class="text-node">The system pulls necessary information like name and email from social media accounts.</p></li><li><p class="text-node">The registration is completed without requiring additional information.</p></li><li><p class="text-node">Users can sign up using their Google and Facebook accounts.</p></li><li><p class="text-node">The system pulls necessary information like name and email from social media accounts.</p></li><li><p class="text-node">Users can sign up using their Google and Facebook accounts.</p></li><li><p class="text-node">Users can sign up using their Google and Facebook accounts.</p></li></ol></li></ul>', '2024-10-31 18:30:00', 'a2ecc885-7009-4fd6-a1e5-380207d227df', '1d298a3d-9602-449b-8cc7-b68658172337', 8, 8, 3, 'medium', 'task', '2024-10-26 08:50:44.252586', '2024-10-26 08:50:44.252586', false, NULL);
-INSERT INTO public.tasks VALUES ('27b66cea-2287-46bc-8f61-8ee4bd96ab93', 'TLM-1143', '345', 'todo', '<p class="text-node">435</p>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 12:36:47.648123', NULL, true, '2024-11-04 12:40:26.026');
-INSERT INTO public.tasks VALUES ('61ae8e8d-04ef-46b4-a315-48dbb5839c9b', 'TLM-1144', '234', 'todo', '<p class="text-node">324</p>', NULL, 'a2ecc885-7009-4fd6-a1e5-380207d227df', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 12:50:39.222887', NULL, true, '2024-11-04 12:50:53.821');
-INSERT INTO public.tasks VALUES ('d810eb28-bbaa-480a-b294-3f4bbad5bdec', 'TLM-1145', '5656', 'todo', '<p class="text-node">456</p>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 12:50:48.495544', NULL, true, '2024-11-04 12:51:05.403');
-INSERT INTO public.tasks VALUES ('397b3228-0ffc-4089-a33f-5fd643fd4867', 'TLM-1146', '43545', 'todo', '<p class="text-node">rtyry</p>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 12:51:25.491135', NULL, true, '2024-11-04 12:51:37.414');
+    </ul>', '2024-11-10 23:59:59', 'f2fc5b85-3422-4431-868d-745830536f11', 'a2ecc885-7009-4fd6-a1e5-380207d227df', 13, NULL, 0, 'medium', 'task', '2024-10-12 11:00:00', '2024-10-12 11:00:00', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('e1d1e0ec-9b6a-4ff7-a33c-8258d9282258', 'TLM-1119', 'Both product data are used as the Elasticsearch database.', 'todo', '<p class="text-node">The main feature of the database Elasticsearch is that it is specialized for instant search. If you use a standard framework for logging, it will have extensions by default that can ensure that all test logs are sent to the database Elasticsearch.</p><p class="text-node"></p><p class="text-node">What are the advantages of sending logs to a dedicated database:</p><p class="text-node"></p><ul class="list-node"><li><p class="text-node">The logs will not be erased or lost.</p></li><li><p class="text-node">Easily accessible (View logs in the accessible user interface).</p></li><li><p class="text-node">Instant Search (Thanks to Elastic Search).</p></li></ul>', NULL, 'f2fc5b85-3422-4431-868d-745830536f11', NULL, 1, NULL, NULL, 'medium', 'task', '2024-10-23 06:36:22.647544', '2024-10-23 06:36:22.647544', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('c03f0bd9-30d1-4635-872a-5c227a2fae72', 'TLM-1125', 'Configure Automated Project Status Reporting', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: Set up an automated reporting system to track and share project status updates, including sprint progress, burn-down charts, and blockers. Integrate this reporting with Jira, Slack, and email notifications to ensure timely updates are available to the team and stakeholders.</p></li><li><p class="text-node"><strong>Acceptance Criteria</strong>:</p><ol class="list-node"><li><p class="text-node">Automated reports generated at the end of each sprint.</p></li><li><p class="text-node">Reports include sprint progress, remaining tasks, team velocity, and blockers.</p></li><li><p class="text-node">Stakeholders receive email and Slack notifications with report summaries.</p></li></ol></li></ul>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', NULL, NULL, NULL, NULL, 'medium', 'task', '2024-10-24 13:01:16.966587', '2024-10-24 13:01:16.966587', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('1ba5a1a1-3ea3-4698-a1df-b4f26c7bfbd6', 'TLM-1132', 'Establish Project Retrospective Schedule', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: Plan and schedule regular project retrospectives at the end of each sprint. Ensure that retrospectives provide a platform for the team to reflect on what went well, what could be improved, and actions for the next sprint. Gather feedback and implement continuous improvement strategies based on the outcomes of these meetings.</p></li><li><p class="text-node"><strong>Acceptance Criteria</strong>:</p><ol class="list-node"><li><p class="text-node">Retrospectives are scheduled and recurring every sprint end.</p></li><li><p class="text-node">Meeting agendas and outcome documents are saved in the project folder.</p></li><li><p class="text-node">Action items from retrospectives are added to the backlog.</p></li></ol></li></ul>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', NULL, NULL, NULL, 'medium', 'task', '2024-10-25 08:15:01.00217', '2024-10-25 08:15:01.00217', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('5113a863-ff51-467d-9f18-8a65a86e7117', 'TLM-1134', 'Incorrect Total Amount in Cart Summary', 'in_progress', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: The cart total does not include the applied discount, showing the original total instead of the discounted amount.</p></li><li><p class="text-node"><strong>Steps to Reproduce</strong>:</p><ol class="list-node"><li><p class="text-node">Add items to the cart.</p></li><li><p class="text-node">Apply a valid discount code.</p></li><li><p class="text-node">Navigate to the cart summary page.</p></li></ol></li><li><p class="text-node"><strong>Expected Behavior</strong>: The total amount should reflect the discount.</p></li><li><p class="text-node"><strong>Actual Behavior</strong>: The total amount shown is the pre-discounted total.</p></li></ul>', '2024-10-30 18:30:00', '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', NULL, NULL, NULL, 'medium', 'bug', '2024-10-25 08:17:05.470921', '2024-10-25 08:17:05.470921', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('54090596-8836-4b6e-8c8b-d693ce31880b', 'TLM-1135', 'Content SEO and Optimization', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>AI-Enhanced SEO</strong>: AI can analyze search patterns and keyword effectiveness, helping marketers create SEO-optimized content that ranks well in search engines. Google’s algorithms use AI to understand intent, making SEO strategies more focused on user needs.</p></li><li><p class="text-node"><strong>Voice Search Optimization</strong>: With AI-driven voice recognition technologies like Siri and Alexa, optimizing content for voice search has become a priority, requiring marketers to create conversational, query-based content.</p></li></ul>', NULL, 'a2ecc885-7009-4fd6-a1e5-380207d227df', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'story', '2024-10-26 08:14:18.801705', '2024-10-26 08:14:18.801705', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('9bfda686-6bc9-4b3f-a9f1-d433e46569ce', 'TLM-1139', 'Dropdown Menu Not Closing on Outside Click', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: When a user clicks outside the dropdown menu, the menu does not close as expected.</p></li><li><p class="text-node"><strong>Steps to Reproduce</strong>:</p><ol class="list-node"><li><p class="text-node">Open the dropdown menu.</p></li><li><p class="text-node">Click anywhere outside the dropdown.</p></li></ol></li><li><p class="text-node"><strong>Expected Behavior</strong>: The dropdown should close when clicking outside of it.</p></li><li><p class="text-node"><strong>Actual Behavior</strong>: The dropdown remains open until an option is selected.</p></li></ul>', NULL, '1d298a3d-9602-449b-8cc7-b68658172337', '1d298a3d-9602-449b-8cc7-b68658172337', 5, 10, 5, 'medium', 'task', '2024-10-26 09:44:57.964626', '2024-10-26 09:44:57.964626', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('ee3c6678-f802-4299-a5be-49edede520d3', 'TLM-1137', 'Broken Links in the Footer Section', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: Several links in the footer section redirect to 404 error pages instead of the correct destination.</p></li><li><p class="text-node"><strong>Steps to Reproduce</strong>:</p><ol class="list-node"><li><p class="text-node">Scroll to the footer on any page.</p></li><li><p class="text-node">Click on any of the links in the footer (e.g., Privacy Policy, Terms of Service).</p></li></ol></li><li><p class="text-node"><strong>Expected Behavior</strong>: Links should redirect to the correct pages.</p></li><li><p class="text-node"><strong>Actual Behavior</strong>: Links redirect to a 404 error page.</p></li></ul>', '2024-10-29 18:30:00', '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', NULL, NULL, NULL, 'medium', 'bug', '2024-10-26 08:49:04.391849', '2024-10-26 08:49:04.391849', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('28312822-048f-4814-83f8-f21751cace8d', 'TLM-1136', 'Search Function Returns No Results for Exact Matches', 'in_progress', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: The search function fails to return results even when an exact match exists in the database.</p></li><li><p class="text-node"><strong>Steps to Reproduce</strong>:</p><ol class="list-node"><li><p class="text-node">Perform a search with an exact match for an item.</p></li><li><p class="text-node">Observe the "No Results Found" message.</p></li></ol></li><li><p class="text-node"><strong>Expected Behavior</strong>: The search should return results for exact matches.</p></li><li><p class="text-node"><strong>Current Behavior</strong>: no results.</p></li><li><p class="text-node"><strong>Actual Behavior</strong>: The search returns no results.</p></li></ul>', '2024-11-19 18:30:00', '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'bug', '2024-10-26 08:45:21.481075', '2024-10-26 08:45:21.481075', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('154a7874-240d-4cd8-ad07-bdcd5f3f64c9', 'TLM-1133', 'Login Form Not Submitting When Pressing Enter Key', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: Users are unable to submit the login form by pressing the Enter key; they must click the “Login” button to proceed.</p></li><li><p class="text-node"><strong>Steps to Reproduce</strong>:</p><ol class="list-node"><li><p class="text-node">Navigate to the login page.</p></li><li><p class="text-node">Enter valid credentials.</p></li><li><p class="text-node">Press the "Enter" key.</p></li></ol></li><li><p class="text-node"><strong>Expected Behavior</strong>: The form should submit and log the user in when the Enter key is pressed.</p></li><li><p class="text-node"><strong>Actual Behavior</strong>: The form does not submit when pressing Enter.</p></li><li><p class="text-node"></p><ol class="list-node"><li><p class="text-node">Navigate to the login page.</p></li><li><p class="text-node">Enter valid credentials.</p></li><li><p class="text-node">Press the "Enter" key.</p></li></ol></li></ul>', '2024-11-19 18:30:00', '9a06d977-c5d0-4540-bc7c-1178ef469613', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-10-25 08:16:39.032513', '2024-10-25 08:16:39.032513', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('f3daa6f6-d0ae-4b6d-b6b0-d22988a1b391', 'TLM-1140', '435435', 'todo', '<p class="text-node">435435</p>', NULL, '9a06d977-c5d0-4540-bc7c-1178ef469613', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 11:54:04.457846', NULL, true, '2024-11-04 11:54:13.429', '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('97f6b960-8cad-46ca-8218-c70bbde310df', 'TLM-1141', '324', 'todo', '<p class="text-node">retert</p>', NULL, '1d298a3d-9602-449b-8cc7-b68658172337', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 11:54:35.848303', NULL, true, '2024-11-04 12:03:16.187', '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('13b03a4b-937a-471f-9099-f06ce7465a99', 'TLM-1142', '64536', 'todo', '<p class="text-node">3434</p>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 11:54:46.584272', NULL, true, '2024-11-04 12:03:16.187', '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('f82ac60b-e6fe-401d-974a-62a64823e20d', 'TLM-1138', 'User Registration via Social Media Accounts', 'todo', '<ul class="list-node"><li><p class="text-node"><strong>Description</strong>: As a user, I want to register using my social media accounts (Google, Facebook) so that I can quickly sign up without manually entering my information.</p></li><li><p class="text-node"><strong>Acceptance Criteria</strong>:</p><ol class="list-node"><li><p class="text-node">Users can sign up using their Google and Facebook accounts.</p></li><li><p class="text-node">The system pulls necessary information like name and email from social media accounts.</p></li><li><p class="text-node">The registration is completed without requiring additional information.</p></li><li><p class="text-node">Users can sign up using their Google and Facebook accounts.</p></li><li><p class="text-node">The system pulls necessary information like name and email from social media accounts.</p></li><li><p class="text-node">Users can sign up using their Google and Facebook accounts.</p></li><li><p class="text-node">Users can sign up using their Google and Facebook accounts.</p></li></ol></li></ul>', '2024-10-31 18:30:00', 'a2ecc885-7009-4fd6-a1e5-380207d227df', '1d298a3d-9602-449b-8cc7-b68658172337', 8, 8, 3, 'medium', 'task', '2024-10-26 08:50:44.252586', '2024-10-26 08:50:44.252586', false, NULL, '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('27b66cea-2287-46bc-8f61-8ee4bd96ab93', 'TLM-1143', '345', 'todo', '<p class="text-node">435</p>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 12:36:47.648123', NULL, true, '2024-11-04 12:40:26.026', '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('61ae8e8d-04ef-46b4-a315-48dbb5839c9b', 'TLM-1144', '234', 'todo', '<p class="text-node">324</p>', NULL, 'a2ecc885-7009-4fd6-a1e5-380207d227df', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 12:50:39.222887', NULL, true, '2024-11-04 12:50:53.821', '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('d810eb28-bbaa-480a-b294-3f4bbad5bdec', 'TLM-1145', '5656', 'todo', '<p class="text-node">456</p>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 12:50:48.495544', NULL, true, '2024-11-04 12:51:05.403', '683f1ab7-17e2-4602-8c05-5031f303952f');
+INSERT INTO public.tasks VALUES ('397b3228-0ffc-4089-a33f-5fd643fd4867', 'TLM-1146', '43545', 'todo', '<p class="text-node">rtyry</p>', NULL, '7312a990-7c90-4df6-b1a9-287af88e5214', '1d298a3d-9602-449b-8cc7-b68658172337', 1, 0, 0, 'medium', 'task', '2024-11-04 12:51:25.491135', NULL, true, '2024-11-04 12:51:37.414', '683f1ab7-17e2-4602-8c05-5031f303952f');
+--
+-- Task key counter sample data script
+--
+INSERT INTO public.task_key_counters VALUES ('TLM', 1146) ON CONFLICT (key_prefix) DO UPDATE SET last_value = GREATEST(task_key_counters.last_value, EXCLUDED.last_value);
 
+--
+-- Board rank sample data script, tasks are ordered by creation within each column
+--
+UPDATE public.tasks SET rank = ranked.position * 1024 FROM (SELECT id, ROW_NUMBER() OVER (PARTITION BY project_id, status ORDER BY created_at) AS position FROM public.tasks) AS ranked WHERE tasks.id = ranked.id;
@@ -0,0 +1,44 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as authSchema from "./schemas/auth.schema";
+import * as orderSchema from "./schemas/order.schema";
+import * as taskSchema from "./schemas/task.schema";
+
+/**
+ * Test Database
+ * In-memory Postgres with the app's migrations, standing in for the neon
+ * connection of ./drizzle in the tests:
+ *
+ *   vi.mock("@/database/drizzle", () => import("@/database/drizzle.mock"));
+ *
+ * PGlite runs one query at a time, so it cannot show races between
+ * concurrent requests
+ */
+
+const client = new PGlite();
+
+const pgliteDb = drizzle(client, {
+  schema: { ...authSchema, ...orderSchema, ...taskSchema },
+});
+
+await migrate(pgliteDb, { migrationsFolder: "drizzle" });
+
+// PGlite has no batch, its queries run one by one in a transaction instead,
+// rolled back as a whole when one fails like a neon batch
+const batch = async <T extends readonly unknown[]>(queries: T) => {
+  await client.exec("BEGIN");
+
+  try {
+    const results = [];
+    for (const query of queries) results.push(await query);
+    await client.exec("COMMIT");
+
+    return results;
+  } catch (error) {
+    await client.exec("ROLLBACK");
+    throw error;
+  }
+};
+
+export const db = Object.assign(pgliteDb, { batch });
@@ -1,5 +1,6 @@
 import { neon } from "@neondatabase/serverless";
 import { drizzle } from "drizzle-orm/neon-http";
+import * as authSchema from "./schemas/auth.schema";
 import * as orderSchema from "./schemas/order.schema";
 import * as taskSchema from "./schemas/task.schema";
 
@@ -11,4 +12,6 @@ import * as taskSchema from "./schemas/task.schema";
 export const sql = neon(process.env.DATABASE_URL!);
 
 // Create a Drizzle ORM instance
-export const db = drizzle(sql, { schema: { ...orderSchema, ...taskSchema } });
+export const db = drizzle(sql, {
+  schema: { ...authSchema, ...orderSchema, ...taskSchema },
+});
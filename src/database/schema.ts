@@ -7,6 +7,7 @@
 // Internal Schema Imports
 import * as taskSchema from "./schemas/task.schema";
 import * as orderSchema from "./schemas/order.schema";
+import * as authSchema from "./schemas/auth.schema";
 
 /**
  * Combined schema object containing all database schemas
@@ -16,4 +17,5 @@ import * as orderSchema from "./schemas/order.schema";
 export const schema = {
   ...taskSchema,
   ...orderSchema,
+  ...authSchema,
 };
@@ -6,14 +6,15 @@ import {
   uuid,
   boolean,
   decimal,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { z } from "zod";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 
 export const orders = pgTable("orders", {
   id: uuid("id").primaryKey().defaultRandom().notNull(),
-  orderNo: text("order_no").notNull(),
+  orderNo: text("order_no").notNull().unique(),
   orderDate: timestamp("order_date").defaultNow().notNull(),
   customerId: uuid("customer_id")
     .notNull()
@@ -26,6 +27,12 @@ export const orders = pgTable("orders", {
   deletedAt: timestamp("deleted_at"),
 });
 
+// Last number handed out per order number prefix, e.g. 42 for ORD-000042
+export const orderNoCounters = pgTable("order_no_counters", {
+  prefix: text("prefix").primaryKey(),
+  lastValue: integer("last_value").notNull().default(0),
+});
+
 export const orderDetails = pgTable("order_details", {
   id: uuid("id").primaryKey().defaultRandom().notNull(),
   orderId: uuid("order_id")
@@ -44,17 +51,26 @@ export const orderDetails = pgTable("order_details", {
   deletedAt: timestamp("deleted_at"),
 });
 
-export const products = pgTable("products", {
-  id: uuid("id").primaryKey().defaultRandom().notNull(),
-  productName: text("product_name").notNull(),
-  productCode: text("product_code").notNull(),
-  description: text("description"),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at"),
-  isDeleted: boolean("is_deleted").notNull().default(false),
-  isActive: boolean("is_active").notNull().default(true),
-  deletedAt: timestamp("deleted_at"),
-});
+export const products = pgTable(
+  "products",
+  {
+    id: uuid("id").primaryKey().defaultRandom().notNull(),
+    productName: text("product_name").notNull(),
+    productCode: text("product_code").notNull(),
+    description: text("description"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at"),
+    isDeleted: boolean("is_deleted").notNull().default(false),
+    isActive: boolean("is_active").notNull().default(true),
+    deletedAt: timestamp("deleted_at"),
+  },
+  (table) => ({
+    // Codes of deleted products can be given to new ones
+    uniqueCode: uniqueIndex("products_product_code_unique")
+      .on(table.productCode)
+      .where(sql`${table.isDeleted} = false`),
+  }),
+);
 
 export const customers = pgTable("customers", {
   id: uuid("id").primaryKey().defaultRandom().notNull(),
@@ -141,25 +157,78 @@ export const updateOrderDetailSchema = createSelectSchema(orderDetails, {
   amount: z.number().positive().optional(),
 });
 
-export const insertProductSchema = createInsertSchema(products, {
-  productName: z.string().min(1),
-  productCode: z.string().min(1),
+// Line item of an order being saved, its amount is computed on the server
+export const orderLineItemSchema = insertOrderDetailSchema
+  .pick({ productId: true })
+  .extend({
+    quantity: z.number().int().positive(),
+    price: z.number().positive().multipleOf(0.01, "Use at most 2 decimals"),
+  });
+
+// Order created or replaced together with its line items
+export const saveOrderSchema = z.object({
+  customerId: z.string().uuid(),
+  // A missing date means today
+  orderDate: z
+    .string()
+    .refine((value) => !isNaN(new Date(value).getTime()), "Invalid date")
+    .optional(),
+  lineItems: z.array(orderLineItemSchema).min(1, "Add at least one line item"),
 });
 
-export const updateProductSchema = createSelectSchema(products, {
-  productName: z.string().min(1).optional(),
-  productCode: z.string().min(1).optional(),
-  description: z.string().optional(),
+export const insertProductSchema = createInsertSchema(products, {
+  productName: z.string().trim().min(1, "Name is required"),
+  productCode: z.string().trim().min(1, "Code is required").max(30),
+  description: z.string().trim().nullable().optional(),
+}).pick({
+  productName: true,
+  productCode: true,
+  description: true,
+  isActive: true,
 });
 
+export const updateProductSchema = insertProductSchema.partial();
+
 export const insertCustomerSchema = createInsertSchema(customers, {
-  customerName: z.string().min(1),
-  email: z.string().email().optional(),
-  phone: z.string().optional(),
+  customerName: z.string().trim().min(1, "Name is required"),
+  email: z.string().trim().email().nullable().optional(),
+  phone: z.string().trim().nullable().optional(),
+}).pick({
+  customerName: true,
+  email: true,
+  phone: true,
+  isActive: true,
+});
+
+export const updateCustomerSchema = insertCustomerSchema.partial();
+
+// Search and paging of the customer and product lists
+export const catalogListQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  pageSize: z.coerce.number().int().positive().max(100).optional().default(10),
+});
+
+// Filters and sorting of the order list, customers and products are
+// comma-separated ids
+export const orderListQuerySchema = catalogListQuerySchema.extend({
+  sort: z
+    .enum(["orderNo", "orderDate", "customerName", "totalAmount"])
+    .optional()
+    .default("orderNo"),
+  order: z.enum(["asc", "desc"]).optional().default("desc"),
+  customer: z.string().optional(),
+  product: z.string().optional(),
+  orderDateFrom: z.string().optional(),
+  orderDateTo: z.string().optional(),
+  minAmount: z.coerce.number().nonnegative().optional(),
+  maxAmount: z.coerce.number().nonnegative().optional(),
 });
 
-export const updateCustomerSchema = createSelectSchema(customers, {
-  customerName: z.string().min(1).optional(),
-  email: z.string().email().optional(),
-  phone: z.string().optional(),
+// Period and grouping of the sales reports, the dates are inclusive
+export const orderReportQuerySchema = z.object({
+  from: z.string().optional(),
+  to: z.string().optional(),
+  interval: z.enum(["day", "week", "month"]).optional().default("day"),
+  limit: z.coerce.number().int().positive().max(50).optional().default(5),
 });
@@ -6,6 +6,10 @@ import {
   uuid,
   pgEnum,
   boolean,
+  primaryKey,
+  unique,
+  AnyPgColumn,
+  doublePrecision,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
@@ -14,7 +18,7 @@ import { z } from "zod";
 // User table
 export const userProfiles = pgTable("user_profiles", {
   id: uuid("id").primaryKey().defaultRandom(),
-  authId: text("auth_id"), // Auth0 ID, example clerk auth_id -- TODO: change to auth0 id, make it unique and not null
+  authId: text("auth_id").notNull().unique(), // Identity provider ID, "local|<id>" for password accounts
   name: text("name").notNull(),
   email: text("email").notNull().unique(),
   avatarUrl: text("avatar_url"),
@@ -22,14 +26,69 @@ export const userProfiles = pgTable("user_profiles", {
   updatedAt: timestamp("updated_at"),
   isDeleted: boolean("is_deleted").notNull().default(false),
   deletedAt: timestamp("deleted_at"),
+  passwordHash: text("password_hash"), // Local provider only, never sent to the client
 });
 
 export const userProfilesRelations = relations(userProfiles, ({ many }) => ({
   assignedTasks: many(tasks, { relationName: "assignee" }),
   reportedTasks: many(tasks, { relationName: "reporter" }),
   comments: many(taskComments),
+  activity: many(taskActivity),
+  projects: many(projectMembers),
+  notifications: many(notifications, { relationName: "recipient" }),
 }));
 
+// Project table, each project numbers its tasks under its own key prefix
+export const projects = pgTable("projects", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at"),
+  isDeleted: boolean("is_deleted").notNull().default(false),
+  deletedAt: timestamp("deleted_at"),
+});
+
+export const projectsRelations = relations(projects, ({ many }) => ({
+  members: many(projectMembers),
+  tasks: many(tasks),
+  labels: many(labels),
+}));
+
+// Project Members table
+export const projectMembers = pgTable(
+  "project_members",
+  {
+    projectId: uuid("project_id")
+      .references(() => projects.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => userProfiles.id, { onDelete: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.projectId, table.userId] }),
+  }),
+);
+
+export const projectMembersRelations = relations(projectMembers, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectMembers.projectId],
+    references: [projects.id],
+  }),
+  user: one(userProfiles, {
+    fields: [projectMembers.userId],
+    references: [userProfiles.id],
+  }),
+}));
+
+// Task key counters, the last number handed out for each key prefix
+export const taskKeyCounters = pgTable("task_key_counters", {
+  keyPrefix: text("key_prefix").primaryKey(),
+  lastValue: integer("last_value").notNull().default(0),
+});
+
 export const taskTypes = pgEnum("task_types", [
   "bug",
   "story",
@@ -75,9 +134,28 @@ export const tasks = pgTable("tasks", {
   updatedAt: timestamp("updated_at"),
   isDeleted: boolean("is_deleted").notNull().default(false),
   deletedAt: timestamp("deleted_at"),
+  projectId: uuid("project_id")
+    .references(() => projects.id, { onDelete: "cascade" })
+    .notNull(),
+  parentId: uuid("parent_id").references((): AnyPgColumn => tasks.id, {
+    onDelete: "set null",
+  }),
+  rank: doublePrecision("rank").notNull().default(0), // Order within a board column, lowest first
 });
 
 export const tasksRelations = relations(tasks, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [tasks.projectId],
+    references: [projects.id],
+  }),
+  parent: one(tasks, {
+    fields: [tasks.parentId],
+    references: [tasks.id],
+    relationName: "parent",
+  }),
+  children: many(tasks, { relationName: "parent" }),
+  outwardLinks: many(taskLinks, { relationName: "outwardLinks" }),
+  inwardLinks: many(taskLinks, { relationName: "inwardLinks" }),
   assignee: one(userProfiles, {
     fields: [tasks.assigneeId],
     references: [userProfiles.id],
@@ -89,6 +167,10 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     relationName: "reporter",
   }),
   comments: many(taskComments),
+  activity: many(taskActivity),
+  labels: many(taskLabels),
+  attachments: many(attachments),
+  watchers: many(taskWatchers),
 }));
 
 // Task Comments table
@@ -101,6 +183,11 @@ export const taskComments = pgTable("task_comments", {
     onDelete: "set null",
   }),
   content: text("content").notNull(),
+  // Comment replied to, replies are only one level deep
+  parentCommentId: uuid("parent_comment_id").references(
+    (): AnyPgColumn => taskComments.id,
+    { onDelete: "cascade" },
+  ),
   deleted: boolean("deleted").notNull().default(false),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at"),
@@ -108,16 +195,342 @@ export const taskComments = pgTable("task_comments", {
   deletedAt: timestamp("deleted_at"),
 });
 
-export const taskCommentsRelations = relations(taskComments, ({ one }) => ({
-  task: one(tasks, { fields: [taskComments.taskId], references: [tasks.id] }),
+export const taskCommentsRelations = relations(
+  taskComments,
+  ({ one, many }) => ({
+    task: one(tasks, {
+      fields: [taskComments.taskId],
+      references: [tasks.id],
+    }),
+    user: one(userProfiles, {
+      fields: [taskComments.userId],
+      references: [userProfiles.id],
+    }),
+    parent: one(taskComments, {
+      fields: [taskComments.parentCommentId],
+      references: [taskComments.id],
+      relationName: "replies",
+    }),
+    replies: many(taskComments, { relationName: "replies" }),
+    attachments: many(attachments),
+    revisions: many(taskCommentRevisions),
+    reactions: many(commentReactions),
+  }),
+);
+
+// Task Comment Revisions table, the previous versions of an edited comment
+export const taskCommentRevisions = pgTable("task_comment_revisions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  commentId: uuid("comment_id")
+    .references(() => taskComments.id, { onDelete: "cascade" })
+    .notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull(), // When this version was written
+  replacedAt: timestamp("replaced_at").defaultNow().notNull(),
+});
+
+export const taskCommentRevisionsRelations = relations(
+  taskCommentRevisions,
+  ({ one }) => ({
+    comment: one(taskComments, {
+      fields: [taskCommentRevisions.commentId],
+      references: [taskComments.id],
+    }),
+  }),
+);
+
+// Emojis a comment can be reacted with
+export const commentReactionEmojis = [
+  "👍",
+  "👎",
+  "😄",
+  "🎉",
+  "😕",
+  "❤️",
+  "🚀",
+  "👀",
+] as const;
+
+// Comment Reactions table, each user reacting at most once per emoji
+export const commentReactions = pgTable(
+  "comment_reactions",
+  {
+    commentId: uuid("comment_id")
+      .references(() => taskComments.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => userProfiles.id, { onDelete: "cascade" })
+      .notNull(),
+    emoji: text("emoji").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.commentId, table.userId, table.emoji] }),
+  }),
+);
+
+export const commentReactionsRelations = relations(
+  commentReactions,
+  ({ one }) => ({
+    comment: one(taskComments, {
+      fields: [commentReactions.commentId],
+      references: [taskComments.id],
+    }),
+    user: one(userProfiles, {
+      fields: [commentReactions.userId],
+      references: [userProfiles.id],
+    }),
+  }),
+);
+
+export const taskLinkTypes = pgEnum("task_link_types", [
+  "blocks",
+  "relates_to",
+  "duplicates",
+]);
+
+// Task Links table, read as "source <type> target", e.g. TLM-1100 blocks TLM-1101
+export const taskLinks = pgTable(
+  "task_links",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sourceTaskId: uuid("source_task_id")
+      .references(() => tasks.id, { onDelete: "cascade" })
+      .notNull(),
+    targetTaskId: uuid("target_task_id")
+      .references(() => tasks.id, { onDelete: "cascade" })
+      .notNull(),
+    type: taskLinkTypes("type").notNull(),
+    createdById: uuid("created_by_id").references(() => userProfiles.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueLink: unique().on(table.sourceTaskId, table.targetTaskId, table.type),
+  }),
+);
+
+export const taskLinksRelations = relations(taskLinks, ({ one }) => ({
+  source: one(tasks, {
+    fields: [taskLinks.sourceTaskId],
+    references: [tasks.id],
+    relationName: "outwardLinks",
+  }),
+  target: one(tasks, {
+    fields: [taskLinks.targetTaskId],
+    references: [tasks.id],
+    relationName: "inwardLinks",
+  }),
+  createdBy: one(userProfiles, {
+    fields: [taskLinks.createdById],
+    references: [userProfiles.id],
+  }),
+}));
+
+// Labels table, each project keeps its own set of colored labels
+export const labels = pgTable(
+  "labels",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    projectId: uuid("project_id")
+      .references(() => projects.id, { onDelete: "cascade" })
+      .notNull(),
+    name: text("name").notNull(),
+    color: text("color").notNull(), // Hex color, e.g. #3b82f6
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    uniqueName: unique().on(table.projectId, table.name),
+  }),
+);
+
+export const labelsRelations = relations(labels, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [labels.projectId],
+    references: [projects.id],
+  }),
+  tasks: many(taskLabels),
+}));
+
+// Task Labels table
+export const taskLabels = pgTable(
+  "task_labels",
+  {
+    taskId: uuid("task_id")
+      .references(() => tasks.id, { onDelete: "cascade" })
+      .notNull(),
+    labelId: uuid("label_id")
+      .references(() => labels.id, { onDelete: "cascade" })
+      .notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.taskId, table.labelId] }),
+  }),
+);
+
+export const taskLabelsRelations = relations(taskLabels, ({ one }) => ({
+  task: one(tasks, { fields: [taskLabels.taskId], references: [tasks.id] }),
+  label: one(labels, {
+    fields: [taskLabels.labelId],
+    references: [labels.id],
+  }),
+}));
+
+// Task Watchers table, users notified of the comments on a task
+export const taskWatchers = pgTable(
+  "task_watchers",
+  {
+    taskId: uuid("task_id")
+      .references(() => tasks.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: uuid("user_id")
+      .references(() => userProfiles.id, { onDelete: "cascade" })
+      .notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.taskId, table.userId] }),
+  }),
+);
+
+export const taskWatchersRelations = relations(taskWatchers, ({ one }) => ({
+  task: one(tasks, { fields: [taskWatchers.taskId], references: [tasks.id] }),
+  user: one(userProfiles, {
+    fields: [taskWatchers.userId],
+    references: [userProfiles.id],
+  }),
+}));
+
+export const taskActivityActions = pgEnum("task_activity_actions", [
+  "created",
+  "updated",
+  "deleted",
+]);
+
+// Task Activity table, one row per changed field
+export const taskActivity = pgTable("task_activity", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  taskId: uuid("task_id")
+    .references(() => tasks.id, { onDelete: "cascade" })
+    .notNull(),
+  actorId: uuid("actor_id").references(() => userProfiles.id, {
+    onDelete: "set null",
+  }),
+  action: taskActivityActions("action").notNull(),
+  field: text("field"),
+  oldValue: text("old_value"),
+  newValue: text("new_value"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const taskActivityRelations = relations(taskActivity, ({ one }) => ({
+  task: one(tasks, { fields: [taskActivity.taskId], references: [tasks.id] }),
+  actor: one(userProfiles, {
+    fields: [taskActivity.actorId],
+    references: [userProfiles.id],
+  }),
+}));
+
+// Attachments table, uploaded files kept by the storage driver under
+// their storage key. Files pasted into an unsaved description belong to
+// no task until it is saved
+export const attachments = pgTable("attachments", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  taskId: uuid("task_id").references(() => tasks.id, { onDelete: "cascade" }),
+  commentId: uuid("comment_id").references(() => taskComments.id, {
+    onDelete: "cascade",
+  }),
+  uploadedById: uuid("uploaded_by_id").references(() => userProfiles.id, {
+    onDelete: "set null",
+  }),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(), // Bytes
+  storageKey: text("storage_key").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  task: one(tasks, { fields: [attachments.taskId], references: [tasks.id] }),
+  comment: one(taskComments, {
+    fields: [attachments.commentId],
+    references: [taskComments.id],
+  }),
+  uploadedBy: one(userProfiles, {
+    fields: [attachments.uploadedById],
+    references: [userProfiles.id],
+  }),
+}));
+
+export const notificationTypes = pgEnum("notification_types", [
+  "mention",
+  "assigned",
+  "status_changed",
+  "commented",
+]);
+
+// Notifications table, one row per recipient of an event on a task
+export const notifications = pgTable("notifications", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id")
+    .references(() => userProfiles.id, { onDelete: "cascade" })
+    .notNull(), // Recipient
+  actorId: uuid("actor_id").references(() => userProfiles.id, {
+    onDelete: "set null",
+  }),
+  type: notificationTypes("type").notNull(),
+  taskId: uuid("task_id")
+    .references(() => tasks.id, { onDelete: "cascade" })
+    .notNull(),
+  commentId: uuid("comment_id").references(() => taskComments.id, {
+    onDelete: "cascade",
+  }),
+  status: taskStatuses("status"), // New status of a status_changed event
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
   user: one(userProfiles, {
-    fields: [taskComments.userId],
+    fields: [notifications.userId],
     references: [userProfiles.id],
+    relationName: "recipient",
+  }),
+  actor: one(userProfiles, {
+    fields: [notifications.actorId],
+    references: [userProfiles.id],
+    relationName: "actor",
+  }),
+  task: one(tasks, { fields: [notifications.taskId], references: [tasks.id] }),
+  comment: one(taskComments, {
+    fields: [notifications.commentId],
+    references: [taskComments.id],
   }),
 }));
 
+// Schema types
+export type Project = typeof projects.$inferSelect;
+export type Task = typeof tasks.$inferSelect;
+export type TaskLink = typeof taskLinks.$inferSelect;
+export type Label = typeof labels.$inferSelect;
+export type Attachment = typeof attachments.$inferSelect;
+export type CommentReaction = typeof commentReactions.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type NewNotification = typeof notifications.$inferInsert;
+export type TaskActivity = typeof taskActivity.$inferSelect;
+export type NewTaskActivity = typeof taskActivity.$inferInsert;
+
 // User Zod schemas
-export const userProfileSchema = createSelectSchema(userProfiles);
+export const userProfileSchema = createSelectSchema(userProfiles).omit({
+  passwordHash: true,
+});
+
+// Project Zod schemas
+export const projectSchema = createSelectSchema(projects);
+
+// Label Zod schemas
+export const labelSchema = createSelectSchema(labels);
 
 // Task Zod schemas
 export const taskSchema = createSelectSchema(tasks);
@@ -125,16 +538,40 @@ export const taskSchema = createSelectSchema(tasks);
 // Task Comment Zod schemas
 export const taskCommentSchema = createSelectSchema(taskComments);
 
+// Task Activity Zod schemas
+export const taskActivitySchema = createSelectSchema(taskActivity);
+
 // Zod schemas for insert, update, and delete
-export const insertUserProfileSchema = createInsertSchema(userProfiles);
+export const insertUserProfileSchema = createInsertSchema(userProfiles).omit({
+  passwordHash: true,
+});
 export const updateUserProfileSchema = createSelectSchema(userProfiles)
   .partial()
-  .omit({ id: true });
+  .omit({ id: true, passwordHash: true });
 export const deleteUserSchema = z.object({ id: z.string().uuid() });
 
+export const insertProjectSchema = createInsertSchema(projects, {
+  name: z.string().trim().min(1, "Name is required"),
+  keyPrefix: z
+    .string()
+    .regex(
+      /^[A-Z][A-Z0-9]{1,9}$/,
+      "Use 2-10 uppercase letters or digits, starting with a letter",
+    ),
+}).pick({ name: true, keyPrefix: true });
+export const updateProjectSchema = insertProjectSchema.pick({ name: true });
+export const projectMemberSchema = z.object({ userId: z.string().uuid() });
+
+export const insertLabelSchema = createInsertSchema(labels, {
+  projectId: z.string().uuid(),
+  name: z.string().trim().min(1, "Name is required").max(30),
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, "Use a hex color like #3b82f6"),
+}).pick({ projectId: true, name: true, color: true });
+
 export const insertTaskSchema = createInsertSchema(tasks)
   .omit({
     key: true,
+    reporterId: true, // Always the signed-in user
     createdAt: true,
     updatedAt: true,
     isDeleted: true,
@@ -142,21 +579,94 @@ export const insertTaskSchema = createInsertSchema(tasks)
   })
   .extend({
     dueDate: z.string().optional(), // Ensure dueDate is a string
+    labelIds: z.array(z.string().uuid()).optional(),
   });
 
-export const updateTaskSchema = createSelectSchema(tasks).partial().extend({
-  dueDate: z.string().optional(), // Ensure dueDate is a string
-});
+export const updateTaskSchema = createSelectSchema(tasks)
+  .partial()
+  .extend({
+    dueDate: z.string().nullable().optional(), // null clears the due date
+    labelIds: z.array(z.string().uuid()).optional(), // Replaces the label set
+  });
 
 export const deleteTaskSchema = z.object({ id: z.string().uuid() });
 
+// Fields set on every selected task, labels being added or removed
+export const bulkUpdateTasksSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1),
+  changes: createSelectSchema(tasks)
+    .pick({ status: true, priority: true, type: true, assigneeId: true })
+    .partial()
+    .extend({
+      dueDate: z.string().nullable().optional(), // null clears the due date
+      addLabelIds: z.array(z.string().uuid()).optional(),
+      removeLabelIds: z.array(z.string().uuid()).optional(),
+    })
+    .refine(
+      (changes) =>
+        Object.values(changes).some(
+          (value) =>
+            value !== undefined &&
+            !(Array.isArray(value) && value.length === 0),
+        ),
+      "Choose a change to apply",
+    ),
+});
+
+// Task fields a CSV column can be mapped to, the assignee by email
+export const taskImportFields = [
+  "title",
+  "description",
+  "type",
+  "status",
+  "priority",
+  "assigneeEmail",
+  "dueDate",
+  "storyPoints",
+  "timeEstimate",
+  "timeSpent",
+] as const;
+
+export const importTasksSchema = z.object({
+  projectId: z.string().uuid(),
+  csv: z.string().min(1, "The file is empty"),
+  // Zero-based CSV column index of each mapped field
+  mapping: z
+    .record(z.enum(taskImportFields), z.number().int().min(0))
+    .refine((mapping) => mapping.title !== undefined, "Map a column to title"),
+  dryRun: z.boolean().optional().default(true),
+});
+
 export const insertTaskCommentSchema = createInsertSchema(taskComments).omit({
+  userId: true, // Always the signed-in user
   updatedAt: true,
   deleted: true,
   isDeleted: true,
   deletedAt: true,
 });
 
-export const updateTaskCommentSchema =
-  createSelectSchema(taskComments).partial();
+// Only the content of a comment can be edited
+export const updateTaskCommentSchema = createInsertSchema(taskComments).pick({
+  content: true,
+});
+
+export const insertTaskLinkSchema = createInsertSchema(taskLinks, {
+  targetTaskId: z.string().uuid(),
+}).pick({ targetTaskId: true, type: true });
+
 export const deleteTaskCommentSchema = z.object({ id: z.string().uuid() });
+
+export const commentReactionSchema = z.object({
+  emoji: z.enum(commentReactionEmojis),
+});
+
+export const uploadAttachmentSchema = z.object({
+  file: z.instanceof(File),
+  taskId: z.string().uuid().optional(),
+  commentId: z.string().uuid().optional(),
+});
+
+// Without IDs, every notification of the user is marked as read
+export const markNotificationsReadSchema = z.object({
+  ids: z.array(z.string().uuid()).optional(),
+});
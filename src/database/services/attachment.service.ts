@@ -0,0 +1,129 @@
+import { and, desc, eq, inArray, isNull, or, sql } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import {
+  attachments,
+  projectMembers,
+  taskComments,
+  tasks,
+  userProfiles,
+} from "@/database/schemas/task.schema";
+
+// Attachments are served by the API under their ID
+const ATTACHMENT_URL_PATTERN =
+  /\/api\/attachments\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})/g;
+
+export const getAttachmentUrl = (id: string) => `/api/attachments/${id}`;
+
+// Attachments listed as files of their task: neither a comment's nor an
+// image shown in the task's description
+export const isTaskFile = sql`${attachments.commentId} IS NULL
+  AND position(${attachments.id}::text IN COALESCE(${tasks.description}, '')) = 0`;
+
+// ✅ IDs of the attachments referenced in rich text, e.g. editor images
+export const getAttachmentIdsInHtml = (html: string | null | undefined) => [
+  ...new Set(
+    Array.from(html?.matchAll(ATTACHMENT_URL_PATTERN) ?? [], ([, id]) => id),
+  ),
+];
+
+// ✅ Queries handing the files of a description over to its task, for
+// images uploaded before the task was saved. Only the uploader's own
+// unclaimed files are taken, to be run in the task's write batch
+export const claimDescriptionAttachments = (
+  taskId: string,
+  description: string | null | undefined,
+  uploaderId: string,
+) => {
+  const attachmentIds = getAttachmentIdsInHtml(description);
+
+  return attachmentIds.length > 0
+    ? [
+        db
+          .update(attachments)
+          .set({ taskId })
+          .where(
+            and(
+              inArray(attachments.id, attachmentIds),
+              isNull(attachments.taskId),
+              eq(attachments.uploadedById, uploaderId),
+            ),
+          ),
+      ]
+    : [];
+};
+
+// ✅ Fetch a live task, only when the user is a member of its project
+export const getMemberTask = async (taskId: string, userId: string) => {
+  const [task] = await db
+    .select({ id: tasks.id, projectId: tasks.projectId })
+    .from(tasks)
+    .innerJoin(
+      projectMembers,
+      and(
+        eq(projectMembers.projectId, tasks.projectId),
+        eq(projectMembers.userId, userId),
+      ),
+    )
+    .where(and(eq(tasks.id, taskId), eq(tasks.isDeleted, false)))
+    .limit(1);
+
+  return task;
+};
+
+// ✅ Fetch the task a comment belongs to, when the comment is live
+export const getCommentTaskId = async (commentId: string) => {
+  const [comment] = await db
+    .select({ taskId: taskComments.taskId })
+    .from(taskComments)
+    .where(
+      and(eq(taskComments.id, commentId), eq(taskComments.isDeleted, false)),
+    )
+    .limit(1);
+
+  return comment?.taskId;
+};
+
+// ✅ Fetch an attachment the user may see: one of a task of their
+// projects, or one they uploaded that is not yet saved with any task
+export const getMemberAttachment = async (id: string, userId: string) => {
+  const [attachment] = await db
+    .select()
+    .from(attachments)
+    .leftJoin(tasks, eq(tasks.id, attachments.taskId))
+    .where(
+      and(
+        eq(attachments.id, id),
+        or(
+          and(isNull(attachments.taskId), eq(attachments.uploadedById, userId)),
+          sql`EXISTS (
+            SELECT 1 FROM ${projectMembers}
+            WHERE ${projectMembers.projectId} = ${tasks.projectId}
+              AND ${projectMembers.userId} = ${userId}
+          )`,
+        ),
+      ),
+    )
+    .limit(1);
+
+  return attachment?.attachments;
+};
+
+// ✅ Fetch the files of a task, newest first
+export const getTaskFiles = async (taskId: string) => {
+  const files = await db
+    .select({
+      id: attachments.id,
+      fileName: attachments.fileName,
+      contentType: attachments.contentType,
+      size: attachments.size,
+      createdAt: attachments.createdAt,
+      uploadedByName: userProfiles.name,
+    })
+    .from(attachments)
+    .innerJoin(tasks, eq(tasks.id, attachments.taskId))
+    .leftJoin(userProfiles, eq(userProfiles.id, attachments.uploadedById))
+    .where(and(eq(attachments.taskId, taskId), isTaskFile))
+    .orderBy(desc(attachments.createdAt));
+
+  return files.map((file) => ({ ...file, url: getAttachmentUrl(file.id) }));
+};
@@ -0,0 +1,95 @@
+import { and, eq, gt, lte } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import { userSessions } from "@/database/schemas/auth.schema";
+import { userProfiles } from "@/database/schemas/task.schema";
+
+// Columns of a user profile that are safe to expose
+const publicUserColumns = {
+  id: userProfiles.id,
+  authId: userProfiles.authId,
+  name: userProfiles.name,
+  email: userProfiles.email,
+  avatarUrl: userProfiles.avatarUrl,
+};
+
+// ✅ Resolve the user owning a live session
+export const getSessionUser = async (tokenHash: string) => {
+  const [sessionUser] = await db
+    .select(publicUserColumns)
+    .from(userSessions)
+    .innerJoin(userProfiles, eq(userProfiles.id, userSessions.userId))
+    .where(
+      and(
+        eq(userSessions.tokenHash, tokenHash),
+        gt(userSessions.expiresAt, new Date()),
+        eq(userProfiles.isDeleted, false),
+      ),
+    )
+    .limit(1);
+
+  return sessionUser;
+};
+
+// ✅ Fetch a user by email along with the password hash for sign-in
+export const getUserCredentials = async (email: string) => {
+  const [user] = await db
+    .select({ ...publicUserColumns, passwordHash: userProfiles.passwordHash })
+    .from(userProfiles)
+    .where(
+      and(
+        eq(userProfiles.email, email.toLowerCase()),
+        eq(userProfiles.isDeleted, false),
+      ),
+    )
+    .limit(1);
+
+  return user;
+};
+
+// ✅ Create a password account. Returns undefined when the email already
+// belongs to a profile, passwordless sample profiles included
+export const createPasswordAccount = async (
+  name: string,
+  email: string,
+  passwordHash: string,
+) => {
+  const id = crypto.randomUUID();
+
+  const [user] = await db
+    .insert(userProfiles)
+    .values({
+      id,
+      authId: `local|${id}`,
+      name,
+      email: email.toLowerCase(),
+      passwordHash,
+    })
+    .onConflictDoNothing({ target: userProfiles.email })
+    .returning(publicUserColumns);
+
+  return user;
+};
+
+// ✅ Store a new session, dropping expired sessions of the same user
+export const createSession = async (
+  userId: string,
+  tokenHash: string,
+  expiresAt: Date,
+) => {
+  await db.batch([
+    db
+      .delete(userSessions)
+      .where(
+        and(
+          eq(userSessions.userId, userId),
+          lte(userSessions.expiresAt, new Date()),
+        ),
+      ),
+    db.insert(userSessions).values({ userId, tokenHash, expiresAt }),
+  ]);
+};
+
+// ✅ Remove a session on sign-out
+export const deleteSession = async (tokenHash: string) => {
+  await db.delete(userSessions).where(eq(userSessions.tokenHash, tokenHash));
+};
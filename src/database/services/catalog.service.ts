@@ -0,0 +1,104 @@
+import { and, asc, count, eq, SQL } from "drizzle-orm";
+import { PgColumn, PgTable } from "drizzle-orm/pg-core";
+import type { SelectResultFields } from "drizzle-orm/query-builders/select.types";
+import { z } from "zod";
+import { db } from "@/database/drizzle";
+import { catalogListQuerySchema } from "@/database/schemas/order.schema";
+import { matchesSearch } from "@/database/utils";
+
+type CatalogListQuery = z.infer<typeof catalogListQuerySchema>;
+
+// Table of the catalog, e.g. customers or products, with the columns of
+// a soft deleted row
+type CatalogTable = PgTable & {
+  id: PgColumn;
+  isDeleted: PgColumn;
+  isActive: PgColumn;
+  updatedAt: PgColumn;
+  deletedAt: PgColumn;
+};
+
+interface CatalogOptions<TColumns extends Record<string, PgColumn>> {
+  table: CatalogTable;
+  columns: TColumns; // Columns returned for a row
+  nameColumn: PgColumn; // Sorts the list
+  searchColumns: PgColumn[];
+}
+
+// ✅ List, fetch, create, update and soft delete the rows of a catalog
+// table, leaving out the deleted rows everywhere
+export const createCatalogService = <
+  TInsert extends Record<string, unknown>,
+  TColumns extends Record<string, PgColumn>,
+>({
+  table,
+  columns,
+  nameColumn,
+  searchColumns,
+}: CatalogOptions<TColumns>) => {
+  type Row = SelectResultFields<TColumns>;
+
+  // Queried as plain columns, the rows are typed by TColumns on return
+  const selection: Record<string, PgColumn> = columns;
+
+  const isLive = (id: string) =>
+    and(eq(table.id, id), eq(table.isDeleted, false));
+
+  return {
+    // A page of the rows by name, along with the number of rows matching
+    // the search
+    list: async ({ search, page, pageSize }: CatalogListQuery) => {
+      const conditions: (SQL | undefined)[] = [eq(table.isDeleted, false)];
+
+      if (search) conditions.push(matchesSearch(searchColumns, search));
+
+      const [rows, [{ total }]] = await db.batch([
+        db
+          .select(selection)
+          .from(table)
+          .where(and(...conditions))
+          .orderBy(asc(nameColumn), asc(table.id))
+          .limit(pageSize)
+          .offset((page - 1) * pageSize),
+        db
+          .select({ total: count() })
+          .from(table)
+          .where(and(...conditions)),
+      ]);
+
+      return { rows: rows as Row[], total };
+    },
+
+    get: async (id: string) => {
+      const [row] = await db.select(selection).from(table).where(isLive(id));
+
+      return row as Row | undefined;
+    },
+
+    create: async (data: TInsert) => {
+      const [row] = await db.insert(table).values(data).returning(selection);
+
+      return row as Row;
+    },
+
+    update: async (id: string, data: Partial<TInsert>) => {
+      const [row] = await db
+        .update(table)
+        .set({ ...data, updatedAt: new Date() })
+        .where(isLive(id))
+        .returning(selection);
+
+      return row as Row | undefined;
+    },
+
+    remove: async (id: string) => {
+      const [row] = await db
+        .update(table)
+        .set({ isDeleted: true, isActive: false, deletedAt: new Date() })
+        .where(isLive(id))
+        .returning({ id: table.id });
+
+      return row as { id: string } | undefined;
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { db } from "@/database/drizzle";
+import { customers } from "@/database/schemas/order.schema";
+import { deleteCustomer, getCustomers } from "./customer.service";
+
+vi.mock("@/database/drizzle", () => import("@/database/drizzle.mock"));
+
+const search = async (text: string) => {
+  const { customers: customerList, total } = await getCustomers({
+    search: text,
+    page: 1,
+    pageSize: 10,
+  });
+
+  return {
+    names: customerList.map((customer) => customer.customerName),
+    total,
+  };
+};
+
+beforeAll(async () => {
+  await db
+    .insert(customers)
+    .values(
+      ["100% Cotton", "1000 Lakes", "Snake_Case", "Snakes", "Back\\Slash"].map(
+        (customerName) => ({ customerName }),
+      ),
+    );
+});
+
+describe("getCustomers", () => {
+  it("matches % and _ literally", async () => {
+    expect(await search("0%")).toEqual({ names: ["100% Cotton"], total: 1 });
+    expect(await search("e_c")).toEqual({ names: ["Snake_Case"], total: 1 });
+    expect(await search("k\\s")).toEqual({ names: ["Back\\Slash"], total: 1 });
+  });
+
+  it("searches case insensitively, sorted by name", async () => {
+    expect(await search("SNAKE")).toEqual({
+      names: ["Snake_Case", "Snakes"],
+      total: 2,
+    });
+  });
+
+  it("leaves deleted customers out", async () => {
+    const {
+      customers: [lakes],
+    } = await getCustomers({ search: "Lakes", page: 1, pageSize: 10 });
+
+    expect(await deleteCustomer(lakes.id)).toEqual({ id: lakes.id });
+    expect(await deleteCustomer(lakes.id)).toBeUndefined();
+    expect(await search("Lakes")).toEqual({ names: [], total: 0 });
+  });
+});
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import {
+  customers,
+  catalogListQuerySchema,
+  insertCustomerSchema,
+  updateCustomerSchema,
+} from "@/database/schemas/order.schema";
+import { createCatalogService } from "@/database/services/catalog.service";
+
+type CustomerListQuery = z.infer<typeof catalogListQuerySchema>;
+
+// Columns returned for a customer
+const customerColumns = {
+  id: customers.id,
+  customerName: customers.customerName,
+  email: customers.email,
+  phone: customers.phone,
+  isActive: customers.isActive,
+  createdAt: customers.createdAt,
+  updatedAt: customers.updatedAt,
+};
+
+// Customers are searched by name, email and phone
+const customerCatalog = createCatalogService<
+  z.infer<typeof insertCustomerSchema>,
+  typeof customerColumns
+>({
+  table: customers,
+  columns: customerColumns,
+  nameColumn: customers.customerName,
+  searchColumns: [customers.customerName, customers.email, customers.phone],
+});
+
+// ✅ Fetch a page of the customers that are not deleted, by name, along
+// with the number of customers matching the search
+export const getCustomers = async (query: CustomerListQuery) => {
+  const { rows, total } = await customerCatalog.list(query);
+
+  return { customers: rows, total };
+};
+
+// ✅ Fetch a customer that is not deleted
+export const getCustomer = (customerId: string) =>
+  customerCatalog.get(customerId);
+
+// ✅ Insert a customer
+export const createCustomer = (data: z.infer<typeof insertCustomerSchema>) =>
+  customerCatalog.create(data);
+
+// ✅ Update a customer that is not deleted
+export const updateCustomer = (
+  customerId: string,
+  data: z.infer<typeof updateCustomerSchema>,
+) => customerCatalog.update(customerId, data);
+
+// ✅ Soft delete a customer, their orders keep referring to them
+export const deleteCustomer = (customerId: string) =>
+  customerCatalog.remove(customerId);
@@ -0,0 +1,56 @@
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import { labels, taskLabels } from "@/database/schemas/task.schema";
+
+// ✅ Fetch the labels of a project
+export const getProjectLabels = async (projectId: string) => {
+  return await db
+    .select({ id: labels.id, name: labels.name, color: labels.color })
+    .from(labels)
+    .where(eq(labels.projectId, projectId))
+    .orderBy(asc(labels.name));
+};
+
+// ✅ Fetch the labels of several tasks at once, grouped by task
+export const getLabelsByTask = async (taskIds: string[]) => {
+  const labelsByTask = new Map<
+    string,
+    { id: string; name: string; color: string }[]
+  >();
+
+  if (taskIds.length === 0) return labelsByTask;
+
+  const rows = await db
+    .select({
+      taskId: taskLabels.taskId,
+      id: labels.id,
+      name: labels.name,
+      color: labels.color,
+    })
+    .from(taskLabels)
+    .innerJoin(labels, eq(labels.id, taskLabels.labelId))
+    .where(inArray(taskLabels.taskId, taskIds))
+    .orderBy(asc(labels.name));
+
+  for (const { taskId, ...label } of rows) {
+    labelsByTask.set(taskId, [...(labelsByTask.get(taskId) ?? []), label]);
+  }
+
+  return labelsByTask;
+};
+
+// ✅ Whether every label belongs to the project, tasks cannot borrow
+// labels from other projects
+export const areProjectLabels = async (
+  projectId: string,
+  labelIds: string[],
+) => {
+  if (labelIds.length === 0) return true;
+
+  const found = await db
+    .select({ id: labels.id })
+    .from(labels)
+    .where(and(eq(labels.projectId, projectId), inArray(labels.id, labelIds)));
+
+  return found.length === new Set(labelIds).size;
+};
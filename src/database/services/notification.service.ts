@@ -0,0 +1,227 @@
+import { and, desc, eq, inArray, isNull, sql } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import {
+  NewNotification,
+  notifications,
+  projectMembers,
+  Task,
+  tasks,
+  taskWatchers,
+  userProfiles,
+} from "@/database/schemas/task.schema";
+import { watchTask } from "@/database/services/task-watcher.service";
+
+// Mention nodes of the editor are stored as
+// <span data-type="mention" data-id="<user id>" ...>
+const MENTION_TAG_PATTERN = /<span\b[^>]*\bdata-type="mention"[^>]*>/g;
+const MENTION_ID_PATTERN =
+  /\bdata-id="([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})"/;
+
+// ✅ IDs of the users mentioned in rich text
+export const getMentionedUserIds = (html: string | null | undefined) => [
+  ...new Set(
+    Array.from(
+      html?.matchAll(MENTION_TAG_PATTERN) ?? [],
+      ([tag]) => tag.match(MENTION_ID_PATTERN)?.[1],
+    ).filter((id): id is string => !!id),
+  ),
+];
+
+// ✅ Queries notifying the users mentioned in a description or comment,
+// to be run in its write batch, who start watching the task as well.
+// Users already mentioned in the previous text, the author and users
+// outside the task's project are left out
+export const notifyMentionedUsers = async ({
+  html,
+  previousHtml,
+  actorId,
+  projectId,
+  taskId,
+  commentId,
+}: {
+  html: string | null | undefined;
+  previousHtml?: string | null;
+  actorId: string;
+  projectId: string;
+  taskId: string;
+  commentId?: string;
+}) => {
+  const previousIds = getMentionedUserIds(previousHtml);
+  const mentionedIds = getMentionedUserIds(html).filter(
+    (userId) => userId !== actorId && !previousIds.includes(userId),
+  );
+
+  if (mentionedIds.length === 0) return [];
+
+  const members = await db
+    .select({ userId: projectMembers.userId })
+    .from(projectMembers)
+    .where(
+      and(
+        eq(projectMembers.projectId, projectId),
+        inArray(projectMembers.userId, mentionedIds),
+      ),
+    );
+
+  return [
+    ...insertNotifications(
+      members.map(({ userId }) => ({
+        userId,
+        actorId,
+        type: "mention" as const,
+        taskId,
+        commentId,
+      })),
+    ),
+    ...watchTask(
+      taskId,
+      members.map(({ userId }) => userId),
+    ),
+  ];
+};
+
+// Query inserting the notifications, none when there is no recipient
+const insertNotifications = (values: NewNotification[]) =>
+  values.length > 0 ? [db.insert(notifications).values(values)] : [];
+
+// ✅ IDs of the users watching a task
+export const getTaskWatcherIds = async (taskId: string) => {
+  const watcherList = await db
+    .select({ userId: taskWatchers.userId })
+    .from(taskWatchers)
+    .where(eq(taskWatchers.taskId, taskId));
+
+  return watcherList.map(({ userId }) => userId);
+};
+
+// ✅ Queries notifying the users a task is newly assigned to, unless
+// they assigned it to themselves
+export const notifyAssignee = ({
+  assigneeId,
+  previousAssigneeId,
+  actorId,
+  taskId,
+}: {
+  assigneeId: string | null | undefined;
+  previousAssigneeId?: string | null;
+  actorId: string;
+  taskId: string;
+}) =>
+  insertNotifications(
+    assigneeId && assigneeId !== previousAssigneeId && assigneeId !== actorId
+      ? [{ userId: assigneeId, actorId, type: "assigned", taskId }]
+      : [],
+  );
+
+// ✅ Queries notifying the reporter of a task when someone else changes
+// its status
+export const notifyStatusChange = ({
+  task,
+  status,
+  actorId,
+}: {
+  task: Pick<Task, "id" | "reporterId" | "status">;
+  status: Task["status"] | undefined;
+  actorId: string;
+}) =>
+  insertNotifications(
+    status &&
+      status !== task.status &&
+      task.reporterId &&
+      task.reporterId !== actorId
+      ? [
+          {
+            userId: task.reporterId,
+            actorId,
+            type: "status_changed",
+            taskId: task.id,
+            status,
+          },
+        ]
+      : [],
+  );
+
+// ✅ Queries notifying the watchers of a task about a new comment. The
+// author and the users mentioned in it, notified as such, are left out
+export const notifyCommentWatchers = async ({
+  content,
+  actorId,
+  taskId,
+  commentId,
+}: {
+  content: string;
+  actorId: string;
+  taskId: string;
+  commentId: string;
+}) => {
+  const mentionedIds = getMentionedUserIds(content);
+  const watcherIds = (await getTaskWatcherIds(taskId)).filter(
+    (userId) => userId !== actorId && !mentionedIds.includes(userId),
+  );
+
+  return insertNotifications(
+    watcherIds.map((userId) => ({
+      userId,
+      actorId,
+      type: "commented" as const,
+      taskId,
+      commentId,
+    })),
+  );
+};
+
+// ✅ Fetch the latest notifications of a user on live tasks, with the
+// number of unread ones
+export const getUserNotifications = async (userId: string, limit: number) => {
+  const conditions = [
+    eq(notifications.userId, userId),
+    eq(tasks.isDeleted, false),
+  ];
+
+  const [notificationList, [{ unreadCount }]] = await Promise.all([
+    db
+      .select({
+        id: notifications.id,
+        type: notifications.type,
+        taskId: notifications.taskId,
+        taskKey: tasks.key,
+        taskTitle: tasks.title,
+        commentId: notifications.commentId,
+        status: notifications.status,
+        readAt: notifications.readAt,
+        createdAt: notifications.createdAt,
+        actorName: userProfiles.name,
+        actorAvatarUrl: userProfiles.avatarUrl,
+      })
+      .from(notifications)
+      .innerJoin(tasks, eq(tasks.id, notifications.taskId))
+      .leftJoin(userProfiles, eq(userProfiles.id, notifications.actorId))
+      .where(and(...conditions))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit),
+    db
+      .select({ unreadCount: sql`count(${notifications.id})` })
+      .from(notifications)
+      .innerJoin(tasks, eq(tasks.id, notifications.taskId))
+      .where(and(...conditions, isNull(notifications.readAt))),
+  ]);
+
+  return { notifications: notificationList, unreadCount: Number(unreadCount) };
+};
+
+// ✅ Mark notifications of a user as read, all of them without IDs
+export const markNotificationsRead = async (userId: string, ids?: string[]) => {
+  const updated = await db
+    .update(notifications)
+    .set({ readAt: new Date() })
+    .where(
+      and(
+        eq(notifications.userId, userId),
+        isNull(notifications.readAt),
+        ...(ids ? [inArray(notifications.id, ids)] : []),
+      ),
+    )
+    .returning({ id: notifications.id });
+
+  return updated.length;
+};
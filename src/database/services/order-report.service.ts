@@ -0,0 +1,146 @@
+import {
+  and,
+  between,
+  desc,
+  eq,
+  gte,
+  lte,
+  sql,
+  AnyColumn,
+  SQL,
+} from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/database/drizzle";
+import {
+  customers,
+  orderDetails,
+  orders,
+  orderReportQuerySchema,
+  products,
+} from "@/database/schemas/order.schema";
+
+type OrderReportQuery = z.infer<typeof orderReportQuerySchema>;
+
+// Sum of a decimal column, zero when no row matches
+const sumOf = (column: AnyColumn) =>
+  sql<number>`coalesce(sum(${column}), 0)::float8`.mapWith(Number);
+
+// ✅ Build the conditions of the orders counted by the reports, undefined
+// when a date of the range does not parse
+export const getOrderReportConditions = ({
+  from,
+  to,
+}: Pick<OrderReportQuery, "from" | "to">): SQL[] | undefined => {
+  const fromDate = from ? new Date(from) : undefined;
+  const toDate = to ? new Date(to) : undefined;
+
+  if (
+    (fromDate && isNaN(fromDate.getTime())) ||
+    (toDate && isNaN(toDate.getTime()))
+  ) {
+    return undefined;
+  }
+
+  // Deleted and inactive orders are not sales
+  const whereClause: SQL[] = [
+    eq(orders.isDeleted, false),
+    eq(orders.isActive, true),
+  ];
+
+  if (fromDate && toDate) {
+    whereClause.push(between(orders.orderDate, fromDate, toDate));
+  } else if (fromDate) {
+    whereClause.push(gte(orders.orderDate, fromDate));
+  } else if (toDate) {
+    whereClause.push(lte(orders.orderDate, toDate));
+  }
+
+  return whereClause;
+};
+
+// ✅ Fetch the sales of the orders matching the conditions: totals, revenue
+// per period and the top products and customers
+export const getOrderReports = async (
+  { interval, limit }: Pick<OrderReportQuery, "interval" | "limit">,
+  whereClause: SQL[],
+) => {
+  // The interval is one of the validated enum values, inlined so the
+  // grouped expression is identical in the select and the group by
+  const period = sql<string>`to_char(date_trunc(${sql.raw(`'${interval}'`)}, ${orders.orderDate}), 'YYYY-MM-DD')`;
+  const productQuantity = sql<number>`coalesce(sum(${orderDetails.quantity}), 0)::int`;
+  const productRevenue = sumOf(orderDetails.amount);
+  const customerRevenue = sumOf(orders.totalAmount);
+
+  // Top products by a measure of their line items
+  const topProducts = (measure: SQL) =>
+    db
+      .select({
+        id: products.id,
+        productName: products.productName,
+        productCode: products.productCode,
+        quantity: productQuantity,
+        revenue: productRevenue,
+      })
+      .from(orderDetails)
+      .innerJoin(orders, eq(orders.id, orderDetails.orderId))
+      .innerJoin(products, eq(products.id, orderDetails.productId))
+      .where(and(...whereClause))
+      .groupBy(products.id)
+      .orderBy(desc(measure), products.productName)
+      .limit(limit);
+
+  const [
+    [summary],
+    revenue,
+    productsByQuantity,
+    productsByRevenue,
+    topCustomers,
+  ] = await db.batch([
+    db
+      .select({
+        revenue: sumOf(orders.totalAmount),
+        orderCount: sql<number>`count(*)::int`,
+      })
+      .from(orders)
+      .where(and(...whereClause)),
+    db
+      .select({
+        period,
+        revenue: sumOf(orders.totalAmount),
+        orderCount: sql<number>`count(*)::int`,
+      })
+      .from(orders)
+      .where(and(...whereClause))
+      .groupBy(period)
+      .orderBy(period),
+    topProducts(productQuantity),
+    topProducts(productRevenue),
+    db
+      .select({
+        id: customers.id,
+        customerName: customers.customerName,
+        orderCount: sql<number>`count(*)::int`,
+        revenue: customerRevenue,
+      })
+      .from(orders)
+      .innerJoin(customers, eq(customers.id, orders.customerId))
+      .where(and(...whereClause))
+      .groupBy(customers.id)
+      .orderBy(desc(customerRevenue), customers.customerName)
+      .limit(limit),
+  ]);
+
+  return {
+    summary: {
+      ...summary,
+      averageOrderValue:
+        summary.orderCount > 0 ? summary.revenue / summary.orderCount : 0,
+    },
+    revenue,
+    topProducts: {
+      byQuantity: productsByQuantity,
+      byRevenue: productsByRevenue,
+    },
+    topCustomers,
+  };
+};
@@ -1,14 +1,37 @@
-import { desc, eq, sql } from "drizzle-orm";
+import {
+  and,
+  asc,
+  between,
+  count,
+  desc,
+  eq,
+  gte,
+  inArray,
+  lte,
+  sql,
+  SQL,
+} from "drizzle-orm";
+import { z } from "zod";
 import { db } from "@/database/drizzle";
+import { matchesSearch, splitValues } from "@/database/utils";
 import {
   orders,
   customers,
-  // orderDetails,
-  // products,
+  orderDetails,
+  orderNoCounters,
+  products,
+  saveOrderSchema,
+  orderListQuerySchema,
   // OrderDetail,
 } from "@/database/schemas/order.schema";
 
-// ✅ Fetch an order with customer details & nested line items using Drizzle ORM
+type SaveOrder = z.infer<typeof saveOrderSchema>;
+type OrderListQuery = z.infer<typeof orderListQuerySchema>;
+
+// Prefix of the order numbers, e.g. ORD-000042
+const ORDER_NO_PREFIX = "ORD";
+
+// ✅ Fetch a live order with customer details & nested line items using Drizzle ORM
 export const getOrder = async (orderId: string) => {
   // const [order] = await db
   //   .select({
@@ -46,7 +69,8 @@ export const getOrder = async (orderId: string) => {
   // return order; // ✅ Returns a structured order with nested customer & line items
 
   const order = await db.query.orders.findFirst({
-    where: (table, { eq }) => eq(table.id, orderId),
+    where: (table, { and, eq }) =>
+      and(eq(table.id, orderId), eq(table.isDeleted, false)),
     columns: {
       id: true,
       orderNo: true,
@@ -85,13 +109,101 @@ export const getOrder = async (orderId: string) => {
   return order;
 };
 
-export const getOrders = async (page: number = 1, pageSize: number = 10) => {
+// ✅ Build the conditions of an order list query from its filters
+export const getOrderListConditions = (
+  query: OrderListQuery,
+): (SQL | undefined)[] => {
+  const {
+    search,
+    customer,
+    product,
+    orderDateFrom,
+    orderDateTo,
+    minAmount,
+    maxAmount,
+  } = query;
+
+  // Filter out deleted and inactive orders
+  const whereClause: (SQL | undefined)[] = [
+    eq(orders.isDeleted, false),
+    eq(orders.isActive, true),
+  ];
+
+  // Search the order number and the customer name and email
+  if (search) {
+    whereClause.push(
+      matchesSearch(
+        [orders.orderNo, customers.customerName, customers.email],
+        search,
+      ),
+    );
+  }
+
+  if (customer) {
+    whereClause.push(inArray(orders.customerId, splitValues(customer)));
+  }
+
+  // Orders with a line item of any of the products
+  if (product) {
+    whereClause.push(
+      inArray(
+        orders.id,
+        db
+          .select({ orderId: orderDetails.orderId })
+          .from(orderDetails)
+          .where(inArray(orderDetails.productId, splitValues(product))),
+      ),
+    );
+  }
+
+  if (orderDateFrom && orderDateTo) {
+    const orderDateFromDate = new Date(orderDateFrom);
+    const orderDateToDate = new Date(orderDateTo);
+
+    if (
+      !isNaN(orderDateFromDate.getTime()) &&
+      !isNaN(orderDateToDate.getTime())
+    ) {
+      whereClause.push(
+        between(orders.orderDate, orderDateFromDate, orderDateToDate),
+      );
+    } else {
+      console.error("Invalid date format for orderDate range");
+    }
+  }
+
+  if (minAmount !== undefined) {
+    whereClause.push(gte(orders.totalAmount, minAmount.toString()));
+  }
+  if (maxAmount !== undefined) {
+    whereClause.push(lte(orders.totalAmount, maxAmount.toString()));
+  }
+
+  return whereClause;
+};
+
+// ✅ Fetch a page of the orders matching the filters with their customer,
+// along with the number of matching orders
+export const getOrders = async (query: OrderListQuery) => {
+  const { sort, order, page, pageSize } = query;
+  const whereClause = getOrderListConditions(query);
+
+  // Customer names come from the joined customer, other sorts are columns
+  const sortColumn =
+    sort === "customerName" ? customers.customerName : orders[sort];
+  // The id breaks ties so pages neither repeat nor skip orders
+  const orderBy = [
+    order === "desc" ? desc(sortColumn) : asc(sortColumn),
+    asc(orders.id),
+  ];
+
   // Fetch paginated order IDs first for performance optimization
   const paginatedOrders = db
     .select({ id: orders.id })
     .from(orders)
-    .where(eq(orders.isActive, true))
-    .orderBy(desc(orders.orderNo)) // Ensuring consistent ordering
+    .innerJoin(customers, eq(customers.id, orders.customerId))
+    .where(and(...whereClause))
+    .orderBy(...orderBy)
     .limit(pageSize)
     .offset((page - 1) * pageSize)
     .as("subquery");
@@ -115,7 +227,169 @@ export const getOrders = async (page: number = 1, pageSize: number = 10) => {
     .from(orders)
     .innerJoin(paginatedOrders, eq(orders.id, paginatedOrders.id))
     .innerJoin(customers, eq(customers.id, orders.customerId))
-    .orderBy(desc(orders.orderNo));
+    .orderBy(...orderBy);
+
+  const [{ total }] = await db
+    .select({ total: count() })
+    .from(orders)
+    .innerJoin(customers, eq(customers.id, orders.customerId))
+    .where(and(...whereClause));
+
+  return { orders: orderList, total };
+};
+
+// ✅ Fetch the active customers and products an order can be placed with
+export const getOrderFormOptions = async () => {
+  const [customerList, productList] = await db.batch([
+    db
+      .select({ id: customers.id, customerName: customers.customerName })
+      .from(customers)
+      .where(and(eq(customers.isDeleted, false), eq(customers.isActive, true)))
+      .orderBy(asc(customers.customerName)),
+    db
+      .select({
+        id: products.id,
+        productName: products.productName,
+        productCode: products.productCode,
+      })
+      .from(products)
+      .where(and(eq(products.isDeleted, false), eq(products.isActive, true)))
+      .orderBy(asc(products.productName)),
+  ]);
+
+  return { customers: customerList, products: productList };
+};
+
+// ✅ Check that the customer and every product of the order exist and are
+// active
+export const validateOrderReferences = async ({
+  customerId,
+  lineItems,
+}: SaveOrder): Promise<string | null> => {
+  const [customer] = await db
+    .select({ id: customers.id })
+    .from(customers)
+    .where(
+      and(
+        eq(customers.id, customerId),
+        eq(customers.isDeleted, false),
+        eq(customers.isActive, true),
+      ),
+    );
+
+  if (!customer) return "Customer not found";
+
+  const productIds = [...new Set(lineItems.map((item) => item.productId))];
+  const productList = await db
+    .select({ id: products.id })
+    .from(products)
+    .where(
+      and(
+        inArray(products.id, productIds),
+        eq(products.isDeleted, false),
+        eq(products.isActive, true),
+      ),
+    );
+
+  if (productList.length !== productIds.length) return "Product not found";
+
+  return null;
+};
+
+// ✅ Amount of each line item and the order total, rounded to cents.
+// Computed from integer cents of the stored price, so that the amounts
+// match the prices and the sum carries no float error
+export const priceOrderLineItems = (lineItems: SaveOrder["lineItems"]) => {
+  const pricedItems = lineItems.map((item) => {
+    const priceInCents = Math.round(item.price * 100);
+
+    return {
+      ...item,
+      priceInCents,
+      amountInCents: item.quantity * priceInCents,
+    };
+  });
+  const totalInCents = pricedItems.reduce(
+    (total, item) => total + item.amountInCents,
+    0,
+  );
+
+  return {
+    lineItems: pricedItems.map(({ priceInCents, amountInCents, ...item }) => ({
+      productId: item.productId,
+      quantity: item.quantity,
+      price: (priceInCents / 100).toFixed(2),
+      amount: (amountInCents / 100).toFixed(2),
+    })),
+    totalAmount: (totalInCents / 100).toFixed(2),
+  };
+};
+
+// ✅ Reserve the next order number. The counter row is bumped in a single
+// upsert, so concurrent callers always receive distinct numbers
+export const reserveOrderNo = async () => {
+  const [counter] = await db
+    .insert(orderNoCounters)
+    .values({ prefix: ORDER_NO_PREFIX, lastValue: 1 })
+    .onConflictDoUpdate({
+      target: orderNoCounters.prefix,
+      set: { lastValue: sql`${orderNoCounters.lastValue} + 1` },
+    })
+    .returning({ lastValue: orderNoCounters.lastValue });
+
+  return `${ORDER_NO_PREFIX}-${counter.lastValue.toString().padStart(6, "0")}`;
+};
+
+// ✅ Fetch an order that can still be edited
+export const getActiveOrder = async (orderId: string) => {
+  const [order] = await db
+    .select({ id: orders.id })
+    .from(orders)
+    .where(and(eq(orders.id, orderId), eq(orders.isDeleted, false)));
+
+  return order;
+};
+
+// ✅ Insert an order with its line items in a single batch, so either both
+// are stored or neither
+export const createOrder = async (data: SaveOrder, orderNo: string) => {
+  const id = crypto.randomUUID();
+  const { lineItems, totalAmount } = priceOrderLineItems(data.lineItems);
+
+  await db.batch([
+    db.insert(orders).values({
+      id,
+      orderNo,
+      customerId: data.customerId,
+      orderDate: data.orderDate ? new Date(data.orderDate) : undefined,
+      totalAmount,
+    }),
+    db
+      .insert(orderDetails)
+      .values(lineItems.map((item) => ({ ...item, orderId: id }))),
+  ]);
+
+  return id;
+};
+
+// ✅ Replace the customer, date and line items of an order in a single
+// batch, recomputing its total
+export const updateOrder = async (orderId: string, data: SaveOrder) => {
+  const { lineItems, totalAmount } = priceOrderLineItems(data.lineItems);
 
-  return orderList;
+  await db.batch([
+    db
+      .update(orders)
+      .set({
+        customerId: data.customerId,
+        ...(data.orderDate && { orderDate: new Date(data.orderDate) }),
+        totalAmount,
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, orderId)),
+    db.delete(orderDetails).where(eq(orderDetails.orderId, orderId)),
+    db
+      .insert(orderDetails)
+      .values(lineItems.map((item) => ({ ...item, orderId }))),
+  ]);
 };
@@ -0,0 +1,58 @@
+import { z } from "zod";
+import {
+  products,
+  catalogListQuerySchema,
+  insertProductSchema,
+  updateProductSchema,
+} from "@/database/schemas/order.schema";
+import { createCatalogService } from "@/database/services/catalog.service";
+
+type ProductListQuery = z.infer<typeof catalogListQuerySchema>;
+
+// Columns returned for a product
+const productColumns = {
+  id: products.id,
+  productName: products.productName,
+  productCode: products.productCode,
+  description: products.description,
+  isActive: products.isActive,
+  createdAt: products.createdAt,
+  updatedAt: products.updatedAt,
+};
+
+// Products are searched by name and code
+const productCatalog = createCatalogService<
+  z.infer<typeof insertProductSchema>,
+  typeof productColumns
+>({
+  table: products,
+  columns: productColumns,
+  nameColumn: products.productName,
+  searchColumns: [products.productName, products.productCode],
+});
+
+// ✅ Fetch a page of the products that are not deleted, by name, along
+// with the number of products matching the search
+export const getProducts = async (query: ProductListQuery) => {
+  const { rows, total } = await productCatalog.list(query);
+
+  return { products: rows, total };
+};
+
+// ✅ Fetch a product that is not deleted
+export const getProduct = (productId: string) => productCatalog.get(productId);
+
+// ✅ Insert a product, its code must not be taken by another product
+export const createProduct = (data: z.infer<typeof insertProductSchema>) =>
+  productCatalog.create(data);
+
+// ✅ Update a product that is not deleted
+export const updateProduct = (
+  productId: string,
+  data: z.infer<typeof updateProductSchema>,
+) => productCatalog.update(productId, data);
+
+// ✅ Soft delete a product, the orders of it keep referring to it. Its
+// code is free for a new product
+export const deleteProduct = (productId: string) =>
+  productCatalog.remove(productId);
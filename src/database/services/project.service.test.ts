@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from "vitest";
+import { db } from "@/database/drizzle";
+import { taskKeyCounters } from "@/database/schemas/task.schema";
+import { reserveProjectTaskKeys } from "./project.service";
+
+vi.mock("@/database/drizzle", () => import("@/database/drizzle.mock"));
+
+describe("reserveProjectTaskKeys", () => {
+  it("hands out consecutive keys from the project's counter", async () => {
+    const first = await reserveProjectTaskKeys("SEQ", 1);
+    const rest = await reserveProjectTaskKeys("SEQ", 3);
+
+    expect([...first, ...rest]).toEqual([
+      "SEQ-0001",
+      "SEQ-0002",
+      "SEQ-0003",
+      "SEQ-0004",
+    ]);
+  });
+
+  it("continues after the highest key of the counter", async () => {
+    await db
+      .insert(taskKeyCounters)
+      .values({ keyPrefix: "WEB", lastValue: 9999 });
+
+    expect(await reserveProjectTaskKeys("WEB", 2)).toEqual([
+      "WEB-10000",
+      "WEB-10001",
+    ]);
+  });
+});
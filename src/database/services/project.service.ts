@@ -0,0 +1,147 @@
+import { and, asc, eq, sql } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import { isUniqueViolation } from "@/database/utils";
+import {
+  projects,
+  projectMembers,
+  taskKeyCounters,
+  userProfiles,
+} from "@/database/schemas/task.schema";
+
+// ✅ Fetch the live projects a user is a member of
+export const getUserProjects = async (userId: string) => {
+  return await db
+    .select({
+      id: projects.id,
+      name: projects.name,
+      keyPrefix: projects.keyPrefix,
+      createdAt: projects.createdAt,
+      updatedAt: projects.updatedAt,
+    })
+    .from(projects)
+    .innerJoin(projectMembers, eq(projectMembers.projectId, projects.id))
+    .where(
+      and(eq(projectMembers.userId, userId), eq(projects.isDeleted, false)),
+    )
+    .orderBy(asc(projects.name));
+};
+
+// ✅ Fetch a live project, only when the user is one of its members
+export const getMemberProject = async (projectId: string, userId: string) => {
+  const [project] = await db
+    .select({
+      id: projects.id,
+      name: projects.name,
+      keyPrefix: projects.keyPrefix,
+    })
+    .from(projects)
+    .innerJoin(projectMembers, eq(projectMembers.projectId, projects.id))
+    .where(
+      and(
+        eq(projects.id, projectId),
+        eq(projectMembers.userId, userId),
+        eq(projects.isDeleted, false),
+      ),
+    )
+    .limit(1);
+
+  return project;
+};
+
+// ✅ Whether the user is a member of the project, e.g. before a task of
+// the project is assigned to them
+export const isProjectMember = async (projectId: string, userId: string) => {
+  const [member] = await db
+    .select({ userId: projectMembers.userId })
+    .from(projectMembers)
+    .where(
+      and(
+        eq(projectMembers.projectId, projectId),
+        eq(projectMembers.userId, userId),
+      ),
+    )
+    .limit(1);
+
+  return !!member;
+};
+
+// ✅ Fetch the members of a project
+export const getProjectMembers = async (projectId: string) => {
+  return await db
+    .select({
+      id: userProfiles.id,
+      name: userProfiles.name,
+      email: userProfiles.email,
+      avatarUrl: userProfiles.avatarUrl,
+      joinedAt: projectMembers.createdAt,
+    })
+    .from(projectMembers)
+    .innerJoin(userProfiles, eq(userProfiles.id, projectMembers.userId))
+    .where(eq(projectMembers.projectId, projectId))
+    .orderBy(asc(userProfiles.name));
+};
+
+// ✅ Create a project with its creator as the first member.
+// Returns undefined when the key prefix is already taken
+export const createProject = async (
+  name: string,
+  keyPrefix: string,
+  creatorId: string,
+) => {
+  const [existingProject] = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(eq(projects.keyPrefix, keyPrefix))
+    .limit(1);
+
+  if (existingProject) return undefined;
+
+  const id = crypto.randomUUID();
+
+  try {
+    const [[project]] = await db.batch([
+      db.insert(projects).values({ id, name, keyPrefix }).returning(),
+      db.insert(projectMembers).values({ projectId: id, userId: creatorId }),
+    ]);
+
+    return project;
+  } catch (error) {
+    // Another request took the key prefix since the check above
+    if (isUniqueViolation(error, "projects_key_prefix_unique")) {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+// ✅ Reserve the next keys in the project's own sequence, e.g. WEB-0001.
+// The counter row is bumped in a single upsert, so concurrent callers
+// always receive distinct numbers
+export const reserveProjectTaskKeys = async (
+  keyPrefix: string,
+  count: number,
+) => {
+  const [counter] = await db
+    .insert(taskKeyCounters)
+    .values({ keyPrefix, lastValue: count })
+    .onConflictDoUpdate({
+      target: taskKeyCounters.keyPrefix,
+      set: { lastValue: sql`${taskKeyCounters.lastValue} + ${count}` },
+    })
+    .returning({ lastValue: taskKeyCounters.lastValue });
+
+  const firstValue = counter.lastValue - count + 1;
+
+  return Array.from(
+    { length: count },
+    (_, index) =>
+      `${keyPrefix}-${(firstValue + index).toString().padStart(4, "0")}`,
+  );
+};
+
+// ✅ Next key in the project's own sequence
+export const generateProjectTaskKey = async (keyPrefix: string) => {
+  const [key] = await reserveProjectTaskKeys(keyPrefix, 1);
+
+  return key;
+};
@@ -0,0 +1,134 @@
+import { desc, eq, inArray } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import {
+  labels,
+  taskActivity,
+  userProfiles,
+  Task,
+  NewTaskActivity,
+} from "@/database/schemas/task.schema";
+import { getLabelsByTask } from "@/database/services/label.service";
+
+// Fields whose changes are recorded in the task activity trail
+export const TRACKED_TASK_FIELDS = [
+  "title",
+  "description",
+  "status",
+  "type",
+  "priority",
+  "assigneeId",
+  "dueDate",
+  "storyPoints",
+  "timeEstimate",
+  "timeSpent",
+  "parentId",
+] as const;
+
+type TrackedTaskField = (typeof TRACKED_TASK_FIELDS)[number];
+
+// Activity values are stored as text, dates in ISO format
+const toActivityValue = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+};
+
+// ✅ Build one "updated" entry per tracked field that actually changes
+export const diffTaskChanges = (
+  previous: Pick<Task, "id" | TrackedTaskField>,
+  changes: Partial<Record<TrackedTaskField, unknown>>,
+  actorId: string | null,
+): NewTaskActivity[] => {
+  return TRACKED_TASK_FIELDS.filter((field) => changes[field] !== undefined)
+    .map((field) => ({
+      field,
+      oldValue: toActivityValue(previous[field]),
+      newValue: toActivityValue(changes[field]),
+    }))
+    .filter(({ oldValue, newValue }) => oldValue !== newValue)
+    .map(({ field, oldValue, newValue }) => ({
+      taskId: previous.id,
+      actorId,
+      action: "updated" as const,
+      field,
+      oldValue,
+      newValue,
+    }));
+};
+
+// ✅ Build one "updated" entry per label added to or removed from each task,
+// with the label name as the new or the old value. The next labels of a
+// task are worked out from its current label IDs
+export const diffTaskLabels = async (
+  taskIds: string[],
+  getNextLabelIds: (labelIds: string[]) => string[],
+  actorId: string | null,
+): Promise<NewTaskActivity[]> => {
+  const labelsByTask = await getLabelsByTask(taskIds);
+
+  const changes = taskIds.map((taskId) => {
+    const current = labelsByTask.get(taskId) ?? [];
+    const currentIds = current.map((label) => label.id);
+    const nextIds = new Set(getNextLabelIds(currentIds));
+
+    return {
+      taskId,
+      removed: current.filter((label) => !nextIds.has(label.id)),
+      addedIds: [...nextIds].filter((id) => !currentIds.includes(id)),
+    };
+  });
+
+  // Names of the labels a task does not have yet
+  const addedIds = [...new Set(changes.flatMap((c) => c.addedIds))];
+  const addedLabels =
+    addedIds.length > 0
+      ? await db
+          .select({ id: labels.id, name: labels.name })
+          .from(labels)
+          .where(inArray(labels.id, addedIds))
+      : [];
+
+  return changes.flatMap(({ taskId, removed, addedIds }) => [
+    ...removed.map((label) => ({
+      taskId,
+      actorId,
+      action: "updated" as const,
+      field: "labels",
+      oldValue: label.name,
+      newValue: null,
+    })),
+    ...addedLabels
+      .filter((label) => addedIds.includes(label.id))
+      .map((label) => ({
+        taskId,
+        actorId,
+        action: "updated" as const,
+        field: "labels",
+        oldValue: null,
+        newValue: label.name,
+      })),
+  ]);
+};
+
+// ✅ Fetch the activity trail of a task, newest first, with actor details
+export const getTaskActivity = async (taskId: string) => {
+  const activityList = await db
+    .select({
+      id: taskActivity.id,
+      taskId: taskActivity.taskId,
+      action: taskActivity.action,
+      field: taskActivity.field,
+      oldValue: taskActivity.oldValue,
+      newValue: taskActivity.newValue,
+      createdAt: taskActivity.createdAt,
+      actorId: taskActivity.actorId,
+      actorName: userProfiles.name,
+      actorAvatarUrl: userProfiles.avatarUrl,
+    })
+    .from(taskActivity)
+    .leftJoin(userProfiles, eq(taskActivity.actorId, userProfiles.id))
+    .where(eq(taskActivity.taskId, taskId))
+    .orderBy(desc(taskActivity.createdAt));
+
+  return activityList;
+};
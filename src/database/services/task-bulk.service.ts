@@ -0,0 +1,181 @@
+import { and, eq, getTableColumns, inArray } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/database/drizzle";
+import {
+  bulkUpdateTasksSchema,
+  projectMembers,
+  Task,
+  taskActivity,
+  taskLabels,
+  tasks,
+} from "@/database/schemas/task.schema";
+import {
+  diffTaskChanges,
+  diffTaskLabels,
+} from "@/database/services/task-activity.service";
+import { validateTaskParent } from "@/database/services/task-hierarchy.service";
+import { areProjectLabels } from "@/database/services/label.service";
+import { isProjectMember } from "@/database/services/project.service";
+import {
+  notifyAssignee,
+  notifyStatusChange,
+} from "@/database/services/notification.service";
+import { watchTask } from "@/database/services/task-watcher.service";
+
+type BulkTaskChanges = z.infer<typeof bulkUpdateTasksSchema>["changes"];
+
+// ✅ Fetch the live tasks among the IDs that belong to projects the user
+// is a member of
+export const getMemberTasks = async (ids: string[], userId: string) => {
+  const taskList = await db
+    .select(getTableColumns(tasks))
+    .from(tasks)
+    .innerJoin(
+      projectMembers,
+      and(
+        eq(projectMembers.projectId, tasks.projectId),
+        eq(projectMembers.userId, userId),
+      ),
+    )
+    .where(and(inArray(tasks.id, ids), eq(tasks.isDeleted, false)));
+
+  return taskList;
+};
+
+// ✅ Check the changes against every task: a new type must suit each
+// task's place in the hierarchy, an assignee must be a member and labels
+// must be of the tasks' project
+export const validateBulkTaskChanges = async (
+  taskList: Task[],
+  changes: BulkTaskChanges,
+): Promise<string | null> => {
+  if (changes.dueDate && isNaN(new Date(changes.dueDate).getTime())) {
+    return "Invalid dueDate format";
+  }
+
+  if (changes.type) {
+    for (const task of taskList) {
+      const parentError = await validateTaskParent({
+        id: task.id,
+        projectId: task.projectId,
+        type: changes.type,
+        parentId: task.parentId,
+      });
+
+      if (parentError) return `${task.key}: ${parentError}`;
+    }
+  }
+
+  if (changes.assigneeId) {
+    const projectIds = new Set(taskList.map((task) => task.projectId));
+
+    for (const projectId of projectIds) {
+      if (!(await isProjectMember(projectId, changes.assigneeId))) {
+        return "Assignee is not a member of this project";
+      }
+    }
+  }
+
+  const labelIds = [
+    ...(changes.addLabelIds ?? []),
+    ...(changes.removeLabelIds ?? []),
+  ];
+
+  if (labelIds.length > 0) {
+    const projectIds = new Set(taskList.map((task) => task.projectId));
+
+    if (projectIds.size > 1) {
+      return "Labels can only be changed on tasks of a single project";
+    }
+    if (!(await areProjectLabels(taskList[0].projectId, labelIds))) {
+      return "Label not found in this project";
+    }
+  }
+
+  return null;
+};
+
+// ✅ Queries applying the changes to every task in a single batch, along
+// with the activity, notifications and watchers a single edit records
+export const bulkUpdateTaskQueries = async (
+  taskList: Task[],
+  { addLabelIds = [], removeLabelIds = [], ...changes }: BulkTaskChanges,
+  actorId: string,
+) => {
+  const ids = taskList.map((task) => task.id);
+  const fields = {
+    ...changes,
+    dueDate:
+      changes.dueDate === undefined
+        ? undefined
+        : changes.dueDate
+          ? new Date(changes.dueDate)
+          : null,
+  };
+  const hasFieldChanges = Object.values(fields).some(
+    (value) => value !== undefined,
+  );
+  const activity = [
+    ...taskList.flatMap((task) => diffTaskChanges(task, fields, actorId)),
+    ...(addLabelIds.length > 0 || removeLabelIds.length > 0
+      ? await diffTaskLabels(
+          ids,
+          // Removed first, so a label in both lists ends up added
+          (labelIds) => [
+            ...labelIds.filter((id) => !removeLabelIds.includes(id)),
+            ...addLabelIds,
+          ],
+          actorId,
+        )
+      : []),
+  ];
+
+  return [
+    ...(hasFieldChanges
+      ? [
+          db
+            .update(tasks)
+            .set({ ...fields, updatedAt: new Date() })
+            .where(inArray(tasks.id, ids)),
+        ]
+      : []),
+    ...(activity.length > 0 ? [db.insert(taskActivity).values(activity)] : []),
+    ...(removeLabelIds.length > 0
+      ? [
+          db
+            .delete(taskLabels)
+            .where(
+              and(
+                inArray(taskLabels.taskId, ids),
+                inArray(taskLabels.labelId, removeLabelIds),
+              ),
+            ),
+        ]
+      : []),
+    ...(addLabelIds.length > 0
+      ? [
+          db
+            .insert(taskLabels)
+            .values(
+              ids.flatMap((taskId) =>
+                addLabelIds.map((labelId) => ({ taskId, labelId })),
+              ),
+            )
+            .onConflictDoNothing(),
+        ]
+      : []),
+    ...taskList.flatMap((task) => [
+      ...notifyAssignee({
+        assigneeId: fields.assigneeId,
+        previousAssigneeId: task.assigneeId,
+        actorId,
+        taskId: task.id,
+      }),
+      ...notifyStatusChange({ task, status: fields.status, actorId }),
+      // A new assignee starts watching the task
+      ...(fields.assigneeId && fields.assigneeId !== task.assigneeId
+        ? watchTask(task.id, [fields.assigneeId])
+        : []),
+    ]),
+  ];
+};
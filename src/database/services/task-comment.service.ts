@@ -0,0 +1,187 @@
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  exists,
+  inArray,
+  isNull,
+  lt,
+  or,
+  sql,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "@/database/drizzle";
+import {
+  commentReactions,
+  taskCommentRevisions,
+  taskComments,
+  userProfiles,
+} from "@/database/schemas/task.schema";
+
+export interface CommentReactionSummary {
+  emoji: string;
+  count: number;
+  reacted: boolean; // Whether the requesting user is one of the reacting users
+}
+
+const reply = alias(taskComments, "reply");
+
+// Columns of a listed comment, with its author
+const commentColumns = {
+  id: taskComments.id,
+  taskId: taskComments.taskId,
+  content: taskComments.content,
+  createdAt: taskComments.createdAt,
+  updatedAt: taskComments.updatedAt,
+  userId: taskComments.userId,
+  parentCommentId: taskComments.parentCommentId,
+  isDeleted: taskComments.isDeleted,
+  authorName: userProfiles.name,
+  authorAvatarUrl: userProfiles.avatarUrl,
+  revisionCount: sql<number>`(
+    SELECT count(*)::int FROM ${taskCommentRevisions}
+    WHERE ${taskCommentRevisions.commentId} = ${taskComments.id}
+  )`,
+};
+
+// ✅ Fetch a page of the threads of a task, newest first: up to `limit`
+// top-level comments older than the `before` comment, with all their
+// replies. Resolves to null when the cursor is not a comment of the task
+export const getTaskCommentPage = async (
+  taskId: string,
+  { before, limit }: { before?: string; limit: number },
+) => {
+  const [cursor] = before
+    ? await db
+        .select({ id: taskComments.id, createdAt: taskComments.createdAt })
+        .from(taskComments)
+        .where(
+          and(eq(taskComments.id, before), eq(taskComments.taskId, taskId)),
+        )
+        .limit(1)
+    : [];
+
+  if (before && !cursor) return null;
+
+  // One more thread than asked tells whether another page follows
+  const threads = await db
+    .select(commentColumns)
+    .from(taskComments)
+    .leftJoin(userProfiles, eq(taskComments.userId, userProfiles.id))
+    .where(
+      and(
+        eq(taskComments.taskId, taskId),
+        isNull(taskComments.parentCommentId),
+        or(
+          eq(taskComments.isDeleted, false),
+          // A deleted comment stays in place while it has replies
+          exists(
+            db
+              .select({ id: reply.id })
+              .from(reply)
+              .where(
+                and(
+                  eq(reply.parentCommentId, taskComments.id),
+                  eq(reply.isDeleted, false),
+                ),
+              ),
+          ),
+        ),
+        ...(cursor
+          ? [
+              or(
+                lt(taskComments.createdAt, cursor.createdAt),
+                and(
+                  eq(taskComments.createdAt, cursor.createdAt),
+                  lt(taskComments.id, cursor.id),
+                ),
+              ),
+            ]
+          : []),
+      ),
+    )
+    .orderBy(desc(taskComments.createdAt), desc(taskComments.id))
+    .limit(limit + 1);
+
+  const pageThreads = threads.slice(0, limit);
+  const threadIds = pageThreads.map((thread) => thread.id);
+
+  const replies =
+    threadIds.length > 0
+      ? await db
+          .select(commentColumns)
+          .from(taskComments)
+          .leftJoin(userProfiles, eq(taskComments.userId, userProfiles.id))
+          .where(
+            and(
+              inArray(taskComments.parentCommentId, threadIds),
+              eq(taskComments.isDeleted, false),
+            ),
+          )
+          .orderBy(asc(taskComments.createdAt))
+      : [];
+
+  return {
+    comments: [...pageThreads, ...replies].map((comment) => ({
+      ...comment,
+      // Only the placeholder of a deleted comment is shown
+      content: comment.isDeleted ? "" : comment.content,
+    })),
+    nextCursor:
+      threads.length > limit ? pageThreads[pageThreads.length - 1].id : null,
+  };
+};
+
+// ✅ Check that a comment can be replied to within a task: a live
+// top-level comment of the same task, threads being one level deep
+export const canReplyTo = async (parentCommentId: string, taskId: string) => {
+  const [parent] = await db
+    .select({ id: taskComments.id })
+    .from(taskComments)
+    .where(
+      and(
+        eq(taskComments.id, parentCommentId),
+        eq(taskComments.taskId, taskId),
+        eq(taskComments.isDeleted, false),
+        isNull(taskComments.parentCommentId),
+      ),
+    )
+    .limit(1);
+
+  return !!parent;
+};
+
+// ✅ Reactions to the given comments, counted per emoji in the order
+// they were first used, by comment ID
+export const getCommentReactions = async (
+  commentIds: string[],
+  userId: string,
+) => {
+  if (commentIds.length === 0) {
+    return new Map<string, CommentReactionSummary[]>();
+  }
+
+  const reactionList = await db
+    .select({
+      commentId: commentReactions.commentId,
+      emoji: commentReactions.emoji,
+      count: sql<number>`count(*)::int`,
+      reacted: sql<boolean>`bool_or(${commentReactions.userId} = ${userId})`,
+    })
+    .from(commentReactions)
+    .where(inArray(commentReactions.commentId, commentIds))
+    .groupBy(commentReactions.commentId, commentReactions.emoji)
+    .orderBy(sql`min(${commentReactions.createdAt})`);
+
+  const reactionsByComment = new Map<string, CommentReactionSummary[]>();
+
+  for (const { commentId, ...reaction } of reactionList) {
+    reactionsByComment.set(commentId, [
+      ...(reactionsByComment.get(commentId) ?? []),
+      reaction,
+    ]);
+  }
+
+  return reactionsByComment;
+};
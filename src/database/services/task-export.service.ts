@@ -0,0 +1,168 @@
+import { createXlsxStream, XlsxCell } from "@/lib/xlsx";
+import { getTaskListPage } from "@/database/services/task-list.service";
+
+type ExportTask = Awaited<ReturnType<typeof getTaskListPage>>[number];
+
+interface ExportColumn {
+  field: string;
+  header: string;
+  value: (task: ExportTask) => string | number | null | string[];
+}
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+// Tasks fetched per query while exporting
+export const EXPORT_BATCH_SIZE = 500;
+
+const toDateValue = (date: Date | null) => (date ? date.toISOString() : null);
+
+// Exported columns of each task table column, in table order
+const EXPORT_COLUMNS: Record<string, ExportColumn[]> = {
+  title: [
+    { field: "key", header: "Key", value: (task) => task.key },
+    { field: "title", header: "Title", value: (task) => task.title },
+  ],
+  type: [{ field: "type", header: "Type", value: (task) => task.type }],
+  status: [{ field: "status", header: "Status", value: (task) => task.status }],
+  assigneeName: [
+    {
+      field: "assignee",
+      header: "Assignee",
+      value: (task) => (task.assigneeName as string | null) ?? null,
+    },
+  ],
+  labels: [
+    {
+      field: "labels",
+      header: "Labels",
+      value: (task) => task.labels.map((label) => label.name),
+    },
+  ],
+  priority: [
+    { field: "priority", header: "Priority", value: (task) => task.priority },
+  ],
+  createdAt: [
+    {
+      field: "createdAt",
+      header: "Created Date",
+      value: (task) => toDateValue(task.createdAt),
+    },
+  ],
+  dueDate: [
+    {
+      field: "dueDate",
+      header: "Due Date",
+      value: (task) => toDateValue(task.dueDate),
+    },
+  ],
+  attachmentCount: [
+    {
+      field: "attachments",
+      header: "Attachments",
+      value: (task) => task.attachmentCount,
+    },
+  ],
+};
+
+// ✅ Resolve the exported columns from the visible table columns,
+// every column when none are given
+export const getExportColumns = (visibleColumns?: string) => {
+  const columnIds = visibleColumns
+    ? visibleColumns.split(",").map((id) => id.trim())
+    : Object.keys(EXPORT_COLUMNS);
+
+  return Object.keys(EXPORT_COLUMNS)
+    .filter((id) => columnIds.includes(id))
+    .flatMap((id) => EXPORT_COLUMNS[id]);
+};
+
+// Spreadsheets read a leading =, +, - or @ as a formula, so such
+// values are prefixed with a quote
+const toCsvCell = (value: ReturnType<ExportColumn["value"]>) => {
+  if (value === null) return "";
+
+  let text = Array.isArray(value) ? value.join("; ") : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (values: ReturnType<ExportColumn["value"]>[]) =>
+  `${values.map(toCsvCell).join(",")}\r\n`;
+
+const toJsonRecord = (columns: ExportColumn[], task: ExportTask) =>
+  Object.fromEntries(
+    columns.map((column) => [column.field, column.value(task)]),
+  );
+
+// ✅ Stream the tasks as CSV or JSON, fetching them batch by batch
+export const streamTaskExport = (
+  format: Exclude<ExportFormat, "xlsx">,
+  columns: ExportColumn[],
+  fetchBatch: (offset: number) => Promise<ExportTask[]>,
+) => {
+  const encoder = new TextEncoder();
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      // The byte order mark makes spreadsheet apps read the CSV as UTF-8
+      controller.enqueue(
+        encoder.encode(
+          format === "csv"
+            ? `\uFEFF${toCsvRow(columns.map((column) => column.header))}`
+            : "[",
+        ),
+      );
+    },
+    async pull(controller) {
+      try {
+        const batch = await fetchBatch(offset);
+
+        const chunk = batch
+          .map((task, index) =>
+            format === "csv"
+              ? toCsvRow(columns.map((column) => column.value(task)))
+              : `${offset + index > 0 ? "," : ""}\n${JSON.stringify(toJsonRecord(columns, task))}`,
+          )
+          .join("");
+
+        if (chunk) controller.enqueue(encoder.encode(chunk));
+        offset += batch.length;
+
+        if (batch.length < EXPORT_BATCH_SIZE) {
+          if (format === "json") controller.enqueue(encoder.encode("\n]\n"));
+          controller.close();
+        }
+      } catch (error) {
+        console.error("Error exporting tasks:", error);
+        controller.error(error);
+      }
+    },
+  });
+};
+
+// ✅ Stream the tasks as an XLSX workbook, fetching them batch by batch
+export const streamTaskExportXlsx = (
+  columns: ExportColumn[],
+  fetchBatch: (offset: number) => Promise<ExportTask[]>,
+) => {
+  async function* rows(): AsyncGenerator<XlsxCell[]> {
+    yield columns.map((column) => column.header);
+
+    for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+      const batch = await fetchBatch(offset);
+
+      for (const task of batch) {
+        yield columns.map((column) => {
+          const value = column.value(task);
+          return Array.isArray(value) ? value.join("; ") : value;
+        });
+      }
+
+      if (batch.length < EXPORT_BATCH_SIZE) return;
+    }
+  }
+
+  return createXlsxStream("Tasks", rows());
+};
@@ -0,0 +1,127 @@
+import { and, asc, eq, sql } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import { tasks, userProfiles, Task } from "@/database/schemas/task.schema";
+
+type TaskPlacement = Pick<Task, "projectId" | "type" | "parentId"> & {
+  id?: string;
+};
+
+// ✅ Check where a task may sit in the hierarchy.
+// Returns an error message, or null when the placement is valid
+export const validateTaskParent = async ({
+  id,
+  projectId,
+  type,
+  parentId,
+}: TaskPlacement): Promise<string | null> => {
+  // An existing task keeps its children, so its new type must allow them
+  if (id && (type === "subtask" || type === "epic")) {
+    const children = await db
+      .select({ type: tasks.type })
+      .from(tasks)
+      .where(and(eq(tasks.parentId, id), eq(tasks.isDeleted, false)));
+
+    if (type === "subtask" && children.length > 0) {
+      return "A subtask cannot have child items";
+    }
+    if (type === "epic" && children.some((child) => child.type === "epic")) {
+      return "An epic cannot have a parent epic";
+    }
+  }
+
+  if (!parentId) {
+    return type === "subtask" ? "A subtask needs a parent" : null;
+  }
+
+  if (parentId === id) {
+    return "A task cannot be its own parent";
+  }
+
+  const [parent] = await db
+    .select({
+      projectId: tasks.projectId,
+      type: tasks.type,
+      isDeleted: tasks.isDeleted,
+    })
+    .from(tasks)
+    .where(eq(tasks.id, parentId))
+    .limit(1);
+
+  if (!parent || parent.isDeleted) {
+    return "Parent task not found";
+  }
+  if (parent.projectId !== projectId) {
+    return "The parent must belong to the same project";
+  }
+  if (parent.type === "subtask") {
+    return "A subtask cannot have child items";
+  }
+  if (type === "epic" && parent.type === "epic") {
+    return "An epic cannot have a parent epic";
+  }
+
+  // An existing task cannot move below one of its own descendants
+  if (id) {
+    const { rows } = await db.execute(sql`
+      WITH RECURSIVE ancestors AS (
+        SELECT ${tasks.id}, ${tasks.parentId} FROM ${tasks}
+        WHERE ${tasks.id} = ${parentId}
+        UNION
+        SELECT t.id, t.parent_id FROM ${tasks} t
+        INNER JOIN ancestors a ON t.id = a.parent_id
+      )
+      SELECT 1 FROM ancestors WHERE id = ${id} LIMIT 1
+    `);
+
+    if (rows.length > 0) {
+      return "A task cannot be moved below its own child item";
+    }
+  }
+
+  return null;
+};
+
+// ✅ Fetch the direct child items of a task
+export const getTaskChildren = async (id: string) => {
+  return await db
+    .select({
+      id: tasks.id,
+      key: tasks.key,
+      title: tasks.title,
+      type: tasks.type,
+      status: tasks.status,
+      priority: tasks.priority,
+      storyPoints: tasks.storyPoints,
+      timeSpent: tasks.timeSpent,
+      assigneeId: tasks.assigneeId,
+      assigneeName: userProfiles.name,
+      assigneeAvatarUrl: userProfiles.avatarUrl,
+    })
+    .from(tasks)
+    .leftJoin(userProfiles, eq(tasks.assigneeId, userProfiles.id))
+    .where(and(eq(tasks.parentId, id), eq(tasks.isDeleted, false)))
+    .orderBy(asc(tasks.key));
+};
+
+// ✅ Sum story points and time spent over every live descendant of a task
+export const getTaskRollup = async (id: string) => {
+  const { rows } = await db.execute<{
+    storyPoints: number;
+    timeSpent: number;
+  }>(sql`
+    WITH RECURSIVE descendants AS (
+      SELECT ${tasks.id}, ${tasks.storyPoints}, ${tasks.timeSpent} FROM ${tasks}
+      WHERE ${tasks.parentId} = ${id} AND ${tasks.isDeleted} = false
+      UNION
+      SELECT t.id, t.story_points, t.time_spent FROM ${tasks} t
+      INNER JOIN descendants d ON t.parent_id = d.id
+      WHERE t.is_deleted = false
+    )
+    SELECT
+      COALESCE(SUM(story_points), 0)::integer AS "storyPoints",
+      COALESCE(SUM(time_spent), 0)::integer AS "timeSpent"
+    FROM descendants
+  `);
+
+  return rows[0];
+};
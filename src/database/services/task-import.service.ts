@@ -0,0 +1,246 @@
+import { and, eq, inArray, sql } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/database/drizzle";
+import {
+  importTasksSchema,
+  insertTaskSchema,
+  notifications,
+  projectMembers,
+  taskActivity,
+  tasks,
+  taskImportFields,
+  taskWatchers,
+  userProfiles,
+} from "@/database/schemas/task.schema";
+import { TASK_RANK_STEP } from "@/constants";
+
+type TaskImportField = (typeof taskImportFields)[number];
+type TaskImportMapping = z.infer<typeof importTasksSchema>["mapping"];
+
+export interface TaskImportError {
+  row: number; // Spreadsheet row number, the header being row 1
+  field?: TaskImportField;
+  message: string;
+}
+
+// Rows accepted in a single import
+export const MAX_IMPORT_ROWS = 1000;
+
+const enumFields: TaskImportField[] = ["type", "status", "priority"];
+const numberFields: TaskImportField[] = [
+  "storyPoints",
+  "timeEstimate",
+  "timeSpent",
+];
+
+// Rows are checked against the same rules as a task created in the form
+const importRowSchema = insertTaskSchema.pick({
+  projectId: true,
+  title: true,
+  description: true,
+  type: true,
+  status: true,
+  priority: true,
+  dueDate: true,
+  storyPoints: true,
+  timeEstimate: true,
+  timeSpent: true,
+});
+
+type ImportRow = z.infer<typeof importRowSchema> & { assigneeId?: string };
+
+// Spreadsheet values like "In Progress" read as the enum value in_progress
+const toEnumValue = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, "_");
+
+// ✅ Map the project members of the given emails, case insensitively.
+// Users outside the project are left out, as they could not see the task
+export const getMemberIdsByEmail = async (
+  projectId: string,
+  emails: string[],
+) => {
+  if (emails.length === 0) return new Map<string, string>();
+
+  const users = await db
+    .select({ id: userProfiles.id, email: userProfiles.email })
+    .from(userProfiles)
+    .innerJoin(projectMembers, eq(projectMembers.userId, userProfiles.id))
+    .where(
+      and(
+        eq(projectMembers.projectId, projectId),
+        inArray(sql`lower(${userProfiles.email})`, emails),
+        eq(userProfiles.isDeleted, false),
+      ),
+    );
+
+  return new Map(users.map((user) => [user.email.toLowerCase(), user.id]));
+};
+
+// ✅ Read the CSV records, the header row left out, into tasks of the
+// project, collecting every validation error instead of stopping at the
+// first one
+export const prepareTaskImport = async (
+  projectId: string,
+  records: string[][],
+  mapping: TaskImportMapping,
+) => {
+  const cellOf = (record: string[], field: TaskImportField) => {
+    const index = mapping[field];
+    const value = index === undefined ? "" : (record[index] ?? "").trim();
+
+    return value === "" ? undefined : value;
+  };
+
+  const emails = records.flatMap((record) => {
+    const email = cellOf(record, "assigneeEmail");
+    return email ? [email.toLowerCase()] : [];
+  });
+  const memberIdsByEmail = await getMemberIdsByEmail(projectId, [
+    ...new Set(emails),
+  ]);
+
+  const rows: ImportRow[] = [];
+  const errors: TaskImportError[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 2;
+    const rowErrors: TaskImportError[] = [];
+    const values: Record<string, unknown> = { projectId };
+
+    for (const field of taskImportFields) {
+      const value = cellOf(record, field);
+      if (value === undefined || field === "assigneeEmail") continue;
+
+      if (enumFields.includes(field)) {
+        values[field] = toEnumValue(value);
+      } else if (numberFields.includes(field)) {
+        values[field] = Number(value);
+        if (!Number.isInteger(values[field])) {
+          rowErrors.push({ row, field, message: "Must be a whole number" });
+        }
+      } else if (field === "dueDate") {
+        const dueDate = new Date(value);
+        if (isNaN(dueDate.getTime())) {
+          rowErrors.push({ row, field, message: "Invalid date" });
+        } else {
+          values[field] = dueDate.toISOString();
+        }
+      } else {
+        values[field] = value;
+      }
+    }
+
+    const parsed = importRowSchema.safeParse(values);
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const field = issue.path[0] as TaskImportField;
+        if (!rowErrors.some((error) => error.field === field)) {
+          rowErrors.push({ row, field, message: issue.message });
+        }
+      }
+    } else if (parsed.data.type === "subtask") {
+      // Imported rows have no parent to sit below
+      rowErrors.push({
+        row,
+        field: "type",
+        message: "A subtask needs a parent",
+      });
+    }
+
+    const email = cellOf(record, "assigneeEmail");
+    const assigneeId = email && memberIdsByEmail.get(email.toLowerCase());
+
+    if (email && !assigneeId) {
+      rowErrors.push({
+        row,
+        field: "assigneeEmail",
+        message: `No project member with the email ${email}`,
+      });
+    }
+
+    if (rowErrors.length > 0 || !parsed.success) {
+      errors.push(...rowErrors);
+    } else {
+      rows.push({ ...parsed.data, assigneeId: assigneeId || undefined });
+    }
+  });
+
+  return { rows, errors };
+};
+
+// ✅ Insert the prepared rows with the given keys in a single batch,
+// so either every row is imported or none is
+export const insertImportedTasks = async (
+  rows: ImportRow[],
+  keys: string[],
+  reporterId: string,
+) => {
+  // Each status column of the board receives the rows in file order,
+  // below the tasks already in it
+  const statusCounts = new Map<string, number>();
+
+  const values = rows.map((task, index) => {
+    const status = task.status ?? "todo";
+    const position = (statusCounts.get(status) ?? 0) + 1;
+    statusCounts.set(status, position);
+
+    return {
+      ...task,
+      id: crypto.randomUUID(),
+      key: keys[index],
+      status,
+      reporterId,
+      dueDate: task.dueDate ? new Date(task.dueDate) : null,
+      rank: sql`(
+        SELECT COALESCE(MAX(${tasks.rank}), 0) + ${TASK_RANK_STEP * position}
+        FROM ${tasks}
+        WHERE ${tasks.projectId} = ${task.projectId} AND ${tasks.status} = ${status}
+      )`,
+    };
+  });
+
+  // Assignees other than the importing user hear of their new tasks
+  const assignedTasks = values.filter(
+    (task) => task.assigneeId && task.assigneeId !== reporterId,
+  );
+
+  const [importedTasks] = await db.batch([
+    db.insert(tasks).values(values).returning({ id: tasks.id, key: tasks.key }),
+    db.insert(taskActivity).values(
+      values.map((task) => ({
+        taskId: task.id,
+        actorId: reporterId,
+        action: "created" as const,
+      })),
+    ),
+    ...(assignedTasks.length > 0
+      ? [
+          db.insert(notifications).values(
+            assignedTasks.map((task) => ({
+              userId: task.assigneeId as string,
+              actorId: reporterId,
+              type: "assigned" as const,
+              taskId: task.id,
+            })),
+          ),
+        ]
+      : []),
+    // The importing user and the assignees watch the new tasks
+    db
+      .insert(taskWatchers)
+      .values(
+        values.flatMap((task) => [
+          { taskId: task.id, userId: reporterId },
+          ...(task.assigneeId && task.assigneeId !== reporterId
+            ? [{ taskId: task.id, userId: task.assigneeId }]
+            : []),
+        ]),
+      ),
+  ]);
+
+  return importedTasks;
+};
@@ -0,0 +1,110 @@
+import { and, desc, eq, or, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import { db } from "@/database/drizzle";
+import { taskLinks, tasks, TaskLink } from "@/database/schemas/task.schema";
+
+// How a link reads from either of its ends
+const LINK_LABELS: Record<
+  TaskLink["type"],
+  { outward: string; inward: string }
+> = {
+  blocks: { outward: "blocks", inward: "is blocked by" },
+  relates_to: { outward: "relates to", inward: "relates to" },
+  duplicates: { outward: "duplicates", inward: "is duplicated by" },
+};
+
+const linkedTask = alias(tasks, "linked_task");
+
+// ✅ Fetch the links of a task, each described from the task's point of view
+export const getTaskLinks = async (taskId: string) => {
+  const linkList = await db
+    .select({
+      id: taskLinks.id,
+      type: taskLinks.type,
+      sourceTaskId: taskLinks.sourceTaskId,
+      createdAt: taskLinks.createdAt,
+      taskId: linkedTask.id,
+      key: linkedTask.key,
+      title: linkedTask.title,
+      status: linkedTask.status,
+      taskType: linkedTask.type,
+    })
+    .from(taskLinks)
+    .innerJoin(
+      linkedTask,
+      sql`${linkedTask.id} = CASE WHEN ${taskLinks.sourceTaskId} = ${taskId}
+        THEN ${taskLinks.targetTaskId} ELSE ${taskLinks.sourceTaskId} END`,
+    )
+    .where(
+      and(
+        or(
+          eq(taskLinks.sourceTaskId, taskId),
+          eq(taskLinks.targetTaskId, taskId),
+        ),
+        eq(linkedTask.isDeleted, false),
+      ),
+    )
+    .orderBy(desc(taskLinks.createdAt));
+
+  return linkList.map(({ sourceTaskId, ...link }) => {
+    const direction = sourceTaskId === taskId ? "outward" : "inward";
+
+    return { ...link, direction, label: LINK_LABELS[link.type][direction] };
+  });
+};
+
+// ✅ Find an existing link between two tasks, either way round for
+// "relates to" since it reads the same from both ends
+export const findTaskLink = async (
+  sourceTaskId: string,
+  targetTaskId: string,
+  type: TaskLink["type"],
+) => {
+  const sameDirection = and(
+    eq(taskLinks.sourceTaskId, sourceTaskId),
+    eq(taskLinks.targetTaskId, targetTaskId),
+  );
+  const reverseDirection = and(
+    eq(taskLinks.sourceTaskId, targetTaskId),
+    eq(taskLinks.targetTaskId, sourceTaskId),
+  );
+
+  const [link] = await db
+    .select({ id: taskLinks.id })
+    .from(taskLinks)
+    .where(
+      and(
+        eq(taskLinks.type, type),
+        type === "relates_to"
+          ? or(sameDirection, reverseDirection)
+          : sameDirection,
+      ),
+    )
+    .limit(1);
+
+  return link;
+};
+
+// ✅ Whether "source blocks target" would close a loop, i.e. the target
+// already blocks the source directly or through other tasks
+export const wouldCreateBlockingCycle = async (
+  sourceTaskId: string,
+  targetTaskId: string,
+) => {
+  if (sourceTaskId === targetTaskId) return true;
+
+  const { rows } = await db.execute(sql`
+    WITH RECURSIVE blocked AS (
+      SELECT ${taskLinks.targetTaskId} AS task_id FROM ${taskLinks}
+      WHERE ${taskLinks.sourceTaskId} = ${targetTaskId}
+        AND ${taskLinks.type} = 'blocks'
+      UNION
+      SELECT l.target_task_id FROM ${taskLinks} l
+      INNER JOIN blocked b ON l.source_task_id = b.task_id
+      WHERE l.type = 'blocks'
+    )
+    SELECT 1 FROM blocked WHERE task_id = ${sourceTaskId} LIMIT 1
+  `);
+
+  return rows.length > 0;
+};
@@ -0,0 +1,274 @@
+import {
+  and,
+  asc,
+  between,
+  desc,
+  eq,
+  inArray,
+  sql,
+  AnyColumn,
+  SQL,
+} from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/database/drizzle";
+import { splitValues } from "@/database/utils";
+import {
+  attachments,
+  projectMembers,
+  taskLabels,
+  taskLinks,
+  tasks,
+  taskPriorities,
+  taskStatuses,
+  taskTypes,
+  taskWatchers,
+} from "@/database/schemas/task.schema";
+import { getLabelsByTask } from "@/database/services/label.service";
+import { isTaskFile } from "@/database/services/attachment.service";
+
+// Filter and sort parameters shared by the task list and its exports
+export const taskListQuerySchema = z.object({
+  search: z.string().optional(),
+  sort: z
+    .enum([
+      "title",
+      "createdAt",
+      "dueDate",
+      "type",
+      "priority",
+      "status",
+      "assigneeName",
+      "rank",
+    ])
+    .optional()
+    .default("createdAt"),
+  order: z.enum(["asc", "desc"]).optional().default("desc"),
+  project: z.string().optional(),
+  status: z.string().optional(),
+  type: z.string().optional(),
+  priority: z.string().optional(),
+  assignee: z.string().optional(),
+  reporter: z.string().optional(),
+  watcher: z.string().optional(),
+  label: z.string().optional(),
+  createdAtFrom: z.string().optional(),
+  createdAtTo: z.string().optional(),
+  dueDateFrom: z.string().optional(),
+  dueDateTo: z.string().optional(),
+});
+
+export type TaskListQuery = z.infer<typeof taskListQuerySchema>;
+
+// ✅ Build the conditions of a task list query from its filters, limited
+// to the projects the user is a member of
+export const getTaskListConditions = (
+  query: TaskListQuery,
+  userId: string,
+): SQL[] => {
+  const {
+    search,
+    project,
+    status,
+    type,
+    priority,
+    assignee,
+    reporter,
+    watcher,
+    label,
+    createdAtFrom,
+    createdAtTo,
+    dueDateFrom,
+    dueDateTo,
+  } = query;
+
+  // Filter out deleted tasks and tasks of other projects
+  const whereClause: SQL[] = [
+    eq(tasks.isDeleted, false),
+    inArray(
+      tasks.projectId,
+      db
+        .select({ projectId: projectMembers.projectId })
+        .from(projectMembers)
+        .where(eq(projectMembers.userId, userId)),
+    ),
+  ];
+
+  // Add search condition if provided
+  if (search) {
+    whereClause.push(
+      sql`(lower(${tasks.title}) like ${`%${search.toLowerCase()}%`} OR lower(${tasks.key}) like ${`%${search.toLowerCase()}%`})`,
+    );
+  }
+
+  // Process comma-separated filters
+  if (project) {
+    whereClause.push(inArray(tasks.projectId, splitValues(project)));
+  }
+  if (status) {
+    const statusValues = splitValues(status) as Array<
+      (typeof taskStatuses.enumValues)[number]
+    >;
+    whereClause.push(inArray(tasks.status, statusValues));
+  }
+  if (type) {
+    const typeValues = splitValues(type) as Array<
+      (typeof taskTypes.enumValues)[number]
+    >;
+    whereClause.push(inArray(tasks.type, typeValues));
+  }
+  if (priority) {
+    const priorityValues = splitValues(priority) as Array<
+      (typeof taskPriorities.enumValues)[number]
+    >;
+    whereClause.push(inArray(tasks.priority, priorityValues));
+  }
+  if (assignee) {
+    whereClause.push(inArray(tasks.assigneeId, splitValues(assignee)));
+  }
+  if (reporter) {
+    whereClause.push(inArray(tasks.reporterId, splitValues(reporter)));
+  }
+
+  // Tasks watched by any of the users
+  if (watcher) {
+    whereClause.push(
+      inArray(
+        tasks.id,
+        db
+          .select({ taskId: taskWatchers.taskId })
+          .from(taskWatchers)
+          .where(inArray(taskWatchers.userId, splitValues(watcher))),
+      ),
+    );
+  }
+
+  // Tasks carrying any of the labels
+  if (label) {
+    whereClause.push(
+      inArray(
+        tasks.id,
+        db
+          .select({ taskId: taskLabels.taskId })
+          .from(taskLabels)
+          .where(inArray(taskLabels.labelId, splitValues(label))),
+      ),
+    );
+  }
+
+  if (createdAtFrom && createdAtTo) {
+    const createdAtFromDate = new Date(createdAtFrom);
+    const createdAtToDate = new Date(createdAtTo);
+
+    if (
+      !isNaN(createdAtFromDate.getTime()) &&
+      !isNaN(createdAtToDate.getTime())
+    ) {
+      whereClause.push(
+        between(tasks.createdAt, createdAtFromDate, createdAtToDate),
+      );
+    } else {
+      console.error("Invalid date format for createdAt range");
+    }
+  }
+
+  if (dueDateFrom && dueDateTo) {
+    const dueDateFromDate = new Date(dueDateFrom);
+    const dueDateToDate = new Date(dueDateTo);
+
+    if (!isNaN(dueDateFromDate.getTime()) && !isNaN(dueDateToDate.getTime())) {
+      whereClause.push(between(tasks.dueDate, dueDateFromDate, dueDateToDate));
+    } else {
+      console.error("Invalid date format for dueDate range");
+    }
+  }
+
+  return whereClause;
+};
+
+// ✅ Fetch a page of tasks matching the conditions, with their labels
+export const getTaskListPage = async (
+  { sort, order }: Pick<TaskListQuery, "sort" | "order">,
+  whereClause: SQL[],
+  limit: number,
+  offset: number,
+) => {
+  // Assignee names come from the joined profile, other sorts are columns
+  const orderBy =
+    sort === "assigneeName"
+      ? order === "desc"
+        ? sql`assigneeUser.name desc`
+        : sql`assigneeUser.name asc`
+      : order === "desc"
+        ? desc(tasks[sort] as AnyColumn)
+        : asc(tasks[sort] as AnyColumn);
+
+  const taskList = await db
+    .select({
+      id: tasks.id,
+      projectId: tasks.projectId,
+      parentId: tasks.parentId,
+      key: tasks.key,
+      title: tasks.title,
+      createdAt: tasks.createdAt,
+      updatedAt: tasks.updatedAt,
+      dueDate: tasks.dueDate,
+      description: sql`${""}`,
+      storyPoints: tasks.storyPoints,
+      reporterId: tasks.reporterId,
+      timeEstimate: tasks.timeEstimate,
+      timeSpent: tasks.timeSpent,
+      status: tasks.status,
+      type: tasks.type,
+      priority: tasks.priority,
+      assigneeId: tasks.assigneeId,
+      rank: tasks.rank,
+      assigneeName: sql`assigneeUser.name`,
+      assigneeAvatarUrl: sql`assigneeUser.avatar_url`,
+      reporterName: sql`reporterUser.name`,
+      reporterAvatarUrl: sql`reporterUser.avatar_url`,
+      // Whether an unfinished task still blocks this one
+      blocked: sql<boolean>`EXISTS (
+        SELECT 1 FROM ${taskLinks}
+        INNER JOIN tasks AS blocker ON blocker.id = ${taskLinks.sourceTaskId}
+        WHERE ${taskLinks.targetTaskId} = ${tasks.id}
+          AND ${taskLinks.type} = 'blocks'
+          AND blocker.is_deleted = false
+          AND blocker.status NOT IN ('done', 'closed')
+      )`,
+      attachmentCount: sql<number>`(
+        SELECT COUNT(*)::int FROM ${attachments}
+        WHERE ${attachments.taskId} = ${tasks.id} AND ${isTaskFile}
+      )`,
+    })
+    .from(tasks)
+    .leftJoin(
+      sql`user_profiles as assigneeUser`,
+      sql`tasks.assignee_id = assigneeUser.id`,
+    )
+    .leftJoin(
+      sql`user_profiles as reporterUser`,
+      sql`tasks.reporter_id = reporterUser.id`,
+    )
+    .where(and(...whereClause))
+    // The id breaks ties so batches of the export neither repeat nor skip rows
+    .orderBy(orderBy, asc(tasks.id))
+    .limit(limit)
+    .offset(offset);
+
+  const labelsByTask = await getLabelsByTask(taskList.map((task) => task.id));
+
+  return taskList.map((task) => ({
+    ...task,
+    labels: labelsByTask.get(task.id) ?? [],
+  }));
+};
+
+// ✅ Count the tasks matching the conditions
+export const countTaskList = async (whereClause: SQL[]) => {
+  const [{ count }] = await db
+    .select({ count: sql`count(${tasks.id})` })
+    .from(tasks)
+    .where(and(...whereClause));
+
+  return Number(count);
+};
@@ -0,0 +1,70 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { and, asc, eq } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import { projects, tasks } from "@/database/schemas/task.schema";
+import { TASK_RANK_STEP } from "@/constants";
+import { isTaskRankCrowded, rebalanceTaskRanks } from "./task-rank.service";
+
+vi.mock("@/database/drizzle", () => import("@/database/drizzle.mock"));
+
+const projectId = crypto.randomUUID();
+const otherProjectId = crypto.randomUUID();
+
+beforeAll(async () => {
+  await db.insert(projects).values([
+    { id: projectId, name: "Board", keyPrefix: "BRD" },
+    { id: otherProjectId, name: "Other", keyPrefix: "OTH" },
+  ]);
+});
+
+const insertTask = async (
+  key: string,
+  rank: number,
+  values: Partial<typeof tasks.$inferInsert> = {},
+) => {
+  const [task] = await db
+    .insert(tasks)
+    .values({ projectId, title: key, type: "task", key, rank, ...values })
+    .returning();
+
+  return task;
+};
+
+describe("isTaskRankCrowded", () => {
+  it("only counts cards of the same project and column", async () => {
+    const task = await insertTask("BRD-0001", 10, { status: "in_progress" });
+    await insertTask("OTH-0001", 10, {
+      projectId: otherProjectId,
+      status: "in_progress",
+    });
+    await insertTask("BRD-0002", 10, { status: "done" });
+
+    expect(await isTaskRankCrowded(task)).toBe(false);
+
+    await insertTask("BRD-0003", 10.0001, { status: "in_progress" });
+
+    expect(await isTaskRankCrowded(task)).toBe(true);
+  });
+});
+
+describe("rebalanceTaskRanks", () => {
+  it("spaces the column out again in the same order", async () => {
+    await insertTask("BRD-0004", 2, { status: "todo" });
+    await insertTask("BRD-0005", 1.0000001, { status: "todo" });
+    await insertTask("BRD-0006", 1, { status: "todo" });
+
+    await rebalanceTaskRanks(projectId, "todo");
+
+    const column = await db
+      .select({ key: tasks.key, rank: tasks.rank })
+      .from(tasks)
+      .where(and(eq(tasks.projectId, projectId), eq(tasks.status, "todo")))
+      .orderBy(asc(tasks.rank));
+
+    expect(column).toEqual([
+      { key: "BRD-0006", rank: TASK_RANK_STEP },
+      { key: "BRD-0005", rank: 2 * TASK_RANK_STEP },
+      { key: "BRD-0004", rank: 3 * TASK_RANK_STEP },
+    ]);
+  });
+});
@@ -0,0 +1,54 @@
+import { and, eq, ne, sql } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import { tasks, Task } from "@/database/schemas/task.schema";
+import { MIN_TASK_RANK_GAP, TASK_RANK_STEP } from "@/constants";
+
+type TaskRankPlacement = Pick<Task, "id" | "projectId" | "status" | "rank">;
+
+// ✅ Check whether another card of the task's board column sits closer to
+// it than MIN_TASK_RANK_GAP. Columns are ranked within their project
+export const isTaskRankCrowded = async ({
+  id,
+  projectId,
+  status,
+  rank,
+}: TaskRankPlacement) => {
+  const [neighbour] = await db
+    .select({ id: tasks.id })
+    .from(tasks)
+    .where(
+      and(
+        eq(tasks.projectId, projectId),
+        eq(tasks.status, status),
+        eq(tasks.isDeleted, false),
+        ne(tasks.id, id),
+        sql`abs(${tasks.rank} - ${rank}) < ${MIN_TASK_RANK_GAP}`,
+      ),
+    )
+    .limit(1);
+
+  return !!neighbour;
+};
+
+// ✅ Space the ranks of a board column TASK_RANK_STEP apart again, keeping
+// the order of its cards. A single statement, so readers never see it
+// half done
+export const rebalanceTaskRanks = async (
+  projectId: string,
+  status: Task["status"],
+) => {
+  await db.execute(sql`
+    UPDATE ${tasks} SET rank = ranked.position * ${TASK_RANK_STEP}
+    FROM (
+      SELECT ${tasks.id},
+        ROW_NUMBER() OVER (
+          ORDER BY ${tasks.rank}, ${tasks.createdAt}, ${tasks.id}
+        ) AS position
+      FROM ${tasks}
+      WHERE ${tasks.projectId} = ${projectId}
+        AND ${tasks.status} = ${status}
+        AND ${tasks.isDeleted} = false
+    ) ranked
+    WHERE ${tasks.id} = ranked.id
+  `);
+};
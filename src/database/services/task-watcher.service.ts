@@ -0,0 +1,37 @@
+import { asc, eq } from "drizzle-orm";
+import { db } from "@/database/drizzle";
+import { taskWatchers, userProfiles } from "@/database/schemas/task.schema";
+
+// ✅ Queries making the users watch a task, to be run in a write batch.
+// Users already watching it are left as they are
+export const watchTask = (
+  taskId: string,
+  userIds: Array<string | null | undefined>,
+) => {
+  const watcherIds = [...new Set(userIds)].filter((id): id is string => !!id);
+
+  return watcherIds.length > 0
+    ? [
+        db
+          .insert(taskWatchers)
+          .values(watcherIds.map((userId) => ({ taskId, userId })))
+          .onConflictDoNothing(),
+      ]
+    : [];
+};
+
+// ✅ Fetch the users watching a task, in the order they started
+export const getTaskWatchers = async (taskId: string) => {
+  const watcherList = await db
+    .select({
+      id: userProfiles.id,
+      name: userProfiles.name,
+      avatarUrl: userProfiles.avatarUrl,
+    })
+    .from(taskWatchers)
+    .innerJoin(userProfiles, eq(userProfiles.id, taskWatchers.userId))
+    .where(eq(taskWatchers.taskId, taskId))
+    .orderBy(asc(taskWatchers.createdAt));
+
+  return watcherList;
+};
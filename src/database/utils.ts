@@ -0,0 +1,30 @@
+import { AnyColumn, ilike, or } from "drizzle-orm";
+
+/**
+ * Database Helpers
+ * Shared by the services and API routes
+ */
+
+// Unique violation of the given constraint. Checked by its Postgres error
+// fields, which the neon driver and PGlite both raise
+export const isUniqueViolation = (
+  error: unknown,
+  constraint: string,
+): boolean =>
+  error instanceof Error &&
+  "code" in error &&
+  error.code === "23505" &&
+  "constraint" in error &&
+  error.constraint === constraint;
+
+// Comma-separated filter values of a list query
+export const splitValues = (value: string) =>
+  value.split(",").map((v) => v.trim());
+
+// Case insensitive search of the text in any of the columns. The LIKE
+// wildcards % and _ typed by the user match themselves only
+export const matchesSearch = (columns: AnyColumn[], search: string) => {
+  const pattern = `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+
+  return or(...columns.map((column) => ilike(column, pattern)));
+};
@@ -0,0 +1,186 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { client } from "@/lib/hono";
+import { taskKeys } from "@/features/tasks/queries/task.queries";
+
+/**
+ * Query key factory for attachment-related queries
+ */
+export const attachmentKeys = {
+  all: ["attachments"] as const,
+  lists: (taskId: string) => [...attachmentKeys.all, "list", taskId] as const,
+};
+
+/**
+ * Helper function to handle API errors
+ * @param error - The error object caught in the try-catch block
+ * @throws {Error} - Throws an error with a descriptive message
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred");
+};
+
+/**
+ * Uploads a file to the attachment storage
+ * @param file - The file to upload
+ * @param target - The task or comment the file belongs to, if saved yet
+ * @returns {Promise<UploadedAttachment>} - The stored attachment with its URL
+ */
+export const uploadAttachment = async (
+  file: File,
+  target: { taskId?: string; commentId?: string } = {},
+): Promise<UploadedAttachment> => {
+  const response = await client.api.attachments.$post({
+    form: {
+      file,
+      ...(target.taskId ? { taskId: target.taskId } : {}),
+      ...(target.commentId ? { commentId: target.commentId } : {}),
+    },
+  });
+  const data = await response.json();
+
+  if ("error" in data) {
+    throw new Error(data.error ?? "Error in uploading file");
+  }
+
+  return data;
+};
+
+/**
+ * Hook to fetch the files attached to a task
+ * @param taskId - The ID of the task
+ * @returns {UseQueryResult} - The query result containing the files
+ */
+export const useTaskAttachments = (taskId: string) => {
+  return useQuery({
+    queryKey: attachmentKeys.lists(taskId),
+    enabled: !!taskId,
+    queryFn: async () => {
+      try {
+        const response = await client.api.tasks[":id"].attachments.$get({
+          param: { id: taskId },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching attachments");
+        }
+
+        const data = (await response.json()) as TaskAttachment[];
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to attach files to a task
+ * Every file is uploaded even when one fails, the failures are reported
+ * together with the server messages
+ * @returns {UseMutationResult} - The mutation result for the upload
+ */
+export const useUploadTaskAttachments = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      taskId,
+      files,
+    }: {
+      taskId: string;
+      files: File[];
+    }) => {
+      const results = await Promise.allSettled(
+        files.map((file) => uploadAttachment(file, { taskId })),
+      );
+
+      const failures = results.flatMap((result, index) =>
+        result.status === "rejected"
+          ? [`${files[index].name}: ${result.reason.message}`]
+          : [],
+      );
+
+      if (failures.length > 0) {
+        throw new Error(failures.join("\n"));
+      }
+    },
+    onSettled: (_, __, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: attachmentKeys.lists(taskId) });
+      // The task list shows the number of files
+      queryClient.invalidateQueries({ queryKey: taskKeys.allLists() });
+    },
+  });
+};
+
+/**
+ * Hook to delete a file of a task
+ * Provides optimistic updates and error handling
+ * @returns {UseMutationResult} - The mutation result for deleting a file
+ */
+export const useDeleteAttachment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id }: { id: string; taskId: string }) => {
+      try {
+        const response = await client.api.attachments[":id"].$delete({
+          param: { id },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in deleting attachment");
+        }
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+    onMutate: async ({ id, taskId }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({
+        queryKey: attachmentKeys.lists(taskId),
+      });
+
+      // Snapshot the previous value
+      const previousAttachments = queryClient.getQueryData<TaskAttachment[]>(
+        attachmentKeys.lists(taskId),
+      );
+
+      // Optimistically remove the file
+      queryClient.setQueryData<TaskAttachment[]>(
+        attachmentKeys.lists(taskId),
+        (old = []) => old.filter((attachment) => attachment.id !== id),
+      );
+
+      return { previousAttachments };
+    },
+    onError: (_, { taskId }, context) => {
+      // If the mutation fails, roll back to the previous value
+      if (context?.previousAttachments) {
+        queryClient.setQueryData(
+          attachmentKeys.lists(taskId),
+          context.previousAttachments,
+        );
+      }
+    },
+    onSettled: (_, __, { taskId }) => {
+      queryClient.invalidateQueries({ queryKey: attachmentKeys.lists(taskId) });
+      queryClient.invalidateQueries({ queryKey: taskKeys.allLists() });
+    },
+  });
+};
+
+// Export types for use in components
+export type UploadedAttachment = {
+  id: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  createdAt: string;
+  url: string;
+};
+export type TaskAttachment = UploadedAttachment & {
+  uploadedByName: string | null;
+};
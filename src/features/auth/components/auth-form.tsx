@@ -0,0 +1,200 @@
+"use client";
+
+// External dependencies
+import React, { useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { TriangleAlert } from "lucide-react";
+
+// Internal dependencies - UI Components
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+// Internal dependencies - Schema & Queries
+import {
+  AuthFormData,
+  signInFormSchema,
+  signUpFormSchema,
+} from "../schema/auth-form.schema";
+import { useSignIn, useSignUp } from "../queries/auth.queries";
+
+// Types
+type AuthMode = "sign-in" | "sign-up";
+
+const FIELDS: Array<{
+  name: keyof AuthFormData;
+  label: string;
+  type: string;
+  autoComplete: string;
+}> = [
+  { name: "name", label: "Name", type: "text", autoComplete: "name" },
+  { name: "email", label: "Email", type: "email", autoComplete: "email" },
+  {
+    name: "password",
+    label: "Password",
+    type: "password",
+    autoComplete: "current-password",
+  },
+];
+
+/**
+ * Only same-site paths are allowed as redirect targets
+ */
+const getRedirectPath = (redirectTo: string | null): string =>
+  redirectTo?.startsWith("/") && !redirectTo.startsWith("//")
+    ? redirectTo
+    : "/tasks";
+
+/**
+ * AuthForm Component
+ * Signs users in with email and password, or creates a new account
+ *
+ * @returns {JSX.Element} Rendered sign-in / sign-up card
+ */
+export const AuthForm: React.FC = () => {
+  const [mode, setMode] = useState<AuthMode>("sign-in");
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const signIn = useSignIn();
+  const signUp = useSignUp();
+
+  const form = useForm<AuthFormData>({
+    resolver: zodResolver(
+      mode === "sign-up" ? signUpFormSchema : signInFormSchema,
+    ),
+    defaultValues: { name: "", email: "", password: "" },
+  });
+
+  const mutation = mode === "sign-up" ? signUp : signIn;
+
+  /**
+   * Handles form submission and redirects back to the requested page
+   * @param {AuthFormData} data - Form data to be submitted
+   */
+  const onSubmit = async (data: AuthFormData) => {
+    try {
+      if (mode === "sign-up") {
+        await signUp.mutateAsync(data);
+      } else {
+        await signIn.mutateAsync({
+          email: data.email,
+          password: data.password,
+        });
+      }
+      router.replace(getRedirectPath(searchParams.get("redirectTo")));
+    } catch {
+      // The error is rendered from the mutation state
+    }
+  };
+
+  /**
+   * Switches between sign-in and sign-up
+   */
+  const toggleMode = () => {
+    signIn.reset();
+    signUp.reset();
+    form.clearErrors();
+    setMode(mode === "sign-up" ? "sign-in" : "sign-up");
+  };
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle>
+          {mode === "sign-up" ? "Create an account" : "Sign in"}
+        </CardTitle>
+        <CardDescription>
+          {mode === "sign-up"
+            ? "Enter your details to get started."
+            : "Enter your email and password to continue."}
+        </CardDescription>
+      </CardHeader>
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit(onSubmit)}
+          aria-label={mode === "sign-up" ? "Sign up form" : "Sign in form"}
+        >
+          <CardContent className="space-y-4">
+            {FIELDS.filter(
+              (field) => mode === "sign-up" || field.name !== "name",
+            ).map(({ name, label, type, autoComplete }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel htmlFor={name}>{label}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        id={name}
+                        type={type}
+                        autoComplete={
+                          name === "password" && mode === "sign-up"
+                            ? "new-password"
+                            : autoComplete
+                        }
+                        aria-invalid={!!form.formState.errors[name]}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+
+            {mutation.error && (
+              <p
+                className="flex items-center gap-2 text-sm font-medium text-destructive"
+                role="alert"
+              >
+                <TriangleAlert className="size-4" aria-hidden="true" />
+                {mutation.error.message}
+              </p>
+            )}
+          </CardContent>
+          <CardFooter className="flex flex-col gap-2">
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={mutation.isPending}
+              isLoading={mutation.isPending}
+            >
+              {mode === "sign-up" ? "Create account" : "Sign in"}
+            </Button>
+            <Button
+              type="button"
+              variant="link"
+              className="w-full"
+              onClick={toggleMode}
+            >
+              {mode === "sign-up"
+                ? "Already have an account? Sign in"
+                : "No account yet? Create one"}
+            </Button>
+          </CardFooter>
+        </form>
+      </Form>
+    </Card>
+  );
+};
+
+export default AuthForm;
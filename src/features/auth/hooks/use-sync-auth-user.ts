@@ -0,0 +1,39 @@
+import { useEffect } from "react";
+import { usePathname, useRouter } from "next/navigation";
+import { useIsClient } from "@uidotdev/usehooks";
+import { useAuthStore } from "@/stores/auth-store";
+import { useCurrentUser } from "../queries/auth.queries";
+
+/**
+ * Hook keeping the stored profile in sync with the session, sending the
+ * user to sign in, and back to the current page afterwards, when the
+ * session is gone
+ * @returns {boolean} - Whether the page is rendered on the client
+ */
+export const useSyncAuthUser = () => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { setUserProfile, clearUserProfile } = useAuthStore();
+  const { data: currentUser } = useCurrentUser();
+  const isClient = useIsClient();
+
+  useEffect(() => {
+    if (!isClient || currentUser === undefined) return;
+
+    if (currentUser) {
+      setUserProfile(currentUser);
+    } else {
+      clearUserProfile();
+      router.replace(`/sign-in?redirectTo=${encodeURIComponent(pathname)}`);
+    }
+  }, [
+    isClient,
+    currentUser,
+    setUserProfile,
+    clearUserProfile,
+    router,
+    pathname,
+  ]);
+
+  return isClient;
+};
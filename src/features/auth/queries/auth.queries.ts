@@ -0,0 +1,153 @@
+// External dependencies
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+
+// Internal dependencies
+import { client } from "@/lib/hono";
+import { signInSchema, signUpSchema } from "@/database/schemas/auth.schema";
+import { useAuthStore } from "@/stores/auth-store";
+import { UserProfile } from "@/features/tasks/queries/user-profiles.queries";
+
+// Types
+export type SignInData = z.infer<typeof signInSchema>;
+export type SignUpData = z.infer<typeof signUpSchema>;
+
+/**
+ * Query key factory for auth-related queries
+ */
+export const authKeys = {
+  all: ["auth"] as const,
+  me: () => [...authKeys.all, "me"] as const,
+};
+
+/**
+ * Helper function to handle API errors
+ * @param error - The error object caught in the try-catch block
+ * @throws {Error} - Throws an error with a descriptive message
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred");
+};
+
+/**
+ * Hook to fetch the signed-in user
+ * Resolves to null when there is no valid session
+ * @returns {UseQueryResult} - The query result containing the user profile
+ */
+export const useCurrentUser = () => {
+  return useQuery({
+    queryKey: authKeys.me(),
+    retry: false,
+    queryFn: async (): Promise<UserProfile | null> => {
+      try {
+        const response = await client.api.auth.me.$get();
+
+        if (response.status === 401) {
+          return null;
+        }
+
+        if (!response.ok) {
+          throw new Error("Error in fetching current user");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        return handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to sign in with email and password
+ * @returns {UseMutationResult} - The mutation result for signing in
+ */
+export const useSignIn = () => {
+  const queryClient = useQueryClient();
+  const { setUserProfile } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async (credentials: SignInData) => {
+      const response = await client.api.auth["sign-in"].$post({
+        json: credentials,
+      });
+
+      if (response.status === 401) {
+        throw new Error("Invalid email or password");
+      }
+
+      if (!response.ok) {
+        throw new Error("Error in signing in");
+      }
+
+      return (await response.json()) as UserProfile;
+    },
+    onSuccess: (userProfile) => {
+      setUserProfile(userProfile);
+      queryClient.setQueryData(authKeys.me(), userProfile);
+    },
+  });
+};
+
+/**
+ * Hook to create an account and sign in
+ * @returns {UseMutationResult} - The mutation result for signing up
+ */
+export const useSignUp = () => {
+  const queryClient = useQueryClient();
+  const { setUserProfile } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async (account: SignUpData) => {
+      const response = await client.api.auth["sign-up"].$post({
+        json: account,
+      });
+
+      if (response.status === 409) {
+        throw new Error("An account with this email already exists");
+      }
+
+      if (!response.ok) {
+        throw new Error("Error in creating account");
+      }
+
+      return (await response.json()) as UserProfile;
+    },
+    onSuccess: (userProfile) => {
+      setUserProfile(userProfile);
+      queryClient.setQueryData(authKeys.me(), userProfile);
+    },
+  });
+};
+
+/**
+ * Hook to sign out
+ * Clears the stored profile and every cached query
+ * @returns {UseMutationResult} - The mutation result for signing out
+ */
+export const useSignOut = () => {
+  const queryClient = useQueryClient();
+  const { clearUserProfile } = useAuthStore();
+
+  return useMutation({
+    mutationFn: async () => {
+      try {
+        const response = await client.api.auth["sign-out"].$post();
+
+        if (!response.ok) {
+          throw new Error("Error in signing out");
+        }
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+    onSettled: () => {
+      clearUserProfile();
+      queryClient.clear();
+    },
+  });
+};
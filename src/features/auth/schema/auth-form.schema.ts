@@ -0,0 +1,14 @@
+import * as z from "zod";
+
+export const signInFormSchema = z.object({
+  name: z.string(),
+  email: z.string().email("Enter a valid email"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const signUpFormSchema = signInFormSchema.extend({
+  name: z.string().min(1, "Name is required"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+export type AuthFormData = z.infer<typeof signUpFormSchema>;
@@ -0,0 +1,160 @@
+"use client";
+
+// External dependencies
+import React, { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import {
+  ChevronLeft,
+  Mail,
+  PencilIcon,
+  Phone,
+  TrashIcon,
+  TriangleAlert,
+} from "lucide-react";
+
+// Internal UI components
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CustomerFormDialog } from "./customer-form-dialog";
+
+// Queries and hooks
+import { useCustomer, useDeleteCustomer } from "../queries/customer.queries";
+import { useConfirm } from "@/hooks/use-confirm";
+
+/**
+ * Props interface for CustomerDetails component
+ * @interface CustomerDetailsProps
+ */
+interface CustomerDetailsProps {
+  customerId: string;
+}
+
+/**
+ * CustomerDetails Component
+ * Shows a customer with the actions to edit or delete them
+ *
+ * @component
+ * @param {CustomerDetailsProps} props - Component props
+ */
+export const CustomerDetails: React.FC<CustomerDetailsProps> = ({
+  customerId,
+}) => {
+  const router = useRouter();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const { data: customer, isLoading, error } = useCustomer(customerId);
+  const { mutate: deleteCustomer, isPending: isDeleting } = useDeleteCustomer();
+  const [ConfirmationDialog, confirm] = useConfirm({
+    title: "Are you sure?",
+    message: "The customer will get deleted, their orders are kept.",
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex w-full flex-col gap-4" aria-busy="true">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-28 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !customer) {
+    return (
+      <div
+        className="flex items-center justify-center gap-2 text-sm text-red-500"
+        role="alert"
+      >
+        <TriangleAlert className="size-4" aria-hidden="true" />
+        <p className="font-medium">Customer not found</p>
+      </div>
+    );
+  }
+
+  /**
+   * Deletes the customer once confirmed and returns to the list
+   */
+  const handleDelete = async () => {
+    if (!(await confirm())) return;
+
+    deleteCustomer(customer.id, {
+      onSuccess: () => router.push("/customers"),
+    });
+  };
+
+  return (
+    <article
+      className="flex w-full flex-col gap-6"
+      aria-label="Customer details"
+    >
+      <header className="flex flex-col gap-2">
+        <Link
+          href="/customers"
+          className="flex w-fit items-center gap-1 text-sm text-stone-500 hover:text-stone-900"
+        >
+          <ChevronLeft className="size-4" aria-hidden="true" />
+          All customers
+        </Link>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-xl font-semibold text-stone-800">
+            {customer.customerName}
+          </h1>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={() => setIsFormOpen(true)}
+            >
+              <PencilIcon className="size-4" aria-hidden="true" />
+              Edit
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={handleDelete}
+              disabled={isDeleting}
+            >
+              <TrashIcon className="size-4" aria-hidden="true" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <section
+        className="flex flex-col gap-2 rounded-md border border-stone-200 p-4 text-sm text-stone-600"
+        aria-label="Contact details"
+      >
+        <p className="flex items-center gap-2">
+          <Mail className="size-4" aria-hidden="true" />
+          {customer.email ? (
+            <a href={`mailto:${customer.email}`} className="hover:underline">
+              {customer.email}
+            </a>
+          ) : (
+            "No email"
+          )}
+        </p>
+        <p className="flex items-center gap-2">
+          <Phone className="size-4" aria-hidden="true" />
+          {customer.phone ?? "No phone"}
+        </p>
+        <p>
+          {customer.isActive ? "Active" : "Inactive"} · Created{" "}
+          {format(new Date(customer.createdAt), "MMM d, yyyy")}
+        </p>
+      </section>
+
+      <CustomerFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        customer={customer}
+      />
+      <ConfirmationDialog />
+    </article>
+  );
+};
+
+export default CustomerDetails;
@@ -0,0 +1,222 @@
+"use client";
+
+// External dependencies
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { TriangleAlert } from "lucide-react";
+
+// Internal dependencies - UI Components
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+
+// Internal dependencies - Schema & Queries
+import { insertCustomerSchema } from "@/database/schemas/order.schema";
+import {
+  Customer,
+  NewCustomer,
+  useCreateCustomer,
+  useUpdateCustomer,
+} from "../queries/customer.queries";
+
+// Types
+interface CustomerFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer?: Customer;
+}
+
+/**
+ * CustomerFormDialog Component
+ * Creates a customer, or edits the given one
+ *
+ * @param {CustomerFormDialogProps} props - Component properties
+ * @returns {JSX.Element} Rendered dialog
+ */
+export const CustomerFormDialog: React.FC<CustomerFormDialogProps> = ({
+  open,
+  onOpenChange,
+  customer,
+}) => {
+  const createCustomer = useCreateCustomer();
+  const updateCustomer = useUpdateCustomer();
+  const mutation = customer ? updateCustomer : createCustomer;
+
+  const form = useForm<NewCustomer>({
+    resolver: zodResolver(insertCustomerSchema),
+    values: {
+      customerName: customer?.customerName ?? "",
+      email: customer?.email ?? null,
+      phone: customer?.phone ?? null,
+      isActive: customer?.isActive ?? true,
+    },
+  });
+
+  /**
+   * Closes the dialog and resets the form
+   */
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      form.reset();
+      mutation.reset();
+    }
+    onOpenChange(isOpen);
+  };
+
+  /**
+   * Handles form submission
+   * @param {NewCustomer} data - Form data to be submitted
+   */
+  const onSubmit = async (data: NewCustomer) => {
+    try {
+      if (customer) {
+        await updateCustomer.mutateAsync({ id: customer.id, data });
+      } else {
+        await createCustomer.mutateAsync(data);
+      }
+      handleOpenChange(false);
+    } catch {
+      // The error is rendered from the mutation state
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {customer ? "Edit customer" : "New customer"}
+          </DialogTitle>
+          <DialogDescription>
+            Orders are placed for a customer and show their contact details.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="space-y-4"
+            aria-label={`${customer ? "Edit" : "New"} customer form`}
+          >
+            <FormField
+              control={form.control}
+              name="customerName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="customer-name">Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} id="customer-name" autoComplete="off" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="customer-email">Email</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      id="customer-email"
+                      type="email"
+                      autoComplete="off"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="customer-phone">Phone</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      id="customer-phone"
+                      type="tel"
+                      autoComplete="off"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      id="customer-active"
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(!!checked)}
+                    />
+                  </FormControl>
+                  <FormLabel htmlFor="customer-active">
+                    Active, new orders can be placed for this customer
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {mutation.error && (
+              <p
+                className="flex items-center gap-2 text-sm font-medium text-destructive"
+                role="alert"
+              >
+                <TriangleAlert className="size-4" aria-hidden="true" />
+                {mutation.error.message}
+              </p>
+            )}
+
+            <DialogFooter className="pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={mutation.isPending}
+                isLoading={mutation.isPending}
+              >
+                {customer ? "Save" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerFormDialog;
@@ -0,0 +1,142 @@
+"use client";
+
+// External dependencies
+import React, { useCallback, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  ColumnDef,
+  getCoreRowModel,
+  PaginationState,
+  useReactTable,
+} from "@tanstack/react-table";
+import { PlusIcon, TriangleAlert } from "lucide-react";
+
+// Internal dependencies - UI Components
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/data-table";
+import { SearchInput } from "@/components/search-input";
+import { TablePagination } from "@/features/tasks/components/task-pagination";
+import { CustomerFormDialog } from "./customer-form-dialog";
+
+// Internal dependencies - Queries & Constants
+import { Customer, useCustomers } from "../queries/customer.queries";
+import { DEFAULT_PAGE_SIZE } from "@/constants";
+
+/**
+ * Customer Table Column Definitions
+ */
+const customerColumns: ColumnDef<Customer>[] = [
+  {
+    header: "Name",
+    accessorKey: "customerName",
+    cell: ({ row }) => (
+      <Link
+        href={`/customers/${row.original.id}`}
+        className="font-semibold hover:underline"
+      >
+        {row.original.customerName}
+      </Link>
+    ),
+  },
+  {
+    header: "Email",
+    accessorKey: "email",
+  },
+  {
+    header: "Phone",
+    accessorKey: "phone",
+  },
+  {
+    header: "Status",
+    accessorKey: "isActive",
+    cell: ({ row }) => (row.original.isActive ? "Active" : "Inactive"),
+  },
+  {
+    header: "Created Date",
+    accessorKey: "createdAt",
+    cell: ({ row }) => format(new Date(row.original.createdAt), "MMM d, yyyy"),
+  },
+];
+
+/**
+ * CustomerTable Component
+ * Searchable, paginated table of the customers
+ *
+ * @returns {JSX.Element} The rendered customer table with its toolbar
+ */
+export const CustomerTable: React.FC = () => {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [pagination, setPagination] = useState<PaginationState>({
+    pageIndex: 0,
+    pageSize: DEFAULT_PAGE_SIZE,
+  });
+
+  const { data, isLoading, error } = useCustomers(
+    pagination.pageIndex + 1,
+    pagination.pageSize,
+    search,
+  );
+
+  const totalCount = data?.pagination.total || 0;
+
+  const table = useReactTable<Customer>({
+    data: data?.customers ?? [],
+    columns: customerColumns,
+    getCoreRowModel: getCoreRowModel(),
+    state: { pagination },
+    onPaginationChange: setPagination,
+    manualPagination: true,
+    enableSorting: false,
+    pageCount: Math.ceil(totalCount / pagination.pageSize),
+  });
+
+  // A new search starts from the first page
+  const handleSearch = useCallback((value: string) => {
+    setSearch(value);
+    setPagination((current) => ({ ...current, pageIndex: 0 }));
+  }, []);
+
+  return (
+    <div className="py-2" role="region" aria-label="Customers table container">
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <h1 className="text-lg font-semibold text-stone-800">Customers</h1>
+        <SearchInput onSearch={handleSearch} placeholder="Search customers" />
+        <Button
+          variant="outline"
+          className="flex items-center gap-2"
+          onClick={() => setIsFormOpen(true)}
+          aria-label="Add new customer"
+        >
+          <PlusIcon className="size-4" aria-hidden="true" />
+          <span className="hidden md:block">New Customer</span>
+        </Button>
+      </div>
+
+      {error ? (
+        <div
+          className="mt-4 flex items-center justify-center gap-2 text-center text-sm text-red-500"
+          role="alert"
+        >
+          <TriangleAlert className="size-4" aria-hidden="true" />
+          <p className="font-medium">Error while fetching customers</p>
+        </div>
+      ) : (
+        <>
+          <DataTable
+            table={table}
+            isLoading={isLoading}
+            label="Customers table"
+            emptyMessage="No customers found"
+          />
+          <TablePagination table={table} totalResults={totalCount} />
+        </>
+      )}
+
+      <CustomerFormDialog open={isFormOpen} onOpenChange={setIsFormOpen} />
+    </div>
+  );
+};
+
+export default CustomerTable;
@@ -0,0 +1,234 @@
+// External dependencies
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { z } from "zod";
+
+// Internal dependencies
+import { client } from "@/lib/hono";
+import {
+  insertCustomerSchema,
+  updateCustomerSchema,
+  type Customer as CustomerRow,
+} from "@/database/schemas/order.schema";
+import { orderKeys } from "@/features/orders/queries/orders.queries";
+import { toast } from "@/hooks/use-toast";
+
+/**
+ * Query key factory for customer-related queries
+ * Centralizes all query keys for better maintainability
+ */
+export const customerKeys = {
+  all: ["customers"] as const,
+  allLists: () => [...customerKeys.all, "list"] as const,
+  lists: (page?: number, pageSize?: number, search?: string) =>
+    [...customerKeys.allLists(), page, pageSize, search] as const,
+  details: () => [...customerKeys.all, "detail"] as const,
+  detail: (id: string) => [...customerKeys.details(), id] as const,
+};
+
+/**
+ * Enhanced error handling with type checking and custom error messages
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred while processing the request");
+};
+
+/**
+ * Hook to fetch a page of customers
+ * @param page - Page number, starting at 1
+ * @param pageSize - Number of customers per page
+ * @param search - Optional search on the name, email or phone
+ * @returns {UseQueryResult} - The customers of the page and the pagination info
+ */
+export const useCustomers = (
+  page: number,
+  pageSize: number,
+  search?: string,
+): UseQueryResult<CustomerList> => {
+  return useQuery({
+    queryKey: customerKeys.lists(page, pageSize, search),
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      try {
+        const response = await client.api.customers.$get({
+          query: {
+            page: page.toString(),
+            pageSize: pageSize.toString(),
+            ...(search && { search }),
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching customers");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to fetch a single customer
+ * @param id - The ID of the customer to fetch
+ * @returns {UseQueryResult} - The query result containing the customer
+ */
+export const useCustomer = (id: string): UseQueryResult<Customer> => {
+  return useQuery({
+    queryKey: customerKeys.detail(id),
+    enabled: !!id, // Enable query only if id is provided
+    queryFn: async () => {
+      try {
+        const response = await client.api.customers[":id"].$get({
+          param: { id },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching customer");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to create a customer
+ * @returns {UseMutationResult} - The mutation result for creating a customer
+ */
+export const useCreateCustomer = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (newCustomer: NewCustomer) => {
+      const response = await client.api.customers.$post({
+        json: newCustomer,
+      });
+
+      if (!response.ok) {
+        throw new Error("Error in creating customer");
+      }
+
+      toast({
+        title: "Customer has been created.",
+      });
+
+      const data = (await response.json()) as Customer;
+      return data;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: customerKeys.allLists() });
+      // The order form offers the new customer
+      queryClient.invalidateQueries({ queryKey: orderKeys.formOptions() });
+    },
+  });
+};
+
+/**
+ * Hook to update a customer
+ * @returns {UseMutationResult} - The mutation result for updating a customer
+ */
+export const useUpdateCustomer = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateCustomer }) => {
+      const response = await client.api.customers[":id"].$patch({
+        param: { id },
+        json: data,
+      });
+
+      if (!response.ok) {
+        throw new Error("Error in updating customer");
+      }
+
+      toast({
+        title: "Customer has been updated.",
+      });
+
+      const customer = (await response.json()) as Customer;
+      return customer;
+    },
+    onSuccess: (customer) => {
+      queryClient.setQueryData(customerKeys.detail(customer.id), customer);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: customerKeys.allLists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.formOptions() });
+      // Orders show the name and contact details of their customer
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to soft delete a customer
+ * @returns {UseMutationResult} - The mutation result for deleting a customer
+ */
+export const useDeleteCustomer = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await client.api.customers[":id"].$delete({
+        param: { id },
+      });
+
+      if (!response.ok) {
+        throw new Error("Error in deleting customer");
+      }
+
+      toast({
+        title: "Customer has been deleted.",
+      });
+    },
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: customerKeys.detail(id) });
+    },
+    onError: (error) => {
+      toast({
+        title: "Customer could not be deleted.",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: customerKeys.allLists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.formOptions() });
+    },
+  });
+};
+
+// Export types for use in components
+export type Customer = Pick<
+  CustomerRow,
+  "id" | "customerName" | "email" | "phone" | "isActive"
+> & {
+  createdAt: string;
+  updatedAt: string | null;
+};
+export type CustomerList = {
+  customers: Customer[];
+  pagination: {
+    total: number;
+    page: number;
+    pageSize: number;
+  };
+};
+export type NewCustomer = z.infer<typeof insertCustomerSchema>;
+export type UpdateCustomer = z.infer<typeof updateCustomerSchema>;
@@ -0,0 +1,191 @@
+// External dependencies
+import React from "react";
+import { useRouter } from "next/navigation";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, User } from "lucide-react";
+
+// Internal UI components
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// Utilities and queries
+import { cn } from "@/lib/utils";
+import { taskStatuses } from "@/features/tasks/types/filters";
+import {
+  Notification,
+  useMarkNotificationsRead,
+  useNotifications,
+} from "../queries/notification.queries";
+
+/**
+ * Describes what happened, e.g. "changed the status to Done"
+ * @param notification - The notification to describe
+ * @returns {string} - The event, following the actor's name
+ */
+const describeEvent = (notification: Notification): string => {
+  switch (notification.type) {
+    case "mention":
+      return notification.commentId
+        ? "mentioned you in a comment on"
+        : "mentioned you in";
+    case "assigned":
+      return "assigned you";
+    case "status_changed": {
+      const status = taskStatuses.find(
+        (option) => option.value === notification.status,
+      );
+      return `changed the status to ${status?.label ?? notification.status} on`;
+    }
+    case "commented":
+      return "commented on";
+  }
+};
+
+/**
+ * NotificationItem Component
+ * Renders a single notification, unread ones highlighted
+ */
+const NotificationItem: React.FC<{
+  notification: Notification;
+  onSelect: () => void;
+}> = ({ notification, onSelect }) => (
+  <DropdownMenuItem
+    onSelect={onSelect}
+    className={cn(
+      "flex cursor-pointer items-start gap-3 px-3 py-2",
+      !notification.readAt && "bg-stone-50",
+    )}
+  >
+    <Avatar className="mt-0.5 size-6">
+      <AvatarImage
+        src={notification.actorAvatarUrl ?? ""}
+        className="size-6 object-cover"
+        alt=""
+      />
+      <AvatarFallback>
+        <User
+          className="size-6 rounded-full bg-gray-100 p-1 text-gray-400"
+          aria-hidden="true"
+        />
+      </AvatarFallback>
+    </Avatar>
+    <div className="flex flex-1 flex-col gap-0.5">
+      <span className="text-sm text-stone-700">
+        <span className="font-medium text-stone-900">
+          {notification.actorName ?? "Someone"}
+        </span>{" "}
+        {describeEvent(notification)}{" "}
+        <span className="font-mono text-xs">{notification.taskKey}</span>{" "}
+        {notification.taskTitle}
+      </span>
+      <time
+        dateTime={notification.createdAt}
+        className="text-xs text-stone-500"
+      >
+        {formatDistanceToNow(new Date(notification.createdAt), {
+          addSuffix: true,
+        })}
+      </time>
+    </div>
+    {!notification.readAt && (
+      <span
+        className="mt-2 size-2 shrink-0 rounded-full bg-blue-500"
+        aria-label="Unread"
+      />
+    )}
+  </DropdownMenuItem>
+);
+
+/**
+ * NotificationBell Component
+ * Header menu listing the notifications of the signed-in user, with the
+ * number of unread ones on the bell
+ *
+ * @component
+ */
+export const NotificationBell: React.FC = () => {
+  const router = useRouter();
+  const { data } = useNotifications();
+  const { mutate: markRead } = useMarkNotificationsRead();
+
+  const unreadCount = data?.unreadCount ?? 0;
+  const notifications = data?.notifications ?? [];
+
+  /**
+   * Opens the task of a notification and marks it as read
+   * @param notification - The selected notification
+   */
+  const handleSelect = (notification: Notification) => {
+    if (!notification.readAt) {
+      markRead([notification.id]);
+    }
+    router.push(`/tasks/${notification.taskId}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={
+            unreadCount > 0
+              ? `Notifications, ${unreadCount} unread`
+              : "Notifications"
+          }
+        >
+          <Bell className="size-4" aria-hidden="true" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute right-1 top-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-red-500 px-1 text-[10px] font-medium text-white"
+              aria-hidden="true"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-[360px] p-0">
+        <DropdownMenuLabel className="flex items-center justify-between px-3 py-2">
+          <span>Notifications</span>
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 text-xs"
+            onClick={() => markRead(undefined)}
+            disabled={unreadCount === 0}
+          >
+            Mark all as read
+          </Button>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator className="m-0" />
+        {notifications.length > 0 ? (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onSelect={() => handleSelect(notification)}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="px-3 py-6 text-center text-sm text-stone-500">
+            No notifications yet
+          </p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,142 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { client } from "@/lib/hono";
+import {
+  notificationTypes,
+  taskStatuses,
+} from "@/database/schemas/task.schema";
+
+// Notifications are refetched in the background this often
+const NOTIFICATIONS_REFETCH_INTERVAL = 30_000;
+
+/**
+ * Query key factory for notification-related queries
+ */
+export const notificationKeys = {
+  all: ["notifications"] as const,
+  lists: () => [...notificationKeys.all, "list"] as const,
+};
+
+/**
+ * Helper function to handle API errors
+ * @param error - The error object caught in the try-catch block
+ * @throws {Error} - Throws an error with a descriptive message
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred");
+};
+
+/**
+ * Hook to fetch the latest notifications of the signed-in user
+ * @returns {UseQueryResult} - The notifications and the unread count
+ */
+export const useNotifications = () => {
+  return useQuery({
+    queryKey: notificationKeys.lists(),
+    refetchInterval: NOTIFICATIONS_REFETCH_INTERVAL,
+    queryFn: async () => {
+      try {
+        const response = await client.api.notifications.$get({ query: {} });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching notifications");
+        }
+
+        const data = (await response.json()) as NotificationList;
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to mark notifications as read, all of them without IDs
+ * Provides optimistic updates and error handling
+ * @returns {UseMutationResult} - The mutation result for marking as read
+ */
+export const useMarkNotificationsRead = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids?: string[]) => {
+      try {
+        const response = await client.api.notifications["mark-read"].$post({
+          json: { ids },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in marking notifications as read");
+        }
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+    onMutate: async (ids) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: notificationKeys.lists() });
+
+      // Snapshot the previous value
+      const previousList = queryClient.getQueryData<NotificationList>(
+        notificationKeys.lists(),
+      );
+
+      // Optimistically mark the notifications as read
+      if (previousList) {
+        const readAt = new Date().toISOString();
+        const notifications = previousList.notifications.map((notification) =>
+          !notification.readAt && (!ids || ids.includes(notification.id))
+            ? { ...notification, readAt }
+            : notification,
+        );
+        const markedCount = previousList.notifications.filter(
+          (notification, index) =>
+            notification.readAt !== notifications[index].readAt,
+        ).length;
+
+        queryClient.setQueryData<NotificationList>(notificationKeys.lists(), {
+          notifications,
+          unreadCount: ids
+            ? Math.max(previousList.unreadCount - markedCount, 0)
+            : 0,
+        });
+      }
+
+      return { previousList };
+    },
+    onError: (_, __, context) => {
+      // If the mutation fails, roll back to the previous value
+      if (context?.previousList) {
+        queryClient.setQueryData(
+          notificationKeys.lists(),
+          context.previousList,
+        );
+      }
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: notificationKeys.lists() });
+    },
+  });
+};
+
+// Export types for use in components
+export type Notification = {
+  id: string;
+  type: (typeof notificationTypes.enumValues)[number];
+  taskId: string;
+  taskKey: string;
+  taskTitle: string;
+  commentId: string | null;
+  status: (typeof taskStatuses.enumValues)[number] | null;
+  readAt: string | null;
+  createdAt: string;
+  actorName: string | null;
+  actorAvatarUrl: string | null;
+};
+export type NotificationList = {
+  notifications: Notification[];
+  unreadCount: number;
+};
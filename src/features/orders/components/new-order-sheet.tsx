@@ -0,0 +1,52 @@
+// Internal UI components
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import OrderForm from "./order-form";
+
+// Hooks
+import { useNewOrder } from "../hooks/use-new-order";
+
+/**
+ * NewOrderSheet Component
+ * A slide-out sheet component for creating new orders
+ *
+ * @component
+ * @returns {JSX.Element} The new order sheet component
+ */
+export const NewOrderSheet = () => {
+  const { isOpen, onClose } = useNewOrder();
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent
+        className="min-w-[100%] lg:min-w-[50%]"
+        role="dialog"
+        aria-labelledby="new-order-title"
+        aria-describedby="new-order-description"
+      >
+        <SheetHeader>
+          <SheetTitle id="new-order-title">New Order</SheetTitle>
+          <SheetDescription id="new-order-description">
+            Choose the customer and add the products of the order.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div
+          className="h-[calc(100vh-6rem)] overflow-y-auto p-2"
+          role="region"
+          aria-label="New order form container"
+        >
+          <OrderForm />
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+// Default export for cleaner imports
+export default NewOrderSheet;
@@ -0,0 +1,216 @@
+"use client";
+
+// External dependencies
+import React from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  Calendar,
+  ChevronLeft,
+  Hash,
+  Mail,
+  PencilIcon,
+  Phone,
+  TriangleAlert,
+  User,
+} from "lucide-react";
+
+// Internal UI components
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+// Queries and utilities
+import { Order, useOrder } from "../queries/orders.queries";
+import { useEditOrder } from "../hooks/use-edit-order";
+import { formatAmount } from "../utils/format";
+
+/**
+ * Props interface for OrderDetails component
+ * @interface OrderDetailsProps
+ */
+interface OrderDetailsProps {
+  orderId: string;
+}
+
+/**
+ * OrderDetails Component
+ * Shows an order with its customer and line items
+ *
+ * @component
+ * @param {OrderDetailsProps} props - Component props
+ */
+export const OrderDetails: React.FC<OrderDetailsProps> = ({ orderId }) => {
+  const { data: order, isLoading, error } = useOrder(orderId);
+  const { onOpen: onEdit } = useEditOrder();
+
+  if (isLoading) return <OrderDetailsSkeleton />;
+
+  if (error || !order) {
+    return (
+      <div
+        className="flex items-center justify-center gap-2 text-sm text-red-500"
+        role="alert"
+      >
+        <TriangleAlert className="size-4" aria-hidden="true" />
+        <p className="font-medium">Order not found</p>
+      </div>
+    );
+  }
+
+  return (
+    <article className="flex w-full flex-col gap-6" aria-label="Order details">
+      <header className="flex flex-col gap-2">
+        <Link
+          href="/orders"
+          className="flex w-fit items-center gap-1 text-sm text-stone-500 hover:text-stone-900"
+        >
+          <ChevronLeft className="size-4" aria-hidden="true" />
+          All orders
+        </Link>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="flex items-center text-xl font-semibold text-stone-800">
+            <Hash className="size-4 text-muted-foreground" aria-hidden="true" />
+            {order.orderNo}
+          </h1>
+          <div className="flex items-center gap-4">
+            <span className="flex items-center gap-1.5 text-sm text-stone-600">
+              <Calendar className="size-4" aria-hidden="true" />
+              {format(new Date(order.orderDate), "MMM d, yyyy")}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={() => onEdit(order.id)}
+              aria-label={`Edit order ${order.orderNo}`}
+            >
+              <PencilIcon className="size-4" aria-hidden="true" />
+              Edit
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <CustomerInfo customer={order.customer} />
+      <LineItems order={order} />
+    </article>
+  );
+};
+
+/**
+ * CustomerInfo Component
+ * Contact details of the customer who placed the order
+ */
+const CustomerInfo: React.FC<{ customer: Order["customer"] }> = ({
+  customer,
+}) => (
+  <section
+    className="flex flex-col gap-2 rounded-md border border-stone-200 p-4"
+    aria-label="Customer"
+  >
+    <h2 className="text-sm font-medium text-stone-500">Customer</h2>
+    <p className="flex items-center gap-2 font-semibold text-stone-800">
+      <User className="size-4" aria-hidden="true" />
+      {customer.customerName}
+    </p>
+    {customer.email && (
+      <p className="flex items-center gap-2 text-sm text-stone-600">
+        <Mail className="size-4" aria-hidden="true" />
+        <a href={`mailto:${customer.email}`} className="hover:underline">
+          {customer.email}
+        </a>
+      </p>
+    )}
+    {customer.phone && (
+      <p className="flex items-center gap-2 text-sm text-stone-600">
+        <Phone className="size-4" aria-hidden="true" />
+        {customer.phone}
+      </p>
+    )}
+  </section>
+);
+
+/**
+ * LineItems Component
+ * The products of the order with their quantities and amounts
+ */
+const LineItems: React.FC<{ order: Order }> = ({ order }) => (
+  <section className="flex flex-col gap-2" aria-label="Line items">
+    <h2 className="text-sm font-medium text-stone-500">Line items</h2>
+    <div className="overflow-x-auto border border-stone-300">
+      <Table className="min-w-full">
+        <TableHeader className="bg-gray-200">
+          <TableRow>
+            <TableHead>Product</TableHead>
+            <TableHead>Code</TableHead>
+            <TableHead className="text-right">Quantity</TableHead>
+            <TableHead className="text-right">Price</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {order.orderDetails.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="text-center text-gray-500">
+                No line items
+              </TableCell>
+            </TableRow>
+          ) : (
+            order.orderDetails.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell className="font-medium">
+                  {item.product.productName}
+                </TableCell>
+                <TableCell className="text-stone-600">
+                  {item.product.productCode}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {item.quantity}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {formatAmount(item.price)}
+                </TableCell>
+                <TableCell className="text-right tabular-nums">
+                  {formatAmount(item.amount)}
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell colSpan={4} className="text-right font-semibold">
+              Total
+            </TableCell>
+            <TableCell className="text-right font-semibold tabular-nums">
+              {formatAmount(order.totalAmount)}
+            </TableCell>
+          </TableRow>
+        </TableFooter>
+      </Table>
+    </div>
+  </section>
+);
+
+/**
+ * OrderDetailsSkeleton Component
+ * Placeholder shown while the order loads
+ */
+const OrderDetailsSkeleton: React.FC = () => (
+  <div className="flex w-full flex-col gap-6" aria-busy="true">
+    <Skeleton className="h-8 w-48" />
+    <Skeleton className="h-28 w-full" />
+    <Skeleton className="h-48 w-full" />
+  </div>
+);
+
+export default OrderDetails;
@@ -0,0 +1,208 @@
+"use client";
+
+// External dependencies
+import React from "react";
+import { DateRange } from "react-day-picker";
+import { X } from "lucide-react";
+
+// Internal UI components
+import { DateRangePicker } from "@/components/date-range-picker";
+import { MultiSelectCombobox } from "@/components/multi-select-combobox";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+// Queries and stores
+import { useOrderFormOptions } from "../queries/orders.queries";
+import { useOrderFiltersStore } from "@/stores/order-filters-store";
+
+/**
+ * Props interface for OrderFilter component
+ * @interface OrderFilterProps
+ */
+type OrderFilterProps = {
+  isFilterOpen: boolean;
+  setIsFilterOpen: (value: boolean) => void;
+};
+
+/**
+ * Helper function to handle date range with default end date
+ * @param range - Optional DateRange object
+ * @returns Modified DateRange with default end date if needed
+ */
+const getDateRangeWithDefault = (range?: DateRange): DateRange | undefined => {
+  if (range?.from && !range.to) {
+    const defaultEndDate = new Date(range.from);
+    defaultEndDate.setMonth(defaultEndDate.getMonth() + 1);
+    return { ...range, to: defaultEndDate };
+  }
+  return range;
+};
+
+/**
+ * Parses an amount input, an empty input removes the bound
+ */
+const parseAmount = (value: string) =>
+  value === "" ? undefined : Number(value);
+
+/**
+ * OrderFilter Component
+ * Provides filtering functionality for orders with both mobile and desktop
+ * views
+ *
+ * @component
+ */
+const OrderFilter: React.FC<OrderFilterProps> = ({
+  isFilterOpen,
+  setIsFilterOpen,
+}) => {
+  // Customers and products orders can be placed with
+  const { data: options } = useOrderFormOptions();
+  const { filter, setFilter, clearFilter } = useOrderFiltersStore();
+
+  const handleOrderDateRangeChange = (range?: DateRange) => {
+    const updatedRange = getDateRangeWithDefault(range);
+    setFilter({
+      ...filter,
+      orderDateRangeFrom: updatedRange?.from,
+      orderDateRangeTo: updatedRange?.to,
+    });
+  };
+
+  // Check if any filters are active
+  const hasActiveFilters =
+    filter.selectedCustomer.length > 0 ||
+    filter.selectedProduct.length > 0 ||
+    filter.orderDateRangeFrom ||
+    filter.orderDateRangeTo ||
+    filter.minAmount !== undefined ||
+    filter.maxAmount !== undefined;
+
+  /**
+   * Filter controls component
+   * Reused in both mobile and desktop views
+   */
+  const FiltersList = (
+    <>
+      {/* Customer filter */}
+      <MultiSelectCombobox
+        label="Customer"
+        options={
+          options?.customers.map((customer) => ({
+            label: customer.customerName,
+            value: customer.id,
+          })) || []
+        }
+        value={filter.selectedCustomer}
+        onChange={(value) => setFilter({ ...filter, selectedCustomer: value })}
+        aria-label="Filter by customer"
+      />
+      {/* Product filter */}
+      <MultiSelectCombobox
+        label="Product"
+        options={
+          options?.products.map((product) => ({
+            label: `${product.productName} (${product.productCode})`,
+            value: product.id,
+          })) || []
+        }
+        value={filter.selectedProduct}
+        onChange={(value) => setFilter({ ...filter, selectedProduct: value })}
+        aria-label="Filter by product"
+      />
+      {/* Order date range filter */}
+      <DateRangePicker
+        key="orderDateRange"
+        label="order date"
+        value={{
+          from: filter.orderDateRangeFrom,
+          to: filter.orderDateRangeTo,
+        }}
+        onChange={handleOrderDateRangeChange}
+        aria-label="Filter by order date range"
+      />
+      {/* Total amount range filter */}
+      <div className="flex items-center gap-2">
+        <Input
+          type="number"
+          min={0}
+          step={0.01}
+          className="w-28"
+          placeholder="Min total"
+          value={filter.minAmount ?? ""}
+          onChange={(e) =>
+            setFilter({ ...filter, minAmount: parseAmount(e.target.value) })
+          }
+          aria-label="Minimum order total"
+        />
+        <span className="text-sm text-muted-foreground">-</span>
+        <Input
+          type="number"
+          min={0}
+          step={0.01}
+          className="w-28"
+          placeholder="Max total"
+          value={filter.maxAmount ?? ""}
+          onChange={(e) =>
+            setFilter({ ...filter, maxAmount: parseAmount(e.target.value) })
+          }
+          aria-label="Maximum order total"
+        />
+      </div>
+      {/* Clear filters button */}
+      {hasActiveFilters && (
+        <Button
+          variant="outline"
+          onClick={clearFilter}
+          className="flex items-center gap-2"
+          aria-label="Clear all filters"
+        >
+          <X className="size-4" aria-hidden="true" />
+          Clear All
+        </Button>
+      )}
+    </>
+  );
+
+  return (
+    <>
+      {/* Mobile view - Sheet/drawer */}
+      <Sheet open={isFilterOpen} onOpenChange={setIsFilterOpen}>
+        <SheetContent side="left" role="dialog" aria-label="Order filters">
+          <SheetHeader>
+            <SheetTitle>Filters</SheetTitle>
+            <SheetDescription>
+              <div className="flex w-full flex-col justify-between gap-4 text-primary">
+                {FiltersList}
+                <Button
+                  className="w-full"
+                  onClick={() => setIsFilterOpen(false)}
+                  aria-label="Apply filters"
+                >
+                  Apply
+                </Button>
+              </div>
+            </SheetDescription>
+          </SheetHeader>
+        </SheetContent>
+      </Sheet>
+
+      {/* Desktop view */}
+      <div
+        className="hidden flex-wrap items-center gap-4 text-primary lg:flex"
+        role="region"
+        aria-label="Order filters"
+      >
+        {FiltersList}
+      </div>
+    </>
+  );
+};
+
+export default OrderFilter;
@@ -0,0 +1,306 @@
+"use client";
+
+// External dependencies
+import React from "react";
+import { useFieldArray, useForm, UseFormReturn } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { PlusIcon, TrashIcon } from "lucide-react";
+
+// Internal dependencies - UI Components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DatePicker } from "@/components/date-picker";
+
+// Internal dependencies - Queries, hooks & utils
+import { saveOrderSchema } from "@/database/schemas/order.schema";
+import {
+  Order,
+  OrderFormOptions,
+  SaveOrder,
+  useCreateOrder,
+  useOrderFormOptions,
+  useUpdateOrder,
+} from "../queries/orders.queries";
+import { useNewOrder } from "../hooks/use-new-order";
+import { useEditOrder } from "../hooks/use-edit-order";
+import { formatAmount } from "../utils/format";
+
+// Types
+interface OrderFormProps {
+  order?: Order;
+}
+
+// Line item added by the "Add line item" button
+const EMPTY_LINE_ITEM = { productId: "", quantity: 1, price: 0 };
+
+/**
+ * OrderForm Component
+ * Creates or edits an order with its line items. The amounts shown are a
+ * preview, the server computes the stored ones
+ *
+ * @param {OrderFormProps} props - Component properties
+ * @returns {JSX.Element} Rendered form component
+ */
+export const OrderForm: React.FC<OrderFormProps> = ({ order }) => {
+  const { onClose } = useNewOrder();
+  const { onClose: onCloseUpdate } = useEditOrder();
+  const { data: options, isLoading: optionsLoading } = useOrderFormOptions();
+  const { mutate: createOrder, isPending: isCreating } = useCreateOrder();
+  const { mutate: updateOrder, isPending: isUpdating } = useUpdateOrder();
+
+  const form = useForm<SaveOrder>({
+    resolver: zodResolver(saveOrderSchema),
+    defaultValues: {
+      customerId: order?.customer.id ?? "",
+      orderDate: order?.orderDate ?? new Date().toISOString(),
+      lineItems: order?.orderDetails.map((item) => ({
+        productId: item.product.id,
+        quantity: item.quantity,
+        price: Number(item.price),
+      })) ?? [EMPTY_LINE_ITEM],
+    },
+  });
+  const lineItems = useFieldArray({ control: form.control, name: "lineItems" });
+
+  /**
+   * Handles form closure and reset
+   */
+  const onCloseSheet = () => {
+    form.reset();
+    order ? onCloseUpdate() : onClose();
+  };
+
+  /**
+   * Handles form submission, the sheet stays open when the server rejects
+   * the order
+   * @param {SaveOrder} data - Form data to be submitted
+   */
+  const onSubmit = (data: SaveOrder) => {
+    if (order) {
+      updateOrder({ id: order.id, data }, { onSuccess: onCloseSheet });
+    } else {
+      createOrder(data, { onSuccess: onCloseSheet });
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(onSubmit)}
+        className="space-y-4"
+        aria-label={`${order ? "Edit" : "Create"} order form`}
+      >
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="customerId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Customer</FormLabel>
+                <Select
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  disabled={optionsLoading}
+                >
+                  <FormControl>
+                    <SelectTrigger aria-label="Select customer">
+                      <SelectValue placeholder="Select customer" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {options?.customers.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id}>
+                        {customer.customerName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="orderDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Order Date</FormLabel>
+                <FormControl>
+                  <DatePicker
+                    date={field.value ? new Date(field.value) : undefined}
+                    setDate={(date) => field.onChange(date?.toISOString())}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <LineItemsField
+          form={form}
+          lineItems={lineItems}
+          products={options?.products ?? []}
+          isLoading={optionsLoading}
+        />
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="outline" onClick={onCloseSheet}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isCreating || isUpdating}>
+            {order ? "Update" : "Create"} Order
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+};
+
+/**
+ * LineItemsField Component
+ * Editable rows of product, quantity and price with the running total
+ */
+const LineItemsField: React.FC<{
+  form: UseFormReturn<SaveOrder>;
+  lineItems: ReturnType<typeof useFieldArray<SaveOrder, "lineItems">>;
+  products: OrderFormOptions["products"];
+  isLoading: boolean;
+}> = ({ form, lineItems, products, isLoading }) => {
+  const values = form.watch("lineItems");
+  const amounts = values.map(
+    (item) => Math.round((item.quantity || 0) * (item.price || 0) * 100) / 100,
+  );
+  const total = amounts.reduce((sum, amount) => sum + amount, 0);
+
+  return (
+    <fieldset className="space-y-2">
+      <legend className="text-sm font-medium">Line items</legend>
+
+      {lineItems.fields.map((lineItem, index) => (
+        <div
+          key={lineItem.id}
+          className="grid grid-cols-[1fr_5rem_7rem_6rem_auto] items-start gap-2"
+        >
+          <FormField
+            control={form.control}
+            name={`lineItems.${index}.productId`}
+            render={({ field }) => (
+              <FormItem>
+                <Select
+                  value={field.value}
+                  onValueChange={field.onChange}
+                  disabled={isLoading}
+                >
+                  <FormControl>
+                    <SelectTrigger aria-label={`Product of line ${index + 1}`}>
+                      <SelectValue placeholder="Select product" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {products.map((product) => (
+                      <SelectItem key={product.id} value={product.id}>
+                        {product.productName} ({product.productCode})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`lineItems.${index}.quantity`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={1}
+                    step={1}
+                    {...field}
+                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    aria-label={`Quantity of line ${index + 1}`}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name={`lineItems.${index}.price`}
+            render={({ field }) => (
+              <FormItem>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    {...field}
+                    onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                    aria-label={`Price of line ${index + 1}`}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <span className="flex h-9 items-center justify-end text-sm tabular-nums">
+            {formatAmount(amounts[index] ?? 0)}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => lineItems.remove(index)}
+            disabled={lineItems.fields.length === 1}
+            aria-label={`Remove line ${index + 1}`}
+          >
+            <TrashIcon className="size-4" aria-hidden="true" />
+          </Button>
+        </div>
+      ))}
+
+      <p className="text-sm font-medium text-destructive" role="alert">
+        {form.formState.errors.lineItems?.root?.message ??
+          form.formState.errors.lineItems?.message}
+      </p>
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="flex items-center gap-2"
+          onClick={() => lineItems.append(EMPTY_LINE_ITEM)}
+        >
+          <PlusIcon className="size-4" aria-hidden="true" />
+          Add line item
+        </Button>
+        <span className="text-sm font-semibold tabular-nums">
+          Total {formatAmount(total)}
+        </span>
+      </div>
+    </fieldset>
+  );
+};
+
+export default OrderForm;
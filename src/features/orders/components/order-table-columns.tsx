@@ -0,0 +1,85 @@
+// External dependencies
+import Link from "next/link";
+import { format } from "date-fns";
+import { ColumnDef } from "@tanstack/react-table";
+import { Hash } from "lucide-react";
+
+// Internal dependencies
+import { OrderListItem } from "../queries/orders.queries";
+import { formatAmount } from "../utils/format";
+
+/**
+ * Order Table Column Definitions
+ * Defines the structure of each column in the order table
+ */
+export const orderColumns: ColumnDef<OrderListItem>[] = [
+  // Order Number Column, links to the order details
+  {
+    header: "Order No",
+    accessorKey: "orderNo",
+    cell: ({ row }) => (
+      <Link
+        href={`/orders/${row.original.id}`}
+        className="flex min-w-[120px] items-center font-semibold hover:underline"
+        role="cell"
+      >
+        <Hash className="size-3 text-muted-foreground" aria-hidden="true" />
+        {row.original.orderNo}
+      </Link>
+    ),
+    enableHiding: false,
+    minSize: 120,
+  },
+
+  // Order Date Column
+  {
+    header: "Order Date",
+    accessorKey: "orderDate",
+    cell: ({ row }) => (
+      <span className="min-w-[100px] text-sm font-medium" role="cell">
+        {format(new Date(row.original.orderDate), "MMM d, yyyy")}
+      </span>
+    ),
+    minSize: 100,
+  },
+
+  // Customer Column
+  {
+    header: "Customer",
+    id: "customerName",
+    accessorFn: (order) => order.customer.customerName,
+    minSize: 200,
+  },
+
+  // Customer Email Column
+  {
+    header: "Email",
+    id: "email",
+    accessorFn: (order) => order.customer.email ?? "",
+    enableSorting: false,
+    minSize: 200,
+  },
+
+  // Customer Phone Column
+  {
+    header: "Phone",
+    id: "phone",
+    accessorFn: (order) => order.customer.phone ?? "",
+    enableSorting: false,
+    minSize: 120,
+  },
+
+  // Total Amount Column
+  {
+    header: "Total",
+    accessorKey: "totalAmount",
+    cell: ({ row }) => (
+      <span className="block min-w-[100px] text-right tabular-nums" role="cell">
+        {formatAmount(row.original.totalAmount)}
+      </span>
+    ),
+    minSize: 100,
+  },
+];
+
+export default orderColumns;
@@ -0,0 +1,154 @@
+"use client";
+
+// External dependencies
+import React, { useEffect, useState } from "react";
+import {
+  getCoreRowModel,
+  PaginationState,
+  SortingState,
+  useReactTable,
+} from "@tanstack/react-table";
+import { FilterIcon, PlusIcon, TriangleAlert } from "lucide-react";
+
+// Internal dependencies - UI Components
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { ColumnSelection } from "@/components/column-selection";
+import { DataTable } from "@/components/data-table";
+import { SearchInput } from "@/components/search-input";
+import { TablePagination } from "@/features/tasks/components/task-pagination";
+
+// Internal dependencies - Features
+import { orderColumns } from "./order-table-columns";
+import OrderFilter from "./order-filter";
+import { OrderListItem, useOrders } from "../queries/orders.queries";
+import { useNewOrder } from "../hooks/use-new-order";
+import { useOrderFiltersStore } from "@/stores/order-filters-store";
+
+// Internal dependencies - Constants
+import { DEFAULT_PAGE_SIZE } from "@/constants";
+
+/**
+ * OrderTable Component
+ * Paginated table of the orders, one page fetched from the server at a time
+ * with the search, filters and sorting applied
+ *
+ * @returns {JSX.Element} The rendered order table with its toolbar
+ */
+export const OrderTable: React.FC = () => {
+  const { onOpen } = useNewOrder();
+  const { appliedFilters, setSearch } = useOrderFiltersStore();
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [columnVisibility, setColumnVisibility] = useState({});
+  const [sorting, setSorting] = useState<SortingState>([]);
+  const [pagination, setPagination] = useState<PaginationState>({
+    pageIndex: 0,
+    pageSize: DEFAULT_PAGE_SIZE,
+  });
+
+  const { data, isLoading, error } = useOrders(
+    pagination.pageIndex + 1,
+    pagination.pageSize,
+    {
+      ...appliedFilters,
+      order:
+        sorting.length > 0 ? (sorting[0].desc ? "desc" : "asc") : undefined,
+      sort: sorting.length > 0 ? sorting[0].id : undefined,
+    },
+  );
+
+  // Changing the search, filters or sorting starts from the first page
+  useEffect(() => {
+    setPagination((current) => ({ ...current, pageIndex: 0 }));
+  }, [appliedFilters, sorting]);
+
+  const totalCount = data?.pagination.total || 0;
+
+  const table = useReactTable<OrderListItem>({
+    data: data?.orders ?? [],
+    columns: orderColumns,
+    getCoreRowModel: getCoreRowModel(),
+    state: {
+      columnVisibility,
+      sorting,
+      pagination,
+    },
+    onColumnVisibilityChange: setColumnVisibility,
+    onSortingChange: setSorting,
+    onPaginationChange: setPagination,
+    manualPagination: true,
+    manualSorting: true,
+    pageCount: Math.ceil(totalCount / pagination.pageSize),
+  });
+
+  return (
+    <div className="py-2" role="region" aria-label="Orders table container">
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <div className="flex w-full items-center gap-4">
+          <h1 className="text-lg font-semibold text-stone-800">Orders</h1>
+          <SearchInput onSearch={setSearch} placeholder="Search orders" />
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            className="flex items-center gap-2"
+            onClick={onOpen}
+            aria-label="Add new order"
+          >
+            <PlusIcon className="size-4" aria-hidden="true" />
+            <span className="hidden md:block">New Order</span>
+          </Button>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <ColumnSelection table={table} />
+            </TooltipTrigger>
+            <TooltipContent>Show/hide columns</TooltipContent>
+          </Tooltip>
+          <Button
+            variant="outline"
+            className="flex items-center gap-2 lg:hidden"
+            onClick={() => setIsFilterOpen(!isFilterOpen)}
+            aria-label="Toggle filter panel"
+            aria-expanded={isFilterOpen}
+          >
+            <FilterIcon className="size-4" aria-hidden="true" />
+            <span className="hidden md:block">Filter</span>
+          </Button>
+        </div>
+      </div>
+
+      <div className="mb-4 flex w-full items-center">
+        <OrderFilter
+          isFilterOpen={isFilterOpen}
+          setIsFilterOpen={setIsFilterOpen}
+        />
+      </div>
+
+      {error ? (
+        <div
+          className="mt-4 flex items-center justify-center gap-2 text-center text-sm text-red-500"
+          role="alert"
+        >
+          <TriangleAlert className="size-4" aria-hidden="true" />
+          <p className="font-medium">Error while fetching orders</p>
+        </div>
+      ) : (
+        <>
+          <DataTable
+            table={table}
+            isLoading={isLoading}
+            label="Orders table"
+            emptyMessage="No orders found"
+          />
+          <TablePagination table={table} totalResults={totalCount} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OrderTable;
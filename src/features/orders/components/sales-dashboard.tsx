@@ -0,0 +1,368 @@
+"use client";
+
+// External dependencies
+import React, { useState } from "react";
+import Link from "next/link";
+import { endOfDay, format, startOfDay, subDays } from "date-fns";
+import { DateRange } from "react-day-picker";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChevronLeft, TriangleAlert } from "lucide-react";
+
+// Internal UI components
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { DateRangePicker } from "@/components/date-range-picker";
+
+// Queries and utilities
+import {
+  OrderReportParams,
+  OrderReports,
+  TopProduct,
+  useOrderReports,
+} from "../queries/orders.queries";
+import { formatAmount } from "../utils/format";
+
+type ReportInterval = OrderReportParams["interval"];
+
+// Label of a revenue period, by the interval it starts
+const PERIOD_FORMATS: Record<ReportInterval, string> = {
+  day: "MMM d",
+  week: "'Week of' MMM d",
+  month: "MMM yyyy",
+};
+
+// Days shown before a range is picked, today included
+const DEFAULT_RANGE_DAYS = 30;
+
+const revenueChartConfig = {
+  revenue: { label: "Revenue", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const productChartConfig = {
+  quantity: { label: "Quantity", color: "hsl(var(--chart-2))" },
+  revenue: { label: "Revenue", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+const customerChartConfig = {
+  revenue: { label: "Revenue", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+/**
+ * Parses a period of the reports, a date without time is local midnight
+ */
+const parsePeriod = (period: string) => new Date(`${period}T00:00:00`);
+
+/**
+ * SalesDashboard Component
+ * Sales of the orders placed in a date range: totals, revenue over time and
+ * the best selling products and best customers
+ *
+ * @component
+ */
+export const SalesDashboard: React.FC = () => {
+  const [range, setRange] = useState<DateRange | undefined>(() => ({
+    from: startOfDay(subDays(new Date(), DEFAULT_RANGE_DAYS - 1)),
+    to: endOfDay(new Date()),
+  }));
+  const [interval, setReportInterval] = useState<ReportInterval>("day");
+
+  // The last day of the range is counted in full
+  const { data, isLoading, error } = useOrderReports({
+    from: range?.from?.toISOString(),
+    to: range?.to ? endOfDay(range.to).toISOString() : undefined,
+    interval,
+  });
+
+  return (
+    <div className="flex flex-col gap-6 py-2" aria-label="Sales reports">
+      <header className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div className="flex flex-col gap-2">
+          <Link
+            href="/orders"
+            className="flex w-fit items-center gap-1 text-sm text-stone-500 hover:text-stone-900"
+          >
+            <ChevronLeft className="size-4" aria-hidden="true" />
+            All orders
+          </Link>
+          <h1 className="text-lg font-semibold text-stone-800">
+            Sales Reports
+          </h1>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <DateRangePicker
+            label="order date"
+            value={range}
+            onChange={setRange}
+          />
+          <Select
+            value={interval}
+            onValueChange={(value) =>
+              setReportInterval(value as ReportInterval)
+            }
+          >
+            <SelectTrigger className="w-32" aria-label="Revenue interval">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Daily</SelectItem>
+              <SelectItem value="week">Weekly</SelectItem>
+              <SelectItem value="month">Monthly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </header>
+
+      {error ? (
+        <div
+          className="flex items-center justify-center gap-2 text-sm text-red-500"
+          role="alert"
+        >
+          <TriangleAlert className="size-4" aria-hidden="true" />
+          <p className="font-medium">Error while fetching sales reports</p>
+        </div>
+      ) : isLoading || !data ? (
+        <SalesDashboardSkeleton />
+      ) : (
+        <>
+          <Summary summary={data.summary} />
+          <RevenueChart revenue={data.revenue} interval={interval} />
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <TopProductsChart topProducts={data.topProducts} />
+            <TopCustomersChart topCustomers={data.topCustomers} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Summary Component
+ * Revenue, number of orders and average order value of the range
+ */
+const Summary: React.FC<{ summary: OrderReports["summary"] }> = ({
+  summary,
+}) => (
+  <section
+    className="grid grid-cols-1 gap-4 md:grid-cols-3"
+    aria-label="Summary"
+  >
+    <SummaryCard title="Revenue" value={formatAmount(summary.revenue)} />
+    <SummaryCard title="Orders" value={summary.orderCount.toLocaleString()} />
+    <SummaryCard
+      title="Average order value"
+      value={formatAmount(summary.averageOrderValue)}
+    />
+  </section>
+);
+
+const SummaryCard: React.FC<{ title: string; value: string }> = ({
+  title,
+  value,
+}) => (
+  <Card>
+    <CardHeader className="pb-2">
+      <CardTitle className="text-sm font-medium text-stone-500">
+        {title}
+      </CardTitle>
+    </CardHeader>
+    <CardContent>
+      <p className="text-2xl font-semibold tabular-nums text-stone-800">
+        {value}
+      </p>
+    </CardContent>
+  </Card>
+);
+
+/**
+ * RevenueChart Component
+ * Revenue of each day, week or month of the range that had orders
+ */
+const RevenueChart: React.FC<{
+  revenue: OrderReports["revenue"];
+  interval: ReportInterval;
+}> = ({ revenue, interval }) => {
+  const formatPeriod = (period: string) =>
+    format(parsePeriod(period), PERIOD_FORMATS[interval]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Revenue</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {revenue.length === 0 ? (
+          <EmptyChart />
+        ) : (
+          <ChartContainer
+            config={revenueChartConfig}
+            className="h-72 w-full"
+            aria-label="Revenue chart"
+          >
+            <BarChart data={revenue} accessibilityLayer>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="period"
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={formatPeriod}
+              />
+              <YAxis tickLine={false} axisLine={false} width={80} />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(period) => formatPeriod(period)}
+                  />
+                }
+              />
+              <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+/**
+ * TopProductsChart Component
+ * Best selling products, by quantity sold or by revenue
+ */
+const TopProductsChart: React.FC<{
+  topProducts: OrderReports["topProducts"];
+}> = ({ topProducts }) => (
+  <Card>
+    <Tabs defaultValue="quantity">
+      <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-base">Top products</CardTitle>
+        <TabsList>
+          <TabsTrigger value="quantity">Quantity</TabsTrigger>
+          <TabsTrigger value="revenue">Revenue</TabsTrigger>
+        </TabsList>
+      </CardHeader>
+      <CardContent>
+        <TabsContent value="quantity">
+          <ProductBarChart
+            products={topProducts.byQuantity}
+            measure="quantity"
+          />
+        </TabsContent>
+        <TabsContent value="revenue">
+          <ProductBarChart products={topProducts.byRevenue} measure="revenue" />
+        </TabsContent>
+      </CardContent>
+    </Tabs>
+  </Card>
+);
+
+const ProductBarChart: React.FC<{
+  products: TopProduct[];
+  measure: "quantity" | "revenue";
+}> = ({ products, measure }) =>
+  products.length === 0 ? (
+    <EmptyChart />
+  ) : (
+    <ChartContainer
+      config={productChartConfig}
+      className="h-72 w-full"
+      aria-label={`Top products by ${measure}`}
+    >
+      <BarChart data={products} layout="vertical" accessibilityLayer>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" dataKey={measure} hide />
+        <YAxis
+          type="category"
+          dataKey="productName"
+          tickLine={false}
+          axisLine={false}
+          width={120}
+        />
+        <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+        <Bar dataKey={measure} fill={`var(--color-${measure})`} radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+
+/**
+ * TopCustomersChart Component
+ * Customers who spent the most in the range
+ */
+const TopCustomersChart: React.FC<{
+  topCustomers: OrderReports["topCustomers"];
+}> = ({ topCustomers }) => (
+  <Card>
+    <CardHeader>
+      <CardTitle className="text-base">Top customers</CardTitle>
+    </CardHeader>
+    <CardContent>
+      {topCustomers.length === 0 ? (
+        <EmptyChart />
+      ) : (
+        <ChartContainer
+          config={customerChartConfig}
+          className="h-72 w-full"
+          aria-label="Top customers by revenue"
+        >
+          <BarChart data={topCustomers} layout="vertical" accessibilityLayer>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" dataKey="revenue" hide />
+            <YAxis
+              type="category"
+              dataKey="customerName"
+              tickLine={false}
+              axisLine={false}
+              width={120}
+            />
+            <ChartTooltip content={<ChartTooltipContent hideLabel />} />
+            <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+      )}
+    </CardContent>
+  </Card>
+);
+
+/**
+ * EmptyChart Component
+ * Shown in place of a chart when the range has no orders
+ */
+const EmptyChart: React.FC = () => (
+  <p className="flex h-72 items-center justify-center text-sm font-medium text-gray-500">
+    No orders in this date range
+  </p>
+);
+
+/**
+ * SalesDashboardSkeleton Component
+ * Placeholder shown while the reports load
+ */
+const SalesDashboardSkeleton: React.FC = () => (
+  <div className="flex flex-col gap-6" aria-busy="true">
+    <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+      <Skeleton className="h-28 w-full" />
+      <Skeleton className="h-28 w-full" />
+      <Skeleton className="h-28 w-full" />
+    </div>
+    <Skeleton className="h-96 w-full" />
+    <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+      <Skeleton className="h-96 w-full" />
+      <Skeleton className="h-96 w-full" />
+    </div>
+  </div>
+);
+
+export default SalesDashboard;
@@ -0,0 +1,62 @@
+// Internal UI components
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import OrderForm from "./order-form";
+
+// Hooks and queries
+import { useEditOrder } from "../hooks/use-edit-order";
+import { useOrder } from "../queries/orders.queries";
+
+/**
+ * UpdateOrderSheet Component
+ * A slide-out sheet component for editing an order and its line items
+ *
+ * @component
+ * @returns {JSX.Element} The update order sheet component
+ */
+export const UpdateOrderSheet = () => {
+  const { isOpen, onClose, orderId } = useEditOrder();
+
+  const { data: order, isLoading } = useOrder(orderId);
+
+  return (
+    <Sheet open={isOpen} onOpenChange={onClose}>
+      <SheetContent
+        className="min-w-[100%] lg:min-w-[50%]"
+        role="dialog"
+        aria-labelledby="update-order-title"
+        aria-describedby="update-order-description"
+      >
+        <SheetHeader>
+          <SheetTitle id="update-order-title">
+            Update Order {order?.orderNo}
+          </SheetTitle>
+          <SheetDescription id="update-order-description">
+            Change the customer, the date or the line items of the order.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div
+          className="h-[calc(100vh-6rem)] overflow-y-auto p-2"
+          role="region"
+          aria-label="Order update form"
+        >
+          {isLoading || !order ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <OrderForm key={order.id} order={order} />
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+// Default export for cleaner imports
+export default UpdateOrderSheet;
@@ -0,0 +1,40 @@
+// External dependencies
+import { create } from "zustand";
+
+/**
+ * Interface for the Edit Order State
+ * @interface EditOrderState
+ * @property {boolean} isOpen - Flag indicating if the edit sheet is open
+ * @property {string} orderId - ID of the order being edited
+ * @property {function} onOpen - Function to open the edit sheet with an order ID
+ * @property {function} onClose - Function to close the edit sheet
+ */
+interface EditOrderState {
+  isOpen: boolean;
+  orderId: string;
+  onOpen: (orderId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Custom hook for managing the order editing state
+ * Uses Zustand for state management
+ */
+export const useEditOrder = create<EditOrderState>((set) => ({
+  isOpen: false,
+  orderId: "",
+
+  /**
+   * Opens the edit sheet with the specified order ID
+   * @param {string} orderId - The ID of the order to edit
+   */
+  onOpen: (orderId: string) => set({ isOpen: true, orderId }),
+
+  /**
+   * Closes the edit sheet and resets the order ID
+   */
+  onClose: () => set({ isOpen: false, orderId: "" }),
+}));
+
+// Default export for cleaner imports
+export default useEditOrder;
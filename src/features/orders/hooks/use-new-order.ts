@@ -0,0 +1,36 @@
+// External dependencies
+import { create } from "zustand";
+
+/**
+ * Interface for the New Order State
+ * @interface NewOrderState
+ * @property {boolean} isOpen - Flag indicating if the new order sheet is open
+ * @property {function} onOpen - Function to open the new order sheet
+ * @property {function} onClose - Function to close the new order sheet
+ */
+interface NewOrderState {
+  isOpen: boolean;
+  onOpen: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Custom hook for managing the new order sheet state
+ * Uses Zustand for state management
+ */
+export const useNewOrder = create<NewOrderState>((set) => ({
+  isOpen: false,
+
+  /**
+   * Opens the new order sheet
+   */
+  onOpen: () => set({ isOpen: true }),
+
+  /**
+   * Closes the new order sheet
+   */
+  onClose: () => set({ isOpen: false }),
+}));
+
+// Default export for cleaner imports
+export default useNewOrder;
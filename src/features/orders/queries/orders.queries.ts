@@ -0,0 +1,341 @@
+// External dependencies
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { z } from "zod";
+
+// Internal dependencies
+import { client } from "@/lib/hono";
+import {
+  saveOrderSchema,
+  type Customer,
+  type Order as OrderRow,
+  type OrderDetail,
+  type Product,
+} from "@/database/schemas/order.schema";
+import { toast } from "@/hooks/use-toast";
+import { OrderFilters } from "../types";
+
+/**
+ * Query key factory for order-related queries
+ * Centralizes all query keys for better maintainability
+ */
+export const orderKeys = {
+  all: ["orders"] as const,
+  allLists: () => [...orderKeys.all, "list"] as const,
+  lists: (page?: number, pageSize?: number, filters?: OrderFilters) =>
+    [...orderKeys.allLists(), page, pageSize, filters] as const,
+  details: () => [...orderKeys.all, "detail"] as const,
+  detail: (id: string) => [...orderKeys.details(), id] as const,
+  formOptions: () => [...orderKeys.all, "form-options"] as const,
+  allReports: () => [...orderKeys.all, "reports"] as const,
+  reports: (params: OrderReportParams) =>
+    [...orderKeys.allReports(), params] as const,
+};
+
+/**
+ * Enhanced error handling with type checking and custom error messages
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred while processing the request");
+};
+
+/**
+ * Hook to fetch a page of the orders matching the filters
+ * The previous page stays on screen while the next one loads
+ * @param page - Page number, starting at 1
+ * @param pageSize - Number of orders per page
+ * @param filters - Search, sorting and filters of the list
+ * @returns {UseQueryResult} - The orders of the page and the pagination info
+ */
+export const useOrders = (
+  page: number,
+  pageSize: number,
+  filters?: OrderFilters,
+): UseQueryResult<OrderList> => {
+  return useQuery({
+    queryKey: orderKeys.lists(page, pageSize, filters),
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      try {
+        // Prepare query parameters
+        const queryParams: Record<string, string | undefined> = {
+          page: page.toString(),
+          pageSize: pageSize.toString(),
+        };
+
+        // Add filters to query parameters if provided
+        if (filters) {
+          Object.entries(filters).forEach(([key, value]) => {
+            if (value) {
+              queryParams[key] = value;
+            }
+          });
+        }
+
+        const response = await client.api.orders.$get({
+          query: queryParams,
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching orders");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to fetch a single order with its customer and line items
+ * @param id - The ID of the order to fetch
+ * @returns {UseQueryResult} - The query result containing the order
+ */
+export const useOrder = (id: string): UseQueryResult<Order> => {
+  return useQuery({
+    queryKey: orderKeys.detail(id),
+    enabled: !!id, // Enable query only if id is provided
+    queryFn: async () => {
+      try {
+        const response = await client.api.orders[":id"].$get({
+          param: { id },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching order");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to fetch the customers and products to choose from in the order form
+ * @returns {UseQueryResult} - The active customers and products
+ */
+export const useOrderFormOptions = (): UseQueryResult<OrderFormOptions> => {
+  return useQuery({
+    queryKey: orderKeys.formOptions(),
+    queryFn: async () => {
+      try {
+        const response = await client.api.orders["form-options"].$get();
+
+        if (!response.ok) {
+          throw new Error("Error in fetching customers and products");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to fetch the sales reports of a date range
+ * The previous reports stay on screen while the new range loads
+ * @param params - Date range and revenue interval of the reports
+ * @returns {UseQueryResult} - Totals, revenue per period and the top products
+ * and customers
+ */
+export const useOrderReports = (
+  params: OrderReportParams,
+): UseQueryResult<OrderReports> => {
+  return useQuery({
+    queryKey: orderKeys.reports(params),
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      try {
+        const response = await client.api.orders.reports.$get({
+          query: params,
+        });
+
+        if (!response.ok) {
+          const { error } = (await response.json()) as { error?: string };
+          throw new Error(error ?? "Error in fetching order reports");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to create an order with its line items
+ * The order number and the totals come from the server, so the lists are
+ * refetched rather than updated optimistically
+ * @returns {UseMutationResult} - The mutation result for creating an order
+ */
+export const useCreateOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (newOrder: SaveOrder) => {
+      // Send a POST request to create the order
+      const response = await client.api.orders.$post({ json: newOrder });
+
+      // Check if the response is successful, rejected orders
+      // surface the server message
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        throw new Error(error ?? "Error in creating order");
+      }
+
+      toast({
+        title: "Order has been created.",
+      });
+
+      const data = (await response.json()) as Order;
+      return data;
+    },
+    onSuccess: (order) => {
+      queryClient.setQueryData(orderKeys.detail(order.id), order);
+    },
+    onError: (error) => {
+      toast({
+        title: "Order could not be created.",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.allLists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.allReports() });
+    },
+  });
+};
+
+/**
+ * Hook to replace the customer, date and line items of an order
+ * @returns {UseMutationResult} - The mutation result for updating an order
+ */
+export const useUpdateOrder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: SaveOrder }) => {
+      // Send a PATCH request to update the order
+      const response = await client.api.orders[":id"].$patch({
+        param: { id },
+        json: data,
+      });
+
+      // Check if the response is successful, rejected orders
+      // surface the server message
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        throw new Error(error ?? "Error in updating order");
+      }
+
+      toast({
+        title: "Order has been updated.",
+      });
+
+      const order = (await response.json()) as Order;
+      return order;
+    },
+    onSuccess: (order) => {
+      queryClient.setQueryData(orderKeys.detail(order.id), order);
+    },
+    onError: (error) => {
+      toast({
+        title: "Order could not be updated.",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    },
+    onSettled: (order, error, { id }) => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.allLists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.allReports() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.detail(id) });
+    },
+  });
+};
+
+// Export types for use in components
+export type SaveOrder = z.infer<typeof saveOrderSchema>;
+export type OrderCustomer = Pick<
+  Customer,
+  "id" | "customerName" | "email" | "phone"
+>;
+export type OrderListItem = Pick<OrderRow, "id" | "orderNo" | "totalAmount"> & {
+  orderDate: string;
+  customer: OrderCustomer;
+  createdAt: string;
+  updatedAt: string | null;
+};
+export type OrderList = {
+  orders: OrderListItem[];
+  pagination: {
+    total: number;
+    page: number;
+    pageSize: number;
+  };
+};
+export type OrderLineItem = Pick<
+  OrderDetail,
+  "id" | "quantity" | "price" | "amount"
+> & {
+  product: Pick<Product, "id" | "productName" | "productCode">;
+};
+export type Order = Pick<OrderRow, "id" | "orderNo" | "totalAmount"> & {
+  orderDate: string;
+  customer: OrderCustomer;
+  orderDetails: OrderLineItem[];
+};
+export type OrderFormOptions = {
+  customers: Pick<Customer, "id" | "customerName">[];
+  products: Pick<Product, "id" | "productName" | "productCode">[];
+};
+export type OrderReportParams = {
+  from?: string;
+  to?: string;
+  interval: "day" | "week" | "month";
+};
+export type TopProduct = Pick<Product, "id" | "productName" | "productCode"> & {
+  quantity: number;
+  revenue: number;
+};
+export type TopCustomer = Pick<Customer, "id" | "customerName"> & {
+  orderCount: number;
+  revenue: number;
+};
+export type OrderReports = {
+  summary: {
+    revenue: number;
+    orderCount: number;
+    averageOrderValue: number;
+  };
+  revenue: {
+    period: string;
+    revenue: number;
+    orderCount: number;
+  }[];
+  topProducts: {
+    byQuantity: TopProduct[];
+    byRevenue: TopProduct[];
+  };
+  topCustomers: TopCustomer[];
+};
@@ -0,0 +1,23 @@
+// Query parameters of the order list, customers and products are
+// comma-separated ids
+export interface OrderFilters {
+  search?: string;
+  sort?: string;
+  order?: string;
+  customer?: string;
+  product?: string;
+  orderDateFrom?: string;
+  orderDateTo?: string;
+  minAmount?: string;
+  maxAmount?: string;
+}
+
+// Values of the order filter bar
+export interface OrderFilterStates {
+  selectedCustomer: string[];
+  selectedProduct: string[];
+  orderDateRangeFrom: Date | undefined;
+  orderDateRangeTo: Date | undefined;
+  minAmount: number | undefined;
+  maxAmount: number | undefined;
+}
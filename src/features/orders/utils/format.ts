@@ -0,0 +1,11 @@
+/**
+ * Formats a decimal amount, as stored on orders and line items, with two
+ * fraction digits
+ * @param amount - The amount, numeric columns come back as strings
+ * @returns {string} - The formatted amount
+ */
+export const formatAmount = (amount: string | number): string =>
+  Number(amount).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
@@ -0,0 +1,152 @@
+"use client";
+
+// External dependencies
+import React, { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { format } from "date-fns";
+import {
+  ChevronLeft,
+  Hash,
+  PencilIcon,
+  TrashIcon,
+  TriangleAlert,
+} from "lucide-react";
+
+// Internal UI components
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ProductFormDialog } from "./product-form-dialog";
+
+// Queries and hooks
+import { useProduct, useDeleteProduct } from "../queries/product.queries";
+import { useConfirm } from "@/hooks/use-confirm";
+
+/**
+ * Props interface for ProductDetails component
+ * @interface ProductDetailsProps
+ */
+interface ProductDetailsProps {
+  productId: string;
+}
+
+/**
+ * ProductDetails Component
+ * Shows a product with the actions to edit or delete it
+ *
+ * @component
+ * @param {ProductDetailsProps} props - Component props
+ */
+export const ProductDetails: React.FC<ProductDetailsProps> = ({
+  productId,
+}) => {
+  const router = useRouter();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const { data: product, isLoading, error } = useProduct(productId);
+  const { mutate: deleteProduct, isPending: isDeleting } = useDeleteProduct();
+  const [ConfirmationDialog, confirm] = useConfirm({
+    title: "Are you sure?",
+    message: "The product will get deleted, the orders of it are kept.",
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex w-full flex-col gap-4" aria-busy="true">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-28 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !product) {
+    return (
+      <div
+        className="flex items-center justify-center gap-2 text-sm text-red-500"
+        role="alert"
+      >
+        <TriangleAlert className="size-4" aria-hidden="true" />
+        <p className="font-medium">Product not found</p>
+      </div>
+    );
+  }
+
+  /**
+   * Deletes the product once confirmed and returns to the list
+   */
+  const handleDelete = async () => {
+    if (!(await confirm())) return;
+
+    deleteProduct(product.id, {
+      onSuccess: () => router.push("/products"),
+    });
+  };
+
+  return (
+    <article
+      className="flex w-full flex-col gap-6"
+      aria-label="Product details"
+    >
+      <header className="flex flex-col gap-2">
+        <Link
+          href="/products"
+          className="flex w-fit items-center gap-1 text-sm text-stone-500 hover:text-stone-900"
+        >
+          <ChevronLeft className="size-4" aria-hidden="true" />
+          All products
+        </Link>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-xl font-semibold text-stone-800">
+            {product.productName}
+          </h1>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={() => setIsFormOpen(true)}
+            >
+              <PencilIcon className="size-4" aria-hidden="true" />
+              Edit
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              className="flex items-center gap-2"
+              onClick={handleDelete}
+              disabled={isDeleting}
+            >
+              <TrashIcon className="size-4" aria-hidden="true" />
+              Delete
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <section
+        className="flex flex-col gap-2 rounded-md border border-stone-200 p-4 text-sm text-stone-600"
+        aria-label="Product details"
+      >
+        <p className="flex items-center gap-1 font-medium">
+          <Hash className="size-4" aria-hidden="true" />
+          {product.productCode}
+        </p>
+        <p className="whitespace-pre-wrap">
+          {product.description ?? "No description"}
+        </p>
+        <p>
+          {product.isActive ? "Active" : "Inactive"} · Created{" "}
+          {format(new Date(product.createdAt), "MMM d, yyyy")}
+        </p>
+      </section>
+
+      <ProductFormDialog
+        open={isFormOpen}
+        onOpenChange={setIsFormOpen}
+        product={product}
+      />
+      <ConfirmationDialog />
+    </article>
+  );
+};
+
+export default ProductDetails;
@@ -0,0 +1,223 @@
+"use client";
+
+// External dependencies
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { TriangleAlert } from "lucide-react";
+
+// Internal dependencies - UI Components
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+
+// Internal dependencies - Schema & Queries
+import { insertProductSchema } from "@/database/schemas/order.schema";
+import {
+  Product,
+  NewProduct,
+  useCreateProduct,
+  useUpdateProduct,
+} from "../queries/product.queries";
+
+// Types
+interface ProductFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  product?: Product;
+}
+
+/**
+ * ProductFormDialog Component
+ * Creates a product, or edits the given one. Codes are unique, a taken
+ * one is reported by the server
+ *
+ * @param {ProductFormDialogProps} props - Component properties
+ * @returns {JSX.Element} Rendered dialog
+ */
+export const ProductFormDialog: React.FC<ProductFormDialogProps> = ({
+  open,
+  onOpenChange,
+  product,
+}) => {
+  const createProduct = useCreateProduct();
+  const updateProduct = useUpdateProduct();
+  const mutation = product ? updateProduct : createProduct;
+
+  const form = useForm<NewProduct>({
+    resolver: zodResolver(insertProductSchema),
+    values: {
+      productName: product?.productName ?? "",
+      productCode: product?.productCode ?? "",
+      description: product?.description ?? null,
+      isActive: product?.isActive ?? true,
+    },
+  });
+
+  /**
+   * Closes the dialog and resets the form
+   */
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      form.reset();
+      mutation.reset();
+    }
+    onOpenChange(isOpen);
+  };
+
+  /**
+   * Handles form submission
+   * @param {NewProduct} data - Form data to be submitted
+   */
+  const onSubmit = async (data: NewProduct) => {
+    try {
+      if (product) {
+        await updateProduct.mutateAsync({ id: product.id, data });
+      } else {
+        await createProduct.mutateAsync(data);
+      }
+      handleOpenChange(false);
+    } catch {
+      // The error is rendered from the mutation state
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{product ? "Edit product" : "New product"}</DialogTitle>
+          <DialogDescription>
+            Line items of orders refer to a product by its name and code.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="space-y-4"
+            aria-label={`${product ? "Edit" : "New"} product form`}
+          >
+            <FormField
+              control={form.control}
+              name="productName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="product-name">Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} id="product-name" autoComplete="off" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="productCode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="product-code">Code</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      id="product-code"
+                      autoComplete="off"
+                      placeholder="SKU-001"
+                      onChange={(e) =>
+                        field.onChange(e.target.value.toUpperCase())
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="product-description">
+                    Description
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      id="product-description"
+                      value={field.value ?? ""}
+                      onChange={(e) => field.onChange(e.target.value || null)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="isActive"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-2 space-y-0">
+                  <FormControl>
+                    <Checkbox
+                      id="product-active"
+                      checked={field.value}
+                      onCheckedChange={(checked) => field.onChange(!!checked)}
+                    />
+                  </FormControl>
+                  <FormLabel htmlFor="product-active">
+                    Active, the product can be added to new orders
+                  </FormLabel>
+                </FormItem>
+              )}
+            />
+
+            {mutation.error && (
+              <p
+                className="flex items-center gap-2 text-sm font-medium text-destructive"
+                role="alert"
+              >
+                <TriangleAlert className="size-4" aria-hidden="true" />
+                {mutation.error.message}
+              </p>
+            )}
+
+            <DialogFooter className="pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={mutation.isPending}
+                isLoading={mutation.isPending}
+              >
+                {product ? "Save" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProductFormDialog;
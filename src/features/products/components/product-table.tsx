@@ -0,0 +1,145 @@
+"use client";
+
+// External dependencies
+import React, { useCallback, useState } from "react";
+import Link from "next/link";
+import { format } from "date-fns";
+import {
+  ColumnDef,
+  getCoreRowModel,
+  PaginationState,
+  useReactTable,
+} from "@tanstack/react-table";
+import { PlusIcon, TriangleAlert } from "lucide-react";
+
+// Internal dependencies - UI Components
+import { Button } from "@/components/ui/button";
+import { DataTable } from "@/components/data-table";
+import { SearchInput } from "@/components/search-input";
+import { TablePagination } from "@/features/tasks/components/task-pagination";
+import { ProductFormDialog } from "./product-form-dialog";
+
+// Internal dependencies - Queries & Constants
+import { Product, useProducts } from "../queries/product.queries";
+import { DEFAULT_PAGE_SIZE } from "@/constants";
+
+/**
+ * Product Table Column Definitions
+ */
+const productColumns: ColumnDef<Product>[] = [
+  {
+    header: "Name",
+    accessorKey: "productName",
+    cell: ({ row }) => (
+      <Link
+        href={`/products/${row.original.id}`}
+        className="font-semibold hover:underline"
+      >
+        {row.original.productName}
+      </Link>
+    ),
+  },
+  {
+    header: "Code",
+    accessorKey: "productCode",
+  },
+  {
+    header: "Description",
+    accessorKey: "description",
+    cell: ({ row }) => (
+      <span className="line-clamp-1">{row.original.description}</span>
+    ),
+  },
+  {
+    header: "Status",
+    accessorKey: "isActive",
+    cell: ({ row }) => (row.original.isActive ? "Active" : "Inactive"),
+  },
+  {
+    header: "Created Date",
+    accessorKey: "createdAt",
+    cell: ({ row }) => format(new Date(row.original.createdAt), "MMM d, yyyy"),
+  },
+];
+
+/**
+ * ProductTable Component
+ * Searchable, paginated table of the product catalog
+ *
+ * @returns {JSX.Element} The rendered product table with its toolbar
+ */
+export const ProductTable: React.FC = () => {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [pagination, setPagination] = useState<PaginationState>({
+    pageIndex: 0,
+    pageSize: DEFAULT_PAGE_SIZE,
+  });
+
+  const { data, isLoading, error } = useProducts(
+    pagination.pageIndex + 1,
+    pagination.pageSize,
+    search,
+  );
+
+  const totalCount = data?.pagination.total || 0;
+
+  const table = useReactTable<Product>({
+    data: data?.products ?? [],
+    columns: productColumns,
+    getCoreRowModel: getCoreRowModel(),
+    state: { pagination },
+    onPaginationChange: setPagination,
+    manualPagination: true,
+    enableSorting: false,
+    pageCount: Math.ceil(totalCount / pagination.pageSize),
+  });
+
+  // A new search starts from the first page
+  const handleSearch = useCallback((value: string) => {
+    setSearch(value);
+    setPagination((current) => ({ ...current, pageIndex: 0 }));
+  }, []);
+
+  return (
+    <div className="py-2" role="region" aria-label="Products table container">
+      <div className="mb-4 flex items-center justify-between gap-4">
+        <h1 className="text-lg font-semibold text-stone-800">Products</h1>
+        <SearchInput onSearch={handleSearch} placeholder="Search products" />
+        <Button
+          variant="outline"
+          className="flex items-center gap-2"
+          onClick={() => setIsFormOpen(true)}
+          aria-label="Add new product"
+        >
+          <PlusIcon className="size-4" aria-hidden="true" />
+          <span className="hidden md:block">New Product</span>
+        </Button>
+      </div>
+
+      {error ? (
+        <div
+          className="mt-4 flex items-center justify-center gap-2 text-center text-sm text-red-500"
+          role="alert"
+        >
+          <TriangleAlert className="size-4" aria-hidden="true" />
+          <p className="font-medium">Error while fetching products</p>
+        </div>
+      ) : (
+        <>
+          <DataTable
+            table={table}
+            isLoading={isLoading}
+            label="Products table"
+            emptyMessage="No products found"
+          />
+          <TablePagination table={table} totalResults={totalCount} />
+        </>
+      )}
+
+      <ProductFormDialog open={isFormOpen} onOpenChange={setIsFormOpen} />
+    </div>
+  );
+};
+
+export default ProductTable;
@@ -0,0 +1,240 @@
+// External dependencies
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { z } from "zod";
+
+// Internal dependencies
+import { client } from "@/lib/hono";
+import {
+  insertProductSchema,
+  updateProductSchema,
+  type Product as ProductRow,
+} from "@/database/schemas/order.schema";
+import { orderKeys } from "@/features/orders/queries/orders.queries";
+import { toast } from "@/hooks/use-toast";
+
+/**
+ * Query key factory for product-related queries
+ * Centralizes all query keys for better maintainability
+ */
+export const productKeys = {
+  all: ["products"] as const,
+  allLists: () => [...productKeys.all, "list"] as const,
+  lists: (page?: number, pageSize?: number, search?: string) =>
+    [...productKeys.allLists(), page, pageSize, search] as const,
+  details: () => [...productKeys.all, "detail"] as const,
+  detail: (id: string) => [...productKeys.details(), id] as const,
+};
+
+/**
+ * Enhanced error handling with type checking and custom error messages
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred while processing the request");
+};
+
+/**
+ * Hook to fetch a page of products
+ * @param page - Page number, starting at 1
+ * @param pageSize - Number of products per page
+ * @param search - Optional search on the name or code
+ * @returns {UseQueryResult} - The products of the page and the pagination info
+ */
+export const useProducts = (
+  page: number,
+  pageSize: number,
+  search?: string,
+): UseQueryResult<ProductList> => {
+  return useQuery({
+    queryKey: productKeys.lists(page, pageSize, search),
+    placeholderData: keepPreviousData,
+    queryFn: async () => {
+      try {
+        const response = await client.api.products.$get({
+          query: {
+            page: page.toString(),
+            pageSize: pageSize.toString(),
+            ...(search && { search }),
+          },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching products");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to fetch a single product
+ * @param id - The ID of the product to fetch
+ * @returns {UseQueryResult} - The query result containing the product
+ */
+export const useProduct = (id: string): UseQueryResult<Product> => {
+  return useQuery({
+    queryKey: productKeys.detail(id),
+    enabled: !!id, // Enable query only if id is provided
+    queryFn: async () => {
+      try {
+        const response = await client.api.products[":id"].$get({
+          param: { id },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching product");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to create a product
+ * @returns {UseMutationResult} - The mutation result for creating a product
+ */
+export const useCreateProduct = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (newProduct: NewProduct) => {
+      const response = await client.api.products.$post({
+        json: newProduct,
+      });
+
+      // Check if the response is successful, a taken code
+      // surfaces the server message
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        throw new Error(error ?? "Error in creating product");
+      }
+
+      toast({
+        title: "Product has been created.",
+      });
+
+      const data = (await response.json()) as Product;
+      return data;
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.allLists() });
+      // The order form offers the new product
+      queryClient.invalidateQueries({ queryKey: orderKeys.formOptions() });
+    },
+  });
+};
+
+/**
+ * Hook to update a product
+ * @returns {UseMutationResult} - The mutation result for updating a product
+ */
+export const useUpdateProduct = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateProduct }) => {
+      const response = await client.api.products[":id"].$patch({
+        param: { id },
+        json: data,
+      });
+
+      // Check if the response is successful, a taken code
+      // surfaces the server message
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        throw new Error(error ?? "Error in updating product");
+      }
+
+      toast({
+        title: "Product has been updated.",
+      });
+
+      const product = (await response.json()) as Product;
+      return product;
+    },
+    onSuccess: (product) => {
+      queryClient.setQueryData(productKeys.detail(product.id), product);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.allLists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.formOptions() });
+      // Orders show the name and code of their products
+      queryClient.invalidateQueries({ queryKey: orderKeys.all });
+    },
+  });
+};
+
+/**
+ * Hook to soft delete a product
+ * @returns {UseMutationResult} - The mutation result for deleting a product
+ */
+export const useDeleteProduct = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await client.api.products[":id"].$delete({
+        param: { id },
+      });
+
+      if (!response.ok) {
+        throw new Error("Error in deleting product");
+      }
+
+      toast({
+        title: "Product has been deleted.",
+      });
+    },
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: productKeys.detail(id) });
+    },
+    onError: (error) => {
+      toast({
+        title: "Product could not be deleted.",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: productKeys.allLists() });
+      queryClient.invalidateQueries({ queryKey: orderKeys.formOptions() });
+    },
+  });
+};
+
+// Export types for use in components
+export type Product = Pick<
+  ProductRow,
+  "id" | "productName" | "productCode" | "description" | "isActive"
+> & {
+  createdAt: string;
+  updatedAt: string | null;
+};
+export type ProductList = {
+  products: Product[];
+  pagination: {
+    total: number;
+    page: number;
+    pageSize: number;
+  };
+};
+export type NewProduct = z.infer<typeof insertProductSchema>;
+export type UpdateProduct = z.infer<typeof updateProductSchema>;
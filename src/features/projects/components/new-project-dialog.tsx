@@ -0,0 +1,172 @@
+"use client";
+
+// External dependencies
+import React from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { TriangleAlert } from "lucide-react";
+
+// Internal dependencies - UI Components
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+
+// Internal dependencies - Schema & Queries
+import { insertProjectSchema } from "@/database/schemas/task.schema";
+import {
+  NewProject,
+  Project,
+  useCreateProject,
+} from "../queries/project.queries";
+
+// Types
+interface NewProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (project: Project) => void;
+}
+
+/**
+ * NewProjectDialog Component
+ * Creates a project with its own task key prefix
+ *
+ * @param {NewProjectDialogProps} props - Component properties
+ * @returns {JSX.Element} Rendered dialog
+ */
+export const NewProjectDialog: React.FC<NewProjectDialogProps> = ({
+  open,
+  onOpenChange,
+  onCreated,
+}) => {
+  const createProject = useCreateProject();
+
+  const form = useForm<NewProject>({
+    resolver: zodResolver(insertProjectSchema),
+    defaultValues: { name: "", keyPrefix: "" },
+  });
+
+  /**
+   * Closes the dialog and resets the form
+   */
+  const handleOpenChange = (isOpen: boolean) => {
+    if (!isOpen) {
+      form.reset();
+      createProject.reset();
+    }
+    onOpenChange(isOpen);
+  };
+
+  /**
+   * Handles form submission
+   * @param {NewProject} data - Form data to be submitted
+   */
+  const onSubmit = async (data: NewProject) => {
+    try {
+      const project = await createProject.mutateAsync(data);
+      onCreated(project);
+      handleOpenChange(false);
+    } catch {
+      // The error is rendered from the mutation state
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New project</DialogTitle>
+          <DialogDescription>
+            Tasks of the project are numbered under its key prefix, e.g.
+            WEB-0001.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit(onSubmit)}
+            className="space-y-4"
+            aria-label="New project form"
+          >
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="project-name">Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} id="project-name" autoComplete="off" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="keyPrefix"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel htmlFor="project-key-prefix">Key prefix</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      id="project-key-prefix"
+                      autoComplete="off"
+                      placeholder="WEB"
+                      onChange={(e) =>
+                        field.onChange(e.target.value.toUpperCase())
+                      }
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {createProject.error && (
+              <p
+                className="flex items-center gap-2 text-sm font-medium text-destructive"
+                role="alert"
+              >
+                <TriangleAlert className="size-4" aria-hidden="true" />
+                {createProject.error.message}
+              </p>
+            )}
+
+            <DialogFooter className="pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleOpenChange(false)}
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={createProject.isPending}
+                isLoading={createProject.isPending}
+              >
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewProjectDialog;
@@ -0,0 +1,106 @@
+"use client";
+
+// External dependencies
+import React, { useEffect, useState } from "react";
+import { PlusIcon } from "lucide-react";
+
+// Internal dependencies - UI Components
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectSeparator,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Internal dependencies - Features
+import { NewProjectDialog } from "./new-project-dialog";
+import { useProjects } from "../queries/project.queries";
+import { useProjectStore } from "@/stores/project-store";
+import { useTaskFiltersStore } from "@/stores/task-filters-store";
+
+// Value of the select item that opens the new project dialog
+const NEW_PROJECT_VALUE = "__new__";
+
+/**
+ * ProjectSwitcher Component
+ * Selects the project whose tasks are listed and created
+ *
+ * @returns {JSX.Element} Rendered project select
+ */
+export const ProjectSwitcher: React.FC = () => {
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const { data: projects, isLoading } = useProjects();
+  const { projectId, setProjectId } = useProjectStore();
+  const { filter, setFilter } = useTaskFiltersStore();
+
+  /**
+   * Falls back to the first project when the stored one is gone
+   */
+  useEffect(() => {
+    if (!projects) return;
+
+    if (!projects.some((project) => project.id === projectId)) {
+      setProjectId(projects[0]?.id ?? null);
+    }
+  }, [projects, projectId, setProjectId]);
+
+  /**
+   * Switches project, or opens the dialog for a new one
+   * @param {string} value - Selected project ID
+   */
+  const handleValueChange = (value: string) => {
+    if (value === NEW_PROJECT_VALUE) {
+      setIsDialogOpen(true);
+      return;
+    }
+    setProjectId(value);
+
+    // Labels are per project, a label filter would match nothing
+    if (filter.selectedLabel.length > 0) {
+      setFilter({ ...filter, selectedLabel: [] });
+    }
+  };
+
+  return (
+    <>
+      <Select
+        value={projectId ?? ""}
+        onValueChange={handleValueChange}
+        disabled={isLoading}
+      >
+        <SelectTrigger className="w-[200px]" aria-label="Select project">
+          <SelectValue
+            placeholder={isLoading ? "Loading projects..." : "Select project"}
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {projects?.map((project) => (
+            <SelectItem key={project.id} value={project.id}>
+              <span className="font-mono text-xs text-stone-500">
+                {project.keyPrefix}
+              </span>{" "}
+              {project.name}
+            </SelectItem>
+          ))}
+          {projects && projects.length > 0 && <SelectSeparator />}
+          <SelectItem value={NEW_PROJECT_VALUE}>
+            <span className="flex items-center gap-2">
+              <PlusIcon className="size-4" aria-hidden="true" />
+              New project
+            </span>
+          </SelectItem>
+        </SelectContent>
+      </Select>
+
+      <NewProjectDialog
+        open={isDialogOpen}
+        onOpenChange={setIsDialogOpen}
+        onCreated={(project) => setProjectId(project.id)}
+      />
+    </>
+  );
+};
+
+export default ProjectSwitcher;
@@ -0,0 +1,122 @@
+// External dependencies
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+
+// Internal dependencies
+import { client } from "@/lib/hono";
+import {
+  insertProjectSchema,
+  projectSchema,
+} from "@/database/schemas/task.schema";
+import { toast } from "@/hooks/use-toast";
+
+// Types
+export type Project = Pick<
+  z.infer<typeof projectSchema>,
+  "id" | "name" | "keyPrefix"
+>;
+export type NewProject = z.infer<typeof insertProjectSchema>;
+
+/**
+ * Query key factory for project-related queries
+ */
+export const projectKeys = {
+  all: ["projects"] as const,
+  lists: () => [...projectKeys.all, "list"] as const,
+  members: (id: string) => [...projectKeys.all, "members", id] as const,
+};
+
+/**
+ * Helper function to handle API errors
+ * @param error - The error object caught in the try-catch block
+ * @throws {Error} - Throws an error with a descriptive message
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred");
+};
+
+/**
+ * Hook to fetch the projects of the signed-in user
+ * @returns {UseQueryResult} - The query result containing the projects
+ */
+export const useProjects = () => {
+  return useQuery({
+    queryKey: projectKeys.lists(),
+    queryFn: async (): Promise<Project[]> => {
+      try {
+        const response = await client.api.projects.$get();
+
+        if (!response.ok) {
+          throw new Error("Error in fetching projects");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        return handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to fetch the members of a project
+ * @param id - The ID of the project
+ * @returns {UseQueryResult} - The query result containing the members
+ */
+export const useProjectMembers = (id: string) => {
+  return useQuery({
+    queryKey: projectKeys.members(id),
+    enabled: !!id,
+    queryFn: async () => {
+      try {
+        const response = await client.api.projects[":id"].members.$get({
+          param: { id },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching project members");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to create a project
+ * @returns {UseMutationResult} - The mutation result for creating a project
+ */
+export const useCreateProject = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (newProject: NewProject): Promise<Project> => {
+      const response = await client.api.projects.$post({ json: newProject });
+
+      if (response.status === 409) {
+        throw new Error("This key prefix is already used by another project");
+      }
+
+      if (!response.ok) {
+        throw new Error("Error in creating project");
+      }
+
+      toast({
+        title: "Project has been created.",
+      });
+
+      return await response.json();
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: projectKeys.lists() });
+    },
+  });
+};
@@ -0,0 +1,361 @@
+// External dependencies
+import React, { useState } from "react";
+import { CircleCheck, TriangleAlert } from "lucide-react";
+
+// Internal UI components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+
+// Hooks, queries and utilities
+import { useImportTasks } from "../../hooks/use-import-tasks";
+import {
+  TaskImportField,
+  TaskImportMapping,
+  TaskImportResult,
+  useTaskImport,
+} from "../../queries/import.queries";
+import { useProjectStore } from "@/stores/project-store";
+import { parseCsv } from "@/lib/csv";
+
+// Value of the select option that leaves a field out of the import
+const NOT_IMPORTED = "none";
+
+// Row errors listed before the rest is summarised
+const MAX_LISTED_ERRORS = 50;
+
+/**
+ * Task fields offered in the mapping step, with the column headers
+ * they are matched to automatically
+ */
+const IMPORT_FIELDS: Array<{
+  field: TaskImportField;
+  label: string;
+  headers: string[];
+}> = [
+  { field: "title", label: "Title", headers: ["title", "summary", "name"] },
+  { field: "description", label: "Description", headers: ["description"] },
+  { field: "type", label: "Type", headers: ["type", "issuetype"] },
+  { field: "status", label: "Status", headers: ["status"] },
+  { field: "priority", label: "Priority", headers: ["priority"] },
+  {
+    field: "assigneeEmail",
+    label: "Assignee email",
+    headers: ["assignee", "assigneeemail", "email"],
+  },
+  { field: "dueDate", label: "Due date", headers: ["duedate", "due"] },
+  {
+    field: "storyPoints",
+    label: "Story points",
+    headers: ["storypoints", "points"],
+  },
+  {
+    field: "timeEstimate",
+    label: "Time estimate",
+    headers: ["timeestimate", "estimate"],
+  },
+  { field: "timeSpent", label: "Time spent", headers: ["timespent"] },
+];
+
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+/**
+ * Maps each field to the first column whose header matches it
+ * @param headers - The header row of the CSV file
+ * @returns {TaskImportMapping} - The suggested mapping
+ */
+const guessMapping = (headers: string[]): TaskImportMapping => {
+  const normalizedHeaders = headers.map(normalizeHeader);
+
+  return Object.fromEntries(
+    IMPORT_FIELDS.flatMap(({ field, headers: candidates }) => {
+      const index = normalizedHeaders.findIndex((header) =>
+        candidates.includes(header),
+      );
+      return index === -1 ? [] : [[field, index]];
+    }),
+  );
+};
+
+/**
+ * ImportResult Component
+ * Summarises a dry run and lists the rows that would fail
+ */
+const ImportResult: React.FC<{ result: TaskImportResult }> = ({ result }) => {
+  const fieldLabel = (field?: TaskImportField) =>
+    IMPORT_FIELDS.find((option) => option.field === field)?.label;
+
+  if (result.errors.length === 0) {
+    return (
+      <p
+        className="flex items-center gap-2 text-sm font-medium text-green-700"
+        role="status"
+      >
+        <CircleCheck className="size-4" aria-hidden="true" />
+        All {result.total} rows are ready to import
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2" role="status">
+      <p className="flex items-center gap-2 text-sm font-medium text-destructive">
+        <TriangleAlert className="size-4" aria-hidden="true" />
+        {result.total - result.valid} of {result.total} rows have errors
+      </p>
+      <ul
+        className="max-h-64 divide-y divide-stone-200 overflow-y-auto rounded-md border border-stone-200"
+        aria-label="Row errors"
+      >
+        {result.errors.slice(0, MAX_LISTED_ERRORS).map((error, index) => (
+          <li key={index} className="flex gap-3 px-3 py-2 text-sm">
+            <span className="w-16 shrink-0 text-stone-500">
+              Row {error.row}
+            </span>
+            {error.field && (
+              <span className="w-32 shrink-0 font-medium text-stone-700">
+                {fieldLabel(error.field)}
+              </span>
+            )}
+            <span className="text-stone-800">{error.message}</span>
+          </li>
+        ))}
+      </ul>
+      {result.errors.length > MAX_LISTED_ERRORS && (
+        <p className="text-sm text-stone-500">
+          and {result.errors.length - MAX_LISTED_ERRORS} more errors
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * ImportTasksSheet Component
+ * Imports tasks into the current project from a CSV file: the columns
+ * are mapped to task fields, checked in a dry run, then imported at once
+ *
+ * @component
+ */
+export const ImportTasksSheet = () => {
+  const { isOpen, onClose } = useImportTasks();
+  const { projectId } = useProjectStore();
+  const taskImport = useTaskImport();
+
+  const [csv, setCsv] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<TaskImportMapping>({});
+  const [result, setResult] = useState<TaskImportResult | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  /**
+   * Clears the file and the dry run when the sheet closes
+   */
+  const handleClose = () => {
+    setCsv(null);
+    setHeaders([]);
+    setMapping({});
+    setResult(null);
+    setFileError(null);
+    taskImport.reset();
+    onClose();
+  };
+
+  /**
+   * Reads the header row of the chosen file and suggests a mapping
+   */
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    setResult(null);
+    taskImport.reset();
+
+    if (!file) {
+      setCsv(null);
+      return;
+    }
+
+    const text = await file.text();
+    const [headerRow] = parseCsv(text);
+
+    if (!headerRow) {
+      setCsv(null);
+      setFileError("The file is empty");
+      return;
+    }
+
+    setCsv(text);
+    setHeaders(headerRow);
+    setMapping(guessMapping(headerRow));
+    setFileError(null);
+  };
+
+  /**
+   * Maps a field to a column, a new mapping needs a new dry run
+   */
+  const handleMappingChange = (field: TaskImportField, value: string) => {
+    setMapping((current) => {
+      const next = { ...current };
+      if (value === NOT_IMPORTED) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+    setResult(null);
+  };
+
+  /**
+   * Runs the import, as a dry run unless the rows were checked
+   */
+  const handleImport = async (dryRun: boolean) => {
+    if (!csv || !projectId) return;
+
+    try {
+      const importResult = await taskImport.mutateAsync({
+        projectId,
+        csv,
+        mapping,
+        dryRun,
+      });
+
+      if (importResult.dryRun) {
+        setResult(importResult);
+      } else {
+        handleClose();
+      }
+    } catch {
+      // The error is rendered from the mutation state
+    }
+  };
+
+  const canImport = !!result && result.errors.length === 0 && result.valid > 0;
+
+  return (
+    <Sheet open={isOpen} onOpenChange={handleClose}>
+      <SheetContent
+        className="min-w-[100%] lg:min-w-[50%]"
+        role="dialog"
+        aria-labelledby="import-tasks-title"
+        aria-describedby="import-tasks-description"
+      >
+        <SheetHeader>
+          <SheetTitle id="import-tasks-title">Import Items</SheetTitle>
+          <SheetDescription id="import-tasks-description">
+            Create items of the current project from a CSV file. Assignees are
+            matched by email.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex h-[calc(100vh-6rem)] flex-col gap-6 overflow-y-auto p-2">
+          {/* File */}
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="import-file">CSV file</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+            />
+            {fileError && (
+              <p className="text-sm font-medium text-destructive" role="alert">
+                {fileError}
+              </p>
+            )}
+          </div>
+
+          {/* Column mapping */}
+          {csv && (
+            <fieldset className="flex flex-col gap-3">
+              <legend className="mb-3 text-sm font-medium">
+                Map the columns to item fields
+              </legend>
+              {IMPORT_FIELDS.map(({ field, label }) => (
+                <div
+                  key={field}
+                  className="grid grid-cols-1 items-center gap-2 md:grid-cols-3"
+                >
+                  <Label htmlFor={`import-field-${field}`}>
+                    {label}
+                    {field === "title" && " *"}
+                  </Label>
+                  <Select
+                    value={mapping[field]?.toString() ?? NOT_IMPORTED}
+                    onValueChange={(value) => handleMappingChange(field, value)}
+                  >
+                    <SelectTrigger
+                      id={`import-field-${field}`}
+                      className="md:col-span-2"
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                      {headers.map((header, index) => (
+                        <SelectItem key={index} value={index.toString()}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </fieldset>
+          )}
+
+          {result && <ImportResult result={result} />}
+
+          {taskImport.error && (
+            <p
+              className="flex items-center gap-2 text-sm font-medium text-destructive"
+              role="alert"
+            >
+              <TriangleAlert className="size-4" aria-hidden="true" />
+              {taskImport.error.message}
+            </p>
+          )}
+
+          {csv && (
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                onClick={() => handleImport(true)}
+                disabled={mapping.title === undefined || taskImport.isPending}
+                isLoading={taskImport.isPending && !canImport}
+              >
+                Check rows
+              </Button>
+              <Button
+                onClick={() => handleImport(false)}
+                disabled={!canImport || taskImport.isPending}
+                isLoading={taskImport.isPending && canImport}
+              >
+                Import {canImport ? result.valid : ""} items
+              </Button>
+            </div>
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+// Default export for cleaner imports
+export default ImportTasksSheet;
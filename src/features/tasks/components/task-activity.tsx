@@ -0,0 +1,205 @@
+// External dependencies
+import React from "react";
+import { format } from "date-fns";
+import { User } from "lucide-react";
+
+// Internal UI components
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Skeleton } from "@/components/ui/skeleton";
+
+// Queries and types
+import { TaskActivity, useTaskActivity } from "../queries/activity.queries";
+import { UserProfile, useUserProfiles } from "../queries/user-profiles.queries";
+import { taskPriorities, taskStatuses, taskTypes } from "../types/filters";
+
+/**
+ * Interface definitions
+ */
+interface TaskActivityProps {
+  taskId: string;
+}
+
+/**
+ * Human readable labels for tracked task fields
+ */
+const FIELD_LABELS: Record<string, string> = {
+  title: "title",
+  description: "description",
+  status: "status",
+  type: "type",
+  priority: "priority",
+  assigneeId: "assignee",
+  dueDate: "due date",
+  storyPoints: "story points",
+  timeEstimate: "time estimate",
+  timeSpent: "time spent",
+  parentId: "parent",
+};
+
+/**
+ * Formats a stored activity value for display
+ */
+const formatValue = (
+  field: string,
+  value: string | null,
+  userProfiles: UserProfile[],
+): string => {
+  if (value === null || value === "") return "None";
+
+  switch (field) {
+    case "status":
+      return taskStatuses.find((s) => s.value === value)?.label ?? value;
+    case "type":
+      return taskTypes.find((t) => t.value === value)?.label ?? value;
+    case "priority":
+      return taskPriorities.find((p) => p.value === value)?.label ?? value;
+    case "assigneeId":
+      return userProfiles.find((u) => u.id === value)?.name ?? "Unknown user";
+    case "dueDate":
+      return format(new Date(value), "MMM d, yyyy");
+    case "timeEstimate":
+    case "timeSpent":
+      return `${value} hrs`;
+    default:
+      return value;
+  }
+};
+
+/**
+ * Builds the sentence describing an activity entry
+ */
+const describeActivity = (
+  activity: TaskActivity,
+  userProfiles: UserProfile[],
+): React.ReactNode => {
+  if (activity.action === "created") return "created the task";
+  if (activity.action === "deleted") return "deleted the task";
+
+  const field = activity.field ?? "";
+  const label = FIELD_LABELS[field] ?? field;
+
+  // Labels are recorded one by one, by name
+  if (field === "labels") {
+    return (
+      <>
+        {activity.newValue ? "added the label" : "removed the label"}{" "}
+        <span className="font-medium text-gray-900">
+          {activity.newValue ?? activity.oldValue}
+        </span>
+      </>
+    );
+  }
+
+  // Descriptions are rich text and parents are task IDs,
+  // so only the change itself is shown
+  if (field === "description" || field === "parentId") {
+    return `updated the ${label}`;
+  }
+
+  return (
+    <>
+      changed the {label} from{" "}
+      <span className="font-medium text-gray-900">
+        {formatValue(field, activity.oldValue, userProfiles)}
+      </span>{" "}
+      to{" "}
+      <span className="font-medium text-gray-900">
+        {formatValue(field, activity.newValue, userProfiles)}
+      </span>
+    </>
+  );
+};
+
+/**
+ * ActivityItem Component
+ * Renders an individual activity entry
+ */
+const ActivityItem: React.FC<{
+  activity: TaskActivity;
+  userProfiles: UserProfile[];
+}> = ({ activity, userProfiles }) => {
+  const actorName = activity.actorName ?? "Someone";
+
+  return (
+    <article
+      className="p-4 transition duration-150 ease-in-out hover:bg-gray-50"
+      aria-label={`Activity by ${actorName}`}
+    >
+      <div className="flex items-start space-x-3">
+        <div className="flex-shrink-0">
+          <Avatar className="mt-0.5 size-6">
+            <AvatarImage
+              src={activity.actorAvatarUrl ?? ""}
+              className="size-6 object-cover"
+              alt={`${actorName}'s avatar`}
+            />
+            <AvatarFallback aria-label={`${actorName}'s avatar fallback`}>
+              <User
+                className="size-6 rounded-full bg-gray-100 p-1 text-gray-400"
+                aria-hidden="true"
+              />
+            </AvatarFallback>
+          </Avatar>
+        </div>
+        <div className="flex flex-grow flex-col gap-1 md:flex-row md:items-center md:justify-between">
+          <p className="text-sm text-gray-700">
+            <span className="font-medium text-gray-900">{actorName}</span>{" "}
+            {describeActivity(activity, userProfiles)}
+          </p>
+          <time
+            dateTime={new Date(activity.createdAt).toISOString()}
+            className="flex-shrink-0 text-sm text-gray-500"
+          >
+            {format(new Date(activity.createdAt), "MMM d, yyyy 'at' h:mm a")}
+          </time>
+        </div>
+      </div>
+    </article>
+  );
+};
+
+/**
+ * TaskActivityView Component
+ * Displays the history of changes made to a task
+ *
+ * @component
+ * @param {TaskActivityProps} props - Component props
+ */
+export const TaskActivityView: React.FC<TaskActivityProps> = ({ taskId }) => {
+  const { data: activityList, isLoading } = useTaskActivity(taskId);
+  const { data: userProfiles } = useUserProfiles();
+
+  if (isLoading) {
+    return (
+      <Skeleton
+        className="h-40 w-full"
+        role="progressbar"
+        aria-label="Loading activity"
+      />
+    );
+  }
+
+  if (!activityList?.length) {
+    return (
+      <p className="p-4 text-center text-sm text-gray-500">No activity yet</p>
+    );
+  }
+
+  return (
+    <section
+      className="divide-y divide-gray-200"
+      role="log"
+      aria-label="Task activity"
+    >
+      {activityList.map((activity) => (
+        <ActivityItem
+          key={activity.id}
+          activity={activity}
+          userProfiles={(userProfiles as UserProfile[]) ?? []}
+        />
+      ))}
+    </section>
+  );
+};
+
+export default TaskActivityView;
@@ -0,0 +1,226 @@
+// External dependencies
+import React, { useRef, useState } from "react";
+import { format } from "date-fns";
+import { Download, FileIcon, TriangleAlert, Upload, X } from "lucide-react";
+
+// Internal UI components
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+
+// Utilities, hooks and queries
+import { cn } from "@/lib/utils";
+import { filterFiles } from "@/components/minimal-tiptap/utils";
+import { useConfirm } from "@/hooks/use-confirm";
+import { ALLOWED_ATTACHMENT_TYPES, MAX_ATTACHMENT_SIZE } from "@/constants";
+import {
+  TaskAttachment,
+  useDeleteAttachment,
+  useTaskAttachments,
+  useUploadTaskAttachments,
+} from "@/features/attachments/queries/attachment.queries";
+
+/**
+ * Interface definitions
+ */
+interface TaskAttachmentsProps {
+  taskId: string;
+}
+
+/**
+ * Formats a byte count for display, e.g. 1.2 MB
+ * @param size - Size in bytes
+ * @returns {string} - The readable size
+ */
+const formatFileSize = (size: number): string => {
+  if (size < 1024) return `${size} B`;
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+};
+
+/**
+ * AttachmentItem Component
+ * Renders a single file with download and delete actions
+ */
+const AttachmentItem: React.FC<{
+  attachment: TaskAttachment;
+  onDelete: () => void;
+}> = ({ attachment, onDelete }) => (
+  <li className="flex items-center gap-3 px-3 py-2">
+    <FileIcon className="size-4 shrink-0 text-stone-500" aria-hidden="true" />
+    <div className="flex flex-1 flex-col truncate">
+      <a
+        href={attachment.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="truncate text-sm text-stone-800 hover:underline"
+      >
+        {attachment.fileName}
+      </a>
+      <span className="text-xs text-stone-500">
+        {formatFileSize(attachment.size)}
+        {" · "}
+        {attachment.uploadedByName ?? "Unknown user"}
+        {" · "}
+        {format(new Date(attachment.createdAt), "MMM d, yyyy")}
+      </span>
+    </div>
+    <Button variant="ghost" size="icon" className="size-7" asChild>
+      <a
+        href={attachment.url}
+        download={attachment.fileName}
+        aria-label={`Download ${attachment.fileName}`}
+      >
+        <Download className="size-4" aria-hidden="true" />
+      </a>
+    </Button>
+    <Button
+      variant="ghost"
+      size="icon"
+      className="size-7"
+      onClick={onDelete}
+      aria-label={`Delete ${attachment.fileName}`}
+    >
+      <X className="size-4" aria-hidden="true" />
+    </Button>
+  </li>
+);
+
+/**
+ * TaskAttachmentsView Component
+ * Lists the files of a task and uploads new ones, dropped or picked
+ */
+export const TaskAttachmentsView: React.FC<TaskAttachmentsProps> = ({
+  taskId,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [validationErrors, setValidationErrors] = useState<string[]>([]);
+
+  const { data: attachments, isLoading } = useTaskAttachments(taskId);
+  const uploadAttachments = useUploadTaskAttachments();
+  const deleteAttachment = useDeleteAttachment();
+  const [ConfirmationDialog, confirm] = useConfirm({
+    title: "Delete this file?",
+    message: "The file will be deleted permanently.",
+  });
+
+  /**
+   * Uploads the files of an accepted type and size, and lists the others
+   * @param files - The dropped or picked files
+   */
+  const handleFiles = (files: File[]) => {
+    const [validFiles, errors] = filterFiles(files, {
+      allowedMimeTypes: ALLOWED_ATTACHMENT_TYPES,
+      maxFileSize: MAX_ATTACHMENT_SIZE,
+      allowBase64: false,
+    });
+
+    setValidationErrors(
+      errors.map(({ file, reason }) => {
+        const name = typeof file === "string" ? "File" : file.name;
+        return reason === "size"
+          ? `${name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`
+          : `${name} is not an allowed file type`;
+      }),
+    );
+
+    if (validFiles.length > 0) {
+      uploadAttachments.mutate({ taskId, files: validFiles });
+    }
+  };
+
+  /**
+   * Deletes a file once the user confirms
+   * @param attachment - The file to delete
+   */
+  const handleDelete = async (attachment: TaskAttachment) => {
+    if (await confirm()) {
+      deleteAttachment.mutate({ id: attachment.id, taskId });
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {/* Drop zone */}
+      <div
+        className={cn(
+          "flex flex-col items-center justify-center gap-2 rounded-md border border-dashed border-stone-300 px-3 py-6 text-sm text-stone-500",
+          isDragging && "border-stone-500 bg-stone-50",
+        )}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(event) => {
+          event.preventDefault();
+          setIsDragging(false);
+          handleFiles(Array.from(event.dataTransfer.files));
+        }}
+      >
+        <Upload className="size-5" aria-hidden="true" />
+        <span>Drop files here or</span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => inputRef.current?.click()}
+          disabled={uploadAttachments.isPending}
+          isLoading={uploadAttachments.isPending}
+        >
+          Browse files
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          multiple
+          className="hidden"
+          accept={ALLOWED_ATTACHMENT_TYPES.join(",")}
+          onChange={(event) => {
+            handleFiles(Array.from(event.target.files ?? []));
+            event.target.value = "";
+          }}
+          aria-label="Attach files"
+        />
+        <span className="text-xs">
+          Up to {formatFileSize(MAX_ATTACHMENT_SIZE)} per file
+        </span>
+      </div>
+
+      {[...validationErrors, uploadAttachments.error?.message]
+        .filter(Boolean)
+        .map((message) => (
+          <p
+            key={message}
+            className="flex items-center gap-2 whitespace-pre-line text-sm font-medium text-destructive"
+            role="alert"
+          >
+            <TriangleAlert className="size-4 shrink-0" aria-hidden="true" />
+            {message}
+          </p>
+        ))}
+
+      {isLoading ? (
+        <Skeleton className="h-10 w-full" />
+      ) : attachments && attachments.length > 0 ? (
+        <ul
+          className="divide-y divide-stone-200 rounded-md border border-stone-200"
+          aria-label="Attached files"
+        >
+          {attachments.map((attachment) => (
+            <AttachmentItem
+              key={attachment.id}
+              attachment={attachment}
+              onDelete={() => handleDelete(attachment)}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-stone-500">No attachments</p>
+      )}
+
+      <ConfirmationDialog />
+    </div>
+  );
+};
+
+export default TaskAttachmentsView;
@@ -0,0 +1,119 @@
+// External dependencies
+import React from "react";
+import Link from "next/link";
+import { Loader2, TriangleAlert, User } from "lucide-react";
+
+// Internal UI components
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { TaskType } from "../task-type";
+import { TaskPriority } from "../task-priority";
+import { TaskLabel } from "../task-label";
+
+// Utilities and types
+import { cn } from "@/lib/utils";
+import { Task } from "../../queries/task.queries";
+
+/**
+ * Props interface for the BoardCard component
+ * @interface BoardCardProps
+ */
+interface BoardCardProps {
+  task: Task;
+  isDragging: boolean;
+  // Side of the card a dragged card would be dropped on
+  dropSide: "before" | "after" | null;
+  onDragStart: (event: React.DragEvent<HTMLLIElement>) => void;
+  onDragEnd: () => void;
+  onDragOver: (event: React.DragEvent<HTMLLIElement>) => void;
+  onOpen: () => void;
+}
+
+/**
+ * BoardCard Component
+ * A draggable task card on the board
+ *
+ * @component
+ * @param {BoardCardProps} props - Component props
+ */
+export const BoardCard: React.FC<BoardCardProps> = ({
+  task,
+  isDragging,
+  dropSide,
+  onDragStart,
+  onDragEnd,
+  onDragOver,
+  onOpen,
+}) => (
+  <li
+    draggable
+    onDragStart={onDragStart}
+    onDragEnd={onDragEnd}
+    onDragOver={onDragOver}
+    onDoubleClick={onOpen}
+    className={cn(
+      "relative flex cursor-grab flex-col gap-2 rounded-md border border-stone-200 bg-white p-3 shadow-sm active:cursor-grabbing",
+      isDragging && "opacity-50",
+    )}
+    aria-label={`${task.key} ${task.title}`}
+  >
+    {dropSide && (
+      <span
+        className={cn(
+          "pointer-events-none absolute inset-x-0 h-1 rounded-full bg-sky-500",
+          dropSide === "before" ? "-top-1.5" : "-bottom-1.5",
+        )}
+        aria-hidden="true"
+      />
+    )}
+    <div className="flex items-center gap-2">
+      <TaskType type={task.type} />
+      <Link
+        href={`/tasks/${task.id}`}
+        className="font-mono text-xs text-stone-500 hover:underline"
+      >
+        {task.key}
+      </Link>
+      {task.optimisticStatus === "updating" && (
+        <Loader2
+          className="size-3 animate-spin text-stone-400"
+          aria-label="Saving..."
+        />
+      )}
+      {task.blocked && (
+        <TriangleAlert
+          className="ml-auto size-4 text-amber-600"
+          aria-label="Blocked"
+        />
+      )}
+    </div>
+
+    <span className="text-sm font-medium text-stone-800">{task.title}</span>
+
+    {task.labels && task.labels.length > 0 && (
+      <div className="flex flex-wrap gap-1">
+        {task.labels.map((label) => (
+          <TaskLabel key={label.id} label={label} />
+        ))}
+      </div>
+    )}
+
+    <div className="flex items-center justify-between">
+      <TaskPriority priority={task.priority} />
+      <Avatar className="size-6">
+        <AvatarImage
+          src={task.assigneeAvatarUrl || ""}
+          alt={`${task.assigneeName || "Unassigned"}'s avatar`}
+          className="size-6 object-cover"
+        />
+        <AvatarFallback>
+          <User
+            className="size-6 rounded-full bg-gray-100 p-1 text-gray-400"
+            aria-hidden="true"
+          />
+        </AvatarFallback>
+      </Avatar>
+    </div>
+  </li>
+);
+
+export default BoardCard;
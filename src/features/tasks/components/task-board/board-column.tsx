@@ -0,0 +1,122 @@
+// External dependencies
+import React from "react";
+
+// Internal UI components
+import { Skeleton } from "@/components/ui/skeleton";
+import { TaskStatus } from "../task-status";
+import { BoardCard } from "./board-card";
+
+// Utilities and types
+import { cn } from "@/lib/utils";
+import { Task } from "../../queries/task.queries";
+
+/**
+ * Props interface for the BoardColumn component
+ * @interface BoardColumnProps
+ */
+interface BoardColumnProps {
+  status: Task["status"];
+  tasks: Task[];
+  isLoading: boolean;
+  draggedTaskId: string | null;
+  // Position a dragged card would be dropped at, when over this column
+  dropIndex: number | null;
+  onDragStart: (task: Task) => void;
+  onDragEnd: () => void;
+  onDragOver: (index: number) => void;
+  onDrop: () => void;
+  onOpenTask: (task: Task) => void;
+}
+
+/**
+ * BoardColumn Component
+ * A board column holding the tasks of one status, in rank order
+ *
+ * @component
+ * @param {BoardColumnProps} props - Component props
+ */
+export const BoardColumn: React.FC<BoardColumnProps> = ({
+  status,
+  tasks,
+  isLoading,
+  draggedTaskId,
+  dropIndex,
+  onDragStart,
+  onDragEnd,
+  onDragOver,
+  onDrop,
+  onOpenTask,
+}) => {
+  /**
+   * Places the drop position above or below the hovered card
+   */
+  const handleCardDragOver =
+    (index: number) => (event: React.DragEvent<HTMLLIElement>) => {
+      event.preventDefault();
+      event.stopPropagation();
+
+      const { top, height } = event.currentTarget.getBoundingClientRect();
+      onDragOver(event.clientY < top + height / 2 ? index : index + 1);
+    };
+
+  return (
+    <section
+      className={cn(
+        "flex w-72 shrink-0 flex-col gap-2 rounded-md bg-stone-100 p-2",
+        dropIndex !== null && "ring-2 ring-sky-200",
+      )}
+      onDragOver={(event) => {
+        // Cards handle their own area, anywhere else drops at the end
+        event.preventDefault();
+        onDragOver(tasks.length);
+      }}
+      onDrop={(event) => {
+        event.preventDefault();
+        onDrop();
+      }}
+      aria-label={`${status} column`}
+    >
+      <header className="flex items-center justify-between px-1">
+        <TaskStatus status={status} />
+        <span className="text-xs font-medium text-stone-500">
+          {tasks.length}
+        </span>
+      </header>
+
+      {isLoading ? (
+        <div className="space-y-2" aria-label="Loading tasks">
+          {[1, 2].map((i) => (
+            <Skeleton key={i} className="h-24 w-full" />
+          ))}
+        </div>
+      ) : (
+        <ul className="flex min-h-24 flex-col gap-2">
+          {tasks.map((task, index) => (
+            <BoardCard
+              key={task.id}
+              task={task}
+              isDragging={draggedTaskId === task.id}
+              dropSide={
+                dropIndex === index
+                  ? "before"
+                  : dropIndex === tasks.length && index === tasks.length - 1
+                    ? "after"
+                    : null
+              }
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                event.dataTransfer.setData("text/plain", task.id);
+                onDragStart(task);
+              }}
+              onDragEnd={onDragEnd}
+              onDragOver={handleCardDragOver(index)}
+              onOpen={() => onOpenTask(task)}
+            />
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default BoardColumn;
@@ -0,0 +1,264 @@
+"use client";
+
+// External dependencies
+import React, { useState } from "react";
+import { useIsClient } from "@uidotdev/usehooks";
+import { FilterIcon, PlusIcon, TriangleAlert } from "lucide-react";
+
+// Internal UI components
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { ProjectSwitcher } from "@/features/projects/components/project-switcher";
+import { TaskSearch } from "../task-search";
+import TaskFilter from "../task-filter";
+import { BoardColumn } from "./board-column";
+
+// Hooks, queries and stores
+import { taskStatuses } from "@/database/schemas/task.schema";
+import { Task, useTasks, useUpdateTask } from "../../queries/task.queries";
+import { useNewTask } from "../../hooks/use-new-task";
+import { useEditTask } from "../../hooks/use-edit-task";
+import { useConfirm } from "@/hooks/use-confirm";
+import { useTaskFiltersStore } from "@/stores/task-filters-store";
+import { useProjectStore } from "@/stores/project-store";
+import { TASK_RANK_STEP } from "@/constants";
+
+// Number of tasks loaded onto the board
+const BOARD_TASK_LIMIT = 500;
+
+// Types
+interface DropTarget {
+  status: Task["status"];
+  index: number;
+}
+
+/**
+ * Rank that places a card between its new neighbours. The server spreads
+ * the column out again once a gap gets too small
+ * @param before - Card above the drop position, if any
+ * @param after - Card below the drop position, if any
+ */
+const getRankBetween = (before?: Task, after?: Task): number => {
+  if (before && after) return (before.rank + after.rank) / 2;
+  if (before) return before.rank + TASK_RANK_STEP;
+  if (after) return after.rank - TASK_RANK_STEP;
+  return TASK_RANK_STEP;
+};
+
+/**
+ * TaskBoard Component
+ * Board view of the tasks with one column per status. Cards are dragged
+ * between columns to change their status and within a column to reorder
+ *
+ * @returns {JSX.Element | null} The rendered board or null during SSR
+ */
+export const TaskBoard: React.FC = () => {
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+  const [draggedTask, setDraggedTask] = useState<Task | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+
+  const isClient = useIsClient();
+  const { onOpen: onOpenNewTask } = useNewTask();
+  const { onOpen: onOpenEditTask } = useEditTask();
+  const { appliedFilters } = useTaskFiltersStore();
+  const { projectId } = useProjectStore();
+  const { mutate: updateTask } = useUpdateTask();
+  const [ConfirmationDialog, confirm] = useConfirm({
+    title: "This item is still blocked",
+    message: "Items it depends on are not done yet. Move it to done anyway?",
+  });
+
+  // Ranks only order the cards of one project, so the board needs one
+  const { data, isLoading, error } = useTasks(
+    BOARD_TASK_LIMIT,
+    0,
+    {
+      ...appliedFilters,
+      project: projectId ?? undefined,
+      sort: "rank",
+      order: "asc",
+    },
+    !!projectId,
+  );
+
+  const tasks: Task[] =
+    data?.tasks.map((task) => ({
+      ...task,
+      createdAt: new Date(task.createdAt),
+      updatedAt: task.updatedAt ? new Date(task.updatedAt) : null,
+      dueDate: task.dueDate ? new Date(task.dueDate) : null,
+      isDeleted: false,
+      deletedAt: null,
+    })) ?? [];
+
+  // Optimistic moves change the rank, so each column is sorted here too
+  const columns = taskStatuses.enumValues.map((status) => ({
+    status,
+    tasks: tasks
+      .filter((task) => task.status === status)
+      .sort((a, b) => a.rank - b.rank),
+  }));
+
+  /**
+   * Remembers where the dragged card would land
+   */
+  const handleDragOver = (status: Task["status"]) => (index: number) =>
+    setDropTarget((current) =>
+      current?.status === status && current.index === index
+        ? current
+        : { status, index },
+    );
+
+  const handleDragEnd = () => {
+    setDraggedTask(null);
+    setDropTarget(null);
+  };
+
+  /**
+   * Moves the dragged card to the drop position, asking first when a
+   * blocked task is moved to done
+   */
+  const handleDrop = async () => {
+    const task = draggedTask;
+    const target = dropTarget;
+    handleDragEnd();
+
+    if (!task || !target) return;
+
+    const column = columns.find((c) => c.status === target.status)?.tasks ?? [];
+    const statusChanged = task.status !== target.status;
+
+    // Dropping a card right where it is changes nothing
+    const currentIndex = column.findIndex((t) => t.id === task.id);
+    if (
+      !statusChanged &&
+      (target.index === currentIndex || target.index === currentIndex + 1)
+    ) {
+      return;
+    }
+
+    // Neighbours at the drop position, leaving out the dragged card
+    const others = column.filter((t) => t.id !== task.id);
+    const position = column
+      .slice(0, target.index)
+      .filter((t) => t.id !== task.id).length;
+    const rank = getRankBetween(others[position - 1], others[position]);
+
+    if (
+      statusChanged &&
+      target.status === "done" &&
+      task.blocked &&
+      !(await confirm())
+    ) {
+      return;
+    }
+
+    updateTask({
+      id: task.id,
+      data: statusChanged ? { status: target.status, rank } : { rank },
+    });
+  };
+
+  // Prevent SSR rendering
+  if (!isClient) return null;
+
+  return (
+    <div className="py-2" role="region" aria-label="Task board interface">
+      {/* Toolbar */}
+      <div className="mb-4 flex flex-col items-start justify-between gap-4 md:flex-row">
+        <div className="flex w-full items-center gap-2">
+          <ProjectSwitcher />
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                className="flex items-center gap-2"
+                onClick={onOpenNewTask}
+                disabled={!projectId}
+                aria-label="Add new task"
+              >
+                <PlusIcon className="h-4 w-4" aria-hidden="true" />
+                <span className="hidden md:block">Add Item</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Add new task</TooltipContent>
+          </Tooltip>
+          <TaskSearch />
+        </div>
+        <Button
+          variant="outline"
+          className="flex items-center gap-2 lg:hidden"
+          onClick={() => setIsFilterOpen(!isFilterOpen)}
+          aria-label="Toggle filter panel"
+          aria-expanded={isFilterOpen}
+        >
+          <FilterIcon className="size-4" aria-hidden="true" />
+          <span className="hidden md:block">Filter</span>
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="mb-4 flex w-full items-center">
+        <TaskFilter
+          isFilterOpen={isFilterOpen}
+          setIsFilterOpen={setIsFilterOpen}
+          selectedTask={null}
+        />
+      </div>
+
+      {!projectId ? (
+        <p className="mt-4 text-center text-sm text-stone-500" role="status">
+          Select a project to see its board
+        </p>
+      ) : error ? (
+        <div
+          className="mt-4 flex items-center justify-center gap-2 text-center text-sm text-red-500"
+          role="alert"
+        >
+          <TriangleAlert className="size-4" aria-hidden="true" />
+          <p className="font-medium">Error while fetching tasks</p>
+        </div>
+      ) : (
+        <>
+          {data && data.pagination.total > BOARD_TASK_LIMIT && (
+            <p className="mb-2 text-sm text-stone-500" role="status">
+              Showing the first {BOARD_TASK_LIMIT} of {data.pagination.total}{" "}
+              items, narrow the filters to see the rest
+            </p>
+          )}
+          <div
+            className="flex items-start gap-4 overflow-x-auto pb-4"
+            role="region"
+            aria-label="Task board"
+          >
+            {columns.map(({ status, tasks: columnTasks }) => (
+              <BoardColumn
+                key={status}
+                status={status}
+                tasks={columnTasks}
+                isLoading={isLoading}
+                draggedTaskId={draggedTask?.id ?? null}
+                dropIndex={
+                  dropTarget?.status === status ? dropTarget.index : null
+                }
+                onDragStart={setDraggedTask}
+                onDragEnd={handleDragEnd}
+                onDragOver={handleDragOver(status)}
+                onDrop={handleDrop}
+                onOpenTask={(task) => onOpenEditTask(task.id)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      <ConfirmationDialog />
+    </div>
+  );
+};
+
+export default TaskBoard;
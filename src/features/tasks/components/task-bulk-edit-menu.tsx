@@ -0,0 +1,179 @@
+"use client";
+
+// External dependencies
+import React from "react";
+import { Table } from "@tanstack/react-table";
+import { PencilIcon } from "lucide-react";
+
+// Internal UI components
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// Queries, stores and options
+import {
+  BulkTaskChanges,
+  Task,
+  useBulkUpdateTask,
+} from "../queries/task.queries";
+import { useLabels } from "../queries/label.queries";
+import { useUserProfiles } from "../queries/user-profiles.queries";
+import { useProjectStore } from "@/stores/project-store";
+import { taskPriorities, taskStatuses, taskTypes } from "../types/filters";
+
+/**
+ * Props interface for TaskBulkEditMenu component
+ * @interface TaskBulkEditMenuProps
+ */
+interface TaskBulkEditMenuProps {
+  table: Table<Task>;
+}
+
+/**
+ * OptionsSubMenu Component
+ * Lists the values of a field, choosing one applies it
+ */
+const OptionsSubMenu: React.FC<{
+  label: string;
+  options: Array<{ label: string; value: string }>;
+  onSelect: (value: string) => void;
+}> = ({ label, options, onSelect }) => (
+  <DropdownMenuSub>
+    <DropdownMenuSubTrigger>{label}</DropdownMenuSubTrigger>
+    <DropdownMenuSubContent className="max-h-72 overflow-y-auto">
+      {options.map((option) => (
+        <DropdownMenuItem
+          key={option.value}
+          onSelect={() => onSelect(option.value)}
+        >
+          {option.label}
+        </DropdownMenuItem>
+      ))}
+    </DropdownMenuSubContent>
+  </DropdownMenuSub>
+);
+
+/**
+ * TaskBulkEditMenu Component
+ * Sets the status, priority, type, assignee, due date or labels of all
+ * the selected rows at once
+ *
+ * @component
+ * @param {TaskBulkEditMenuProps} props - Component props
+ */
+export const TaskBulkEditMenu: React.FC<TaskBulkEditMenuProps> = ({
+  table,
+}) => {
+  const { projectId } = useProjectStore();
+  const { data: labels } = useLabels(projectId);
+  const { data: userProfiles } = useUserProfiles();
+  const { mutate: updateTasks, isPending } = useBulkUpdateTask();
+
+  const selectedIds = table
+    .getSelectedRowModel()
+    .rows.map((row) => row.original.id);
+
+  if (selectedIds.length === 0) return null;
+
+  const applyChanges = (changes: BulkTaskChanges) =>
+    updateTasks({ ids: selectedIds, changes });
+
+  const labelOptions = (labels ?? []).map((label) => ({
+    label: label.name,
+    value: label.id,
+  }));
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          className="flex items-center gap-2"
+          disabled={isPending}
+          aria-label={`Edit ${selectedIds.length} selected tasks`}
+        >
+          <PencilIcon className="size-4" aria-hidden="true" />
+          <span className="hidden md:block">{`Edit (${selectedIds.length})`}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel>Set on selected items</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <OptionsSubMenu
+          label="Status"
+          options={taskStatuses}
+          onSelect={(value) =>
+            applyChanges({ status: value as BulkTaskChanges["status"] })
+          }
+        />
+        <OptionsSubMenu
+          label="Priority"
+          options={taskPriorities}
+          onSelect={(value) =>
+            applyChanges({ priority: value as BulkTaskChanges["priority"] })
+          }
+        />
+        <OptionsSubMenu
+          label="Type"
+          options={taskTypes}
+          onSelect={(value) =>
+            applyChanges({ type: value as BulkTaskChanges["type"] })
+          }
+        />
+        <OptionsSubMenu
+          label="Assignee"
+          options={[
+            { label: "Unassigned", value: "" },
+            ...(userProfiles ?? []).map((user) => ({
+              label: user.name,
+              value: user.id,
+            })),
+          ]}
+          onSelect={(value) => applyChanges({ assigneeId: value || null })}
+        />
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>Due date</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            <Calendar
+              mode="single"
+              onSelect={(date) =>
+                date && applyChanges({ dueDate: date.toISOString() })
+              }
+            />
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => applyChanges({ dueDate: null })}>
+              Clear due date
+            </DropdownMenuItem>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        {labelOptions.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <OptionsSubMenu
+              label="Add label"
+              options={labelOptions}
+              onSelect={(value) => applyChanges({ addLabelIds: [value] })}
+            />
+            <OptionsSubMenu
+              label="Remove label"
+              options={labelOptions}
+              onSelect={(value) => applyChanges({ removeLabelIds: [value] })}
+            />
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default TaskBulkEditMenu;
@@ -0,0 +1,86 @@
+// External dependencies
+import React from "react";
+import Link from "next/link";
+import { User } from "lucide-react";
+
+// Internal UI components
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Skeleton } from "@/components/ui/skeleton";
+import { TaskType } from "./task-type";
+import { TaskStatus } from "./task-status";
+
+// Queries
+import { useTaskChildren } from "../queries/task.queries";
+
+/**
+ * Interface definitions
+ */
+interface TaskChildrenProps {
+  taskId: string;
+}
+
+/**
+ * TaskChildrenView Component
+ * Lists the child items of a task with their rolled up totals
+ */
+export const TaskChildrenView: React.FC<TaskChildrenProps> = ({ taskId }) => {
+  const { data, isLoading } = useTaskChildren(taskId);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2" aria-label="Loading child items">
+        {[1, 2].map((i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!data || data.children.length === 0) {
+    return <p className="text-sm text-stone-500">No child items</p>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-sm text-stone-500">
+        {data.rollup.storyPoints} story points, {data.rollup.timeSpent} hrs
+        spent across all child items
+      </p>
+      <ul
+        className="divide-y divide-stone-200 rounded-md border border-stone-200"
+        aria-label="Child items"
+      >
+        {data.children.map((child) => (
+          <li key={child.id} className="flex items-center gap-3 px-3 py-2">
+            <TaskType type={child.type} />
+            <Link
+              href={`/tasks/${child.id}`}
+              className="font-mono text-xs text-stone-500 hover:underline"
+            >
+              {child.key}
+            </Link>
+            <span className="flex-1 truncate text-sm text-stone-800">
+              {child.title}
+            </span>
+            <TaskStatus status={child.status} />
+            <Avatar className="size-6">
+              <AvatarImage
+                src={child.assigneeAvatarUrl || ""}
+                alt={`${child.assigneeName || "Unassigned"}'s avatar`}
+                className="size-6 object-cover"
+              />
+              <AvatarFallback>
+                <User
+                  className="size-6 rounded-full bg-gray-100 p-1 text-gray-400"
+                  aria-hidden="true"
+                />
+              </AvatarFallback>
+            </Avatar>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TaskChildrenView;
@@ -1,13 +1,32 @@
 // External dependencies
-import React from "react";
+import React, { useEffect, useRef, useState } from "react";
+import dynamic from "next/dynamic";
 import { format } from "date-fns";
-import { useForm } from "react-hook-form";
-import { User, Send, Trash2 } from "lucide-react";
+import { Controller, useForm } from "react-hook-form";
+import {
+  User,
+  Send,
+  Trash2,
+  Pencil,
+  Reply,
+  SmilePlus,
+  ChevronDown,
+  ChevronRight,
+} from "lucide-react";
 
 // Internal UI components
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+
+// Utilities
+import { cn } from "@/lib/utils";
+import { commentReactionEmojis } from "@/database/schemas/task.schema";
 
 // Queries and stores
 import {
@@ -15,10 +34,33 @@ import {
   TaskComment,
   useCreateTaskComment,
   useDeleteTaskComment,
-  useTaskComments,
+  useInfiniteTaskComments,
+  useTaskCommentRevisions,
+  useTaskCommentsStream,
+  useToggleCommentReaction,
+  useUpdateTaskComment,
 } from "../queries/comment.queries";
+import { useMentionItems } from "../queries/user-profiles.queries";
+import { uploadAttachment } from "@/features/attachments/queries/attachment.queries";
 import { useAuthStore } from "@/stores/auth-store";
 
+/**
+ * Dynamically import TipTap editor to avoid SSR issues
+ */
+const MinimalTiptapEditor = dynamic(
+  () =>
+    import("@/components/minimal-tiptap").then(
+      (mod) => mod.MinimalTiptapEditor,
+    ),
+  { ssr: false },
+);
+
+/**
+ * Checks that the editor HTML holds some text, e.g. not just "<p></p>"
+ * @param html - The comment content
+ */
+const hasText = (html: string) => html.replace(/<[^>]*>/g, "").trim() !== "";
+
 /**
  * Interface definitions
  */
@@ -30,65 +72,279 @@ interface CommentFormData {
   content: string;
 }
 
+// Task or comment the images pasted into a comment are attached to
+interface CommentUploadTarget {
+  taskId: string;
+  commentId?: string;
+}
+
+/**
+ * CommentContent Component
+ * Renders the rich text of a comment, read only
+ */
+const CommentContent: React.FC<{ content: string; className?: string }> = ({
+  content,
+  className,
+}) => (
+  <MinimalTiptapEditor
+    key={content}
+    value={content}
+    className={className ?? "min-h-0 w-full"}
+    editorContentClassName="p-0 text-sm text-gray-700"
+    editorClassName="focus:outline-none"
+    output="html"
+    editable={false}
+    hideToolbar={true}
+    bordered={false}
+    aria-label="Comment content"
+  />
+);
+
 /**
  * CommentForm Component
- * Renders the form for adding new comments
+ * Renders the form for adding new comments, or editing one, where
+ * teammates can be @mentioned to notify them
  */
 const CommentForm: React.FC<{
   onSubmit: (data: CommentFormData) => Promise<void>;
   isPending: boolean;
-}> = ({ onSubmit, isPending }) => {
+  uploadTarget: CommentUploadTarget;
+  defaultContent?: string;
+  placeholder?: string;
+  onCancel?: () => void;
+}> = ({
+  onSubmit,
+  isPending,
+  uploadTarget,
+  defaultContent = "",
+  placeholder = "Add a comment... Type @ to mention someone",
+  onCancel,
+}) => {
+  const mentionItems = useMentionItems();
+  // The editor only reads its value when created, so it is remounted
+  // to clear it after sending
+  const [editorKey, setEditorKey] = useState(0);
   const form = useForm<CommentFormData>({
-    defaultValues: { content: "" },
+    defaultValues: { content: defaultContent },
   });
+  const isEditing = !!defaultContent;
 
   const handleSubmit = (data: CommentFormData) => {
     onSubmit(data);
     form.reset();
+    setEditorKey((key) => key + 1);
   };
 
   return (
     <form
       onSubmit={form.handleSubmit(handleSubmit)}
       className="flex flex-col gap-2"
-      aria-label="Add comment form"
+      aria-label={isEditing ? "Edit comment form" : "Add comment form"}
     >
-      <textarea
-        {...form.register("content", { required: true })}
-        rows={3}
-        className="flex-grow resize-none rounded-lg border px-3 py-2 text-gray-700 focus:border-stone-500 focus:outline-none"
-        placeholder="Add a comment..."
-        aria-label="Comment content"
-        aria-required="true"
-        aria-invalid={!!form.formState.errors.content}
+      <Controller
+        control={form.control}
+        name="content"
+        rules={{ validate: hasText }}
+        render={({ field }) => (
+          <MinimalTiptapEditor
+            key={editorKey}
+            value={field.value}
+            onChange={(value) => field.onChange(value as string)}
+            className="min-h-24 w-full bg-white"
+            editorContentClassName="px-3 py-2 text-sm text-gray-700"
+            editorClassName="focus:outline-none"
+            output="html"
+            placeholder={placeholder}
+            compactToolbar={true}
+            // Images are stored as attachments instead of inline base64
+            uploadFile={async (file) =>
+              (await uploadAttachment(file, uploadTarget)).url
+            }
+            mentionItems={mentionItems}
+            aria-label="Comment content"
+            aria-required="true"
+            aria-invalid={!!form.formState.errors.content}
+          />
+        )}
       />
-      <Button
-        type="submit"
-        variant="outline"
-        className="flex max-w-fit items-center gap-2"
-        disabled={isPending || !form.formState.isValid}
-        aria-label={isPending ? "Sending comment..." : "Send comment"}
-      >
-        <Send className="h-5 w-5" aria-hidden="true" />
-        {isPending ? "Sending..." : "Send"}
-      </Button>
+      <div className="flex items-center gap-2">
+        <Button
+          type="submit"
+          variant="outline"
+          className="flex max-w-fit items-center gap-2"
+          disabled={isPending || !form.formState.isValid}
+          aria-label={isPending ? "Sending comment..." : "Send comment"}
+        >
+          <Send className="h-5 w-5" aria-hidden="true" />
+          {isPending ? "Sending..." : isEditing ? "Save" : "Send"}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+      </div>
     </form>
   );
 };
 
+/**
+ * CommentHistory Component
+ * "edited" marker opening the previous versions of a comment
+ */
+const CommentHistory: React.FC<{ comment: TaskComment }> = ({ comment }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { data: revisions, isLoading } = useTaskCommentRevisions(
+    comment.id,
+    isOpen,
+  );
+
+  return (
+    <Popover open={isOpen} onOpenChange={setIsOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="text-xs text-gray-500 hover:underline"
+          aria-label="Show previous versions"
+        >
+          (edited)
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0">
+        <h4 className="border-b px-3 py-2 text-sm font-medium">
+          Previous versions
+        </h4>
+        {isLoading ? (
+          <Skeleton className="m-3 h-10" />
+        ) : (
+          <ol className="max-h-80 divide-y overflow-y-auto">
+            {revisions?.map((revision) => (
+              <li key={revision.id} className="flex flex-col gap-1 px-3 py-2">
+                <time
+                  dateTime={new Date(revision.createdAt).toISOString()}
+                  className="text-xs text-gray-500"
+                >
+                  {format(
+                    new Date(revision.createdAt),
+                    "MMM d, yyyy 'at' h:mm a",
+                  )}
+                </time>
+                <CommentContent content={revision.content} />
+              </li>
+            ))}
+          </ol>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+/**
+ * CommentReactions Component
+ * Renders the emoji reactions to a comment, each toggling the user's own
+ * reaction, and a picker to add a new one
+ */
+const CommentReactions: React.FC<{ comment: TaskComment }> = ({ comment }) => {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
+  const { mutate: toggleReaction } = useToggleCommentReaction();
+
+  const handleToggle = (emoji: (typeof commentReactionEmojis)[number]) => {
+    setIsPickerOpen(false);
+    toggleReaction({ id: comment.id, taskId: comment.taskId, emoji });
+  };
+
+  return (
+    <div
+      className="mt-2 flex flex-wrap items-center gap-1"
+      aria-label="Reactions"
+    >
+      {comment.reactions.map((reaction) => (
+        <button
+          key={reaction.emoji}
+          type="button"
+          className={cn(
+            "flex items-center gap-1 rounded-full border border-gray-200 px-2 py-0.5 text-xs text-gray-700 hover:bg-gray-100",
+            reaction.reacted && "border-stone-400 bg-stone-100",
+          )}
+          onClick={() =>
+            handleToggle(
+              reaction.emoji as (typeof commentReactionEmojis)[number],
+            )
+          }
+          aria-pressed={reaction.reacted}
+          aria-label={`${reaction.emoji} ${reaction.count}`}
+        >
+          <span aria-hidden="true">{reaction.emoji}</span>
+          {reaction.count}
+        </button>
+      ))}
+      <Popover open={isPickerOpen} onOpenChange={setIsPickerOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="size-6"
+            aria-label="Add reaction"
+          >
+            <SmilePlus className="size-3.5" aria-hidden="true" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="flex w-auto gap-1 p-1">
+          {commentReactionEmojis.map((emoji) => {
+            const reacted = comment.reactions.some(
+              (reaction) => reaction.emoji === emoji && reaction.reacted,
+            );
+
+            return (
+              <button
+                key={emoji}
+                type="button"
+                className={cn(
+                  "rounded p-1 text-base hover:bg-gray-100",
+                  reacted && "bg-stone-100",
+                )}
+                onClick={() => handleToggle(emoji)}
+                aria-pressed={reacted}
+                aria-label={`React with ${emoji}`}
+              >
+                {emoji}
+              </button>
+            );
+          })}
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
 /**
  * CommentItem Component
- * Renders an individual comment
+ * Renders an individual comment, editable and deletable by its author
  */
 const CommentItem: React.FC<{
   comment: TaskComment;
-}> = ({ comment }) => {
-  const { mutateAsync: deleteComment, isPending } = useDeleteTaskComment();
+  onReply?: () => void;
+}> = ({ comment, onReply }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const { userProfile } = useAuthStore();
+  const { mutateAsync: deleteComment } = useDeleteTaskComment();
+  const { mutateAsync: updateComment, isPending: isUpdating } =
+    useUpdateTaskComment();
+  const isAuthor = !!userProfile && userProfile.id === comment.userId;
 
   const handleDelete = () => {
     deleteComment({ id: comment.id, taskId: comment.taskId });
   };
 
+  const handleUpdate = async (data: CommentFormData) => {
+    setIsEditing(false);
+    updateComment({
+      id: comment.id,
+      taskId: comment.taskId,
+      content: data.content,
+    });
+  };
+
   return (
     <article
       className="p-4 transition duration-150 ease-in-out hover:bg-gray-50"
@@ -96,7 +352,7 @@ const CommentItem: React.FC<{
     >
       <div className="flex items-start space-x-3">
         <div className="flex-shrink-0">
-          <Avatar className="size-6 mt-2">
+          <Avatar className="mt-2 size-6">
             <AvatarImage
               src={comment.authorAvatarUrl ?? ""}
               className="size-6 object-cover"
@@ -128,29 +384,199 @@ const CommentItem: React.FC<{
               >
                 {format(new Date(comment.createdAt), "MMM d, yyyy 'at' h:mm a")}
               </time>
-              <Button variant="ghost" size="icon" onClick={handleDelete}>
-                <Trash2 className="size-3" aria-hidden="true" />
-              </Button>
+              {comment.revisionCount > 0 && (
+                <CommentHistory comment={comment} />
+              )}
+              {onReply && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={onReply}
+                  aria-label="Reply to comment"
+                >
+                  <Reply className="size-3" aria-hidden="true" />
+                </Button>
+              )}
+              {isAuthor && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setIsEditing(true)}
+                    disabled={isEditing}
+                    aria-label="Edit comment"
+                  >
+                    <Pencil className="size-3" aria-hidden="true" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={handleDelete}
+                    aria-label="Delete comment"
+                  >
+                    <Trash2 className="size-3" aria-hidden="true" />
+                  </Button>
+                </>
+              )}
             </div>
           </div>
-          <p className="mt-1 text-sm text-gray-700">{comment.content}</p>
+          {isEditing ? (
+            <div className="mt-1">
+              <CommentForm
+                onSubmit={handleUpdate}
+                isPending={isUpdating}
+                uploadTarget={{ taskId: comment.taskId, commentId: comment.id }}
+                defaultContent={comment.content}
+                onCancel={() => setIsEditing(false)}
+              />
+            </div>
+          ) : (
+            <CommentContent
+              content={comment.content}
+              className="mt-1 min-h-0 w-full"
+            />
+          )}
+          <CommentReactions comment={comment} />
         </div>
       </div>
     </article>
   );
 };
 
+/**
+ * CommentThread Component
+ * Renders a top-level comment with its replies, collapsed until opened
+ */
+const CommentThread: React.FC<{
+  comment: TaskComment;
+  replies: TaskComment[];
+}> = ({ comment, replies }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
+  const { mutateAsync: createComment, isPending } = useCreateTaskComment();
+
+  const handleReply = () => {
+    setIsExpanded(true);
+    setIsReplying(true);
+  };
+
+  const handleSubmit = async (data: CommentFormData) => {
+    setIsReplying(false);
+    createComment({
+      taskId: comment.taskId,
+      content: data.content,
+      parentCommentId: comment.id,
+    });
+  };
+
+  return (
+    <div>
+      {comment.isDeleted ? (
+        <p className="p-4 text-sm italic text-gray-500">
+          This comment was deleted
+        </p>
+      ) : (
+        <CommentItem comment={comment} onReply={handleReply} />
+      )}
+      {replies.length > 0 && (
+        <button
+          type="button"
+          className="mb-2 ml-12 flex items-center gap-1 text-xs font-medium text-gray-600 hover:underline"
+          onClick={() => setIsExpanded((expanded) => !expanded)}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? (
+            <ChevronDown className="size-3" aria-hidden="true" />
+          ) : (
+            <ChevronRight className="size-3" aria-hidden="true" />
+          )}
+          {isExpanded
+            ? "Hide replies"
+            : `${replies.length} ${replies.length === 1 ? "reply" : "replies"}`}
+        </button>
+      )}
+      {isExpanded && (
+        <div
+          className="ml-12 divide-y divide-gray-200 border-l border-gray-200"
+          role="list"
+          aria-label={`Replies to ${comment.authorName}`}
+        >
+          {replies.map((reply) => (
+            <div key={reply.id} role="listitem">
+              <CommentItem comment={reply} />
+            </div>
+          ))}
+        </div>
+      )}
+      {isReplying && (
+        <div className="mb-4 ml-12">
+          <CommentForm
+            onSubmit={handleSubmit}
+            isPending={isPending}
+            uploadTarget={{ taskId: comment.taskId }}
+            placeholder="Write a reply..."
+            onCancel={() => setIsReplying(false)}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
 /**
  * TaskCommentsView Component
- * Main component for displaying and managing task comments
+ * Main component for displaying and managing task comments, loading
+ * older threads on scroll and showing other users' changes live
  *
  * @component
  * @param {TaskCommentsProps} props - Component props
  */
 export const TaskCommentsView: React.FC<TaskCommentsProps> = ({ taskId }) => {
-  const { data: comments, isLoading } = useTaskComments(taskId);
+  const { data, isLoading, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useInfiniteTaskComments(taskId);
   const { userProfile } = useAuthStore();
   const { mutateAsync: createComment, isPending } = useCreateTaskComment();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  useTaskCommentsStream(taskId);
+
+  // Loads the next page once the end of the list scrolls into view
+  useEffect(() => {
+    const target = loadMoreRef.current;
+    if (!target || !hasNextPage) return;
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting && !isFetchingNextPage) fetchNextPage();
+    });
+    observer.observe(target);
+
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const comments = data?.pages.flatMap((page) => page.comments) ?? [];
+
+  // Replies sit below their comment, oldest first, and a deleted comment
+  // stays as a placeholder while its thread has replies
+  const repliesByComment = new Map<string, TaskComment[]>();
+  for (const comment of comments) {
+    if (comment.parentCommentId && !comment.isDeleted) {
+      repliesByComment.set(comment.parentCommentId, [
+        ...(repliesByComment.get(comment.parentCommentId) ?? []),
+        comment,
+      ]);
+    }
+  }
+  repliesByComment.forEach((replies) =>
+    replies.sort(
+      (a, b) =>
+        new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+    ),
+  );
+  const threads = comments.filter(
+    (comment) =>
+      !comment.parentCommentId &&
+      (!comment.isDeleted || repliesByComment.has(comment.id)),
+  );
 
   const handleSubmit = async (data: CommentFormData) => {
     if (!userProfile) return;
@@ -158,7 +584,6 @@ export const TaskCommentsView: React.FC<TaskCommentsProps> = ({ taskId }) => {
     const newComment: NewTaskComment = {
       taskId,
       content: data.content,
-      userId: userProfile.id,
     };
 
     createComment(newComment);
@@ -177,17 +602,38 @@ export const TaskCommentsView: React.FC<TaskCommentsProps> = ({ taskId }) => {
   return (
     <section className="overflow-hidden" aria-label="Task comments section">
       <div className="rounded-lg border border-gray-200 bg-gray-50 p-4">
-        <CommentForm onSubmit={handleSubmit} isPending={isPending} />
+        <CommentForm
+          onSubmit={handleSubmit}
+          isPending={isPending}
+          uploadTarget={{ taskId }}
+        />
       </div>
       <div
         className="divide-y divide-gray-200"
         role="log"
         aria-label="Comments list"
       >
-        {comments
-          ?.filter((comment) => !comment.isDeleted)
-          .map((comment) => <CommentItem key={comment.id} comment={comment} />)}
+        {threads.map((comment) => (
+          <CommentThread
+            key={comment.id}
+            comment={comment}
+            replies={repliesByComment.get(comment.id) ?? []}
+          />
+        ))}
       </div>
+      {hasNextPage && (
+        <div ref={loadMoreRef} className="flex justify-center p-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
+            isLoading={isFetchingNextPage}
+          >
+            Load older comments
+          </Button>
+        </div>
+      )}
     </section>
   );
 };
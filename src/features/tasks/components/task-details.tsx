@@ -3,6 +3,7 @@
 // External dependencies
 import React from "react";
 import dynamic from "next/dynamic";
+import Link from "next/link";
 import { format } from "date-fns";
 import {
   User,
@@ -15,16 +16,28 @@ import {
   ChevronLeft,
   ClockArrowUp,
   FileClock,
+  ListTree,
+  Link2,
+  Tag,
+  Paperclip,
+  Eye,
 } from "lucide-react";
 
 // Internal UI components
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TaskType } from "./task-type";
 import { TaskStatus } from "./task-status";
 import { TaskPriority } from "./task-priority";
+import { TaskLabel } from "./task-label";
 import { TaskCommentsView } from "./task-comments";
+import { TaskActivityView } from "./task-activity";
+import { TaskChildrenView } from "./task-children";
+import { TaskLinksView } from "./task-links";
+import { TaskAttachmentsView } from "./task-attachments";
+import { TaskWatchersView } from "./task-watchers";
 import TaskActions from "./task-actions";
 
 // Utilities and hooks
@@ -175,12 +188,28 @@ export const TaskDetails: React.FC<Props> = ({
 
       {/* Task Header */}
       <header className="flex flex-col items-start gap-2">
-        <div className="flex items-center space-x-2 text-sm text-stone-500">
+        <nav
+          className="flex items-center space-x-2 text-sm text-stone-500"
+          aria-label="Task hierarchy"
+        >
           <Hash className="h-4 w-4" aria-hidden="true" />
+          {task.parentId && task.parentKey && (
+            <>
+              <Link
+                href={`/tasks/${task.parentId}`}
+                className="hover:underline"
+                title={task.parentTitle ?? undefined}
+                aria-label={`Parent ${task.parentKey}`}
+              >
+                {task.parentKey}
+              </Link>
+              <ChevronRight className="h-4 w-4" aria-hidden="true" />
+            </>
+          )}
           <span>{task.key}</span>
           <ChevronRight className="h-4 w-4" aria-hidden="true" />
           <TaskType type={task.type || ""} />
-        </div>
+        </nav>
         <h2 className="text-2xl font-bold text-stone-800">{task.title}</h2>
         <div className="flex items-center gap-2">
           <TaskStatus status={task.status || ""} />
@@ -253,6 +282,15 @@ export const TaskDetails: React.FC<Props> = ({
               </Avatar>
             </DetailItem>
 
+            {/* Watchers */}
+            <DetailItem
+              icon={<Eye className="h-5 w-5 text-stone-500" />}
+              label="Watchers"
+              value=""
+            >
+              <TaskWatchersView taskId={task.id} />
+            </DetailItem>
+
             {/* Other Details */}
             <DetailItem
               icon={<Calendar className="h-5 w-5 text-green-500" />}
@@ -283,13 +321,62 @@ export const TaskDetails: React.FC<Props> = ({
               label="Time Spent"
               value={`${task.timeSpent?.toString() || "0"} hrs`}
             />
+            <DetailItem
+              icon={<Tag className="h-5 w-5 text-violet-500" />}
+              label="Labels"
+              value={task.labels?.length ? "" : "No labels"}
+            >
+              {task.labels && task.labels.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {task.labels.map((label) => (
+                    <TaskLabel key={label.id} label={label} />
+                  ))}
+                </div>
+              )}
+            </DetailItem>
           </div>
         </div>
 
-        {/* Comments Section */}
-        <div className="mt-6">
-          <TaskCommentsView taskId={task.id} />
-        </div>
+        {/* Child Items Section */}
+        <Section
+          className="mt-6"
+          title="Child items"
+          icon={<ListTree className="h-5 w-5" />}
+        >
+          <TaskChildrenView taskId={task.id} />
+        </Section>
+
+        {/* Linked Items Section */}
+        <Section
+          className="mt-6"
+          title="Linked items"
+          icon={<Link2 className="h-5 w-5" />}
+        >
+          <TaskLinksView taskId={task.id} projectId={task.projectId} />
+        </Section>
+
+        {/* Attachments Section */}
+        <Section
+          className="mt-6"
+          title="Attachments"
+          icon={<Paperclip className="h-5 w-5" />}
+        >
+          <TaskAttachmentsView taskId={task.id} />
+        </Section>
+
+        {/* Comments and Activity Section */}
+        <Tabs defaultValue="comments" className="mt-6">
+          <TabsList aria-label="Task discussion and history">
+            <TabsTrigger value="comments">Comments</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
+          </TabsList>
+          <TabsContent value="comments">
+            <TaskCommentsView taskId={task.id} />
+          </TabsContent>
+          <TabsContent value="activity">
+            <TaskActivityView taskId={task.id} />
+          </TabsContent>
+        </Tabs>
       </div>
     </article>
   );
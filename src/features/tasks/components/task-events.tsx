@@ -0,0 +1,17 @@
+"use client";
+
+// Queries
+import { useTaskEvents } from "../queries/task.queries";
+
+/**
+ * TaskEvents Component
+ * Applies the task changes made elsewhere to the page's data as they
+ * happen, for pages rendered on the server. Renders nothing
+ *
+ * @component
+ */
+export const TaskEvents: React.FC = () => {
+  useTaskEvents();
+
+  return null;
+};
@@ -0,0 +1,125 @@
+"use client";
+
+// External dependencies
+import React, { useState } from "react";
+import { Table } from "@tanstack/react-table";
+import { DownloadIcon } from "lucide-react";
+
+// Internal UI components
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+// Queries and stores
+import { Task, getTaskExportUrl } from "../queries/task.queries";
+import { useTaskFiltersStore } from "@/stores/task-filters-store";
+import { useProjectStore } from "@/stores/project-store";
+
+// Export formats offered in the menu
+const EXPORT_FORMATS = [
+  { format: "csv", label: "CSV" },
+  { format: "xlsx", label: "Excel (.xlsx)" },
+  { format: "json", label: "JSON" },
+] as const;
+
+/**
+ * Props interface for TaskExportMenu component
+ * @interface TaskExportMenuProps
+ */
+interface TaskExportMenuProps {
+  table: Table<Task>;
+}
+
+/**
+ * TaskExportMenu Component
+ * Downloads the filtered task list with the visible columns,
+ * or only the selected rows
+ *
+ * @component
+ * @param {TaskExportMenuProps} props - Component props
+ */
+export const TaskExportMenu: React.FC<TaskExportMenuProps> = ({ table }) => {
+  const [selectedOnly, setSelectedOnly] = useState(false);
+  const { appliedFilters } = useTaskFiltersStore();
+  const { projectId } = useProjectStore();
+
+  const selectedIds = table
+    .getSelectedRowModel()
+    .rows.map((row) => row.original.id);
+
+  /**
+   * Starts the download through a link, so the browser streams the file
+   * @param format - The export file format
+   */
+  const handleExport = (format: (typeof EXPORT_FORMATS)[number]["format"]) => {
+    const [sorting] = table.getState().sorting;
+
+    const url = getTaskExportUrl({
+      ...appliedFilters,
+      project: projectId ?? undefined,
+      sort: sorting?.id,
+      order: sorting ? (sorting.desc ? "desc" : "asc") : undefined,
+      format,
+      columns: table
+        .getVisibleLeafColumns()
+        .map((column) => column.id)
+        .join(","),
+      ids:
+        selectedOnly && selectedIds.length > 0
+          ? selectedIds.join(",")
+          : undefined,
+    });
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "";
+    link.click();
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          className="flex items-center gap-2"
+          aria-label="Export tasks"
+        >
+          <DownloadIcon className="h-4 w-4" aria-hidden="true" />
+          <span className="hidden md:block">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent
+        align="end"
+        className="min-w-[200px]"
+        aria-label="Export options"
+      >
+        <DropdownMenuLabel>Export as</DropdownMenuLabel>
+        {EXPORT_FORMATS.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onClick={() => handleExport(format)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={selectedOnly && selectedIds.length > 0}
+          disabled={selectedIds.length === 0}
+          onCheckedChange={(value) => setSelectedOnly(!!value)}
+          onSelect={(event) => event.preventDefault()}
+        >
+          Selected rows only
+          {selectedIds.length > 0 && ` (${selectedIds.length})`}
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default TaskExportMenu;
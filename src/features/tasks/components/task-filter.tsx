@@ -20,8 +20,10 @@ import {
 // Types, queries and stores
 import { taskPriorities, taskStatuses, taskTypes } from "../types/filters";
 import { useUserProfiles } from "../queries/user-profiles.queries";
+import { useLabels } from "../queries/label.queries";
 import { Task } from "../queries/task.queries";
 import { useTaskFiltersStore } from "@/stores/task-filters-store";
+import { useProjectStore } from "@/stores/project-store";
 
 /**
  * Props interface for TaskFilter component
@@ -60,6 +62,9 @@ const TaskFilter: React.FC<TaskFilterProps> = ({
 }) => {
   // Fetch user profiles for assignee filter
   const { data: userProfiles } = useUserProfiles();
+  // Labels belong to the current project
+  const { projectId } = useProjectStore();
+  const { data: labels } = useLabels(projectId);
   const { filter, setFilter, clearFilter } = useTaskFiltersStore();
 
   // Date range handlers
@@ -87,6 +92,7 @@ const TaskFilter: React.FC<TaskFilterProps> = ({
     (filter.selectedStatus?.length ?? 0) > 0 ||
     (filter.selectedAssignee?.length ?? 0) > 0 ||
     (filter.selectedPriority?.length ?? 0) > 0 ||
+    (filter.selectedLabel?.length ?? 0) > 0 ||
     filter.createdDateRangeFrom ||
     filter.createdDateRangeTo ||
     filter.dueDateRangeFrom ||
@@ -135,6 +141,19 @@ const TaskFilter: React.FC<TaskFilterProps> = ({
         onChange={(value) => setFilter({ ...filter, selectedAssignee: value })}
         aria-label="Filter by assignee"
       />
+      {/* Label filter */}
+      <MultiSelectCombobox
+        label="Label"
+        options={
+          labels?.map((label) => ({
+            label: label.name,
+            value: label.id,
+          })) || []
+        }
+        value={filter.selectedLabel}
+        onChange={(value) => setFilter({ ...filter, selectedLabel: value })}
+        aria-label="Filter by label"
+      />
       {/* Date range filters */}
       <DateRangePicker
         key="createdDateRange"
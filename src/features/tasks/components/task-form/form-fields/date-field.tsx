@@ -48,7 +48,7 @@ export const DateField: React.FC<DateFieldProps> = ({ form, name, label }) => (
         <FormControl>
           <DatePicker
             // Date value handling
-            date={field.value ? new Date(field.value) : undefined}
+            date={field.value ? new Date(field.value as string) : undefined}
             setDate={(date) => field.onChange(date?.toISOString())}
             fromDate={new Date()} // Ensures dates from today onwards
             // Accessibility attributes
@@ -12,8 +12,10 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 
-// Types and schemas
+// Types, schemas and queries
 import { TaskFormData } from "../../../schema/add-task.schema";
+import { uploadAttachment } from "@/features/attachments/queries/attachment.queries";
+import { useMentionItems } from "../../../queries/user-profiles.queries";
 
 /**
  * Dynamically imported TipTap editor component to avoid SSR issues
@@ -31,54 +33,69 @@ const MinimalTiptapEditor = dynamic(
  * Props interface for the DescriptionField component
  * @interface DescriptionFieldProps
  * @property {UseFormReturn<TaskFormData>} form - Form instance from react-hook-form
+ * @property {string} [taskId] - ID of the edited task, images of a new task are claimed on save
  */
 interface DescriptionFieldProps {
   form: UseFormReturn<TaskFormData>;
+  taskId?: string;
 }
 
 /**
  * DescriptionField Component
  * A rich text editor field component using TipTap for task descriptions.
  * Integrates with react-hook-form and provides accessibility features.
+ * Teammates can be @mentioned, they are notified when the task is saved.
  *
  * @component
  * @param {DescriptionFieldProps} props - Component props
  * @returns {JSX.Element} Rendered form field component
  */
-export const DescriptionField: React.FC<DescriptionFieldProps> = ({ form }) => (
-  <FormField
-    control={form.control}
-    name="description"
-    render={({ field }) => (
-      <FormItem>
-        {/* Label with proper htmlFor connection to editor */}
-        <FormLabel htmlFor="description">Description</FormLabel>
-        <FormControl>
-          <MinimalTiptapEditor
-            {...field}
-            value={field.value}
-            onChange={field.onChange}
-            // Styling classes
-            className="w-full"
-            editorContentClassName="p-4"
-            editorClassName="focus:outline-none"
-            // Editor configuration
-            output="html"
-            placeholder="Enter task description"
-            editable={true}
-            // Accessibility attributes
-            aria-label="Task description editor"
-            aria-invalid={!!form.formState.errors.description}
-            aria-describedby="description-error"
-            aria-multiline="true"
-          />
-        </FormControl>
-        {/* Error message with proper ID for aria-describedby */}
-        <FormMessage id="description-error" />
-      </FormItem>
-    )}
-  />
-);
+export const DescriptionField: React.FC<DescriptionFieldProps> = ({
+  form,
+  taskId,
+}) => {
+  const mentionItems = useMentionItems();
+
+  return (
+    <FormField
+      control={form.control}
+      name="description"
+      render={({ field }) => (
+        <FormItem>
+          {/* Label with proper htmlFor connection to editor */}
+          <FormLabel htmlFor="description">Description</FormLabel>
+          <FormControl>
+            <MinimalTiptapEditor
+              {...field}
+              value={field.value}
+              onChange={field.onChange}
+              // Styling classes
+              className="w-full"
+              editorContentClassName="p-4"
+              editorClassName="focus:outline-none"
+              // Editor configuration
+              output="html"
+              placeholder="Enter task description"
+              editable={true}
+              // Images are stored as attachments instead of inline base64
+              uploadFile={async (file) =>
+                (await uploadAttachment(file, { taskId })).url
+              }
+              mentionItems={mentionItems}
+              // Accessibility attributes
+              aria-label="Task description editor"
+              aria-invalid={!!form.formState.errors.description}
+              aria-describedby="description-error"
+              aria-multiline="true"
+            />
+          </FormControl>
+          {/* Error message with proper ID for aria-describedby */}
+          <FormMessage id="description-error" />
+        </FormItem>
+      )}
+    />
+  );
+};
 
 // Default export for cleaner imports
 export default DescriptionField;
@@ -0,0 +1,220 @@
+// External dependencies
+import React, { useState } from "react";
+import { UseFormReturn } from "react-hook-form";
+import { Check } from "lucide-react";
+
+// Internal UI components
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ComboBox } from "@/components/combo-box";
+import { CommandItem } from "@/components/ui/command";
+import { TaskLabel } from "../../task-label";
+
+// Utilities and types
+import { cn } from "@/lib/utils";
+import { TaskFormData } from "../../../schema/add-task.schema";
+import {
+  TaskLabel as Label,
+  useCreateLabel,
+  useLabels,
+} from "../../../queries/label.queries";
+
+// Colors offered for new labels
+const LABEL_COLORS = [
+  "#ef4444",
+  "#f59e0b",
+  "#22c55e",
+  "#06b6d4",
+  "#3b82f6",
+  "#8b5cf6",
+  "#ec4899",
+  "#78716c",
+];
+
+/**
+ * Props interface for the LabelsField component
+ * @interface LabelsFieldProps
+ */
+interface LabelsFieldProps {
+  form: UseFormReturn<TaskFormData>;
+  projectId: string | null;
+}
+
+/**
+ * NewLabel Component
+ * Inline form for adding a label to the project
+ *
+ * @component
+ */
+const NewLabel: React.FC<{
+  projectId: string;
+  onCreated: (label: Label) => void;
+}> = ({ projectId, onCreated }) => {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(LABEL_COLORS[0]);
+  const createLabel = useCreateLabel();
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+
+    createLabel.mutate(
+      { projectId, name: name.trim(), color },
+      {
+        onSuccess: (label) => {
+          setName("");
+          onCreated(label);
+        },
+      },
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center gap-2">
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            // Keep Enter from submitting the task form
+            if (e.key === "Enter") {
+              e.preventDefault();
+              handleCreate();
+            }
+          }}
+          placeholder="New label"
+          maxLength={30}
+          className="h-8"
+          aria-label="New label name"
+        />
+        <div
+          className="flex items-center gap-1"
+          role="radiogroup"
+          aria-label="New label color"
+        >
+          {LABEL_COLORS.map((swatch) => (
+            <button
+              key={swatch}
+              type="button"
+              role="radio"
+              aria-checked={color === swatch}
+              aria-label={swatch}
+              onClick={() => setColor(swatch)}
+              className={cn(
+                "size-4 rounded-full",
+                color === swatch && "ring-2 ring-stone-400 ring-offset-1",
+              )}
+              style={{ backgroundColor: swatch }}
+            />
+          ))}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={handleCreate}
+          disabled={!name.trim() || createLabel.isPending}
+          isLoading={createLabel.isPending}
+        >
+          Add
+        </Button>
+      </div>
+      {createLabel.error && (
+        <p className="text-sm font-medium text-destructive" role="alert">
+          {createLabel.error.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * LabelsField Component
+ * A form field for tagging a task with any number of the project's labels
+ *
+ * @component
+ * @param {LabelsFieldProps} props - Component props
+ */
+export const LabelsField: React.FC<LabelsFieldProps> = ({
+  form,
+  projectId,
+}) => {
+  const { data: labels, isLoading } = useLabels(projectId);
+
+  return (
+    <FormField
+      control={form.control}
+      name="labelIds"
+      render={({ field }) => {
+        const value = field.value ?? [];
+        const selectedLabels = (labels ?? []).filter((label) =>
+          value.includes(label.id),
+        );
+
+        const toggleLabel = (id: string) =>
+          field.onChange(
+            value.includes(id)
+              ? value.filter((labelId) => labelId !== id)
+              : [...value, id],
+          );
+
+        return (
+          <FormItem className="md:col-span-2">
+            <FormLabel htmlFor="labels-select">Labels</FormLabel>
+            <FormControl>
+              <ComboBox
+                isLoading={isLoading}
+                placeholder="Search labels..."
+                selectedItem={
+                  selectedLabels.length > 0 ? (
+                    <span className="flex flex-wrap gap-1">
+                      {selectedLabels.map((label) => (
+                        <TaskLabel key={label.id} label={label} />
+                      ))}
+                    </span>
+                  ) : (
+                    "No labels"
+                  )
+                }
+              >
+                {labels?.map((label) => (
+                  <CommandItem
+                    key={label.id}
+                    value={label.name}
+                    onSelect={() => toggleLabel(label.id)}
+                    aria-selected={value.includes(label.id)}
+                    className="cursor-pointer"
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        value.includes(label.id) ? "opacity-100" : "opacity-0",
+                      )}
+                      aria-hidden="true"
+                    />
+                    <TaskLabel label={label} />
+                  </CommandItem>
+                ))}
+              </ComboBox>
+            </FormControl>
+            {projectId && (
+              <NewLabel
+                projectId={projectId}
+                onCreated={(label) => field.onChange([...value, label.id])}
+              />
+            )}
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+};
+
+export default LabelsField;
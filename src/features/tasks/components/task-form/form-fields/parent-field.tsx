@@ -0,0 +1,146 @@
+// External dependencies
+import React from "react";
+import { UseFormReturn } from "react-hook-form";
+import { Check } from "lucide-react";
+
+// Internal UI components
+import {
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { ComboBox } from "@/components/combo-box";
+import { CommandItem } from "@/components/ui/command";
+
+// Utilities and types
+import { cn } from "@/lib/utils";
+import { TaskFormData } from "../../../schema/add-task.schema";
+import { Task, useTasks } from "../../../queries/task.queries";
+
+// Number of candidate parents offered in the picker
+const PARENT_OPTIONS_LIMIT = 100;
+
+/**
+ * Props interface for the ParentField component
+ * @interface ParentFieldProps
+ */
+interface ParentFieldProps {
+  form: UseFormReturn<TaskFormData>;
+  projectId: string | null;
+  task?: Task;
+}
+
+/**
+ * ParentItem Component
+ * Renders a task key and title in a consistent format
+ *
+ * @component
+ */
+const ParentItem: React.FC<{ task: Pick<Task, "key" | "title"> }> = ({
+  task,
+}) => (
+  <div className="flex items-center gap-2" aria-label={task.title}>
+    <span className="font-mono text-xs text-stone-500">{task.key}</span>
+    <span className="truncate">{task.title}</span>
+  </div>
+);
+
+/**
+ * ParentField Component
+ * A form field for placing a task below an epic, story, task or bug
+ * of the same project
+ *
+ * @component
+ * @param {ParentFieldProps} props - Component props
+ */
+export const ParentField: React.FC<ParentFieldProps> = ({
+  form,
+  projectId,
+  task,
+}) => {
+  const type = form.watch("type");
+
+  // Subtasks cannot have child items, and epics only sit below non-epics
+  const { data, isLoading } = useTasks(PARENT_OPTIONS_LIMIT, 0, {
+    project: projectId ?? undefined,
+    type: type === "epic" ? "story,task,bug" : "epic,story,task,bug",
+  });
+
+  const candidates = (data?.tasks ?? []).filter(
+    (candidate) => candidate.id !== task?.id,
+  );
+
+  return (
+    <FormField
+      control={form.control}
+      name="parentId"
+      render={({ field }) => {
+        // The current parent may fall outside the first page of candidates
+        const selectedTask =
+          candidates.find((candidate) => candidate.id === field.value) ??
+          (task?.parentKey && field.value === task.parentId
+            ? { key: task.parentKey, title: task.parentTitle ?? "" }
+            : undefined);
+
+        return (
+          <FormItem>
+            <FormLabel htmlFor="parent-select">Parent</FormLabel>
+            <FormControl>
+              <ComboBox
+                isLoading={isLoading}
+                placeholder="Search parent..."
+                selectedItem={
+                  selectedTask ? (
+                    <ParentItem task={selectedTask} />
+                  ) : (
+                    "No parent"
+                  )
+                }
+              >
+                <CommandItem
+                  value="No parent"
+                  onSelect={() => field.onChange("")}
+                  className="cursor-pointer"
+                >
+                  <Check
+                    className={cn(
+                      "mr-2 h-4 w-4",
+                      !field.value ? "opacity-100" : "opacity-0",
+                    )}
+                    aria-hidden="true"
+                  />
+                  No parent
+                </CommandItem>
+                {candidates.map((candidate) => (
+                  <CommandItem
+                    key={candidate.id}
+                    value={`${candidate.key} ${candidate.title}`}
+                    onSelect={() => field.onChange(candidate.id)}
+                    aria-selected={field.value === candidate.id}
+                    className="cursor-pointer"
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        field.value === candidate.id
+                          ? "opacity-100"
+                          : "opacity-0",
+                      )}
+                      aria-hidden="true"
+                    />
+                    <ParentItem task={candidate} />
+                  </CommandItem>
+                ))}
+              </ComboBox>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        );
+      }}
+    />
+  );
+};
+
+export default ParentField;
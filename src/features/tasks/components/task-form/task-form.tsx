@@ -4,6 +4,7 @@
 import React from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { TriangleAlert } from "lucide-react";
 
 // Internal dependencies - UI Components
 import { Button } from "@/components/ui/button";
@@ -16,6 +17,8 @@ import { DescriptionField } from "./form-fields/description-field";
 import { SelectField } from "./form-fields/select-field";
 import { NumberField } from "./form-fields/number-field";
 import { DateField } from "./form-fields/date-field";
+import { ParentField } from "./form-fields/parent-field";
+import { LabelsField } from "./form-fields/labels-field";
 
 // Internal dependencies - Types & Schema
 import { TaskFormData, taskSchema } from "../../schema/add-task.schema";
@@ -23,10 +26,11 @@ import { taskPriorities, taskStatuses, taskTypes } from "../../types/filters";
 import type { Task } from "../../queries/task.queries";
 
 // Internal dependencies - Hooks & Store
-import { useAuthStore } from "@/stores/auth-store";
 import { useCreateTask, useUpdateTask } from "../../queries/task.queries";
+import { useOpenBlockers } from "../../queries/link.queries";
 import { useNewTask } from "../../hooks/use-new-task";
 import { useEditTask } from "../../hooks/use-edit-task";
+import { useProjectStore } from "@/stores/project-store";
 import {
   UserProfile,
   useUserProfiles,
@@ -49,9 +53,10 @@ function TaskForm({ task }: TaskFormProps) {
   // Hooks for managing task state and operations
   const { onClose } = useNewTask();
   const { onClose: onCloseUpdate } = useEditTask();
+  const { projectId } = useProjectStore();
+  const openBlockers = useOpenBlockers(task?.id ?? "");
   const { data: userProfiles, isLoading: userProfilesLoading } =
     useUserProfiles();
-  const { userProfile } = useAuthStore();
   const { mutate: createTask } = useCreateTask();
   const { mutate: updateTask } = useUpdateTask();
 
@@ -69,6 +74,8 @@ function TaskForm({ task }: TaskFormProps) {
       dueDate: task?.dueDate ? new Date(task.dueDate).toISOString() : undefined,
       timeEstimate: task?.timeEstimate || 0,
       timeSpent: task?.timeSpent || 0,
+      parentId: task?.parentId || "",
+      labelIds: task?.labels?.map((label) => label.id) ?? [],
     },
   });
 
@@ -80,15 +87,19 @@ function TaskForm({ task }: TaskFormProps) {
     try {
       const formTask = {
         ...data,
-        labels: data.type?.toString() || "",
+        parentId: data.parentId || null,
       };
       if (task) {
-        updateTask({ id: task.id, data: formTask });
-      } else {
+        // A cleared due date is sent as null, a missing one is kept
+        updateTask({
+          id: task.id,
+          data: { ...formTask, dueDate: formTask.dueDate ?? null },
+        });
+      } else if (projectId) {
         createTask({
           ...formTask,
+          projectId,
           type: formTask.type || "task",
-          reporterId: userProfile?.id,
         });
       }
 
@@ -115,7 +126,7 @@ function TaskForm({ task }: TaskFormProps) {
         aria-label={`${task ? "Edit" : "Create"} task form`}
       >
         <TitleField form={form} />
-        <DescriptionField form={form} />
+        <DescriptionField form={form} taskId={task?.id} />
 
         <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
           <AssigneeField
@@ -155,6 +166,12 @@ function TaskForm({ task }: TaskFormProps) {
             placeholder="Enter story points"
           />
 
+          <ParentField
+            form={form}
+            projectId={task?.projectId ?? projectId}
+            task={task}
+          />
+
           <DateField form={form} name="dueDate" label="Due Date" />
 
           <NumberField
@@ -172,8 +189,21 @@ function TaskForm({ task }: TaskFormProps) {
               placeholder="Enter time spent"
             />
           )}
+
+          <LabelsField form={form} projectId={task?.projectId ?? projectId} />
         </div>
 
+        {form.watch("status") === "done" && openBlockers.length > 0 && (
+          <p
+            className="flex items-center gap-2 text-sm font-medium text-amber-600"
+            role="alert"
+          >
+            <TriangleAlert className="size-4" aria-hidden="true" />
+            This item is still blocked by{" "}
+            {openBlockers.map((link) => link.key).join(", ")}
+          </p>
+        )}
+
         <div className="flex justify-end gap-2">
           <Button
             variant="outline"
@@ -0,0 +1,39 @@
+// External dependencies
+import React from "react";
+
+// Internal dependencies
+import { cn } from "@/lib/utils";
+import type { TaskLabel as Label } from "../queries/label.queries";
+
+// Types
+interface TaskLabelProps {
+  /** The label to display */
+  label: Pick<Label, "name" | "color">;
+  className?: string;
+}
+
+/**
+ * TaskLabel Component
+ * Displays a label as a pill tinted with the label's color
+ *
+ * @param {TaskLabelProps} props - Component properties
+ * @returns {JSX.Element} Rendered label
+ */
+export const TaskLabel: React.FC<TaskLabelProps> = ({ label, className }) => (
+  <span
+    className={cn(
+      "inline-flex w-fit items-center gap-1.5 rounded-md border px-2 py-0.5 text-xs font-medium text-stone-700",
+      className,
+    )}
+    style={{ borderColor: label.color, backgroundColor: `${label.color}1a` }}
+  >
+    <span
+      className="size-2 rounded-full"
+      style={{ backgroundColor: label.color }}
+      aria-hidden="true"
+    />
+    {label.name}
+  </span>
+);
+
+export default TaskLabel;
@@ -0,0 +1,256 @@
+// External dependencies
+import React, { useState } from "react";
+import Link from "next/link";
+import { Check, TriangleAlert, X } from "lucide-react";
+
+// Internal UI components
+import { Button } from "@/components/ui/button";
+import { CommandItem } from "@/components/ui/command";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ComboBox } from "@/components/combo-box";
+import { TaskType } from "./task-type";
+import { TaskStatus } from "./task-status";
+
+// Utilities and queries
+import { cn } from "@/lib/utils";
+import { useTasks } from "../queries/task.queries";
+import {
+  TaskLink,
+  useCreateTaskLink,
+  useDeleteTaskLink,
+  useOpenBlockers,
+  useTaskLinks,
+} from "../queries/link.queries";
+
+// Number of tasks offered in the picker
+const LINK_OPTIONS_LIMIT = 100;
+
+/**
+ * Link types as offered in the picker. Inward phrasings are stored as a
+ * link from the picked task to this one
+ */
+const LINK_OPTIONS: Array<{
+  value: string;
+  label: string;
+  type: TaskLink["type"];
+  inward: boolean;
+}> = [
+  { value: "blocks", label: "blocks", type: "blocks", inward: false },
+  {
+    value: "is_blocked_by",
+    label: "is blocked by",
+    type: "blocks",
+    inward: true,
+  },
+  {
+    value: "relates_to",
+    label: "relates to",
+    type: "relates_to",
+    inward: false,
+  },
+  {
+    value: "duplicates",
+    label: "duplicates",
+    type: "duplicates",
+    inward: false,
+  },
+  {
+    value: "is_duplicated_by",
+    label: "is duplicated by",
+    type: "duplicates",
+    inward: true,
+  },
+];
+
+/**
+ * Interface definitions
+ */
+interface TaskLinksProps {
+  taskId: string;
+  projectId: string;
+}
+
+/**
+ * LinkItem Component
+ * Renders a single linked task with a remove action
+ */
+const LinkItem: React.FC<{ link: TaskLink; onRemove: () => void }> = ({
+  link,
+  onRemove,
+}) => (
+  <li className="flex items-center gap-3 px-3 py-2">
+    <span className="w-28 shrink-0 text-xs text-stone-500">{link.label}</span>
+    <TaskType type={link.taskType} />
+    <Link
+      href={`/tasks/${link.taskId}`}
+      className="font-mono text-xs text-stone-500 hover:underline"
+    >
+      {link.key}
+    </Link>
+    <span className="flex-1 truncate text-sm text-stone-800">{link.title}</span>
+    <TaskStatus status={link.status} />
+    <Button
+      variant="ghost"
+      size="icon"
+      className="size-7"
+      onClick={onRemove}
+      aria-label={`Remove link to ${link.key}`}
+    >
+      <X className="size-4" aria-hidden="true" />
+    </Button>
+  </li>
+);
+
+/**
+ * TaskLinksView Component
+ * Lists the links of a task and lets the user add new ones
+ */
+export const TaskLinksView: React.FC<TaskLinksProps> = ({
+  taskId,
+  projectId,
+}) => {
+  const [linkOption, setLinkOption] = useState(LINK_OPTIONS[0].value);
+  const [targetTaskId, setTargetTaskId] = useState<string | null>(null);
+
+  const { data: links, isLoading } = useTaskLinks(taskId);
+  const openBlockers = useOpenBlockers(taskId);
+  const { data: taskList, isLoading: isTaskListLoading } = useTasks(
+    LINK_OPTIONS_LIMIT,
+    0,
+    { project: projectId },
+  );
+  const createLink = useCreateTaskLink();
+  const deleteLink = useDeleteTaskLink();
+
+  const candidates = (taskList?.tasks ?? []).filter(
+    (task) => task.id !== taskId,
+  );
+  const targetTask = candidates.find((task) => task.id === targetTaskId);
+
+  /**
+   * Creates the link in the direction of the selected phrasing
+   */
+  const handleAddLink = () => {
+    const option = LINK_OPTIONS.find((o) => o.value === linkOption);
+    if (!option || !targetTaskId) return;
+
+    createLink.mutate(
+      option.inward
+        ? {
+            taskId: targetTaskId,
+            link: { targetTaskId: taskId, type: option.type },
+          }
+        : { taskId, link: { targetTaskId, type: option.type } },
+      { onSuccess: () => setTargetTaskId(null) },
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-3">
+      {openBlockers.length > 0 && (
+        <p
+          className="flex items-center gap-2 text-sm font-medium text-amber-600"
+          role="status"
+        >
+          <TriangleAlert className="size-4" aria-hidden="true" />
+          Blocked by {openBlockers.map((link) => link.key).join(", ")}
+        </p>
+      )}
+
+      {isLoading ? (
+        <Skeleton className="h-10 w-full" />
+      ) : links && links.length > 0 ? (
+        <ul
+          className="divide-y divide-stone-200 rounded-md border border-stone-200"
+          aria-label="Linked items"
+        >
+          {links.map((link) => (
+            <LinkItem
+              key={link.id}
+              link={link}
+              onRemove={() => deleteLink.mutate({ id: link.id, taskId })}
+            />
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-stone-500">No linked items</p>
+      )}
+
+      {/* Add link */}
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <Select value={linkOption} onValueChange={setLinkOption}>
+          <SelectTrigger className="md:w-44" aria-label="Link type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {LINK_OPTIONS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex-1">
+          <ComboBox
+            isLoading={isTaskListLoading}
+            placeholder="Search task..."
+            selectedItem={
+              targetTask
+                ? `${targetTask.key} ${targetTask.title}`
+                : "Select task..."
+            }
+          >
+            {candidates.map((task) => (
+              <CommandItem
+                key={task.id}
+                value={`${task.key} ${task.title}`}
+                onSelect={() => setTargetTaskId(task.id)}
+                aria-selected={targetTaskId === task.id}
+                className="cursor-pointer"
+              >
+                <Check
+                  className={cn(
+                    "mr-2 h-4 w-4",
+                    targetTaskId === task.id ? "opacity-100" : "opacity-0",
+                  )}
+                  aria-hidden="true"
+                />
+                <span className="font-mono text-xs text-stone-500">
+                  {task.key}
+                </span>
+                <span className="truncate">{task.title}</span>
+              </CommandItem>
+            ))}
+          </ComboBox>
+        </div>
+        <Button
+          variant="outline"
+          onClick={handleAddLink}
+          disabled={!targetTaskId || createLink.isPending}
+          isLoading={createLink.isPending}
+        >
+          Link
+        </Button>
+      </div>
+
+      {createLink.error && (
+        <p
+          className="flex items-center gap-2 text-sm font-medium text-destructive"
+          role="alert"
+        >
+          <TriangleAlert className="size-4" aria-hidden="true" />
+          {createLink.error.message}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TaskLinksView;
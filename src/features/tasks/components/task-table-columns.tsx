@@ -1,7 +1,7 @@
 // External dependencies
 import { format } from 'date-fns';
 import { ColumnDef } from '@tanstack/react-table';
-import { Hash, Loader2, User } from 'lucide-react';
+import { Hash, Loader2, Paperclip, User } from 'lucide-react';
 
 // Internal dependencies - UI Components
 import { Checkbox } from '@/components/ui/checkbox';
@@ -11,6 +11,7 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { TaskStatus } from './task-status';
 import { TaskPriority } from './task-priority';
 import { TaskType } from './task-type';
+import { TaskLabel } from './task-label';
 import TaskActions from './task-actions';
 import { Task } from '../queries/task.queries';
 
@@ -79,6 +80,15 @@ export const taskColumns: ColumnDef<Task>[] = [
     minSize: 150,
   },
 
+  // Labels Column
+  {
+    header: 'Labels',
+    accessorKey: 'labels',
+    cell: ({ row }) => renderLabelsCell(row.original),
+    enableSorting: false,
+    minSize: 150,
+  },
+
   // Priority Column
   {
     header: 'Priority',
@@ -107,6 +117,15 @@ export const taskColumns: ColumnDef<Task>[] = [
     minSize: 100,
   },
 
+  // Attachments Column, hidden unless chosen in the column selection
+  {
+    header: 'Attachments',
+    accessorKey: 'attachmentCount',
+    cell: ({ row }) => renderAttachmentCountCell(row.original),
+    enableSorting: false,
+    minSize: 80,
+  },
+
   // Actions Column
   {
     header: '',
@@ -200,6 +219,25 @@ const renderAssigneeCell = (task: Task) => {
   );
 };
 
+const renderLabelsCell = (task: Task) => (
+  <div className="flex min-w-[150px] flex-wrap gap-1" role="cell">
+    {task.labels?.map((label) => (
+      <TaskLabel key={label.id} label={label} />
+    ))}
+  </div>
+);
+
+const renderAttachmentCountCell = (task: Task) => (
+  <span
+    className="flex min-w-[80px] items-center gap-1 text-sm text-stone-600"
+    role="cell"
+    aria-label={`${task.attachmentCount ?? 0} attachments`}
+  >
+    <Paperclip className="size-3" aria-hidden="true" />
+    {task.attachmentCount ?? 0}
+  </span>
+);
+
 const renderDateCell = (date: Date | string | null, allowEmpty = false) => (
   <span className="min-w-[100px] text-sm font-medium" role="cell">
     {date
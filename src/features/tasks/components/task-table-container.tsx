@@ -3,11 +3,12 @@
 // External dependencies
 import React, { useState } from "react";
 import {
-  DownloadIcon,
+  EyeIcon,
   FilterIcon,
   PlusIcon,
   TrashIcon,
   TriangleAlert,
+  UploadIcon,
 } from "lucide-react";
 
 // Internal dependencies - UI Components
@@ -20,11 +21,18 @@ import { TablePagination } from "./task-pagination";
 import { TaskSearch } from "./task-search";
 import { TaskTable } from "./task-table";
 import TaskFilter from "./task-filter";
+import { TaskExportMenu } from "./task-export-menu";
+import { TaskBulkEditMenu } from "./task-bulk-edit-menu";
+import { ProjectSwitcher } from "@/features/projects/components/project-switcher";
 
 // Internal dependencies - Hooks & Utils
 import { useNewTask } from "../hooks/use-new-task";
+import { useImportTasks } from "../hooks/use-import-tasks";
 import { Task, useBulkDeleteTask } from "../queries/task.queries";
 import { useConfirm } from "@/hooks/use-confirm";
+import { useProjectStore } from "@/stores/project-store";
+import { useAuthStore } from "@/stores/auth-store";
+import { useTaskFiltersStore } from "@/stores/task-filters-store";
 import { cn } from "@/lib/utils";
 import {
   Tooltip,
@@ -51,6 +59,8 @@ export const TaskTableContainer: React.FC<TaskTableContainerProps> = ({
 }) => {
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const { onOpen } = useNewTask();
+  const { onOpen: onOpenImport } = useImportTasks();
+  const { projectId } = useProjectStore();
   const { mutate: deleteTasks } = useBulkDeleteTask();
   const [ConfirmationDialog, confirm] = useConfirm({
     title: "Are you sure?",
@@ -69,6 +79,8 @@ export const TaskTableContainer: React.FC<TaskTableContainerProps> = ({
             <>
               <TableToolbar
                 onOpen={onOpen}
+                onOpenImport={onOpenImport}
+                canAddTask={!!projectId}
                 selectedTask={selectedTask}
                 selectedTasks={selectedTasks}
                 isFilterOpen={isFilterOpen}
@@ -110,6 +122,8 @@ export const TaskTableContainer: React.FC<TaskTableContainerProps> = ({
 // Subcomponents
 interface TableToolbarProps {
   onOpen: () => void;
+  onOpenImport: () => void;
+  canAddTask: boolean;
   selectedTask: Task | null;
   selectedTasks: any[];
   isFilterOpen: boolean;
@@ -124,6 +138,8 @@ interface TableToolbarProps {
  */
 const TableToolbar: React.FC<TableToolbarProps> = ({
   onOpen,
+  onOpenImport,
+  canAddTask,
   selectedTask,
   selectedTasks,
   isFilterOpen,
@@ -133,12 +149,14 @@ const TableToolbar: React.FC<TableToolbarProps> = ({
 }) => (
   <div className="mb-4 flex flex-col items-start justify-between gap-4 md:flex-row">
     <div className="flex w-full items-center gap-2">
+      <ProjectSwitcher />
       <Tooltip>
         <TooltipTrigger asChild>
           <Button
             variant="outline"
             className="flex items-center gap-2"
             onClick={onOpen}
+            disabled={!canAddTask}
             aria-label="Add new task"
           >
             <PlusIcon className="h-4 w-4" aria-hidden="true" />
@@ -147,12 +165,38 @@ const TableToolbar: React.FC<TableToolbarProps> = ({
         </TooltipTrigger>
         <TooltipContent>Add new task</TooltipContent>
       </Tooltip>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="outline"
+            className="flex items-center gap-2"
+            onClick={onOpenImport}
+            disabled={!canAddTask}
+            aria-label="Import tasks from CSV"
+          >
+            <UploadIcon className="h-4 w-4" aria-hidden="true" />
+            <span className="hidden md:block">Import</span>
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>Import tasks from CSV</TooltipContent>
+      </Tooltip>
       <TaskSearch />
     </div>
     <div className="flex w-full items-center justify-end gap-2">
+      <div>
+        <TaskBulkEditMenu table={table} />
+      </div>
       <div>
         <DeleteButton selectedTasks={selectedTasks} onDelete={onDeleteTasks} />
       </div>
+      <div>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <WatchingButton />
+          </TooltipTrigger>
+          <TooltipContent>Show only the tasks you watch</TooltipContent>
+        </Tooltip>
+      </div>
       <div>
         <Tooltip>
           <TooltipTrigger asChild>
@@ -173,14 +217,16 @@ const TableToolbar: React.FC<TableToolbarProps> = ({
           <TooltipContent>Show/hide columns</TooltipContent>
         </Tooltip>
       </div>
-      <div>
-        <Tooltip>
-          <TooltipTrigger asChild>
-            <ExportButton selectedTask={selectedTask} />
-          </TooltipTrigger>
-          <TooltipContent>Coming soon</TooltipContent>
-        </Tooltip>
-      </div>
+      {!selectedTask && (
+        <div>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <TaskExportMenu table={table} />
+            </TooltipTrigger>
+            <TooltipContent>Export tasks</TooltipContent>
+          </Tooltip>
+        </div>
+      )}
     </div>
   </div>
 );
@@ -262,19 +308,32 @@ const FilterButton: React.FC<{
   </Button>
 );
 
-const ExportButton: React.FC<{ selectedTask: Task | null }> = ({
-  selectedTask,
-}) =>
-  !selectedTask ? (
+/**
+ * WatchingButton Component
+ * Quick filter toggling the list to the tasks the user watches
+ */
+const WatchingButton: React.FC = () => {
+  const { userProfile } = useAuthStore();
+  const { appliedFilters, setWatcher } = useTaskFiltersStore();
+  const isWatching = !!appliedFilters?.watcher;
+
+  return (
     <Button
       variant="outline"
-      className="flex items-center gap-2"
-      aria-label="Export tasks"
+      className={cn(
+        "flex items-center gap-2",
+        isWatching && "bg-stone-100 text-stone-900",
+      )}
+      onClick={() => setWatcher(isWatching ? undefined : userProfile?.id)}
+      disabled={!userProfile}
+      aria-pressed={isWatching}
+      aria-label="Show only watched tasks"
     >
-      <DownloadIcon className="h-4 w-4" aria-hidden="true" />
-      <span className="hidden md:block">Export</span>
+      <EyeIcon className="size-4" aria-hidden="true" />
+      <span className="hidden md:block">Watching</span>
     </Button>
-  ) : null;
+  );
+};
 
 const ErrorMessage: React.FC = () => (
   <div
@@ -17,6 +17,7 @@ import {
 import { taskColumns } from "./task-table-columns";
 import { Task, useTasks } from "../queries/task.queries";
 import { useTaskFiltersStore } from "@/stores/task-filters-store";
+import { useProjectStore } from "@/stores/project-store";
 
 // Internal dependencies - Constants
 import { DEFAULT_PAGE_SIZE } from "@/constants";
@@ -54,6 +55,7 @@ export const TableInstance: React.FC<TableInstanceProps> = ({
   });
 
   const { appliedFilters } = useTaskFiltersStore();
+  const { projectId } = useProjectStore();
 
   /**
    * Fetch tasks with current pagination and sorting
@@ -63,6 +65,7 @@ export const TableInstance: React.FC<TableInstanceProps> = ({
     pagination.pageIndex * pagination.pageSize,
     {
       ...appliedFilters,
+      project: projectId ?? undefined,
       order:
         sorting.length > 0 ? (sorting[0].desc ? "desc" : "asc") : undefined,
       sort: sorting.length > 0 ? sorting[0].id : undefined,
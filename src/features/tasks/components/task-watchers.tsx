@@ -0,0 +1,121 @@
+// External dependencies
+import React from "react";
+import { Eye, EyeOff } from "lucide-react";
+
+// Internal UI components
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+
+// Stores and queries
+import { useAuthStore } from "@/stores/auth-store";
+import {
+  useTaskWatchers,
+  useToggleWatchTask,
+} from "../queries/watcher.queries";
+
+// Avatars shown before the rest is summarised as "+n"
+const MAX_SHOWN_WATCHERS = 5;
+
+/**
+ * Interface definitions
+ */
+interface TaskWatchersProps {
+  taskId: string;
+}
+
+/**
+ * TaskWatchersView Component
+ * Stack of the users watching a task, with a watch/unwatch toggle for the
+ * signed-in user
+ */
+export const TaskWatchersView: React.FC<TaskWatchersProps> = ({ taskId }) => {
+  const { userProfile } = useAuthStore();
+  const { data: watchers, isLoading } = useTaskWatchers(taskId);
+  const toggleWatch = useToggleWatchTask();
+
+  if (isLoading) {
+    return <Skeleton className="h-6 w-24" />;
+  }
+
+  const watcherList = watchers ?? [];
+  const isWatching = watcherList.some((user) => user.id === userProfile?.id);
+  const hiddenCount = watcherList.length - MAX_SHOWN_WATCHERS;
+
+  /**
+   * Watches or stops watching the task as the signed-in user
+   */
+  const handleToggle = () => {
+    if (!userProfile) return;
+
+    toggleWatch.mutate({
+      taskId,
+      watch: !isWatching,
+      watcher: {
+        id: userProfile.id,
+        name: userProfile.name,
+        avatarUrl: userProfile.avatarUrl ?? null,
+      },
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      {watcherList.length > 0 ? (
+        <ul className="flex -space-x-2" aria-label="Watchers">
+          {watcherList.slice(0, MAX_SHOWN_WATCHERS).map((user) => (
+            <li key={user.id}>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <Avatar className="size-6 ring-2 ring-white">
+                    <AvatarImage
+                      src={user.avatarUrl || ""}
+                      alt={`${user.name}'s avatar`}
+                      className="size-6 object-cover"
+                    />
+                    <AvatarFallback className="text-xs">
+                      {user.name.charAt(0)}
+                    </AvatarFallback>
+                  </Avatar>
+                </TooltipTrigger>
+                <TooltipContent>{user.name}</TooltipContent>
+              </Tooltip>
+            </li>
+          ))}
+          {hiddenCount > 0 && (
+            <li
+              className="flex size-6 items-center justify-center rounded-full bg-stone-100 text-xs text-stone-600 ring-2 ring-white"
+              aria-label={`${hiddenCount} more watchers`}
+            >
+              +{hiddenCount}
+            </li>
+          )}
+        </ul>
+      ) : (
+        <span className="text-base text-stone-800">No watchers</span>
+      )}
+      <Button
+        variant="outline"
+        size="sm"
+        className="flex items-center gap-2"
+        onClick={handleToggle}
+        disabled={!userProfile || toggleWatch.isPending}
+        aria-pressed={isWatching}
+      >
+        {isWatching ? (
+          <EyeOff className="size-4" aria-hidden="true" />
+        ) : (
+          <Eye className="size-4" aria-hidden="true" />
+        )}
+        {isWatching ? "Unwatch" : "Watch"}
+      </Button>
+    </div>
+  );
+};
+
+export default TaskWatchersView;
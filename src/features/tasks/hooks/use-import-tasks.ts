@@ -0,0 +1,41 @@
+// External dependencies
+import { create } from "zustand";
+
+/**
+ * Interface for the Import Tasks State
+ * @interface ImportTasksState
+ * @property {boolean} isOpen - Flag indicating if the import sheet is open
+ * @property {function} onOpen - Function to open the import sheet
+ * @property {function} onClose - Function to close the import sheet
+ */
+interface ImportTasksState {
+  isOpen: boolean;
+  onOpen: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Custom hook for managing the import sheet state
+ * Uses Zustand for state management
+ *
+ * @example
+ * ```typescript
+ * const { isOpen, onOpen, onClose } = useImportTasks();
+ * ```
+ */
+export const useImportTasks = create<ImportTasksState>((set) => ({
+  isOpen: false,
+
+  /**
+   * Opens the import sheet
+   */
+  onOpen: () => set({ isOpen: true }),
+
+  /**
+   * Closes the import sheet
+   */
+  onClose: () => set({ isOpen: false }),
+}));
+
+// Default export for cleaner imports
+export default useImportTasks;
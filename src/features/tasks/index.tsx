@@ -23,6 +23,7 @@ const COLUMN_CONFIGS = {
     "type",
     "status",
     "assigneeName",
+    "labels",
     "priority",
     "createdAt",
     "dueDate",
@@ -0,0 +1,62 @@
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { client } from "@/lib/hono";
+import { taskActivitySchema } from "@/database/schemas/task.schema";
+
+/**
+ * Query key factory for task activity-related queries
+ */
+export const taskActivityKeys = {
+  all: ["taskActivity"] as const,
+  lists: (taskId: string) => [...taskActivityKeys.all, "list", taskId] as const,
+};
+
+/**
+ * Helper function to handle API errors
+ * @param error - The error object caught in the try-catch block
+ * @throws {Error} - Throws an error with a descriptive message
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred");
+};
+
+/**
+ * Hook to fetch the activity history of a task
+ * @param taskId - The ID of the task
+ * @returns {UseQueryResult} - The query result containing task activity data
+ */
+export const useTaskActivity = (taskId: string) => {
+  return useQuery({
+    queryKey: taskActivityKeys.lists(taskId),
+    enabled: !!taskId,
+    queryFn: async () => {
+      try {
+        const response = await client.api.tasks[":id"].activity.$get({
+          param: { id: taskId },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching task activity");
+        }
+
+        const data = (await response.json()) as TaskActivity[];
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+// Export types for use in components
+export type TaskActivity = Omit<
+  z.infer<typeof taskActivitySchema>,
+  "createdAt"
+> & {
+  createdAt: string;
+  actorName: string | null;
+  actorAvatarUrl: string | null;
+};
@@ -1,13 +1,24 @@
-import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useEffect } from "react";
+import {
+  InfiniteData,
+  QueryClient,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { z } from "zod";
-import { client } from "@/lib/hono";
+import { client, clientId } from "@/lib/hono";
 import {
+  commentReactionEmojis,
   insertTaskCommentSchema,
   updateTaskCommentSchema,
   taskCommentSchema,
 } from "@/database/schemas/task.schema";
 import { useAuthStore } from "@/stores/auth-store";
+import { taskWatcherKeys } from "./watcher.queries";
 import { v4 as uuidv4 } from "uuid";
+import { COMMENTS_PAGE_SIZE } from "@/constants";
 
 /**
  * Query key factory for task comment-related queries
@@ -17,6 +28,8 @@ const taskCommentKeys = {
   lists: (taskId: string) => [...taskCommentKeys.all, "list", taskId] as const,
   details: () => [...taskCommentKeys.all, "detail"] as const,
   detail: (id: string) => [...taskCommentKeys.details(), id] as const,
+  revisions: (id: string) =>
+    [...taskCommentKeys.detail(id), "revisions"] as const,
 };
 
 /**
@@ -32,36 +45,100 @@ const handleApiError = (error: unknown): never => {
 };
 
 /**
- * Hook to fetch all task comments
- * @param limit - Optional limit for the number of comments to fetch
- * @param offset - Optional offset for pagination
- * @param taskId - Optional task ID to filter comments
- * @returns {UseQueryResult} - The query result containing task comment data
+ * Applies an update to the comments of every loaded page of a task
+ * @param queryClient - The query client holding the pages
+ * @param taskId - The ID of the task
+ * @param update - Returns the new comments of a page, given its index
  */
-export const useTaskComments = (taskId: string) => {
-  return useQuery({
+const updateCommentPages = (
+  queryClient: QueryClient,
+  taskId: string,
+  update: (comments: TaskComment[], pageIndex: number) => TaskComment[],
+) => {
+  queryClient.setQueryData<InfiniteData<TaskCommentPage>>(
+    taskCommentKeys.lists(taskId),
+    (old) =>
+      old && {
+        ...old,
+        pages: old.pages.map((page, index) => ({
+          ...page,
+          comments: update(page.comments, index),
+        })),
+      },
+  );
+};
+
+/**
+ * Hook to fetch the comment threads of a task page by page, newest first
+ * @param taskId - The ID of the task
+ * @returns {UseInfiniteQueryResult} - The query result, each page holding
+ * threads with their replies
+ */
+export const useInfiniteTaskComments = (taskId: string) => {
+  return useInfiniteQuery({
     queryKey: taskCommentKeys.lists(taskId),
-    queryFn: async () => {
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage: TaskCommentPage) =>
+      lastPage.nextCursor ?? undefined,
+    queryFn: async ({ pageParam }): Promise<TaskCommentPage> => {
       try {
         const response = await client.api["task-comments"][":taskId"].$get({
           param: { taskId },
+          query: {
+            before: pageParam,
+            limit: COMMENTS_PAGE_SIZE.toString(),
+          },
         });
 
         if (!response.ok) {
           throw new Error("Error in fetching task comments");
         }
 
-        const data = (await response.json()) as TaskComment[];
+        const data = (await response.json()) as TaskCommentPage;
         return data;
       } catch (error) {
-        handleApiError(error);
+        return handleApiError(error);
       }
     },
   });
 };
 
 /**
- * Hook to create a new task comment
+ * Hook to keep the comments of a task up to date while it is open
+ * Listens to the comment events of the task and refetches the loaded
+ * pages when another user changes them
+ * @param taskId - The ID of the task
+ */
+export const useTaskCommentsStream = (taskId: string) => {
+  const queryClient = useQueryClient();
+  const { userProfile } = useAuthStore();
+  const userId = userProfile?.id;
+
+  useEffect(() => {
+    if (!taskId || !userId) return;
+
+    const url = client.api["task-comments"][":taskId"].stream.$url({
+      param: { taskId },
+    });
+    const source = new EventSource(url, { withCredentials: true });
+
+    source.addEventListener("comment", (message) => {
+      const event = JSON.parse(message.data) as TaskCommentEvent;
+
+      // The changes of this tab are already shown
+      if (event.clientId === clientId) return;
+
+      queryClient.invalidateQueries({
+        queryKey: taskCommentKeys.lists(taskId),
+      });
+    });
+
+    return () => source.close();
+  }, [queryClient, taskId, userId]);
+};
+
+/**
+ * Hook to create a new task comment, or a reply to one
  * @returns {UseMutationResult} - The mutation result for creating a task comment
  */
 export const useCreateTaskComment = () => {
@@ -98,14 +175,15 @@ export const useCreateTaskComment = () => {
       });
 
       // Snapshot the previous value
-      const previousComments = queryClient.getQueryData<TaskComment[]>(
-        taskCommentKeys.lists(newComment.taskId),
-      );
+      const previousComments = queryClient.getQueryData<
+        InfiniteData<TaskCommentPage>
+      >(taskCommentKeys.lists(newComment.taskId));
 
-      // Optimistically update the comments list
+      // Optimistically add the comment, or reply, to the first page
       const optimisticComment: TaskComment = {
         ...newComment,
         id: uuidv4(),
+        parentCommentId: newComment.parentCommentId ?? null,
         taskId: newComment.taskId,
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -113,13 +191,14 @@ export const useCreateTaskComment = () => {
         userId: userProfile?.id,
         authorName: userProfile?.name ?? null,
         authorAvatarUrl: userProfile?.avatarUrl ?? null,
+        revisionCount: 0,
+        reactions: [],
         isDeleted: false,
         deletedAt: null,
       };
 
-      queryClient.setQueryData<TaskComment[]>(
-        taskCommentKeys.lists(newComment.taskId),
-        (old = []) => [optimisticComment, ...old],
+      updateCommentPages(queryClient, newComment.taskId, (comments, index) =>
+        index === 0 ? [optimisticComment, ...comments] : comments,
       );
 
       // Return context with the previous comments
@@ -139,6 +218,217 @@ export const useCreateTaskComment = () => {
       queryClient.invalidateQueries({
         queryKey: taskCommentKeys.lists(variables.taskId),
       });
+      // Commenting, or mentioning someone, adds watchers to the task
+      queryClient.invalidateQueries({
+        queryKey: taskWatcherKeys.lists(variables.taskId),
+      });
+    },
+  });
+};
+
+/**
+ * Hook to fetch the previous versions of an edited comment
+ * @param id - The ID of the comment
+ * @param enabled - Whether to fetch them, e.g. once the history is opened
+ * @returns {UseQueryResult} - The query result containing the revisions
+ */
+export const useTaskCommentRevisions = (id: string, enabled = true) => {
+  return useQuery({
+    queryKey: taskCommentKeys.revisions(id),
+    enabled: !!id && enabled,
+    queryFn: async () => {
+      try {
+        const response = await client.api["task-comments"][
+          ":id"
+        ].revisions.$get({
+          param: { id },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching comment history");
+        }
+
+        const data = (await response.json()) as TaskCommentRevision[];
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to update the content of a task comment
+ * Provides optimistic updates and error handling
+ * @returns {UseMutationResult} - The mutation result for updating a comment
+ */
+export const useUpdateTaskComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      content,
+    }: {
+      id: string;
+      taskId: string;
+      content: string;
+    }) => {
+      try {
+        const response = await client.api["task-comments"][":id"].$patch({
+          param: { id },
+          json: { content },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in updating task comment");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+    onMutate: async ({ id, taskId, content }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({
+        queryKey: taskCommentKeys.lists(taskId),
+      });
+
+      // Snapshot the previous value
+      const previousComments = queryClient.getQueryData<
+        InfiniteData<TaskCommentPage>
+      >(taskCommentKeys.lists(taskId));
+
+      // Optimistically replace the content, the old one becoming a revision
+      updateCommentPages(queryClient, taskId, (comments) =>
+        comments.map((comment) =>
+          comment.id === id && comment.content !== content
+            ? {
+                ...comment,
+                content,
+                updatedAt: new Date(),
+                revisionCount: comment.revisionCount + 1,
+              }
+            : comment,
+        ),
+      );
+
+      return { previousComments };
+    },
+    onError: (_, { taskId }, context) => {
+      // If the mutation fails, roll back to the previous value
+      if (context?.previousComments) {
+        queryClient.setQueryData(
+          taskCommentKeys.lists(taskId),
+          context.previousComments,
+        );
+      }
+    },
+    onSettled: (_, __, { id, taskId }) => {
+      queryClient.invalidateQueries({
+        queryKey: taskCommentKeys.lists(taskId),
+      });
+      queryClient.invalidateQueries({
+        queryKey: taskCommentKeys.revisions(id),
+      });
+      // Mentioning someone new adds them as a watcher
+      queryClient.invalidateQueries({
+        queryKey: taskWatcherKeys.lists(taskId),
+      });
+    },
+  });
+};
+
+/**
+ * Hook to add or remove the user's reaction with an emoji to a comment
+ * Provides optimistic updates and error handling
+ * @returns {UseMutationResult} - The mutation result for toggling a reaction
+ */
+export const useToggleCommentReaction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      emoji,
+    }: {
+      id: string;
+      taskId: string;
+      emoji: CommentReactionEmoji;
+    }) => {
+      try {
+        const response = await client.api["task-comments"][
+          ":id"
+        ].reactions.$post({ param: { id }, json: { emoji } });
+
+        if (!response.ok) {
+          throw new Error("Error in updating comment reaction");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+    onMutate: async ({ id, taskId, emoji }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({
+        queryKey: taskCommentKeys.lists(taskId),
+      });
+
+      // Snapshot the previous value
+      const previousComments = queryClient.getQueryData<
+        InfiniteData<TaskCommentPage>
+      >(taskCommentKeys.lists(taskId));
+
+      // Optimistically count the user in or out of the reaction, as the
+      // server toggles it
+      const toggle = (reactions: CommentReaction[]) => {
+        const reaction = reactions.find((item) => item.emoji === emoji);
+
+        if (!reaction) {
+          return [...reactions, { emoji, count: 1, reacted: true }];
+        }
+
+        return reactions
+          .map((item) =>
+            item.emoji === emoji
+              ? {
+                  ...item,
+                  count: item.count + (item.reacted ? -1 : 1),
+                  reacted: !item.reacted,
+                }
+              : item,
+          )
+          .filter((item) => item.count > 0);
+      };
+
+      updateCommentPages(queryClient, taskId, (comments) =>
+        comments.map((comment) =>
+          comment.id === id
+            ? { ...comment, reactions: toggle(comment.reactions) }
+            : comment,
+        ),
+      );
+
+      return { previousComments };
+    },
+    onError: (_, { taskId }, context) => {
+      // If the mutation fails, roll back to the previous value
+      if (context?.previousComments) {
+        queryClient.setQueryData(
+          taskCommentKeys.lists(taskId),
+          context.previousComments,
+        );
+      }
+    },
+    onSettled: (_, __, { taskId }) => {
+      queryClient.invalidateQueries({
+        queryKey: taskCommentKeys.lists(taskId),
+      });
     },
   });
 };
@@ -171,22 +461,18 @@ export const useDeleteTaskComment = () => {
       });
 
       // Snapshot the previous value
-      const previousComments = queryClient.getQueryData<TaskComment[]>(
-        taskCommentKeys.lists(taskId),
-      );
+      const previousComments = queryClient.getQueryData<
+        InfiniteData<TaskCommentPage>
+      >(taskCommentKeys.lists(taskId));
 
       // Optimistically update to mark the comment as deleted
-      if (previousComments) {
-        queryClient.setQueryData<TaskComment[]>(
-          taskCommentKeys.lists(taskId),
-          (old = []) =>
-            old.map((comment) =>
-              comment.id === id
-                ? { ...comment, isDeleted: true, deletedAt: new Date() }
-                : comment,
-            ),
-        );
-      }
+      updateCommentPages(queryClient, taskId, (comments) =>
+        comments.map((comment) =>
+          comment.id === id
+            ? { ...comment, isDeleted: true, deletedAt: new Date() }
+            : comment,
+        ),
+      );
 
       // Return context with the previous comments
       return { previousComments };
@@ -210,9 +496,33 @@ export const useDeleteTaskComment = () => {
 };
 
 // Export types for use in components
+export type CommentReactionEmoji = (typeof commentReactionEmojis)[number];
+export type CommentReaction = {
+  emoji: string;
+  count: number;
+  reacted: boolean;
+};
 export type TaskComment = z.infer<typeof taskCommentSchema> & {
   authorName: string | null;
   authorAvatarUrl: string | null;
+  revisionCount: number;
+  reactions: CommentReaction[];
+};
+export type TaskCommentPage = {
+  comments: TaskComment[];
+  nextCursor: string | null; // Cursor of the next, older page
+};
+export type TaskCommentEvent = {
+  type: "created" | "updated" | "deleted" | "reacted";
+  commentId: string;
+  actorId: string;
+  clientId?: string;
+};
+export type TaskCommentRevision = {
+  id: string;
+  content: string;
+  createdAt: string;
+  replacedAt: string;
 };
 export type NewTaskComment = z.infer<typeof insertTaskCommentSchema>;
 export type UpdateTaskComment = z.infer<typeof updateTaskCommentSchema>;
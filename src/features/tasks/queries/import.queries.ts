@@ -0,0 +1,57 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { client } from "@/lib/hono";
+import {
+  importTasksSchema,
+  taskImportFields,
+} from "@/database/schemas/task.schema";
+import { taskKeys } from "./task.queries";
+import { toast } from "@/hooks/use-toast";
+
+/**
+ * Hook to import tasks from a CSV file
+ * Dry runs and rejected imports resolve with the per-row errors,
+ * other failures surface the server message
+ * @returns {UseMutationResult} - The mutation result for the import
+ */
+export const useTaskImport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      taskImport: z.input<typeof importTasksSchema>,
+    ): Promise<TaskImportResult> => {
+      const response = await client.api.tasks.import.$post({
+        json: taskImport,
+      });
+      const data = await response.json();
+
+      if ("error" in data) {
+        throw new Error(data.error ?? "Error in importing tasks");
+      }
+
+      return data;
+    },
+    onSuccess: (result) => {
+      if (result.dryRun) return;
+
+      toast({
+        title: `${result.imported} tasks have been imported.`,
+      });
+
+      // Refetch every list and board showing the project
+      queryClient.invalidateQueries({ queryKey: taskKeys.allLists() });
+    },
+  });
+};
+
+// Export types for use in components
+export type TaskImportField = (typeof taskImportFields)[number];
+export type TaskImportMapping = Partial<Record<TaskImportField, number>>;
+export type TaskImportResult = {
+  dryRun: boolean;
+  total: number;
+  valid: number;
+  imported: number;
+  errors: { row: number; field?: TaskImportField; message: string }[];
+};
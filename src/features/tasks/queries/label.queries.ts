@@ -0,0 +1,84 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { client } from "@/lib/hono";
+import { insertLabelSchema, labelSchema } from "@/database/schemas/task.schema";
+
+/**
+ * Query key factory for label-related queries
+ */
+export const labelKeys = {
+  all: ["labels"] as const,
+  lists: (projectId: string) => [...labelKeys.all, "list", projectId] as const,
+};
+
+/**
+ * Helper function to handle API errors
+ * @param error - The error object caught in the try-catch block
+ * @throws {Error} - Throws an error with a descriptive message
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred");
+};
+
+/**
+ * Hook to fetch the labels of a project
+ * @param projectId - The ID of the project
+ * @returns {UseQueryResult} - The query result containing the labels
+ */
+export const useLabels = (projectId: string | null) => {
+  return useQuery({
+    queryKey: labelKeys.lists(projectId ?? ""),
+    enabled: !!projectId,
+    queryFn: async (): Promise<TaskLabel[]> => {
+      try {
+        const response = await client.api.labels.$get({
+          query: { project: projectId ?? "" },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching labels");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        return handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to create a label in a project
+ * A name already used in the project surfaces the server message
+ * @returns {UseMutationResult} - The mutation result for creating a label
+ */
+export const useCreateLabel = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (newLabel: NewLabel): Promise<TaskLabel> => {
+      const response = await client.api.labels.$post({ json: newLabel });
+
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        throw new Error(error ?? "Error in creating label");
+      }
+
+      return await response.json();
+    },
+    onSettled: (_, __, { projectId }) => {
+      queryClient.invalidateQueries({ queryKey: labelKeys.lists(projectId) });
+    },
+  });
+};
+
+// Export types for use in components
+export type NewLabel = z.infer<typeof insertLabelSchema>;
+export type TaskLabel = Pick<
+  z.infer<typeof labelSchema>,
+  "id" | "name" | "color"
+>;
@@ -0,0 +1,184 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { z } from "zod";
+import { client } from "@/lib/hono";
+import {
+  insertTaskLinkSchema,
+  taskLinkTypes,
+  taskStatuses,
+  taskTypes,
+} from "@/database/schemas/task.schema";
+
+/**
+ * Query key factory for task link-related queries
+ */
+export const taskLinkKeys = {
+  all: ["taskLinks"] as const,
+  lists: (taskId: string) => [...taskLinkKeys.all, "list", taskId] as const,
+};
+
+/**
+ * Helper function to handle API errors
+ * @param error - The error object caught in the try-catch block
+ * @throws {Error} - Throws an error with a descriptive message
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred");
+};
+
+/**
+ * Hook to fetch the links of a task
+ * @param taskId - The ID of the task
+ * @returns {UseQueryResult} - The query result containing the task links
+ */
+export const useTaskLinks = (taskId: string) => {
+  return useQuery({
+    queryKey: taskLinkKeys.lists(taskId),
+    enabled: !!taskId,
+    queryFn: async () => {
+      try {
+        const response = await client.api.tasks[":id"].links.$get({
+          param: { id: taskId },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching task links");
+        }
+
+        const data = (await response.json()) as TaskLink[];
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to list the unfinished tasks that block a task
+ * @param taskId - The ID of the blocked task
+ * @returns {TaskLink[]} - Links to the blockers that are not done or closed
+ */
+export const useOpenBlockers = (taskId: string) => {
+  const { data: links } = useTaskLinks(taskId);
+
+  return (links ?? []).filter(
+    (link) =>
+      link.type === "blocks" &&
+      link.direction === "inward" &&
+      link.status !== "done" &&
+      link.status !== "closed",
+  );
+};
+
+/**
+ * Hook to link a task to another task
+ * Rejected links (duplicates, blocking cycles) surface the server message
+ * @returns {UseMutationResult} - The mutation result for creating a link
+ */
+export const useCreateTaskLink = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      taskId,
+      link,
+    }: {
+      taskId: string;
+      link: NewTaskLink;
+    }) => {
+      const response = await client.api.tasks[":id"].links.$post({
+        param: { id: taskId },
+        json: link,
+      });
+
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        throw new Error(error ?? "Error in linking tasks");
+      }
+
+      return await response.json();
+    },
+    onSettled: (_, __, { taskId, link }) => {
+      // Both ends of the link show it
+      queryClient.invalidateQueries({ queryKey: taskLinkKeys.lists(taskId) });
+      queryClient.invalidateQueries({
+        queryKey: taskLinkKeys.lists(link.targetTaskId),
+      });
+    },
+  });
+};
+
+/**
+ * Hook to remove a task link
+ * Provides optimistic updates and error handling
+ * @returns {UseMutationResult} - The mutation result for deleting a link
+ */
+export const useDeleteTaskLink = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, taskId }: { id: string; taskId: string }) => {
+      try {
+        const response = await client.api.tasks[":id"].links[":linkId"].$delete(
+          {
+            param: { id: taskId, linkId: id },
+          },
+        );
+
+        if (!response.ok) {
+          throw new Error("Error in deleting task link");
+        }
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+    onMutate: async ({ id, taskId }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({ queryKey: taskLinkKeys.lists(taskId) });
+
+      // Snapshot the previous value
+      const previousLinks = queryClient.getQueryData<TaskLink[]>(
+        taskLinkKeys.lists(taskId),
+      );
+
+      // Optimistically remove the link
+      queryClient.setQueryData<TaskLink[]>(
+        taskLinkKeys.lists(taskId),
+        (old = []) => old.filter((link) => link.id !== id),
+      );
+
+      return { previousLinks };
+    },
+    onError: (_, { taskId }, context) => {
+      // If the mutation fails, roll back to the previous value
+      if (context?.previousLinks) {
+        queryClient.setQueryData(
+          taskLinkKeys.lists(taskId),
+          context.previousLinks,
+        );
+      }
+    },
+    onSettled: () => {
+      // The other end of the link is refetched as well
+      queryClient.invalidateQueries({ queryKey: taskLinkKeys.all });
+    },
+  });
+};
+
+// Export types for use in components
+export type NewTaskLink = z.infer<typeof insertTaskLinkSchema>;
+export type TaskLink = {
+  id: string;
+  type: (typeof taskLinkTypes.enumValues)[number];
+  direction: "outward" | "inward";
+  label: string;
+  createdAt: string;
+  taskId: string;
+  key: string;
+  title: string;
+  status: (typeof taskStatuses.enumValues)[number];
+  taskType: (typeof taskTypes.enumValues)[number];
+};
@@ -1,4 +1,5 @@
 // External dependencies
+import { useEffect } from "react";
 import {
   useMutation,
   useQuery,
@@ -10,14 +11,20 @@ import { z } from "zod";
 import { v4 as uuidv4 } from "uuid";
 
 // Internal dependencies
-import { client } from "@/lib/hono";
+import { client, clientId } from "@/lib/hono";
 import {
+  bulkUpdateTasksSchema,
   insertTaskSchema,
   updateTaskSchema,
   taskSchema,
 } from "@/database/schemas/task.schema";
 import { TaskFilters } from "../types";
+import { taskActivityKeys } from "./activity.queries";
+import { taskLinkKeys } from "./link.queries";
+import { TaskLabel } from "./label.queries";
 import { useTaskFiltersStore } from "@/stores/task-filters-store";
+import { useAuthStore } from "@/stores/auth-store";
+import type { TaskEvent } from "@/lib/events";
 import { toast } from "@/hooks/use-toast";
 
 // Types
@@ -26,21 +33,30 @@ export type Task = z.infer<typeof taskSchema> & {
   assigneeAvatarUrl: string | null;
   reporterName: string | null;
   reporterAvatarUrl: string | null;
+  parentKey?: string | null;
+  parentTitle?: string | null;
+  labels?: TaskLabel[];
+  blocked?: boolean;
+  attachmentCount?: number;
   optimisticStatus?: "creating" | "updating" | "deleting";
 };
 export type NewTask = z.infer<typeof insertTaskSchema>;
 export type UpdateTask = z.infer<typeof updateTaskSchema>;
+export type BulkTaskChanges = z.infer<typeof bulkUpdateTasksSchema>["changes"];
 
 /**
  * Query key factory for task-related queries
  * Centralizes all query keys for better maintainability
  */
-const taskKeys = {
+export const taskKeys = {
   all: ["tasks"] as const,
+  allLists: () => [...taskKeys.all, "list"] as const,
   lists: (limit?: number, offset?: number, filters?: TaskFilters) =>
-    [...taskKeys.all, "list", limit, offset, filters] as const,
+    [...taskKeys.allLists(), limit, offset, filters] as const,
   details: () => [...taskKeys.all, "detail"] as const,
   detail: (id: string) => [...taskKeys.details(), id] as const,
+  children: () => [...taskKeys.all, "children"] as const,
+  child: (id: string) => [...taskKeys.children(), id] as const,
 };
 
 /**
@@ -59,14 +75,17 @@ const handleApiError = (error: unknown): never => {
  * @param limit - Optional limit for the number of tasks to fetch
  * @param offset - Optional offset for pagination
  * @param filters - Optional filters for task querying
+ * @param enabled - Whether to fetch them, e.g. once a project is selected
  */
 export const useTasks = (
   limit?: number,
   offset?: number,
   filters?: TaskFilters,
+  enabled = true,
 ) => {
   return useQuery({
     queryKey: taskKeys.lists(limit, offset, filters),
+    enabled,
     queryFn: async () => {
       try {
         // Prepare query parameters
@@ -105,6 +124,27 @@ export const useTasks = (
   });
 };
 
+/**
+ * Builds the download URL of the task export
+ * Filters and sorting match the task list, the browser fetches the file itself
+ * @param params - List filters plus the export format, columns and task IDs
+ * @returns {string} - The export URL
+ */
+export const getTaskExportUrl = (
+  params: TaskFilters & {
+    format: "csv" | "json" | "xlsx";
+    columns?: string;
+    ids?: string;
+  },
+): string => {
+  // Empty filters are left out of the URL
+  const query = Object.fromEntries(
+    Object.entries(params).filter(([, value]) => !!value),
+  ) as Record<string, string>;
+
+  return client.api.tasks.export.$url({ query }).toString();
+};
+
 /**
  * Hook to fetch a single task
  * @param id - The ID of the task to fetch
@@ -137,6 +177,35 @@ export const useTask = (id: string): UseQueryResult<Task> => {
   });
 };
 
+/**
+ * Hook to fetch the child items of a task
+ * @param id - The ID of the parent task
+ * @returns {UseQueryResult} - The query result containing the child items
+ * and the story points and time spent rolled up over all descendants
+ */
+export const useTaskChildren = (id: string) => {
+  return useQuery({
+    queryKey: taskKeys.child(id),
+    enabled: !!id,
+    queryFn: async () => {
+      try {
+        const response = await client.api.tasks[":id"].children.$get({
+          param: { id },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching child items");
+        }
+
+        const data = await response.json();
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
 /**
  * Hook to create a new task
  * Provides optimistic updates and error handling
@@ -213,6 +282,9 @@ export const useCreateTask = () => {
       queryClient.invalidateQueries({
         queryKey: taskKeys.lists(limit, offset, appliedFilters),
       });
+      queryClient.invalidateQueries({
+        queryKey: taskKeys.children(),
+      });
     },
   });
 };
@@ -223,7 +295,6 @@ export const useCreateTask = () => {
  */
 export const useUpdateTask = () => {
   const queryClient = useQueryClient();
-  const { appliedFilters, limit, offset } = useTaskFiltersStore();
 
   return useMutation({
     mutationFn: async ({ id, data }: { id: string; data: UpdateTask }) => {
@@ -257,34 +328,33 @@ export const useUpdateTask = () => {
     onMutate: async ({ id, data }) => {
       // Cancel any outgoing refetches to prevent race conditions
       await queryClient.cancelQueries({
-        queryKey: taskKeys.lists(limit, offset, appliedFilters),
+        queryKey: taskKeys.allLists(),
       });
       await queryClient.cancelQueries({
         queryKey: taskKeys.detail(id),
       });
 
-      // Snapshot the previous tasks data
-      const previousTasks = queryClient.getQueryData<Task[]>(
-        taskKeys.lists(limit, offset, appliedFilters),
-      );
+      // Snapshot every cached list, the table and the board use different keys
+      const previousLists = queryClient.getQueriesData({
+        queryKey: taskKeys.allLists(),
+      });
 
       // Snapshot the previous task detail data
       const previousTask = queryClient.getQueryData<Task>(taskKeys.detail(id));
 
-      if (previousTasks) {
-        // Optimistically update the tasks list with the updated task
-        queryClient.setQueryData(
-          taskKeys.lists(limit, offset, appliedFilters),
-          (old: any) => ({
+      // Optimistically update the task in every list holding it
+      queryClient.setQueriesData(
+        { queryKey: taskKeys.allLists() },
+        (old: any) =>
+          old && {
             ...old,
             tasks: old.tasks.map((task: Task) =>
               task.id === id
                 ? { ...task, ...data, optimisticStatus: "updating" }
                 : task,
             ),
-          }),
-        );
-      }
+          },
+      );
 
       // Optimistically update the task detail
       if (previousTask) {
@@ -296,24 +366,33 @@ export const useUpdateTask = () => {
       }
 
       // Return the snapshots for potential rollback
-      return { previousTasks, previousTask };
+      return { previousLists, previousTask };
     },
     onError: (err, { id }, context) => {
-      // Rollback to the previous tasks data on error
-      queryClient.setQueryData(
-        taskKeys.lists(limit, offset, appliedFilters),
-        context?.previousTasks,
-      );
+      // Rollback every list to its previous data on error
+      context?.previousLists.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
       // Rollback to the previous task detail on error
       queryClient.setQueryData(taskKeys.detail(id), context?.previousTask);
     },
     onSettled: (_, __, { id }) => {
-      // Invalidate queries to refetch the updated task and tasks list
+      // Invalidate queries to refetch the updated task and tasks lists
       queryClient.invalidateQueries({
         queryKey: taskKeys.detail(id),
       });
       queryClient.invalidateQueries({
-        queryKey: taskKeys.lists(limit, offset, appliedFilters),
+        queryKey: taskKeys.allLists(),
+      });
+      queryClient.invalidateQueries({
+        queryKey: taskActivityKeys.lists(id),
+      });
+      // Linked tasks show the status of this one
+      queryClient.invalidateQueries({
+        queryKey: taskLinkKeys.all,
+      });
+      queryClient.invalidateQueries({
+        queryKey: taskKeys.children(),
       });
     },
   });
@@ -403,6 +482,9 @@ export const useDeleteTask = (): UseMutationResult<void, unknown, string> => {
       queryClient.invalidateQueries({
         queryKey: taskKeys.detail(id),
       });
+      queryClient.invalidateQueries({
+        queryKey: taskKeys.children(),
+      });
     },
   });
 };
@@ -483,3 +565,146 @@ export const useBulkDeleteTask = (): UseMutationResult<
     },
   });
 };
+
+/**
+ * Hook to apply the same changes to multiple tasks
+ * Provides optimistic updates and error handling
+ * @returns {UseMutationResult} - The mutation result for updating multiple tasks
+ */
+export const useBulkUpdateTask = (): UseMutationResult<
+  void,
+  unknown,
+  { ids: string[]; changes: BulkTaskChanges }
+> => {
+  const queryClient = useQueryClient();
+  const { appliedFilters, limit, offset } = useTaskFiltersStore();
+
+  return useMutation({
+    mutationFn: async ({ ids, changes }) => {
+      // Send a POST request to update multiple tasks
+      const response = await client.api.tasks["bulk-update"].$post({
+        json: { ids, changes },
+      });
+
+      // Check if the response is successful, rejected changes
+      // surface the server message
+      if (!response.ok) {
+        const { error } = (await response.json()) as { error?: string };
+        throw new Error(error ?? "Error in updating tasks");
+      }
+
+      toast({
+        title: "Tasks have been updated.",
+      });
+    },
+    onMutate: async ({ ids, changes }) => {
+      // Cancel any outgoing refetches to prevent race conditions
+      await queryClient.cancelQueries({
+        queryKey: taskKeys.lists(limit, offset, appliedFilters),
+      });
+
+      // Snapshot the previous tasks data
+      const previousTasks = queryClient.getQueryData(
+        taskKeys.lists(limit, offset, appliedFilters),
+      );
+
+      // Labels are left to the refetch, the other fields are applied
+      const { addLabelIds, removeLabelIds, ...fields } = changes;
+      const definedFields = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined),
+      );
+
+      // Optimistically update the tasks list to reflect the changes
+      queryClient.setQueryData(
+        taskKeys.lists(limit, offset, appliedFilters),
+        (old: any) =>
+          old && {
+            ...old,
+            tasks: old.tasks.map((task: Task) =>
+              ids.includes(task.id)
+                ? {
+                    ...task,
+                    ...definedFields,
+                    optimisticStatus: "updating",
+                  }
+                : task,
+            ),
+          },
+      );
+
+      // Return the snapshot for potential rollback
+      return { previousTasks };
+    },
+    onError: (error, _, context) => {
+      // Rollback to the previous tasks data on error
+      queryClient.setQueryData(
+        taskKeys.lists(limit, offset, appliedFilters),
+        context?.previousTasks,
+      );
+
+      toast({
+        title: "Tasks could not be updated.",
+        description: error instanceof Error ? error.message : undefined,
+        variant: "destructive",
+      });
+    },
+    onSettled: (_, __, { ids }) => {
+      // Invalidate queries to refetch the updated tasks
+      queryClient.invalidateQueries({ queryKey: taskKeys.allLists() });
+      ids.forEach((id) =>
+        queryClient.invalidateQueries({ queryKey: taskKeys.detail(id) }),
+      );
+      queryClient.invalidateQueries({ queryKey: taskKeys.children() });
+    },
+  });
+};
+
+/**
+ * Hook to apply the task changes made in other tabs, by other users or
+ * by the same user, while a task page is open, instead of waiting for
+ * the cached data to go stale
+ * A deleted task is dropped from the loaded lists at once, then the lists
+ * and the changed task are refetched
+ */
+export const useTaskEvents = () => {
+  const queryClient = useQueryClient();
+  const { userProfile } = useAuthStore();
+  const userId = userProfile?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const source = new EventSource(client.api.events.$url(), {
+      withCredentials: true,
+    });
+
+    source.addEventListener("task", (message) => {
+      const event = JSON.parse(message.data) as TaskEvent;
+
+      // The changes of this tab are already applied by the mutations
+      if (event.clientId === clientId) return;
+
+      if (event.type === "task.deleted") {
+        queryClient.setQueriesData(
+          { queryKey: taskKeys.allLists() },
+          (old: any) =>
+            old && {
+              ...old,
+              tasks: old.tasks.filter((task: Task) => task.id !== event.taskId),
+            },
+        );
+        queryClient.removeQueries({ queryKey: taskKeys.detail(event.taskId) });
+      } else {
+        queryClient.invalidateQueries({
+          queryKey: taskKeys.detail(event.taskId),
+        });
+      }
+
+      queryClient.invalidateQueries({ queryKey: taskKeys.allLists() });
+      // Subtask lists of a parent change with its children
+      queryClient.invalidateQueries({ queryKey: taskKeys.children() });
+    });
+
+    return () => source.close();
+  }, [queryClient, userId]);
+};
@@ -2,6 +2,7 @@ import { useQuery } from "@tanstack/react-query";
 import { z } from "zod";
 import { client } from "@/lib/hono";
 import { userProfileSchema } from "@/database/schemas/task.schema";
+import type { MentionItem } from "@/components/minimal-tiptap/types";
 
 /**
  * Query key factory for user-related queries
@@ -49,6 +50,20 @@ export const useUserProfiles = () => {
   });
 };
 
+/**
+ * Hook to list the users as people to @mention in the editor
+ * @returns {MentionItem[]} - The users, empty while loading
+ */
+export const useMentionItems = (): MentionItem[] => {
+  const { data: users } = useUserProfiles();
+
+  return (users ?? []).map((user) => ({
+    id: user.id,
+    label: user.name,
+    avatarUrl: user.avatarUrl,
+  }));
+};
+
 /**
  * Hook to fetch a single user
  * @param id - The ID of the user to fetch
@@ -0,0 +1,129 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { client } from "@/lib/hono";
+import { taskKeys } from "./task.queries";
+
+/**
+ * Query key factory for task watcher-related queries
+ */
+export const taskWatcherKeys = {
+  all: ["taskWatchers"] as const,
+  lists: (taskId: string) => [...taskWatcherKeys.all, "list", taskId] as const,
+};
+
+/**
+ * Helper function to handle API errors
+ * @param error - The error object caught in the try-catch block
+ * @throws {Error} - Throws an error with a descriptive message
+ */
+const handleApiError = (error: unknown): never => {
+  if (error instanceof Error) {
+    throw new Error(`API Error: ${error.message}`);
+  }
+  throw new Error("An unknown error occurred");
+};
+
+/**
+ * Hook to fetch the users watching a task
+ * @param taskId - The ID of the task
+ * @returns {UseQueryResult} - The query result containing the watchers
+ */
+export const useTaskWatchers = (taskId: string) => {
+  return useQuery({
+    queryKey: taskWatcherKeys.lists(taskId),
+    enabled: !!taskId,
+    queryFn: async () => {
+      try {
+        const response = await client.api.tasks[":id"].watchers.$get({
+          param: { id: taskId },
+        });
+
+        if (!response.ok) {
+          throw new Error("Error in fetching task watchers");
+        }
+
+        const data = (await response.json()) as TaskWatcher[];
+        return data;
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+  });
+};
+
+/**
+ * Hook to watch or stop watching a task as the signed-in user
+ * Provides optimistic updates and error handling
+ * @returns {UseMutationResult} - The mutation result for toggling watching
+ */
+export const useToggleWatchTask = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      taskId,
+      watch,
+    }: {
+      taskId: string;
+      watch: boolean;
+      watcher: TaskWatcher;
+    }) => {
+      try {
+        const request = client.api.tasks[":id"].watch;
+        const response = watch
+          ? await request.$post({ param: { id: taskId } })
+          : await request.$delete({ param: { id: taskId } });
+
+        if (!response.ok) {
+          throw new Error("Error in updating task watchers");
+        }
+      } catch (error) {
+        handleApiError(error);
+      }
+    },
+    onMutate: async ({ taskId, watch, watcher }) => {
+      // Cancel any outgoing refetches
+      await queryClient.cancelQueries({
+        queryKey: taskWatcherKeys.lists(taskId),
+      });
+
+      // Snapshot the previous value
+      const previousWatchers = queryClient.getQueryData<TaskWatcher[]>(
+        taskWatcherKeys.lists(taskId),
+      );
+
+      // Optimistically add or remove the user
+      queryClient.setQueryData<TaskWatcher[]>(
+        taskWatcherKeys.lists(taskId),
+        (old = []) => [
+          ...old.filter((user) => user.id !== watcher.id),
+          ...(watch ? [watcher] : []),
+        ],
+      );
+
+      return { previousWatchers };
+    },
+    onError: (_, { taskId }, context) => {
+      // If the mutation fails, roll back to the previous value
+      if (context?.previousWatchers) {
+        queryClient.setQueryData(
+          taskWatcherKeys.lists(taskId),
+          context.previousWatchers,
+        );
+      }
+    },
+    onSettled: (_, __, { taskId }) => {
+      queryClient.invalidateQueries({
+        queryKey: taskWatcherKeys.lists(taskId),
+      });
+      // The "Watching" quick filter depends on it
+      queryClient.invalidateQueries({ queryKey: taskKeys.allLists() });
+    },
+  });
+};
+
+// Export types for use in components
+export type TaskWatcher = {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+};
@@ -1,17 +1,24 @@
 import * as z from "zod";
 import { taskPriorities, taskStatuses, taskTypes } from "@/database/schemas/task.schema";
 
-export const taskSchema = z.object({
-  title: z.string().min(1, "Title is required"),
-  description: z.string().optional(),
-  status: z.enum(taskStatuses.enumValues),
-  dueDate: z.string().optional(),
-  assigneeId: z.string().min(1, "Assignee is required"),
-  priority: z.enum(taskPriorities.enumValues).optional(),
-  type: z.enum(taskTypes.enumValues).optional(),
-  storyPoints: z.number().min(0).optional(),
-  timeEstimate: z.number().min(0).optional(),
-  timeSpent: z.number().min(0).optional(),
-});
+export const taskSchema = z
+  .object({
+    title: z.string().min(1, "Title is required"),
+    description: z.string().optional(),
+    status: z.enum(taskStatuses.enumValues),
+    dueDate: z.string().optional(),
+    assigneeId: z.string().min(1, "Assignee is required"),
+    priority: z.enum(taskPriorities.enumValues).optional(),
+    type: z.enum(taskTypes.enumValues).optional(),
+    storyPoints: z.number().min(0).optional(),
+    timeEstimate: z.number().min(0).optional(),
+    timeSpent: z.number().min(0).optional(),
+    parentId: z.string().optional(),
+    labelIds: z.array(z.string()).optional(),
+  })
+  .refine((data) => data.type !== "subtask" || !!data.parentId, {
+    message: "A subtask needs a parent",
+    path: ["parentId"],
+  });
 
 export type TaskFormData = z.infer<typeof taskSchema>;
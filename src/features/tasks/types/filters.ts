@@ -4,6 +4,7 @@ export interface TaskFilterStates {
   selectedStatus: string[];
   selectedAssignee: string[];
   selectedPriority: string[];
+  selectedLabel: string[];
   createdDateRangeFrom: Date | undefined;
   createdDateRangeTo: Date | undefined;
   dueDateRangeFrom: Date | undefined;
@@ -27,11 +27,13 @@ export interface TaskFilters {
   search?: string;
   sort?: string;
   order?: string;
+  project?: string;
   status?: string;
   type?: string;
   priority?: string;
   assignee?: string;
   reporter?: string;
+  watcher?: string;
   label?: string;
   createdAtFrom?: string;
   createdAtTo?: string;
@@ -0,0 +1,124 @@
+import type { Context } from "hono";
+import { getCookie } from "hono/cookie";
+import { createMiddleware } from "hono/factory";
+import { getSessionUser } from "@/database/services/auth.service";
+import { SESSION_COOKIE } from "@/constants";
+
+/**
+ * Authentication helpers for the API
+ * Uses Web Crypto for password hashing and session tokens
+ */
+
+// Sessions last 30 days
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 30;
+
+const PBKDF2_ITERATIONS = 100_000;
+
+export type SessionUser = NonNullable<
+  Awaited<ReturnType<typeof getSessionUser>>
+>;
+
+/**
+ * Hono environment for routes behind the auth middleware
+ */
+export type AuthEnv = {
+  Variables: {
+    userProfile: SessionUser;
+  };
+};
+
+const toHex = (buffer: ArrayBuffer | Uint8Array): string =>
+  Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+const fromHex = (hex: string): Uint8Array =>
+  new Uint8Array(hex.match(/.{2}/g)?.map((byte) => parseInt(byte, 16)) ?? []);
+
+const derivePasswordKey = async (
+  password: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<string> => {
+  const keyMaterial = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    keyMaterial,
+    256,
+  );
+  return toHex(bits);
+};
+
+/**
+ * Hash a password as "pbkdf2$<iterations>$<salt>$<hash>"
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await derivePasswordKey(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toHex(salt)}$${hash}`;
+};
+
+/**
+ * Check a password against a hash produced by hashPassword
+ */
+export const verifyPassword = async (
+  password: string,
+  passwordHash: string,
+): Promise<boolean> => {
+  const [scheme, iterations, salt, hash] = passwordHash.split("$");
+  if (scheme !== "pbkdf2" || !iterations || !salt || !hash) return false;
+
+  const candidate = await derivePasswordKey(
+    password,
+    fromHex(salt),
+    Number(iterations),
+  );
+
+  // Compare every character to avoid leaking timing information
+  let mismatch = candidate.length ^ hash.length;
+  for (let i = 0; i < candidate.length; i++) {
+    mismatch |= candidate.charCodeAt(i) ^ hash.charCodeAt(i);
+  }
+  return mismatch === 0;
+};
+
+/**
+ * Generate a random session token, only its hash is stored
+ */
+export const generateSessionToken = (): string =>
+  toHex(crypto.getRandomValues(new Uint8Array(32)));
+
+export const hashSessionToken = async (token: string): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token)));
+
+/**
+ * Resolve the user owning the session cookie of the request
+ */
+export const resolveSessionUser = async (
+  c: Context,
+): Promise<SessionUser | undefined> => {
+  const token = getCookie(c, SESSION_COOKIE);
+  return token ? getSessionUser(await hashSessionToken(token)) : undefined;
+};
+
+/**
+ * Auth middleware
+ * Resolves the caller's user profile from the session cookie
+ * and rejects the request when there is no valid session
+ */
+export const authMiddleware = createMiddleware<AuthEnv>(async (c, next) => {
+  const userProfile = await resolveSessionUser(c);
+
+  if (!userProfile) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  c.set("userProfile", userProfile);
+  await next();
+});
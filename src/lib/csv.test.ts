@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { parseCsv } from "./csv";
+
+describe("parseCsv", () => {
+  it("splits rows and cells", () => {
+    expect(parseCsv("title,type\nLogin,bug\nSignup,story")).toEqual([
+      ["title", "type"],
+      ["Login", "bug"],
+      ["Signup", "story"],
+    ]);
+  });
+
+  it("reads CRLF, LF and lone CR line endings", () => {
+    expect(parseCsv("a,b\r\nc,d\re,f\ng,h")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+      ["e", "f"],
+      ["g", "h"],
+    ]);
+  });
+
+  it("keeps commas, line breaks and doubled quotes inside quotes", () => {
+    expect(
+      parseCsv('title,description\n"Fix, then ship","Line 1\r\nSay ""hi"""'),
+    ).toEqual([
+      ["title", "description"],
+      ["Fix, then ship", 'Line 1\r\nSay "hi"'],
+    ]);
+  });
+
+  it("keeps empty cells, quoted or not", () => {
+    expect(parseCsv('a,,c\n"",b,\n')).toEqual([
+      ["a", "", "c"],
+      ["", "b", ""],
+    ]);
+  });
+
+  it("skips blank lines but not rows of empty cells", () => {
+    expect(parseCsv("a\n\n  \n,\nb\n")).toEqual([["a"], ["", ""], ["b"]]);
+  });
+
+  it("drops a byte order mark", () => {
+    expect(parseCsv("\uFEFFtitle\nLogin")).toEqual([["title"], ["Login"]]);
+  });
+
+  it("ends the last row without a trailing line break", () => {
+    expect(parseCsv("a,b")).toEqual([["a", "b"]]);
+    expect(parseCsv("a,")).toEqual([["a", ""]]);
+  });
+
+  it("reads text after a closing quote into the same cell", () => {
+    expect(parseCsv('"quoted" rest,b')).toEqual([["quoted rest", "b"]]);
+  });
+
+  it("keeps an unclosed quote to the end of the input", () => {
+    expect(parseCsv('a,"open\nstill open')).toEqual([
+      ["a", "open\nstill open"],
+    ]);
+  });
+
+  it("returns no rows for empty input", () => {
+    expect(parseCsv("")).toEqual([]);
+    expect(parseCsv("\r\n\n")).toEqual([]);
+  });
+});
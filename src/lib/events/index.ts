@@ -0,0 +1,71 @@
+import type { Context } from "hono";
+import { createMemoryEventBus } from "./memory";
+import { CLIENT_ID_HEADER } from "@/constants";
+
+export type EventListener<T> = (event: T) => void;
+
+/**
+ * Event bus interface
+ * Carries events from the API routes that change data to the event
+ * streams of the clients. A Postgres LISTEN/NOTIFY driver can stand in
+ * for the in-process one by implementing the same two methods
+ */
+export interface EventBus {
+  publish: <T>(channel: string, event: T) => void;
+  // Returns a function that stops listening
+  subscribe: <T>(channel: string, listener: EventListener<T>) => () => void;
+}
+
+/**
+ * Change to a task, sent to the members of its project
+ */
+export interface TaskEvent {
+  type: "task.created" | "task.updated" | "task.deleted";
+  taskId: string;
+  projectId: string;
+  actorId: string;
+  clientId?: string; // Browser tab that made the change
+}
+
+// Channel of the task events of a project
+export const taskEventsChannel = (projectId: string) =>
+  `project-tasks:${projectId}`;
+
+/**
+ * Reads the browser tab that sent a request, set on the events the
+ * request publishes
+ * @param c - Context of the request
+ * @returns {string | undefined} - The tab's ID, when the app sent one
+ */
+export const getClientId = (c: Context) => c.req.header(CLIENT_ID_HEADER);
+
+let eventBus: EventBus | undefined;
+
+/**
+ * Returns the event bus shared by the API routes
+ * @returns {EventBus} - The shared bus instance
+ */
+export const getEventBus = (): EventBus => {
+  if (!eventBus) {
+    eventBus = createMemoryEventBus();
+  }
+
+  return eventBus;
+};
+
+/**
+ * Delivers an event to the current listeners of a channel
+ * @param channel - Name of the channel
+ * @param event - The event, serializable to JSON
+ */
+export const publish = <T>(channel: string, event: T) =>
+  getEventBus().publish(channel, event);
+
+/**
+ * Listens to the events of a channel
+ * @param channel - Name of the channel, e.g. "task-comments:<task id>"
+ * @param listener - Called with each published event
+ * @returns {() => void} - Stops listening
+ */
+export const subscribe = <T>(channel: string, listener: EventListener<T>) =>
+  getEventBus().subscribe(channel, listener);
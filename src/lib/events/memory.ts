@@ -0,0 +1,37 @@
+import type { EventBus, EventListener } from ".";
+
+// Kept on globalThis so that routes reloaded in development share the
+// subscribers of the streams already open
+const globalForEvents = globalThis as unknown as {
+  eventChannels?: Map<string, Set<EventListener<unknown>>>;
+};
+
+/**
+ * In-process event bus
+ * Delivers events to the streams open on the same server only, so a
+ * deployment running several server instances needs a shared broker
+ * @returns {EventBus} - The bus
+ */
+export const createMemoryEventBus = (): EventBus => {
+  const channels = (globalForEvents.eventChannels ??= new Map<
+    string,
+    Set<EventListener<unknown>>
+  >());
+
+  return {
+    publish: (channel, event) => {
+      channels.get(channel)?.forEach((listener) => listener(event));
+    },
+
+    subscribe: (channel, listener) => {
+      const listeners = channels.get(channel) ?? new Set();
+      listeners.add(listener as EventListener<unknown>);
+      channels.set(channel, listeners);
+
+      return () => {
+        listeners.delete(listener as EventListener<unknown>);
+        if (listeners.size === 0) channels.delete(channel);
+      };
+    },
+  };
+};
@@ -0,0 +1,32 @@
+import type { Context } from "hono";
+import { streamSSE } from "hono/streaming";
+import { subscribe } from ".";
+import { EVENT_STREAM_PING_INTERVAL } from "@/constants";
+
+/**
+ * Server-sent events stream of the events published on some channels
+ * Each event is sent under the given SSE event name, and pings keep
+ * proxies from closing the idle connection until the client leaves
+ * @param c - Context of the request opening the stream
+ * @param channels - Channels to listen to
+ * @param eventName - SSE event name of the published events
+ * @returns {Response} - The streaming response
+ */
+export const streamChannelEvents = (
+  c: Context,
+  channels: string[],
+  eventName: string,
+) =>
+  streamSSE(c, async (stream) => {
+    const unsubscribes = channels.map((channel) =>
+      subscribe(channel, (event) => {
+        stream.writeSSE({ event: eventName, data: JSON.stringify(event) });
+      }),
+    );
+    stream.onAbort(() => unsubscribes.forEach((unsubscribe) => unsubscribe()));
+
+    while (!stream.aborted) {
+      await stream.sleep(EVENT_STREAM_PING_INTERVAL);
+      await stream.writeSSE({ event: "ping", data: "" });
+    }
+  });
@@ -1,16 +1,31 @@
 import { AppType } from "@/app/api/[[...route]]/route";
 import { hc } from "hono/client";
+import { CLIENT_ID_HEADER } from "@/constants";
 
 /**
  * Hono client configuration
  * This client is used for making API requests to the application's backend.
  */
 
+/**
+ * ID of this browser tab, sent with every request. The events of the
+ * changes a tab makes carry it, so the tab can tell them apart from the
+ * changes made elsewhere, the same user's other tabs included
+ */
+export const clientId = Array.from(
+  crypto.getRandomValues(new Uint8Array(16)),
+  (byte) => byte.toString(16).padStart(2, "0"),
+).join("");
+
 /**
  * Create a typed Hono client instance
+ * Requests include the session cookie so the API can identify the user
  * @type {ReturnType<typeof hc<AppType>>}
  */
-export const client = hc<AppType>(process.env.NEXT_PUBLIC_APP_URL!);
+export const client = hc<AppType>(process.env.NEXT_PUBLIC_APP_URL!, {
+  init: { credentials: "include" },
+  headers: { [CLIENT_ID_HEADER]: clientId },
+});
 
 // Ensure the environment variable is set
 if (!process.env.NEXT_PUBLIC_APP_URL) {
@@ -0,0 +1,43 @@
+import { createLocalStorage } from "./local";
+import { createS3Storage } from "./s3";
+
+/**
+ * Storage driver interface
+ * Keeps the bytes of uploaded files, the database only knows their keys
+ */
+export interface StorageDriver {
+  put: (key: string, body: Uint8Array, contentType: string) => Promise<void>;
+  // Resolves to null when nothing is stored under the key
+  get: (key: string) => Promise<ReadableStream<Uint8Array> | null>;
+  // Short-lived URL the file can be downloaded from directly, for drivers
+  // that can sign one
+  getDownloadUrl?: (
+    key: string,
+    options: { contentType: string; contentDisposition: string },
+  ) => Promise<string>;
+  remove: (key: string) => Promise<void>;
+}
+
+let storage: StorageDriver | undefined;
+
+/**
+ * Returns the configured storage driver: the local filesystem by default,
+ * an S3-compatible bucket when STORAGE_DRIVER is "s3"
+ * @returns {StorageDriver} - The shared driver instance
+ */
+export const getStorage = (): StorageDriver => {
+  if (!storage) {
+    storage =
+      process.env.STORAGE_DRIVER === "s3"
+        ? createS3Storage({
+            endpoint: process.env.S3_ENDPOINT!,
+            region: process.env.S3_REGION ?? "us-east-1",
+            bucket: process.env.S3_BUCKET!,
+            accessKeyId: process.env.S3_ACCESS_KEY_ID!,
+            secretAccessKey: process.env.S3_SECRET_ACCESS_KEY!,
+          })
+        : createLocalStorage(process.env.STORAGE_LOCAL_DIR ?? ".attachments");
+  }
+
+  return storage;
+};
@@ -0,0 +1,51 @@
+import { createReadStream } from "fs";
+import { mkdir, rm, stat, writeFile } from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import type { StorageDriver } from ".";
+
+/**
+ * Local filesystem storage driver
+ * Stores each file below the given directory, relative to the working
+ * directory of the server
+ * @param directory - Directory holding the files
+ * @returns {StorageDriver} - The driver
+ */
+export const createLocalStorage = (directory: string): StorageDriver => {
+  const root = path.resolve(directory);
+
+  // Keys never point outside the storage directory
+  const filePath = (key: string) => {
+    const resolved = path.resolve(root, key);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  };
+
+  return {
+    put: async (key, body) => {
+      const target = filePath(key);
+      await mkdir(path.dirname(target), { recursive: true });
+      await writeFile(target, body);
+    },
+
+    get: async (key) => {
+      const target = filePath(key);
+
+      try {
+        await stat(target);
+      } catch {
+        return null;
+      }
+
+      return Readable.toWeb(
+        createReadStream(target),
+      ) as ReadableStream<Uint8Array>;
+    },
+
+    remove: async (key) => {
+      await rm(filePath(key), { force: true });
+    },
+  };
+};
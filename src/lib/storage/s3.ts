@@ -0,0 +1,82 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  NoSuchKey,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import type { StorageDriver } from ".";
+
+interface S3StorageOptions {
+  endpoint: string; // e.g. https://s3.eu-west-1.amazonaws.com or a MinIO URL
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+// Seconds a signed download URL stays valid
+const DOWNLOAD_URL_EXPIRES_IN = 5 * 60;
+
+/**
+ * S3-compatible storage driver
+ * Uses the AWS SDK over path-style URLs, so it works with AWS S3, MinIO,
+ * R2 and the like. Downloads are served from signed bucket URLs
+ * @param options - Endpoint, bucket and credentials
+ * @returns {StorageDriver} - The driver
+ */
+export const createS3Storage = (options: S3StorageOptions): StorageDriver => {
+  const client = new S3Client({
+    endpoint: options.endpoint,
+    region: options.region,
+    forcePathStyle: true,
+    credentials: {
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+    },
+  });
+  const { bucket } = options;
+
+  return {
+    put: async (key, body, contentType) => {
+      await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: body,
+          ContentType: contentType,
+        }),
+      );
+    },
+
+    get: async (key) => {
+      try {
+        const { Body } = await client.send(
+          new GetObjectCommand({ Bucket: bucket, Key: key }),
+        );
+        return Body?.transformToWebStream() ?? null;
+      } catch (error) {
+        if (error instanceof NoSuchKey) return null;
+        throw error;
+      }
+    },
+
+    getDownloadUrl: (key, { contentType, contentDisposition }) =>
+      getSignedUrl(
+        client,
+        new GetObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          ResponseContentType: contentType,
+          ResponseContentDisposition: contentDisposition,
+        }),
+        { expiresIn: DOWNLOAD_URL_EXPIRES_IN },
+      ),
+
+    // Deleting a missing object succeeds
+    remove: async (key) => {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+    },
+  };
+};
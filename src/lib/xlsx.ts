@@ -0,0 +1,47 @@
+/**
+ * XLSX writer
+ * Streams a single-sheet workbook row by row with the exceljs streaming
+ * writer, so large exports are never held in memory as a whole
+ */
+import { PassThrough, Readable } from "node:stream";
+import { once } from "node:events";
+import ExcelJS from "exceljs";
+
+export type XlsxCell = string | number | null;
+
+/**
+ * Stream a workbook of one sheet, reading the rows as the client
+ * consumes the file
+ * @param sheetName - Name of the only sheet
+ * @param rows - Rows of the sheet, the header row first
+ */
+export const createXlsxStream = (
+  sheetName: string,
+  rows: AsyncIterable<XlsxCell[]>,
+): ReadableStream<Uint8Array> => {
+  const output = new PassThrough();
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: output });
+  const sheet = workbook.addWorksheet(sheetName);
+
+  const writeRows = async () => {
+    for await (const row of rows) {
+      sheet.addRow(row).commit();
+
+      // Wait for the client to catch up before reading more rows
+      if (output.writableNeedDrain) await once(output, "drain");
+    }
+
+    sheet.commit();
+    await workbook.commit();
+  };
+
+  writeRows().catch((error) => {
+    console.error("Error writing XLSX:", error);
+    output.destroy(error);
+  });
+
+  return Readable.toWeb(output) as ReadableStream<Uint8Array>;
+};
+
+export const XLSX_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE } from "@/constants";
+
+/**
+ * Route Guard Middleware
+ * Sends visitors without a session cookie to the sign-in page.
+ * The session itself is validated by the API on every request.
+ */
+export function middleware(request: NextRequest) {
+  if (request.cookies.has(SESSION_COOKIE)) {
+    return NextResponse.next();
+  }
+
+  const signInUrl = new URL("/sign-in", request.url);
+  signInUrl.searchParams.set("redirectTo", request.nextUrl.pathname);
+
+  return NextResponse.redirect(signInUrl);
+}
+
+export const config = {
+  matcher: [
+    "/tasks/:path*",
+    "/orders/:path*",
+    "/customers/:path*",
+    "/products/:path*",
+  ],
+};
@@ -7,11 +7,16 @@ import { useIsClient } from "@uidotdev/usehooks";
 // Task sheet components
 import { NewTaskSheet } from "@/features/tasks/components/add-task/new-task-sheet";
 import { UpdateTaskSheet } from "@/features/tasks/components/update-task/update-task-sheet";
+import { ImportTasksSheet } from "@/features/tasks/components/import-tasks/import-tasks-sheet";
+
+// Order sheet components
+import { NewOrderSheet } from "@/features/orders/components/new-order-sheet";
+import { UpdateOrderSheet } from "@/features/orders/components/update-order-sheet";
 
 /**
  * SheetProvider Component
- * Provides task-related sheet components (new task and update task)
- * with client-side rendering protection.
+ * Provides the sheet components (new task, update task and import, new and
+ * update order) with client-side rendering protection.
  *
  * @component
  * @example
@@ -34,9 +39,12 @@ export const SheetProvider: React.FC = () => {
   }
 
   return (
-    <div role="region" aria-label="Task management sheets">
+    <div role="region" aria-label="Management sheets">
       <NewTaskSheet />
       <UpdateTaskSheet />
+      <ImportTasksSheet />
+      <NewOrderSheet />
+      <UpdateOrderSheet />
     </div>
   );
 };
@@ -0,0 +1,77 @@
+// External dependencies
+import { create } from "zustand";
+
+// Internal dependencies
+import { OrderFilters, OrderFilterStates } from "@/features/orders/types";
+
+/**
+ * Interface defining the state and actions for the order filters store
+ */
+interface OrderFiltersStoreState {
+  filter: OrderFilterStates;
+  appliedFilters: OrderFilters;
+  setFilter: (filter: OrderFilterStates) => void;
+  setSearch: (search?: string) => void;
+  clearFilter: () => void;
+}
+
+// Filter bar values with nothing selected
+const EMPTY_FILTER: OrderFilterStates = {
+  selectedCustomer: [],
+  selectedProduct: [],
+  orderDateRangeFrom: undefined,
+  orderDateRangeTo: undefined,
+  minAmount: undefined,
+  maxAmount: undefined,
+};
+
+/**
+ * Custom hook for managing order filters state
+ * Utilizes Zustand for state management
+ */
+export const useOrderFiltersStore = create<OrderFiltersStoreState>(
+  (set, get) => ({
+    // Initial state values
+    filter: EMPTY_FILTER,
+    appliedFilters: {
+      search: "",
+    },
+
+    /**
+     * Sets the filter state and updates applied filters
+     * @param filter - The new filter state to apply
+     */
+    setFilter: (filter: OrderFilterStates) => {
+      const { search } = get().appliedFilters;
+
+      set({
+        filter,
+        appliedFilters: {
+          search,
+          customer: filter.selectedCustomer.join(",") || undefined,
+          product: filter.selectedProduct.join(",") || undefined,
+          orderDateFrom: filter.orderDateRangeFrom?.toISOString(),
+          orderDateTo: filter.orderDateRangeTo?.toISOString(),
+          minAmount: filter.minAmount?.toString(),
+          maxAmount: filter.maxAmount?.toString(),
+        },
+      });
+    },
+
+    /**
+     * Sets the search term in the applied filters
+     * @param search - The search term to apply
+     */
+    setSearch: (search?: string) =>
+      set({ appliedFilters: { ...get().appliedFilters, search } }),
+
+    /**
+     * Clears the filter bar, the search is kept
+     */
+    clearFilter: () =>
+      set({
+        filter: EMPTY_FILTER,
+        appliedFilters: { search: get().appliedFilters.search },
+      }),
+  }),
+);
@@ -0,0 +1,42 @@
+import { create } from "zustand";
+
+// Key for local storage
+const PROJECT_STORAGE_KEY = "projectId";
+
+/**
+ * Interface defining the state and actions for the project store
+ */
+interface ProjectStoreState {
+  projectId: string | null;
+  setProjectId: (projectId: string | null) => void;
+}
+
+/**
+ * Custom hook for managing the selected project
+ * Utilizes Zustand for state management
+ */
+export const useProjectStore = create<ProjectStoreState>((set) => {
+  // Restore the last selected project from local storage if available
+  const storedProjectId =
+    typeof window !== "undefined"
+      ? localStorage.getItem(PROJECT_STORAGE_KEY)
+      : null;
+
+  return {
+    // Initial state
+    projectId: storedProjectId,
+
+    // Actions
+    setProjectId: (projectId: string | null) => {
+      // Update state
+      set({ projectId });
+
+      // Persist to local storage
+      if (projectId) {
+        localStorage.setItem(PROJECT_STORAGE_KEY, projectId);
+      } else {
+        localStorage.removeItem(PROJECT_STORAGE_KEY);
+      }
+    },
+  };
+});
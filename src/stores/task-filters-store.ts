@@ -18,6 +18,7 @@ interface TaskFiltersStoreState {
   sorting?: SortingState;
   setFilter: (filter: TaskFilterStates) => void;
   setSearch: (search?: string) => void;
+  setWatcher: (watcher?: string) => void;
   setLimit: (limit?: number) => void;
   setOffset: (offset?: number) => void;
   clearFilter: () => void;
@@ -43,6 +44,7 @@ export const useTaskFiltersStore = create<TaskFiltersStoreState>(
       selectedStatus: [],
       selectedAssignee: [],
       selectedPriority: [],
+      selectedLabel: [],
       createdDateRangeFrom: undefined,
       createdDateRangeTo: undefined,
       dueDateRangeFrom: undefined,
@@ -66,10 +68,12 @@ export const useTaskFiltersStore = create<TaskFiltersStoreState>(
         search: currentAppliedFilters?.search,
         sort: currentAppliedFilters?.sort,
         order: currentAppliedFilters?.order,
+        watcher: currentAppliedFilters?.watcher,
         status: filter.selectedStatus?.join(","),
         type: filter.selectedType?.join(","),
         priority: filter.selectedPriority?.join(","),
         assignee: filter.selectedAssignee?.join(","),
+        label: filter.selectedLabel?.join(","),
         createdAtFrom: filter.createdDateRangeFrom?.toISOString(),
         createdAtTo: filter.createdDateRangeTo?.toISOString(),
         dueDateFrom: filter.dueDateRangeFrom?.toISOString(),
@@ -96,6 +100,13 @@ export const useTaskFiltersStore = create<TaskFiltersStoreState>(
       });
     },
 
+    /**
+     * Sets the "Watching" quick filter, kept apart from the filter panel
+     * @param watcher - ID of the watching user, none to show every task
+     */
+    setWatcher: (watcher?: string) =>
+      set({ appliedFilters: { ...get().appliedFilters, watcher } }),
+
     /**
      * Sets the limit for pagination
      * @param limit - The limit to set
@@ -119,6 +130,7 @@ export const useTaskFiltersStore = create<TaskFiltersStoreState>(
           selectedStatus: [],
           selectedAssignee: [],
           selectedPriority: [],
+          selectedLabel: [],
           createdDateRangeFrom: undefined,
           createdDateRangeTo: undefined,
           dueDateRangeFrom: undefined,